@@ -1,5 +1,275 @@
-import { ComingSoon } from '@/components/coming-soon';
+'use client';
+
+/**
+ * Agents Page
+ *
+ * Live dashboard of the project's agent sessions: running and queued sessions across all task
+ * managers (task, provider, phase, elapsed time, last message, token usage) with Stop and Attach,
+ * and the history of finished sessions read back from their stream logs. Refreshes every
+ * 3 seconds. Gates on projectPath like Worktrees.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useProjectStore } from '@/store/project-store';
+import { apiFetch } from '@/lib/api-client';
+import { AgentSessionCard, AgentSessionView } from '@/components/agents/agent-session-card';
+import { AgentTerminalDialog } from '@/components/agents/agent-terminal-dialog';
+import { Button } from '@/components/ui/button';
+import { Loader2, AlertCircle, Bot } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ActiveAgentSummary } from '@/lib/agents/registry';
+import type { AgentHistoryEntry } from '@/lib/agents/agent-history';
+
+const REFRESH_INTERVAL_MS = 3000;
+
+type AgentsResponse = {
+  active: (ActiveAgentSummary & { taskTitle?: string })[];
+  history: (AgentHistoryEntry & { taskTitle?: string })[];
+};
+
+function toActiveView(session: AgentsResponse['active'][number]): AgentSessionView {
+  return {
+    taskId: session.taskId,
+    taskTitle: session.taskTitle,
+    threadId: session.threadId,
+    provider: session.provider,
+    phase: session.phase,
+    subtaskId: session.subtaskId,
+    status: session.status,
+    queuePosition: session.queuePosition,
+    startedAt: session.startedAt,
+    elapsedMs: session.elapsedMs,
+    lastMessage: session.lastMessage,
+    inputTokens: session.usage.inputTokens,
+    outputTokens: session.usage.outputTokens,
+    costUsd: session.usage.costUsd,
+  };
+}
 
 export default function AgentsPage() {
-  return <ComingSoon />;
+  const projectPath = useProjectStore((s) => s.projectPath);
+  const [active, setActive] = useState<AgentSessionView[]>([]);
+  const [history, setHistory] = useState<AgentSessionView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stopping, setStopping] = useState<Set<string>>(new Set());
+  const [attached, setAttached] = useState<AgentSessionView | null>(null);
+
+  const fetchAgents = useCallback(
+    async (silent = false) => {
+      if (!projectPath) {
+        setActive([]);
+        setHistory([]);
+        setLoading(false);
+        setError(null);
+        return;
+      }
+      if (!silent) {
+        setLoading(true);
+        setError(null);
+      }
+      try {
+        const res = await apiFetch('/api/agents/list');
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          // Background refreshes keep the last good data
+          if (!silent) {
+            setError(
+              typeof body?.error === 'string' ? body.error : `Request failed (${res.status})`
+            );
+          }
+          return;
+        }
+        const data = body as AgentsResponse;
+        setActive(data.active.map(toActiveView));
+        setHistory(data.history);
+        setError(null);
+      } catch (err) {
+        if (!silent) setError(err instanceof Error ? err.message : 'Failed to load agents');
+      } finally {
+        if (!silent) setLoading(false);
+      }
+    },
+    [projectPath]
+  );
+
+  useEffect(() => {
+    fetchAgents();
+    const interval = setInterval(() => fetchAgents(true), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchAgents]);
+
+  const handleStop = useCallback(
+    async (session: AgentSessionView) => {
+      setStopping((prev) => new Set(prev).add(session.threadId));
+      try {
+        const res = await apiFetch('/api/agents/stop', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ threadId: session.threadId }),
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(body.error ?? `Stop failed (${res.status})`);
+        toast.success('Agent stopped');
+        await fetchAgents(true);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to stop agent');
+      } finally {
+        setStopping((prev) => {
+          const next = new Set(prev);
+          next.delete(session.threadId);
+          return next;
+        });
+      }
+    },
+    [fetchAgents]
+  );
+
+  if (!projectPath) {
+    return (
+      <div
+        data-testid="agents-no-project"
+        className="min-h-screen flex flex-col items-center justify-center gap-6 p-6"
+        style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+      >
+        <div
+          className="rounded-lg border p-8 max-w-md w-full text-center space-y-4"
+          style={{
+            background: 'var(--color-surface)',
+            borderColor: 'var(--color-border)',
+          }}
+        >
+          <Bot className="w-12 h-12 mx-auto" style={{ color: 'var(--color-text-muted)' }} />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+            Select a project
+          </h2>
+          <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            Open a project from the sidebar to view its agents.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div
+        className="min-h-screen flex flex-col items-center justify-center gap-4 p-6"
+        style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+      >
+        <Loader2 className="w-10 h-10 animate-spin" style={{ color: 'var(--color-primary)' }} />
+        <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          Loading agents…
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div
+        data-testid="agents-error-state"
+        className="min-h-screen flex flex-col items-center justify-center gap-6 p-6"
+        style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+      >
+        <div
+          className="rounded-lg border p-6 max-w-md w-full text-center space-y-4"
+          style={{
+            background: 'var(--color-surface)',
+            borderColor: 'var(--color-border)',
+          }}
+        >
+          <AlertCircle
+            className="w-12 h-12 mx-auto"
+            style={{ color: 'var(--color-destructive)' }}
+          />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+            Something went wrong
+          </h2>
+          <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {error}
+          </p>
+          <Button
+            onClick={() => fetchAgents()}
+            style={{
+              backgroundColor: 'var(--color-primary)',
+              color: 'var(--color-primary-text)',
+            }}
+          >
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="min-h-screen p-6"
+      style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+    >
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header>
+          <h1 className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>
+            Agents
+          </h1>
+          <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            Running agent sessions across all tasks, and the history of finished ones.
+          </p>
+        </header>
+
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+            Running and queued ({active.length})
+          </h2>
+          {active.length === 0 ? (
+            <div
+              data-testid="agents-empty-state"
+              className="rounded-lg border p-8 text-center space-y-2"
+              style={{ background: 'var(--color-surface)', borderColor: 'var(--color-border)' }}
+            >
+              <Bot className="w-10 h-10 mx-auto" style={{ color: 'var(--color-text-muted)' }} />
+              <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                No agents are running. Start planning or development on a task to see it here.
+              </p>
+            </div>
+          ) : (
+            <ul data-testid="agents-active-list" className="grid gap-4">
+              {active.map((session) => (
+                <li key={session.threadId}>
+                  <AgentSessionCard
+                    session={session}
+                    stopping={stopping.has(session.threadId)}
+                    onAttach={setAttached}
+                    onStop={handleStop}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+            History
+          </h2>
+          {history.length === 0 ? (
+            <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+              No finished sessions yet.
+            </p>
+          ) : (
+            <ul data-testid="agents-history-list" className="grid gap-4">
+              {history.map((session) => (
+                <li key={session.threadId}>
+                  <AgentSessionCard session={session} onAttach={setAttached} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+
+      <AgentTerminalDialog session={attached} onClose={() => setAttached(null)} />
+    </div>
+  );
 }
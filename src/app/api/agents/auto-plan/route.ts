@@ -14,6 +14,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { formatUnmetDependencies, getUnmetDependencies } from '@/lib/tasks/dependencies';
 import { Subtask } from '@/lib/tasks/schema';
 import { getAgentManagerForTask, startAgentForTask } from '@/lib/agents/registry';
 import { getProjectDir } from '@/lib/project-dir';
@@ -38,11 +39,19 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
+    // Prerequisites must be done first (the task is started automatically once they are)
+    if (task.metadata?.dependencies?.length) {
+      const unmet = getUnmetDependencies(task, await taskPersistence.listTasks());
+      if (unmet.length > 0) {
+        return NextResponse.json({ error: formatUnmetDependencies(unmet) }, { status: 409 });
+      }
+    }
+
     // Check if task already has an agent assigned
     if (task.assignedAgent) {
-      const mgr = await getAgentManagerForTask(task);
+      const mgr = await getAgentManagerForTask(task, projectDir);
       const existingSession = mgr.getAgentStatus(task.assignedAgent);
-      if (existingSession && existingSession.status === 'running') {
+      if (existingSession?.status === 'running' || existingSession?.status === 'queued') {
         return NextResponse.json({ error: 'Task already has an agent running' }, { status: 409 });
       }
     }
@@ -369,18 +378,20 @@ ${task.planContent}
 
 # SUBTASK GENERATION
 
-Your goal is to break down this plan into 5-15 concrete, actionable subtasks that can be executed sequentially.
+Your goal is to break down this plan into 5-15 concrete, actionable subtasks. Subtasks that don't depend on each other and touch different files are executed in parallel.
 
 For each subtask, provide:
 - **id**: Unique identifier (e.g., "subtask-1", "subtask-2")
 - **content**: Detailed description of what needs to be done (be specific about files, logic, etc.)
 - **label**: Short label (3-5 words) for UI display (e.g., "Create API endpoint", "Add validation logic")
 - **activeForm**: Present continuous form for progress display (e.g., "Creating API endpoint")
+- **dependsOn**: IDs of the subtasks that must be completed before this one starts ([] if none)
+- **files**: Files or directories this subtask will create or modify
 
 **Guidelines:**
 1. Break down complex steps into smaller, manageable subtasks
 2. Each subtask should be completable independently
-3. Order subtasks logically (dependencies first)
+3. Order subtasks logically (dependencies first) and keep "dependsOn" to the real dependencies
 4. Be specific about files, functions, and changes needed
 5. Cap at 15 subtasks maximum
 
@@ -391,13 +402,17 @@ Return your subtasks in the following JSON format:
       "id": "subtask-1",
       "content": "Create the API route file at src/app/api/example/route.ts with POST endpoint handler",
       "label": "Create API endpoint",
-      "activeForm": "Creating API endpoint"
+      "activeForm": "Creating API endpoint",
+      "dependsOn": [],
+      "files": ["src/app/api/example/route.ts"]
     },
     {
       "id": "subtask-2",
       "content": "Add input validation using Zod schema for request body parameters",
       "label": "Add input validation",
-      "activeForm": "Adding input validation"
+      "activeForm": "Adding input validation",
+      "dependsOn": ["subtask-1"],
+      "files": ["src/app/api/example/route.ts", "src/lib/validation/example.ts"]
     }
   ]
 }
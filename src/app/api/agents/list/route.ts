@@ -0,0 +1,43 @@
+/**
+ * List Agents API Route
+ *
+ * GET: Agent sessions of the project for the Agents dashboard.
+ * `active`: running sessions across all task managers (provider, phase, elapsed time, last
+ * message, token usage). `history`: finished and interrupted sessions read back from the
+ * stream logs, most recent first (?limit=, default 50).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectDir } from '@/lib/project-dir';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { listActiveAgentSessions } from '@/lib/agents/registry';
+import { readAgentHistory } from '@/lib/agents/agent-history';
+
+export async function GET(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const limit = Number(req.nextUrl.searchParams.get('limit')) || undefined;
+
+    const active = listActiveAgentSessions(projectDir);
+    const [history, tasks] = await Promise.all([
+      readAgentHistory(projectDir, {
+        activeThreadIds: new Set(active.map((session) => session.threadId)),
+        limit,
+      }),
+      getTaskPersistence(projectDir)
+        .listTasks()
+        .catch(() => []),
+    ]);
+    const titles = new Map(tasks.map((task) => [task.id, task.title]));
+
+    return NextResponse.json({
+      active: active.map((session) => ({ ...session, taskTitle: titles.get(session.taskId) })),
+      history: history.map((entry) => ({ ...entry, taskTitle: titles.get(entry.taskId) })),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list agents' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Resume Agent API Route
+ *
+ * Re-attaches to or continues an interrupted subtask thread (e.g. after a server restart):
+ * 1. If the thread is still live in this process, report it so the UI just re-attaches
+ * 2. Otherwise load the persisted thread session (provider, prompt, resume handle)
+ * 3. Continue the interrupted subtask on the same thread ID, then run the remaining subtasks
+ *
+ * Tasks marked interrupted by the crash recovery sweep can also continue from a given subtask
+ * (`fromSubtaskId`); without a resumable session that subtask starts on a fresh thread.
+ *
+ * GET reports whether the task's thread is live or resumable (used by the task detail modal).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { getAgentSessionByThreadId } from '@/lib/agents/registry';
+import { getThreadSession } from '@/lib/agents/thread-sessions';
+import { buildResumePrompt, isResumableSession, readThreadTranscript } from '@/lib/agents/resume';
+import { executeQASubtasksSequentially, executeDevSubtasks } from '@/lib/agents/subtask-runner';
+import { getFirstUnfinishedSubtask } from '@/lib/agents/recovery';
+import { getProjectDir } from '@/lib/project-dir';
+import fs from 'fs/promises';
+import path from 'path';
+
+const RESUMABLE_PHASES = ['in_progress', 'ai_review'];
+
+export async function GET(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+
+    const taskId = req.nextUrl.searchParams.get('taskId');
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId required' }, { status: 400 });
+    }
+
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const threadId =
+      req.nextUrl.searchParams.get('threadId') || task.assignedAgent || task.interruption?.threadId;
+    const interrupted = task.interruption?.phase === task.phase;
+    if (!threadId) {
+      return NextResponse.json({
+        running: false,
+        resumable: interrupted && RESUMABLE_PHASES.includes(task.phase),
+      });
+    }
+
+    const running = Boolean(getAgentSessionByThreadId(threadId));
+    const record = await getThreadSession(threadId, projectDir);
+    const hasSession = Boolean(record && record.taskId === taskId && isResumableSession(record));
+
+    return NextResponse.json({
+      threadId,
+      running,
+      resumable: !running && (hasSession || interrupted) && RESUMABLE_PHASES.includes(task.phase),
+      status: record?.status,
+      nativeResume: hasSession && Boolean(record?.resumeHandle),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+
+    const { taskId, threadId: requestedThreadId, fromSubtaskId } = await req.json();
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId required' }, { status: 400 });
+    }
+
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const threadId: string | undefined =
+      requestedThreadId || task.assignedAgent || task.interruption?.threadId;
+    if (!threadId && !task.interruption) {
+      return NextResponse.json({ error: 'Task has no agent thread to resume' }, { status: 400 });
+    }
+
+    // Still running in this process: nothing to resume, the client can re-attach to the stream
+    if (threadId && getAgentSessionByThreadId(threadId)) {
+      return NextResponse.json({ success: true, attached: true, threadId });
+    }
+
+    const record = threadId ? await getThreadSession(threadId, projectDir) : null;
+    const session =
+      record && record.taskId === taskId && isResumableSession(record) ? record : null;
+    // Interrupted tasks can always continue, on a fresh thread if the old one can't be resumed
+    if (!session && !task.interruption) {
+      return record && record.taskId === taskId
+        ? NextResponse.json(
+            { error: `Thread cannot be resumed (status: ${record.status})` },
+            { status: 409 }
+          )
+        : NextResponse.json(
+            { error: 'No persisted session found for this thread' },
+            { status: 404 }
+          );
+    }
+
+    if (!RESUMABLE_PHASES.includes(task.phase)) {
+      return NextResponse.json(
+        { error: 'Only development and AI review subtasks can be resumed' },
+        { status: 400 }
+      );
+    }
+
+    const subtaskType = task.phase === 'in_progress' ? 'dev' : 'qa';
+    const phaseSubtasks = task.subtasks.filter((s) => s.type === subtaskType);
+    const interrupted = getFirstUnfinishedSubtask(task);
+    const from = fromSubtaskId ? phaseSubtasks.find((s) => s.id === fromSubtaskId) : interrupted;
+    if (fromSubtaskId && !from) {
+      return NextResponse.json(
+        { error: `Subtask ${fromSubtaskId} not found in this phase` },
+        { status: 400 }
+      );
+    }
+
+    // The old thread was working on the first unfinished subtask; only that one continues it
+    const resumeThreadId = session && from && from.id === interrupted?.id ? threadId : undefined;
+
+    // Adapters without a native resume handle get the conversation back from the stream log
+    const transcript =
+      session && resumeThreadId && !session.resumeHandle
+        ? await readThreadTranscript(taskId, resumeThreadId, projectDir)
+        : [];
+
+    const logsPath = path.join(
+      projectDir,
+      '.code-automata',
+      'tasks',
+      taskId,
+      task.phase === 'in_progress' ? 'development-logs.txt' : 'review-logs.txt'
+    );
+    await fs.mkdir(path.dirname(logsPath), { recursive: true });
+    await fs.appendFile(
+      logsPath,
+      `\n${'='.repeat(80)}\n` +
+        (resumeThreadId
+          ? `[Resuming] Thread ID: ${resumeThreadId} (${session?.resumeHandle ? 'native resume' : `replaying ${transcript.length} log lines`})`
+          : `[Continuing] Starting a new thread`) +
+        (from ? ` - subtask: ${from.label}` : '') +
+        `\n${'='.repeat(80)}\n\n`,
+      'utf-8'
+    );
+
+    // Unblock so the runner's completion waiters don't bail out immediately
+    task.status = 'in_progress';
+    task.assignedAgent = resumeThreadId;
+    task.interruption = undefined;
+    task.blockedReason = undefined;
+    await taskPersistence.saveTask(task);
+
+    const runner =
+      task.phase === 'in_progress' ? executeDevSubtasks : executeQASubtasksSequentially;
+    const remaining = from ? phaseSubtasks.slice(phaseSubtasks.indexOf(from)) : phaseSubtasks;
+    const resume =
+      session && resumeThreadId && from
+        ? {
+            subtaskId: from.id,
+            threadId: resumeThreadId,
+            prompt: buildResumePrompt(session, transcript),
+            resumeHandle: session.resumeHandle,
+          }
+        : undefined;
+
+    // Continue in background - return immediately so the client can attach to the stream
+    runner(taskPersistence, projectDir, taskId, remaining, logsPath, { resume }).catch(
+      async (err) => {
+        console.error('[resume] Error continuing subtasks:', err);
+        await fs
+          .appendFile(
+            logsPath,
+            `[Resume Error] ${err instanceof Error ? err.message : 'Unknown error'}\n`,
+            'utf-8'
+          )
+          .catch(() => {});
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      attached: false,
+      threadId: resumeThreadId,
+      subtaskId: from?.id,
+      nativeResume: Boolean(resumeThreadId && session?.resumeHandle),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,11 +4,11 @@
  * Task stays in planning phase until subtasks (dev + qa) are generated successfully.
  * 1. Generate subtasks from approved plan (task remains in planning)
  * 2. Parse & validate subtasks JSON (with fix-agent retry on failure)
- * 3. Only then move to in_progress and execute subtasks sequentially
+ * 3. Only then move to in_progress and execute dev subtasks (independent ones in parallel)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getTaskPersistence, type TaskPersistence } from '@/lib/tasks/persistence';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
 import { Subtask } from '@/lib/tasks/schema';
 import { startAgentForTask } from '@/lib/agents/registry';
 import { getProjectDir } from '@/lib/project-dir';
@@ -19,7 +19,8 @@ import {
 } from '@/lib/validation/subtask-validator';
 import { cleanPlanningArtifactsFromWorktree } from '@/lib/worktree/cleanup';
 import { getSubtaskGenerationPrompt } from '@/lib/prompts/loader';
-import { buildQASubtaskPrompt } from '@/lib/agents/qa-subtask-prompt';
+import { executeDevSubtasks } from '@/lib/agents/subtask-runner';
+import { harvestFixRetry } from '@/lib/memory/harvest';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -161,23 +162,18 @@ export async function POST(req: NextRequest) {
             () => {}
           );
 
-          // Start sequential execution
+          // Start execution (independent dev subtasks run in parallel)
           await fs.appendFile(
             logsPath,
-            `\n${'='.repeat(80)}\n[Starting Sequential Execution]\n${'='.repeat(80)}\n\n`,
+            `\n${'='.repeat(80)}\n[Starting Subtask Execution]\n${'='.repeat(80)}\n\n`,
             'utf-8'
           );
 
-          await executeSubtasksSequentially(
-            taskPersistence,
-            projectDir,
-            taskId,
-            devSubtasks,
-            logsPath
-          );
+          await executeDevSubtasks(taskPersistence, projectDir, taskId, devSubtasks, logsPath);
         } catch (parseError) {
           const errMsg = parseError instanceof Error ? parseError.message : 'Unknown error';
           await fs.appendFile(logsPath, `[Parse/Validation Error] ${errMsg}\n`, 'utf-8');
+          await harvestFixRetry(task, 'subtask generation', errMsg, projectDir).catch(() => {});
 
           // Retry: run fix agent to repair the output
           if (parseAttempt < MAX_PARSE_RETRIES) {
@@ -207,13 +203,16 @@ Required format:
       "content": "Detailed description of work",
       "label": "Short label",
       "activeForm": "Optional: present continuous form",
-      "type": "dev" or "qa"
+      "type": "dev" or "qa",
+      "dependsOn": ["Optional: IDs of dev subtasks that must complete first"],
+      "files": ["Optional: files/directories the dev subtask touches"]
     }
   ]
 }
 
 Rules:
 - Each subtask must have id, content, label (all non-empty strings)
+- Keep any "dependsOn" and "files" from the original output; "dependsOn" may only reference IDs in the list and must not form a cycle
 - Include at least 2 QA subtasks (type: "qa") for verification/testing
 - Escape any quotes inside strings (use \\" for literal quotes)
 - You MUST output the raw JSON as plain text in your message - writing to a file does NOT work.
@@ -228,6 +227,7 @@ Rules:
               prompt: fixPrompt,
               workingDir: currentTask.worktreePath || projectDir,
               projectDir,
+              permissionPhase: 'fix',
               onComplete: createOnSubtasksGenerated(parseAttempt + 1),
             });
 
@@ -324,489 +324,3 @@ function inferSubtaskType(subtask: Partial<Subtask>): 'dev' | 'qa' {
   if (qaSignals.some((s) => haystack.includes(s))) return 'qa';
   return 'dev';
 }
-
-/**
- * Execute subtasks sequentially
- */
-async function executeSubtasksSequentially(
-  taskPersistence: TaskPersistence,
-  projectDir: string,
-  taskId: string,
-  subtasks: Subtask[],
-  logsPath: string
-) {
-  for (let i = 0; i < subtasks.length; i++) {
-    const subtask = subtasks[i];
-
-    // Load fresh task data to check current status
-    const task = await taskPersistence.loadTask(taskId);
-    if (!task) return;
-
-    const taskSubtaskIndex = task.subtasks.findIndex((s) => s.id === subtask.id);
-    if (taskSubtaskIndex === -1) {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[Subtask ${i + 1}/${subtasks.length}] ${subtask.label} - SKIPPED (deleted)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    // Safety: dev phase should only execute dev subtasks
-    if (task.subtasks[taskSubtaskIndex].type !== 'dev') {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[Subtask ${i + 1}/${subtasks.length}] ${subtask.label} - SKIPPED (not dev)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    // Check if this subtask was already completed (e.g., skipped by user)
-    if (task.subtasks[taskSubtaskIndex].status === 'completed') {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[Subtask ${i + 1}/${subtasks.length}] ${subtask.label} - SKIPPED (already completed)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue; // Skip to next subtask
-    }
-
-    await fs.appendFile(
-      logsPath,
-      `\n${'='.repeat(80)}\n[Subtask ${i + 1}/${subtasks.length}] ${subtask.label}\n${'='.repeat(80)}\n\n`,
-      'utf-8'
-    );
-
-    // Update subtask to in_progress
-    task.subtasks[taskSubtaskIndex].status = 'in_progress';
-    await taskPersistence.saveTask(task);
-
-    // Execute subtask
-    const prompt = `Execute the following subtask as part of the implementation plan:
-
-**Subtask:** ${subtask.label}
-**Details:** ${subtask.content}
-
-Please implement this subtask following best practices.`;
-
-    // Create completion handler for this subtask
-    const onSubtaskComplete = async (result: {
-      success: boolean;
-      output: string;
-      error?: string;
-    }) => {
-      await fs.appendFile(
-        logsPath,
-        `\n[Subtask ${i + 1} Completed] Success: ${result.success}\n`,
-        'utf-8'
-      );
-
-      if (!result.success) {
-        await fs.appendFile(logsPath, `[Error] ${result.error}\n`, 'utf-8');
-
-        const currentTask = await taskPersistence.loadTask(taskId);
-        if (currentTask) {
-          const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
-          if (idx !== -1) {
-            currentTask.subtasks[idx].status = 'pending'; // Reset to pending on error
-          }
-          currentTask.status = 'blocked';
-          await taskPersistence.saveTask(currentTask);
-        }
-        return;
-      }
-
-      await fs.appendFile(logsPath, `[Output]\n${result.output}\n`, 'utf-8');
-
-      // Mark subtask as completed
-      const currentTask = await taskPersistence.loadTask(taskId);
-      if (currentTask) {
-        const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
-        if (idx !== -1) {
-          currentTask.subtasks[idx].status = 'completed';
-        }
-
-        // Check if all DEV subtasks are completed
-        const allDevCompleted = currentTask.subtasks
-          .filter((s) => s.type === 'dev')
-          .every((s) => s.status === 'completed');
-
-        if (allDevCompleted && currentTask.phase === 'in_progress') {
-          currentTask.phase = 'ai_review'; // Move to AI review phase
-          currentTask.assignedAgent = undefined; // Clear agent
-          currentTask.updatedAt = Date.now(); // Start 15s grace period for "Auto-starting QA" (prevents brief "Retry AI Review" flash)
-          await fs.appendFile(
-            logsPath,
-            `\n${'='.repeat(80)}\n[ALL DEV SUBTASKS COMPLETED - Moving to AI Review]\n${'='.repeat(80)}\n`,
-            'utf-8'
-          );
-
-          // Clean planning artifacts before AI review (ensure not in final output)
-          await cleanPlanningArtifactsFromWorktree(currentTask.worktreePath || projectDir).catch(
-            () => {}
-          );
-
-          // Automatically start AI review
-          await fs.appendFile(logsPath, `\n[AUTO] Initiating AI Review Phase...\n`, 'utf-8');
-          startAIReviewAutomatically(taskPersistence, projectDir, currentTask.id, logsPath);
-        }
-
-        await taskPersistence.saveTask(currentTask);
-      }
-    };
-
-    // Start agent for this subtask
-    const { threadId: subtaskThreadId } = await startAgentForTask({
-      task,
-      prompt,
-      workingDir: task.worktreePath || projectDir,
-      projectDir,
-      onComplete: onSubtaskComplete,
-    });
-
-    await fs.appendFile(
-      logsPath,
-      `[Agent Started for Subtask] Thread ID: ${subtaskThreadId}\n`,
-      'utf-8'
-    );
-
-    // Store the thread ID in task for potential cancellation
-    const taskWithThread = await taskPersistence.loadTask(taskId);
-    if (taskWithThread) {
-      taskWithThread.assignedAgent = subtaskThreadId;
-      await taskPersistence.saveTask(taskWithThread);
-    }
-
-    // Wait for this subtask to complete before moving to next
-    await waitForSubtaskCompletion(taskPersistence, taskId, subtask.id);
-  }
-}
-
-/**
- * Wait for a subtask to complete
- */
-async function waitForSubtaskCompletion(
-  taskPersistence: TaskPersistence,
-  taskId: string,
-  subtaskId: string
-): Promise<void> {
-  return new Promise((resolve) => {
-    let elapsed = 0;
-    const configured = Number(process.env.CODE_AUTOMATA_SUBTASK_WAIT_MS || '');
-    const maxWait = Number.isFinite(configured) && configured > 0 ? configured : 30 * 60 * 1000; // 30 min default
-
-    const interval = setInterval(async () => {
-      elapsed += 1000;
-
-      // Timeout after max wait
-      if (elapsed >= maxWait) {
-        clearInterval(interval);
-        console.error(`[waitForSubtaskCompletion] Timeout waiting for subtask ${subtaskId}`);
-        resolve();
-        return;
-      }
-
-      const task = await taskPersistence.loadTask(taskId);
-      if (!task) {
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      // Check if task is blocked or completed
-      if (task.status === 'blocked' || task.status === 'completed') {
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      // Check if subtask still exists
-      const subtask = task.subtasks.find((s) => s.id === subtaskId);
-      if (!subtask) {
-        // Subtask was deleted
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      // Check if subtask is completed
-      if (subtask.status === 'completed') {
-        clearInterval(interval);
-        resolve();
-      }
-    }, 1000); // Check every 1s
-  });
-}
-
-/**
- * Automatically start AI review phase after dev subtasks complete
- * Triggers the review process via background job without waiting
- */
-function startAIReviewAutomatically(
-  taskPersistence: TaskPersistence,
-  projectDir: string,
-  taskId: string,
-  devLogsPath: string
-): void {
-  // Fire and forget - don't await
-  // This allows the dev phase to finish while review starts in background
-  setTimeout(async () => {
-    try {
-      await fs.appendFile(devLogsPath, `[AUTO] Triggering AI Review Phase...\n`, 'utf-8');
-
-      const task = await taskPersistence.loadTask(taskId);
-      if (!task || task.phase !== 'ai_review') {
-        await fs.appendFile(
-          devLogsPath,
-          `[AUTO] Cannot start review - task not in ai_review phase\n`,
-          'utf-8'
-        );
-        return;
-      }
-
-      // Create review logs path
-      const reviewLogsPath = path.join(
-        projectDir,
-        '.code-automata',
-        'tasks',
-        taskId,
-        'review-logs.txt'
-      );
-      const logsDir = path.dirname(reviewLogsPath);
-      await fs.mkdir(logsDir, { recursive: true });
-
-      await fs.writeFile(
-        reviewLogsPath,
-        `AI Review auto-started for task: ${task.title}\n` +
-          `Task ID: ${taskId}\n` +
-          `Started at: ${new Date().toISOString()}\n` +
-          `${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-
-      await fs.appendFile(
-        reviewLogsPath,
-        `[Starting Sequential QA Verification]\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-
-      // Execute QA subtasks
-      const qaSubtasks = task.subtasks.filter((s) => s.type === 'qa');
-      await executeQASubtasksSequentially(
-        taskPersistence,
-        projectDir,
-        taskId,
-        qaSubtasks,
-        reviewLogsPath
-      );
-
-      await fs.appendFile(devLogsPath, `[AUTO] AI Review Phase initiated\n`, 'utf-8');
-    } catch (error) {
-      await fs.appendFile(
-        devLogsPath,
-        `[AUTO] Error initiating AI review: ${error instanceof Error ? error.message : 'Unknown'}\n`,
-        'utf-8'
-      );
-    }
-  }, 1000); // Give 1 second for phase transition to be saved
-}
-
-/**
- * Execute QA subtasks sequentially (auto-triggered after dev completion)
- */
-async function executeQASubtasksSequentially(
-  taskPersistence: TaskPersistence,
-  projectDir: string,
-  taskId: string,
-  qaSubtasks: Subtask[],
-  logsPath: string
-) {
-  for (let count = 0; count < qaSubtasks.length; count++) {
-    const subtask = qaSubtasks[count];
-
-    // Load fresh task data to check current status
-    const task = await taskPersistence.loadTask(taskId);
-    if (!task) return;
-
-    const taskSubtaskIndex = task.subtasks.findIndex((s) => s.id === subtask.id);
-    if (taskSubtaskIndex === -1) {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (deleted)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    // Safety: QA phase should only execute QA subtasks
-    if (task.subtasks[taskSubtaskIndex].type !== 'qa') {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (not qa)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    // Check if this subtask was already completed (e.g., skipped by user)
-    if (task.subtasks[taskSubtaskIndex].status === 'completed') {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (already completed)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    await fs.appendFile(
-      logsPath,
-      `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label}\n${'='.repeat(80)}\n\n`,
-      'utf-8'
-    );
-
-    // Update subtask to in_progress
-    task.subtasks[taskSubtaskIndex].status = 'in_progress';
-    await taskPersistence.saveTask(task);
-
-    // Execute subtask (manual QA subtasks get constrained prompt: 1 doc in manual-qa-required/)
-    const prompt = buildQASubtaskPrompt(subtask);
-
-    // Create completion handler for this subtask
-    const onSubtaskComplete = async (result: {
-      success: boolean;
-      output: string;
-      error?: string;
-    }) => {
-      await fs.appendFile(
-        logsPath,
-        `\n[QA Subtask ${count + 1} Completed] Success: ${result.success}\n`,
-        'utf-8'
-      );
-
-      if (!result.success) {
-        await fs.appendFile(logsPath, `[Error] ${result.error}\n`, 'utf-8');
-
-        const currentTask = await taskPersistence.loadTask(taskId);
-        if (currentTask) {
-          const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
-          if (idx !== -1) {
-            currentTask.subtasks[idx].status = 'pending';
-          }
-          currentTask.status = 'blocked';
-          await taskPersistence.saveTask(currentTask);
-        }
-        return;
-      }
-
-      await fs.appendFile(logsPath, `[Output]\n${result.output}\n`, 'utf-8');
-
-      // Mark subtask as completed
-      const currentTask = await taskPersistence.loadTask(taskId);
-      if (currentTask) {
-        const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
-        if (idx !== -1) {
-          currentTask.subtasks[idx].status = 'completed';
-        }
-
-        // Check if all QA subtasks are completed
-        const allQACompleted = currentTask.subtasks
-          .filter((s) => s.type === 'qa')
-          .every((s) => s.status === 'completed');
-
-        if (allQACompleted && currentTask.phase === 'ai_review') {
-          currentTask.phase = 'human_review';
-          currentTask.status = 'completed';
-          currentTask.assignedAgent = undefined;
-          await fs.appendFile(
-            logsPath,
-            `\n${'='.repeat(80)}\n[ALL QA SUBTASKS COMPLETED - Moving to Human Review]\n${'='.repeat(80)}\n`,
-            'utf-8'
-          );
-          // Clean planning artifacts before human review (ensure not in final output)
-          await cleanPlanningArtifactsFromWorktree(currentTask.worktreePath || projectDir).catch(
-            () => {}
-          );
-        }
-
-        await taskPersistence.saveTask(currentTask);
-      }
-    };
-
-    // Start agent for this QA subtask
-    const { threadId: subtaskThreadId } = await startAgentForTask({
-      task,
-      prompt,
-      workingDir: task.worktreePath || projectDir,
-      projectDir,
-      onComplete: onSubtaskComplete,
-    });
-
-    await fs.appendFile(
-      logsPath,
-      `[Agent Started for QA Subtask] Thread ID: ${subtaskThreadId}\n`,
-      'utf-8'
-    );
-
-    // Store the thread ID in task for potential cancellation
-    const taskWithThread = await taskPersistence.loadTask(taskId);
-    if (taskWithThread) {
-      taskWithThread.assignedAgent = subtaskThreadId;
-      await taskPersistence.saveTask(taskWithThread);
-    }
-
-    // Wait for this subtask to complete before moving to next
-    await waitForQASubtaskCompletion(taskPersistence, taskId, subtask.id);
-  }
-}
-
-/**
- * Wait for QA subtask to complete
- */
-async function waitForQASubtaskCompletion(
-  taskPersistence: TaskPersistence,
-  taskId: string,
-  subtaskId: string
-): Promise<void> {
-  return new Promise((resolve) => {
-    let elapsed = 0;
-    const configured = Number(process.env.CODE_AUTOMATA_SUBTASK_WAIT_MS || '');
-    const maxWait = Number.isFinite(configured) && configured > 0 ? configured : 30 * 60 * 1000; // 30 min default
-
-    const interval = setInterval(async () => {
-      elapsed += 1000;
-
-      if (elapsed >= maxWait) {
-        clearInterval(interval);
-        console.error(`[waitForQASubtaskCompletion] Timeout waiting for QA subtask ${subtaskId}`);
-        resolve();
-        return;
-      }
-
-      const task = await taskPersistence.loadTask(taskId);
-      if (!task) {
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      if (task.status === 'blocked' || task.status === 'completed') {
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      const subtask = task.subtasks.find((s) => s.id === subtaskId);
-      if (!subtask) {
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      if (subtask.status === 'completed') {
-        clearInterval(interval);
-        resolve();
-      }
-    }, 1000);
-  });
-}
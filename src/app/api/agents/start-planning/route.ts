@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { formatUnmetDependencies, getUnmetDependencies } from '@/lib/tasks/dependencies';
 import { getAgentManagerForTask, startAgentForTask } from '@/lib/agents/registry';
 import { getProjectDir } from '@/lib/project-dir';
 import { extractAndValidateJSON } from '@/lib/validation/subtask-validator';
@@ -40,11 +41,19 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
+    // Prerequisites must be done first (the task is started automatically once they are)
+    if (task.metadata?.dependencies?.length) {
+      const unmet = getUnmetDependencies(task, await taskPersistence.listTasks());
+      if (unmet.length > 0) {
+        return NextResponse.json({ error: formatUnmetDependencies(unmet) }, { status: 409 });
+      }
+    }
+
     // Check if task already has an agent assigned
     if (task.assignedAgent) {
-      const mgr = await getAgentManagerForTask(task);
+      const mgr = await getAgentManagerForTask(task, projectDir);
       const existingSession = mgr.getAgentStatus(task.assignedAgent);
-      if (existingSession && existingSession.status === 'running') {
+      if (existingSession?.status === 'running' || existingSession?.status === 'queued') {
         return NextResponse.json({ error: 'Task already has an agent running' }, { status: 409 });
       }
     }
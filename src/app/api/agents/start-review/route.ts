@@ -4,16 +4,14 @@
  * Starts AI review phase:
  * 1. Execute QA subtasks sequentially
  * 2. Update subtask statuses as they complete
- * 3. Transition to completed when all QA subtasks finish
+ * 3. Transition to completed when all QA subtasks finish, or start a fix round when QA
+ *    reports failures (see lib/agents/qa-fix-loop.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
-import { Subtask } from '@/lib/tasks/schema';
-import { startAgentForTask } from '@/lib/agents/registry';
+import { executeQASubtasksSequentially } from '@/lib/agents/subtask-runner';
 import { getProjectDir } from '@/lib/project-dir';
-import { cleanPlanningArtifactsFromWorktree } from '@/lib/worktree/cleanup';
-import { buildQASubtaskPrompt } from '@/lib/agents/qa-subtask-prompt';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -79,7 +77,7 @@ export async function POST(req: NextRequest) {
     );
 
     // Execute QA subtasks in background - return immediately so client gets quick response
-    executeQASubtasksSequentially(taskId, qaSubtasks, logsPath, taskPersistence, projectDir).catch(
+    executeQASubtasksSequentially(taskPersistence, projectDir, taskId, qaSubtasks, logsPath).catch(
       (err) => {
         console.error('[start-review] Error executing QA subtasks:', err);
       }
@@ -98,207 +96,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-/**
- * Execute QA subtasks sequentially
- */
-async function executeQASubtasksSequentially(
-  taskId: string,
-  qaSubtasks: Subtask[],
-  logsPath: string,
-  taskPersistence: ReturnType<typeof getTaskPersistence>,
-  projectDir: string
-) {
-  for (let count = 0; count < qaSubtasks.length; count++) {
-    const subtask = qaSubtasks[count];
-
-    // Load fresh task data to check current status
-    const task = await taskPersistence.loadTask(taskId);
-    if (!task) return;
-
-    const taskSubtaskIndex = task.subtasks.findIndex((s) => s.id === subtask.id);
-    if (taskSubtaskIndex === -1) {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (deleted)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    // Safety: QA phase should only execute QA subtasks
-    if (task.subtasks[taskSubtaskIndex].type !== 'qa') {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (not qa)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    // Check if this subtask was already completed (e.g., skipped by user)
-    if (task.subtasks[taskSubtaskIndex].status === 'completed') {
-      await fs.appendFile(
-        logsPath,
-        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (already completed)\n${'='.repeat(80)}\n\n`,
-        'utf-8'
-      );
-      continue;
-    }
-
-    await fs.appendFile(
-      logsPath,
-      `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label}\n${'='.repeat(80)}\n\n`,
-      'utf-8'
-    );
-
-    // Update subtask to in_progress
-    task.subtasks[taskSubtaskIndex].status = 'in_progress';
-    await taskPersistence.saveTask(task);
-
-    // Execute subtask (manual QA subtasks get constrained prompt: 1 doc in manual-qa-required/)
-    const prompt = buildQASubtaskPrompt(subtask);
-
-    // Create completion handler for this subtask
-    const onSubtaskComplete = async (result: {
-      success: boolean;
-      output: string;
-      error?: string;
-    }) => {
-      await fs.appendFile(
-        logsPath,
-        `\n[QA Subtask ${count + 1} Completed] Success: ${result.success}\n`,
-        'utf-8'
-      );
-
-      if (!result.success) {
-        await fs.appendFile(logsPath, `[Error] ${result.error}\n`, 'utf-8');
-
-        const currentTask = await taskPersistence.loadTask(taskId);
-        if (currentTask) {
-          const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
-          if (idx !== -1) {
-            currentTask.subtasks[idx].status = 'pending'; // Reset to pending on error
-          }
-          currentTask.status = 'blocked';
-          await taskPersistence.saveTask(currentTask);
-        }
-        return;
-      }
-
-      await fs.appendFile(logsPath, `[Output]\n${result.output}\n`, 'utf-8');
-
-      // Mark subtask as completed
-      const currentTask = await taskPersistence.loadTask(taskId);
-      if (currentTask) {
-        const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
-        if (idx !== -1) {
-          currentTask.subtasks[idx].status = 'completed';
-        }
-
-        // Check if all QA subtasks are completed
-        const allQACompleted = currentTask.subtasks
-          .filter((s) => s.type === 'qa')
-          .every((s) => s.status === 'completed');
-
-        if (allQACompleted && currentTask.phase === 'ai_review') {
-          currentTask.phase = 'human_review'; // Move to human review phase
-          currentTask.status = 'completed';
-          currentTask.assignedAgent = undefined; // Clear agent
-          await fs.appendFile(
-            logsPath,
-            `\n${'='.repeat(80)}\n[ALL QA SUBTASKS COMPLETED - Moving to Human Review]\n${'='.repeat(80)}\n`,
-            'utf-8'
-          );
-          // Clean planning artifacts before human review (ensure not in final output)
-          await cleanPlanningArtifactsFromWorktree(currentTask.worktreePath || projectDir).catch(
-            () => {}
-          );
-        }
-
-        await taskPersistence.saveTask(currentTask);
-      }
-    };
-
-    // Start agent for this QA subtask
-    const { threadId: subtaskThreadId } = await startAgentForTask({
-      task,
-      prompt,
-      workingDir: task.worktreePath || projectDir,
-      projectDir,
-      onComplete: onSubtaskComplete,
-    });
-
-    await fs.appendFile(
-      logsPath,
-      `[Agent Started for QA Subtask] Thread ID: ${subtaskThreadId}\n`,
-      'utf-8'
-    );
-
-    // Store the thread ID in task for potential cancellation
-    const taskWithThread = await taskPersistence.loadTask(taskId);
-    if (taskWithThread) {
-      taskWithThread.assignedAgent = subtaskThreadId;
-      await taskPersistence.saveTask(taskWithThread);
-    }
-
-    // Wait for this subtask to complete before moving to next
-    await waitForSubtaskCompletion(taskId, subtask.id, taskPersistence);
-  }
-}
-
-/**
- * Wait for a subtask to complete
- */
-async function waitForSubtaskCompletion(
-  taskId: string,
-  subtaskId: string,
-  taskPersistence: ReturnType<typeof getTaskPersistence>
-): Promise<void> {
-  return new Promise((resolve) => {
-    let elapsed = 0;
-    const configured = Number(process.env.CODE_AUTOMATA_SUBTASK_WAIT_MS || '');
-    const maxWait = Number.isFinite(configured) && configured > 0 ? configured : 30 * 60 * 1000; // 30 min default
-
-    const interval = setInterval(async () => {
-      elapsed += 1000;
-
-      // Timeout after max wait
-      if (elapsed >= maxWait) {
-        clearInterval(interval);
-        console.error(`[waitForSubtaskCompletion] Timeout waiting for QA subtask ${subtaskId}`);
-        resolve();
-        return;
-      }
-
-      const task = await taskPersistence.loadTask(taskId);
-      if (!task) {
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      // Check if task is blocked or completed
-      if (task.status === 'blocked' || task.status === 'completed') {
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      // Check if subtask still exists
-      const subtask = task.subtasks.find((s) => s.id === subtaskId);
-      if (!subtask) {
-        // Subtask was deleted
-        clearInterval(interval);
-        resolve();
-        return;
-      }
-
-      // Check if subtask is completed
-      if (subtask.status === 'completed') {
-        clearInterval(interval);
-        resolve();
-      }
-    }, 1000); // Check every 1s
-  });
-}
@@ -1,11 +1,18 @@
 /**
  * Stop Agent API Route
  *
- * Stops a running AI agent
+ * Stops running AI agents:
+ * - { taskId } - every running or queued thread of the task (parallel subtasks run one
+ *   thread each, `task.assignedAgent` only holds the last one)
+ * - { threadId } - that thread only
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAgentSessionByThreadId, stopAgentByThreadId } from '@/lib/agents/registry';
+import {
+  getAgentSessionByThreadId,
+  stopAgentByThreadId,
+  stopAgentsForTask,
+} from '@/lib/agents/registry';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
 import { getProjectDir } from '@/lib/project-dir';
 
@@ -14,36 +21,40 @@ export async function POST(req: NextRequest) {
     const projectDir = await getProjectDir(req);
     const taskPersistence = getTaskPersistence(projectDir);
 
-    const { threadId } = await req.json();
+    const { threadId, taskId: requestedTaskId } = await req.json();
 
-    if (!threadId) {
-      return NextResponse.json({ error: 'threadId required' }, { status: 400 });
+    if (!threadId && !requestedTaskId) {
+      return NextResponse.json({ error: 'taskId or threadId required' }, { status: 400 });
     }
 
-    // Get agent session
-    const session = getAgentSessionByThreadId(threadId);
-    if (!session) {
-      return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
+    let taskId: string;
+    let stopped: string[];
+    if (requestedTaskId) {
+      taskId = requestedTaskId;
+      stopped = await stopAgentsForTask(taskId);
+    } else {
+      // Get agent session
+      const session = getAgentSessionByThreadId(threadId);
+      const result = session ? await stopAgentByThreadId(threadId) : null;
+      taskId = result?.taskId ?? '';
+      stopped = result ? [threadId] : [];
     }
-
-    // Stop agent
-    const stopped = await stopAgentByThreadId(threadId);
-    if (!stopped) {
+    if (stopped.length === 0) {
       return NextResponse.json({ error: 'Agent not found' }, { status: 404 });
     }
 
-    // Update task - move back to planning phase when agent stopped
-    const task = await taskPersistence.loadTask(stopped.taskId);
-    if (task && task.assignedAgent === threadId) {
+    // Update task - move back to planning phase when its assigned agent stopped
+    await taskPersistence.updateTask(taskId, (task) => {
+      if (!task.assignedAgent || (!requestedTaskId && task.assignedAgent !== threadId)) return;
       task.assignedAgent = undefined;
       task.status = 'pending';
       task.phase = 'planning';
-      await taskPersistence.saveTask(task);
-    }
+    });
 
     return NextResponse.json({
       success: true,
       message: 'Agent stopped successfully',
+      stopped,
     });
   } catch (error) {
     return NextResponse.json(
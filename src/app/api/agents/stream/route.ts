@@ -72,7 +72,8 @@ export async function GET(req: NextRequest) {
           const lines = chunk.split('\n');
           carry = lines.pop() || '';
 
-          for (const line of lines) {
+          for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
             if (!line.trim()) continue;
             let obj: Record<string, unknown>;
             try {
@@ -81,6 +82,11 @@ export async function GET(req: NextRequest) {
               continue;
             }
 
+            // A status line followed by more output belongs to an earlier run of a resumed thread
+            const hasMoreOutput =
+              fileOffset < size || carry.trim() !== '' || lines.slice(i + 1).some((l) => l.trim());
+            if (obj && obj.type === 'status' && hasMoreOutput) continue;
+
             // Status lines are sent as a special message and then we close
             if (obj && obj.type === 'status') {
               controller.enqueue(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
@@ -1,15 +1,22 @@
 /**
  * CLI Adapters API
  *
- * Returns available CLI adapters and their configuration schemas
+ * Returns available CLI adapters (built-in, plugins, command templates)
+ * with their configuration schemas and capabilities
  */
 
-import { NextResponse } from 'next/server';
-import { CLIFactory } from '@/lib/cli/factory';
+import { NextRequest, NextResponse } from 'next/server';
+import { CLIFactory, type CLIProvider } from '@/lib/cli/factory';
 import { CursorAdapter } from '@/lib/cli/cursor';
+import { loadRuntimeAdapters } from '@/lib/cli/plugins';
+import { getProjectDir } from '@/lib/project-dir';
+import { BUDGET_CONFIG_FIELDS } from '@/lib/agents/budget';
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
+    // Register adapter plugins and command-template adapters for this project
+    await loadRuntimeAdapters(await getProjectDir(req));
+
     let adapters = CLIFactory.getAvailableAdapters();
 
     // Hide Mock CLI in packaged app (standalone runs in Node subprocess, not Electron)
@@ -34,15 +41,19 @@ export async function GET() {
 
     await Promise.all(prefetchPromises);
 
-    // Get config schema for each adapter (now Cursor will have cached models)
+    // Get config schema and capabilities for each adapter (now Cursor will have cached models)
     const adaptersWithSchemas = adapters
       .map((adapter) => {
         try {
-          const adapterInstance = CLIFactory.create(adapter.name as 'amp' | 'mock' | 'cursor');
+          const adapterInstance = CLIFactory.create(adapter.name as CLIProvider);
+          const configSchema = adapterInstance.getConfigSchema();
           return {
             name: adapter.name,
             displayName: adapter.displayName,
-            configSchema: adapterInstance.getConfigSchema(),
+            source: adapter.source,
+            // Budgets are enforced by the agent manager, so every adapter offers them
+            configSchema: { fields: [...configSchema.fields, ...BUDGET_CONFIG_FIELDS] },
+            capabilities: adapterInstance.getCapabilities(),
           };
         } catch (err) {
           console.error(`Failed to load adapter ${adapter.name}:`, err);
@@ -1,10 +1,15 @@
 /**
  * Create Merge Request / Pull Request API Route
  *
- * Creates a GitHub PR (via `gh`) for a task's worktree branch.
- * - Stages + commits uncommitted changes (if any) with --no-verify to skip Husky
+ * Creates a GitHub PR (via `gh`) or a GitLab MR (REST API, see lib/git/gitlab.ts) for a
+ * task's worktree branch. The provider is detected from the `origin` remote.
+ * - Stages + commits uncommitted changes (if any) with --no-verify to skip Husky, leaving out
+ *   the files copied or linked by the worktree setup hooks
  * - Pushes branch to origin
- * - Creates PR (or returns existing PR) and stores URL on task
+ * - Creates PR/MR (or returns the existing one) and stores URL and provider on task
+ * - GitLab: adds the configured labels and task tags
+ * - Description: plan overview/testing strategy, subtasks, verification, manual QA docs,
+ *   diffstat and the linked issue (template: `pullRequestBody` in prompts.json, see lib/git/pr-body.ts)
  *
  * Note: We use git commit --no-verify because worktrees often lack node_modules,
  * so Husky pre-commit (yarn lint-staged && yarn typecheck) would fail.
@@ -14,35 +19,20 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
 import { getWorktreeManager } from '@/lib/git/worktree';
 import { getProjectDir } from '@/lib/project-dir';
-import { execFile } from 'child_process';
+import { detectRemoteRepository, loadHostingConfig, runCommand } from '@/lib/git/hosting';
+import { createPullRequest, ensureGitHubCli, findOpenPullRequest } from '@/lib/git/github';
+import { buildPullRequestBody } from '@/lib/git/pr-body';
+import { toExcludePathspecs } from '@/lib/git/checkpoints';
+import { loadSetupPaths } from '@/lib/git/worktree-setup';
+import {
+  addMergeRequestLabels,
+  createMergeRequest,
+  findOpenMergeRequest,
+  resolveGitLabApi,
+} from '@/lib/git/gitlab';
 
 export const runtime = 'nodejs';
 
-function run(
-  cmd: string,
-  args: string[],
-  cwd: string
-): Promise<{ stdout: string; stderr: string }> {
-  return new Promise((resolve, reject) => {
-    execFile(cmd, args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
-      if (error) {
-        const e = new Error(
-          `${cmd} ${args.join(' ')} failed: ${String((stderr || stdout || '').trim()) || error.message}`
-        );
-        (e as Error & { cause?: unknown }).cause = error;
-        reject(e);
-        return;
-      }
-      resolve({ stdout: String(stdout || ''), stderr: String(stderr || '') });
-    });
-  });
-}
-
-function extractFirstUrl(text: string): string | null {
-  const m = text.match(/https?:\/\/[^\s]+/);
-  return m ? m[0] : null;
-}
-
 export async function POST(req: NextRequest) {
   try {
     const projectDir = await getProjectDir(req);
@@ -70,94 +60,109 @@ export async function POST(req: NextRequest) {
     }
 
     const baseBranch = await manager.getMainBranch();
+    const repo = await detectRemoteRepository(projectDir, task.worktreePath);
+    const config = await loadHostingConfig(projectDir);
 
-    // Ensure gh exists and user is authenticated
-    await run('gh', ['--version'], task.worktreePath).catch(() => {
-      throw new Error('GitHub CLI (`gh`) not found. Install it to create a PR/MR.');
-    });
-    await run('gh', ['auth', 'status'], task.worktreePath).catch(() => {
-      throw new Error('`gh` is not authenticated. Run `gh auth login` and retry.');
-    });
+    // Ensure the provider's credentials work before committing and pushing
+    const gitlab =
+      repo.provider === 'gitlab'
+        ? await resolveGitLabApi(repo, task.worktreePath, config.gitlabApiUrl)
+        : null;
+    if (repo.provider === 'github') await ensureGitHubCli(task.worktreePath);
 
     // If we already created one before, just return it (best-effort verify it still exists)
     if (task.mergeRequestUrl) {
-      return NextResponse.json({ success: true, url: task.mergeRequestUrl, alreadyExists: true });
+      return NextResponse.json({
+        success: true,
+        url: task.mergeRequestUrl,
+        provider: task.mergeRequestProvider ?? repo.provider,
+        alreadyExists: true,
+      });
     }
 
     // Commit any uncommitted changes (PR requires pushed commits)
-    const { stdout: porcelain } = await run('git', ['status', '--porcelain'], task.worktreePath);
+    const pathspecs = ['.', ...toExcludePathspecs(await loadSetupPaths(projectDir))];
+    const { stdout: porcelain } = await runCommand(
+      'git',
+      ['status', '--porcelain', '--', ...pathspecs],
+      task.worktreePath
+    );
     const hasUncommitted = porcelain.trim().length > 0;
     if (hasUncommitted) {
-      await run('git', ['add', '-A'], task.worktreePath);
+      await runCommand('git', ['add', '-A', '--', ...pathspecs], task.worktreePath);
       const message = `code-automata: ${task.title || task.id} (${task.id})`;
-      await run('git', ['commit', '--no-verify', '-m', message], task.worktreePath).catch((e) => {
-        const msg = String((e as Error).message || e);
-        throw new Error(
-          `Failed to commit changes. Ensure git user.name/user.email are configured.\n${msg}`
-        );
-      });
+      await runCommand('git', ['commit', '--no-verify', '-m', message], task.worktreePath).catch(
+        (e) => {
+          const msg = String((e as Error).message || e);
+          throw new Error(
+            `Failed to commit changes. Ensure git user.name/user.email are configured.\n${msg}`
+          );
+        }
+      );
     }
 
     // Push branch to origin
-    await run('git', ['push', '-u', 'origin', 'HEAD'], task.worktreePath);
+    await runCommand('git', ['push', '-u', 'origin', 'HEAD'], task.worktreePath);
 
-    // If PR already exists for this head, return it
-    const { stdout: existingJson } = await run(
-      'gh',
-      ['pr', 'list', '--head', task.branchName, '--json', 'url', '--limit', '1'],
-      task.worktreePath
-    );
-    try {
-      const parsed = JSON.parse(existingJson) as Array<{ url?: string }>;
-      const existingUrl = parsed?.[0]?.url;
-      if (existingUrl) {
-        task.mergeRequestUrl = existingUrl;
-        task.updatedAt = Date.now();
-        await taskPersistence.saveTask(task);
-        return NextResponse.json({ success: true, url: existingUrl, alreadyExists: true });
-      }
-    } catch {
-      // ignore parse errors and proceed to create
-    }
+    const saveUrl = async (url: string) => {
+      await taskPersistence.updateTask(taskId, (current) => {
+        current.mergeRequestUrl = url;
+        current.mergeRequestProvider = repo.provider;
+        current.updatedAt = Date.now();
+      });
+    };
 
     const title = `${task.title || 'Task'}: ${task.description?.slice(0, 60) || task.id}`.trim();
-    const body = [
-      `Task ID: ${task.id}`,
-      '',
-      task.description ? `Description:\n${task.description}` : '',
-      '',
-      'Generated by Code-Automata.',
-    ]
-      .filter(Boolean)
-      .join('\n');
-
-    const { stdout: createdOut } = await run(
-      'gh',
-      [
-        'pr',
-        'create',
-        '--title',
+    const body = await buildPullRequestBody(task, repo, baseBranch, projectDir);
+
+    if (gitlab) {
+      const labels = [...new Set([...config.labels, ...(task.metadata?.tags ?? [])])];
+
+      // If an MR already exists for this branch, reuse it
+      const existing = await findOpenMergeRequest(gitlab, repo.projectPath, task.branchName);
+      if (existing) {
+        await addMergeRequestLabels(gitlab, repo.projectPath, existing.iid, labels);
+        await saveUrl(existing.web_url);
+        return NextResponse.json({
+          success: true,
+          url: existing.web_url,
+          provider: repo.provider,
+          alreadyExists: true,
+        });
+      }
+
+      const created = await createMergeRequest(gitlab, repo.projectPath, {
+        sourceBranch: task.branchName,
+        targetBranch: baseBranch,
         title,
-        '--body',
-        body,
-        '--base',
-        baseBranch,
-        '--head',
-        task.branchName,
-      ],
-      task.worktreePath
-    );
+        description: body,
+        labels,
+      });
+      await saveUrl(created.web_url);
+      return NextResponse.json({ success: true, url: created.web_url, provider: repo.provider });
+    }
 
-    const url = extractFirstUrl(createdOut);
-    if (!url) {
-      throw new Error(`Failed to parse PR URL from gh output:\n${createdOut}`);
+    // If PR already exists for this head, return it
+    const existingUrl = await findOpenPullRequest(task.worktreePath, task.branchName);
+    if (existingUrl) {
+      await saveUrl(existingUrl);
+      return NextResponse.json({
+        success: true,
+        url: existingUrl,
+        provider: repo.provider,
+        alreadyExists: true,
+      });
     }
 
-    task.mergeRequestUrl = url;
-    task.updatedAt = Date.now();
-    await taskPersistence.saveTask(task);
+    const url = await createPullRequest(task.worktreePath, {
+      title,
+      body,
+      base: baseBranch,
+      head: task.branchName,
+    });
+    await saveUrl(url);
 
-    return NextResponse.json({ success: true, url });
+    return NextResponse.json({ success: true, url, provider: repo.provider });
   } catch (error) {
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Unknown error' },
@@ -0,0 +1,47 @@
+/**
+ * Git Diff API Route
+ *
+ * Structured diff of a task's worktree against the main branch (files, hunks, renames,
+ * binary markers) for the in-app review
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import { getWorktreeManager } from '@/lib/git/worktree';
+import { getBranchDiff } from '@/lib/git/diff';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { getProjectDir } from '@/lib/project-dir';
+
+export async function GET(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+
+    const { searchParams } = new URL(req.url);
+    const taskId = searchParams.get('taskId');
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (!task.worktreePath || !fs.existsSync(task.worktreePath)) {
+      return NextResponse.json({ error: 'Task has no worktree' }, { status: 400 });
+    }
+
+    const baseBranch = await getWorktreeManager(projectDir).getMainBranch();
+    return NextResponse.json(getBranchDiff(task.worktreePath, baseBranch));
+  } catch (error) {
+    console.error('Error getting git diff:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
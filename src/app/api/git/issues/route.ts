@@ -0,0 +1,139 @@
+/**
+ * Issues API Route
+ *
+ * Browses the open issues of the project's `origin` repository (GitHub or GitLab, see
+ * lib/git/issues.ts) and imports them as tasks.
+ * - GET  /api/git/issues?labels=a,b&milestone=&assignee= - Open issues, with the tasks already imported
+ * - POST /api/git/issues { numbers } - Imports issues into the Planning column; issues that
+ *   already have a task are skipped
+ *
+ * Imported tasks get the issue body and comments as description, labels as tags, and a git
+ * worktree like tasks created from the New Task dialog.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { getWorktreeManager } from '@/lib/git/worktree';
+import { getProjectDir } from '@/lib/project-dir';
+import { getLinkedIssue, issueToTaskFields, resolveIssueTracker } from '@/lib/git/issues';
+import type { Task } from '@/lib/tasks/schema';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+    const params = req.nextUrl.searchParams;
+
+    const tracker = await resolveIssueTracker(projectDir);
+    const issues = await tracker.listIssues({
+      labels: params
+        .get('labels')
+        ?.split(',')
+        .map((l) => l.trim())
+        .filter(Boolean),
+      milestone: params.get('milestone')?.trim() || undefined,
+      assignee: params.get('assignee')?.trim() || undefined,
+    });
+
+    // Issue number -> task ID, so the page can show which issues are already on the board
+    const importedIssues: Record<number, string> = {};
+    for (const task of await taskPersistence.listTasks()) {
+      const issue = getLinkedIssue(task, tracker.provider);
+      if (issue !== undefined) importedIssues[issue] = task.id;
+    }
+
+    return NextResponse.json({ provider: tracker.provider, issues, importedIssues });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+    const { numbers } = await req.json();
+
+    if (
+      !Array.isArray(numbers) ||
+      numbers.length === 0 ||
+      !numbers.every((n) => Number.isInteger(n) && n > 0)
+    ) {
+      return NextResponse.json(
+        { error: 'numbers must be a non-empty array of issue numbers' },
+        { status: 400 }
+      );
+    }
+
+    const tracker = await resolveIssueTracker(projectDir);
+    const existing = new Map<number, string>();
+    for (const task of await taskPersistence.listTasks()) {
+      const issue = getLinkedIssue(task, tracker.provider);
+      if (issue !== undefined) existing.set(issue, task.id);
+    }
+
+    const manager = getWorktreeManager(projectDir);
+    const gitAvailable = await manager.verifyGitAvailable();
+    const created: Task[] = [];
+    const skipped: Array<{ number: number; taskId: string }> = [];
+
+    for (const number of new Set<number>(numbers)) {
+      const existingTaskId = existing.get(number);
+      if (existingTaskId) {
+        skipped.push({ number, taskId: existingTaskId });
+        continue;
+      }
+
+      const [issue, comments] = await Promise.all([
+        tracker.getIssue(number),
+        tracker.listComments(number),
+      ]);
+      const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+      const task: Task = {
+        id: taskId,
+        ...issueToTaskFields(issue, comments, tracker.provider),
+        phase: 'planning',
+        status: 'pending',
+        subtasks: [],
+        requiresHumanReview: false,
+        planApproved: false,
+        locked: false,
+        planningStatus: 'not_started',
+        planningLogsPath: `.code-automata/tasks/${taskId}/planning-logs.txt`,
+        branchName: `code-automata/${taskId}`,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      await taskPersistence.saveTask(task);
+
+      // Same as the create route: a failed worktree doesn't fail the import
+      if (gitAvailable) {
+        try {
+          const worktreeInfo = await manager.createWorktree(taskId);
+          task.worktreePath = worktreeInfo.path;
+          task.branchName = worktreeInfo.branchName;
+          await taskPersistence.updateTask(taskId, (current) => {
+            current.worktreePath = worktreeInfo.path;
+            current.branchName = worktreeInfo.branchName;
+          });
+        } catch (worktreeError) {
+          const message = worktreeError instanceof Error ? worktreeError.message : 'Unknown error';
+          console.warn(`[Task ${taskId}] Worktree creation failed: ${message}`);
+        }
+      }
+      created.push(task);
+    }
+
+    return NextResponse.json({ provider: tracker.provider, created, skipped });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
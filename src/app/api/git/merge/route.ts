@@ -0,0 +1,146 @@
+/**
+ * Local Merge API Route
+ *
+ * Merges a Human Review task's branch into the main branch of the local repository, without
+ * a remote or PR/MR (see lib/git/local-merge.ts).
+ * - GET  /api/git/merge?taskId= - Preview: commits ahead, fast-forward possible, conflicting
+ *   files, and whether the main checkout is clean and on the main branch
+ * - POST /api/git/merge { taskId, strategy } - strategy: fast-forward | squash | merge
+ *
+ * Uncommitted changes in the task worktree are committed on the task branch first. After the
+ * merge the task moves to done (dependents start, see lib/tasks/done-hooks.ts) and
+ * `task.localMerge` records the merge; the worktree is kept until the user cleans it up.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { getWorktreeManager } from '@/lib/git/worktree';
+import { getProjectDir } from '@/lib/project-dir';
+import { commitCheckpoint } from '@/lib/git/checkpoints';
+import { loadSetupPaths } from '@/lib/git/worktree-setup';
+import {
+  LOCAL_MERGE_STRATEGIES,
+  buildLocalMergeMessage,
+  mergeTaskBranch,
+  previewLocalMerge,
+} from '@/lib/git/local-merge';
+import { runDoneHooks } from '@/lib/tasks/done-hooks';
+import type { LocalMergeStrategy } from '@/lib/tasks/schema';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const manager = getWorktreeManager(projectDir);
+    const taskId = req.nextUrl.searchParams.get('taskId');
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId is required' }, { status: 400 });
+    }
+
+    const task = await getTaskPersistence(projectDir).loadTask(taskId);
+    if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    if (!task.branchName) {
+      return NextResponse.json({ error: 'Task has no branch' }, { status: 400 });
+    }
+
+    const preview = await previewLocalMerge(
+      await manager.getMainRepoPath(),
+      await manager.getMainBranch(),
+      task.branchName
+    );
+    return NextResponse.json({ preview });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+    const manager = getWorktreeManager(projectDir);
+
+    const { taskId, strategy } = await req.json();
+    const errors: string[] = [];
+    if (!taskId || typeof taskId !== 'string') errors.push('taskId is required');
+    if (!LOCAL_MERGE_STRATEGIES.includes(strategy)) {
+      errors.push(`strategy must be one of: ${LOCAL_MERGE_STRATEGIES.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task) return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    if (task.phase !== 'human_review') {
+      return NextResponse.json(
+        { error: 'Only tasks in Human Review can be merged' },
+        { status: 400 }
+      );
+    }
+    if (!task.worktreePath || !task.branchName) {
+      return NextResponse.json(
+        { error: 'Task has no worktree/branch. Cannot merge.' },
+        { status: 400 }
+      );
+    }
+    if (task.assignedAgent) {
+      return NextResponse.json(
+        { error: 'An agent is still working on this task' },
+        { status: 409 }
+      );
+    }
+
+    if (!(await manager.verifyGitAvailable())) {
+      return NextResponse.json({ error: 'Git is not available' }, { status: 503 });
+    }
+
+    // Changes left in the worktree belong to the task; put them on its branch before merging
+    await commitCheckpoint(
+      task.worktreePath,
+      `code-automata: ${task.title || task.id} (${task.id})`,
+      undefined,
+      await loadSetupPaths(projectDir)
+    );
+
+    const mainBranch = await manager.getMainBranch();
+    const result = await mergeTaskBranch(
+      await manager.getMainRepoPath(),
+      mainBranch,
+      task.branchName,
+      strategy as LocalMergeStrategy,
+      buildLocalMergeMessage(task, strategy, task.branchName)
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.message, reason: result.reason, conflicts: result.conflicts },
+        { status: 409 }
+      );
+    }
+
+    const updatedTask = await taskPersistence.updateTask(taskId, (current) => {
+      current.localMerge = {
+        strategy,
+        into: mainBranch,
+        commit: result.commit,
+        mergedAt: Date.now(),
+      };
+      current.phase = 'done';
+      current.status = 'completed';
+      current.updatedAt = Date.now();
+    });
+    console.log(`[Task ${taskId}] Merged ${task.branchName} into ${mainBranch} (${strategy})`);
+    if (updatedTask) runDoneHooks(updatedTask, projectDir);
+
+    return NextResponse.json({ success: true, commit: result.commit, task: updatedTask });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * PR/MR Status Sync API Route
+ *
+ * POST /api/git/sync-mr { taskId? } - Fetches the state, review decision and CI status of the
+ * tasks' PRs/MRs from GitHub/GitLab (see lib/git/merge-request-status.ts) and stores it on the
+ * tasks. Without taskId, every task with an open (or not yet synced) PR/MR is synced.
+ * Tasks whose PR/MR merged are moved to done. The board calls this periodically.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectDir } from '@/lib/project-dir';
+import { syncMergeRequestStatuses } from '@/lib/git/merge-request-status';
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const { taskId } = await req.json().catch(() => ({}));
+    if (taskId !== undefined && typeof taskId !== 'string') {
+      return NextResponse.json({ error: 'taskId must be a string' }, { status: 400 });
+    }
+
+    const results = await syncMergeRequestStatuses(projectDir, taskId ? [taskId] : undefined);
+    return NextResponse.json({ results });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
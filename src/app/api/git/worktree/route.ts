@@ -4,7 +4,9 @@
  * Handles worktree creation, deletion, and status queries
  * Used during task lifecycle:
  * - POST /api/git/worktree (create) - Called after task creation
+ * - POST /api/git/worktree (setup) - Re-runs the worktree bootstrap hooks of a task
  * - DELETE /api/git/worktree (delete) - Called when task completes
+ *   (`keepTask: true` only removes the worktree/branch, e.g. after the PR/MR merged)
  * - GET /api/git/worktree (status) - Called to check worktree state
  */
 
@@ -13,6 +15,7 @@ import { getWorktreeManager } from '@/lib/git/worktree';
 import { getProjectDir } from '@/lib/project-dir';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
 import { stopAgentByThreadId } from '@/lib/agents/registry';
+import { loadWorktreeSetupConfig, startWorktreeSetup } from '@/lib/git/worktree-setup';
 
 export async function POST(req: NextRequest) {
   try {
@@ -26,6 +29,7 @@ export async function POST(req: NextRequest) {
       force,
       alsoDeleteBranch,
       alsoDeleteFromRemote,
+      keepTask,
       includeOrphans,
       includeClean,
       includeDirty,
@@ -59,6 +63,27 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    if (action === 'setup') {
+      const task = await getTaskPersistence(projectDir).loadTask(taskId);
+      if (!task?.worktreePath) {
+        return NextResponse.json({ error: 'Task has no worktree' }, { status: 400 });
+      }
+      if (!(await loadWorktreeSetupConfig(projectDir))) {
+        return NextResponse.json(
+          { error: 'No setup hooks configured in .code-automata/worktree-setup.json' },
+          { status: 400 }
+        );
+      }
+      // Runs in the background; the result lands in task.worktreeSetup
+      void startWorktreeSetup(
+        projectDir,
+        await manager.getMainRepoPath(),
+        taskId,
+        task.worktreePath
+      );
+      return NextResponse.json({ success: true, message: 'Worktree setup started' });
+    }
+
     if (action === 'delete') {
       const taskPersistence = getTaskPersistence(projectDir);
       const task = await taskPersistence.loadTask(taskId);
@@ -76,6 +101,16 @@ export async function POST(req: NextRequest) {
         alsoDeleteFromRemote,
         worktreePath
       );
+      if (keepTask) {
+        await taskPersistence.updateTask(taskId, (current) => {
+          current.worktreePath = undefined;
+          current.updatedAt = Date.now();
+        });
+        return NextResponse.json({
+          success: true,
+          message: `Worktree deleted for ${taskId}`,
+        });
+      }
       await taskPersistence.deleteTask(taskId);
       return NextResponse.json({
         success: true,
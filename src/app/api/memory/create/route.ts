@@ -0,0 +1,29 @@
+/**
+ * Create Memory Entry API Route
+ *
+ * POST: Add a pattern or gotcha to the project memory (.code-automata/memory/)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectDir } from '@/lib/project-dir';
+import { createMemoryEntry, validateMemoryInput } from '@/lib/memory/store';
+
+export async function POST(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const body = await req.json();
+
+    const errors = validateMemoryInput(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const entry = await createMemoryEntry({ ...body, source: 'manual' }, projectDir);
+    return NextResponse.json(entry);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create memory entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Delete Memory Entry API Route
+ *
+ * DELETE: Remove a memory entry (?id=...)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectDir } from '@/lib/project-dir';
+import { deleteMemoryEntry } from '@/lib/memory/store';
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const id = req.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'Memory entry ID required' }, { status: 400 });
+    }
+
+    const deleted = await deleteMemoryEntry(id, projectDir);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Memory entry not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete memory entry' },
+      { status: 500 }
+    );
+  }
+}
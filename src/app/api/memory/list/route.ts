@@ -0,0 +1,24 @@
+/**
+ * List Memory Entries API Route
+ *
+ * GET: All memory entries of the project (most recently updated first).
+ * Optional ?kind=pattern|gotcha filter.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectDir } from '@/lib/project-dir';
+import { listMemoryEntries } from '@/lib/memory/store';
+
+export async function GET(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const kind = req.nextUrl.searchParams.get('kind');
+    const entries = await listMemoryEntries(projectDir);
+    return NextResponse.json(kind ? entries.filter((entry) => entry.kind === kind) : entries);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list memory entries' },
+      { status: 500 }
+    );
+  }
+}
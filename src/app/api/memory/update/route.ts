@@ -0,0 +1,37 @@
+/**
+ * Update Memory Entry API Route
+ *
+ * PATCH: Edit, pin or resolve a memory entry. Body: { id, ...fields }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectDir } from '@/lib/project-dir';
+import { updateMemoryEntry, validateMemoryInput } from '@/lib/memory/store';
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const body = await req.json();
+    const { id, ...updates } = body ?? {};
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Memory entry ID required' }, { status: 400 });
+    }
+
+    const errors = validateMemoryInput(updates, true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    const entry = await updateMemoryEntry(id, updates, projectDir);
+    if (!entry) {
+      return NextResponse.json({ error: 'Memory entry not found' }, { status: 404 });
+    }
+    return NextResponse.json(entry);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update memory entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Project Usage Report API Route
+ *
+ * Aggregates recorded agent runs (tokens, cost, wall time, tool calls) by task, phase,
+ * provider, mode and model. Optional filters: `?taskId=` and `?since=` (epoch ms).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProjectDir } from '@/lib/project-dir';
+import { readAgentRuns, summarizeAgentRuns } from '@/lib/agents/usage';
+
+export async function GET(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskId = req.nextUrl.searchParams.get('taskId') || undefined;
+    const sinceParam = req.nextUrl.searchParams.get('since');
+    const since = sinceParam ? Number(sinceParam) : undefined;
+    if (since !== undefined && !Number.isFinite(since)) {
+      return NextResponse.json({ error: 'since must be a timestamp in ms' }, { status: 400 });
+    }
+
+    const runs = await readAgentRuns(projectDir, { taskId, since });
+    return NextResponse.json(summarizeAgentRuns(runs));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
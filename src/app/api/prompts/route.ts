@@ -1,7 +1,8 @@
 /**
  * Prompts API Route
  *
- * GET: Return current prompts (custom + template, or default template)
+ * GET: Return current prompts (custom + template, or default template): plan generation,
+ * subtask generation and the PR/MR description
  * POST: Save custom prompts to .code-automata/prompts.json
  */
 
@@ -10,6 +11,7 @@ import { getProjectDir } from '@/lib/project-dir';
 import { loadPrompts, type ProjectPrompts } from '@/lib/prompts/loader';
 import {
   PLAN_GENERATION_DEFAULT_TEMPLATE,
+  PULL_REQUEST_BODY_DEFAULT_TEMPLATE,
   SUBTASK_GENERATION_DEFAULT_TEMPLATE,
 } from '@/lib/prompts/defaults';
 import fs from 'fs/promises';
@@ -24,6 +26,7 @@ export async function GET(req: NextRequest) {
 
     const planGen = prompts?.planGeneration;
     const subtaskGen = prompts?.subtaskGeneration;
+    const prBody = prompts?.pullRequestBody;
 
     return NextResponse.json({
       planGeneration: {
@@ -40,6 +43,13 @@ export async function GET(req: NextRequest) {
             ? subtaskGen.template
             : SUBTASK_GENERATION_DEFAULT_TEMPLATE,
       },
+      pullRequestBody: {
+        custom: Boolean(prBody?.custom && prBody?.template?.trim()),
+        template:
+          prBody?.custom && prBody?.template?.trim()
+            ? prBody.template
+            : PULL_REQUEST_BODY_DEFAULT_TEMPLATE,
+      },
     });
   } catch (error) {
     return NextResponse.json(
@@ -56,6 +66,7 @@ export async function POST(req: NextRequest) {
 
     const planGen = body.planGeneration as { template?: string } | undefined;
     const subtaskGen = body.subtaskGeneration as { template?: string } | undefined;
+    const prBody = body.pullRequestBody as { template?: string } | undefined;
 
     const codeAutoDir = path.join(projectDir, '.code-automata');
     await fs.mkdir(codeAutoDir, { recursive: true });
@@ -81,6 +92,14 @@ export async function POST(req: NextRequest) {
       };
     }
 
+    if (prBody !== undefined) {
+      const template = typeof prBody?.template === 'string' ? prBody.template.trim() : '';
+      updated.pullRequestBody = {
+        custom: template.length > 0,
+        template: template || PULL_REQUEST_BODY_DEFAULT_TEMPLATE,
+      };
+    }
+
     await fs.writeFile(filePath, JSON.stringify(updated, null, 2), 'utf-8');
 
     return NextResponse.json({
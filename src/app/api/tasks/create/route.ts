@@ -3,11 +3,20 @@
  *
  * Creates a new task and automatically sets up a git worktree for it.
  * Worktree creation is critical for task execution.
+ *
+ * `metadata.dependencies` is validated (known tasks, no cycles). With
+ * `metadata.baseOnDependency`, the worktree is branched from the last finished prerequisite;
+ * while prerequisites are pending it is created later, when the task is unblocked.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
 import { Task } from '@/lib/tasks/schema';
+import {
+  getDependencyBaseBranch,
+  getUnmetDependencies,
+  validateDependencies,
+} from '@/lib/tasks/dependencies';
 import { getWorktreeManager } from '@/lib/git/worktree';
 import { getProjectDir } from '@/lib/project-dir';
 
@@ -58,6 +67,16 @@ export async function POST(req: NextRequest) {
       metadata: body.metadata || {},
     };
 
+    const dependencies = task.metadata?.dependencies;
+    const allTasks = dependencies?.length ? await taskPersistence.listTasks() : [];
+    if (dependencies !== undefined) {
+      const errors = validateDependencies(taskId, dependencies, allTasks);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+      }
+    }
+    const baseOnDependency = !!task.metadata?.baseOnDependency && !!dependencies?.length;
+
     // Save task first
     await taskPersistence.saveTask(task);
 
@@ -68,12 +87,18 @@ export async function POST(req: NextRequest) {
       const manager = getWorktreeManager(projectDir);
       const gitAvailable = await manager.verifyGitAvailable();
 
-      if (gitAvailable) {
-        const worktreeInfo = await manager.createWorktree(taskId);
-        // Update task with worktree info
+      if (baseOnDependency && getUnmetDependencies(task, allTasks).length > 0) {
+        console.log(`[Task ${taskId}] Worktree deferred until prerequisites are done`);
+      } else if (gitAvailable) {
+        const baseBranch = baseOnDependency ? getDependencyBaseBranch(task, allTasks) : undefined;
+        const worktreeInfo = await manager.createWorktree(taskId, baseBranch);
+        // Update task with worktree info (updateTask: the setup hooks may already write to it)
         task.worktreePath = worktreeInfo.path;
         task.branchName = worktreeInfo.branchName;
-        await taskPersistence.saveTask(task);
+        await taskPersistence.updateTask(taskId, (current) => {
+          current.worktreePath = worktreeInfo.path;
+          current.branchName = worktreeInfo.branchName;
+        });
 
         console.log(`[Task ${taskId}] Worktree created: ${worktreeInfo.path}`);
       } else {
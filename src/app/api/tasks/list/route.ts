@@ -5,13 +5,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
 import { getProjectDir } from '@/lib/project-dir';
+import { ensureTasksReconciled } from '@/lib/agents/recovery';
+import { getTaskQueuePositions } from '@/lib/agents/registry';
 
 export async function GET(req: NextRequest) {
   try {
     const projectDir = await getProjectDir(req);
     const taskPersistence = getTaskPersistence(projectDir);
+    // First listing after server start: mark tasks orphaned by a crash/restart as interrupted
+    await ensureTasksReconciled(projectDir).catch((error) => {
+      console.error('[tasks/list] Crash recovery sweep failed:', error);
+    });
     const tasks = await taskPersistence.listTasks();
-    return NextResponse.json(tasks);
+    // Tasks whose next agent run is waiting for a scheduler slot show "queued (#n)"
+    const queuePositions = getTaskQueuePositions();
+    return NextResponse.json(
+      tasks.map((task) => ({ ...task, queuePosition: queuePositions.get(task.id) }))
+    );
   } catch (error) {
     return NextResponse.json(
       {
@@ -0,0 +1,98 @@
+/**
+ * Request Changes API Route
+ *
+ * Sends a task in Human Review back to development with the reviewer's line comments: each
+ * comment becomes a dev subtask anchored to its file and line (see review-changes.ts), the
+ * task returns to In Progress and the new subtasks run in the background. QA runs again
+ * afterwards.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import path from 'path';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { executeDevSubtasks } from '@/lib/agents/subtask-runner';
+import { requestReviewChanges, validateReviewComments } from '@/lib/agents/review-changes';
+import type { Subtask } from '@/lib/tasks/schema';
+import { getProjectDir } from '@/lib/project-dir';
+
+export async function POST(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+    const { taskId, comments: input } = await req.json();
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId required' }, { status: 400 });
+    }
+
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+    if (task.phase !== 'human_review') {
+      return NextResponse.json(
+        { error: 'Changes can only be requested for tasks in Human Review' },
+        { status: 400 }
+      );
+    }
+
+    const { comments, errors } = validateReviewComments(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+    }
+
+    let subtasks: Subtask[] = [];
+    const updated = await taskPersistence.updateTask(taskId, (current) => {
+      subtasks = requestReviewChanges(current, comments);
+      current.phase = 'in_progress';
+      current.status = 'in_progress';
+      current.assignedAgent = undefined;
+      current.blockedReason = undefined;
+      current.updatedAt = Date.now();
+    });
+    if (!updated) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const logsPath = path.join(
+      projectDir,
+      '.code-automata',
+      'tasks',
+      taskId,
+      'development-logs.txt'
+    );
+    await fs.mkdir(path.dirname(logsPath), { recursive: true });
+    await fs.appendFile(
+      logsPath,
+      `\n${'='.repeat(80)}\n[Changes Requested] ${subtasks.length} review comment(s) - running ${subtasks.length} subtask(s)\n${'='.repeat(80)}\n\n`,
+      'utf-8'
+    );
+
+    // Run in background - return immediately so the client can follow the logs
+    executeDevSubtasks(taskPersistence, projectDir, taskId, subtasks, logsPath).catch(
+      async (err) => {
+        console.error('[request-changes] Error running review subtasks:', err);
+        await fs
+          .appendFile(
+            logsPath,
+            `[Request Changes Error] ${err instanceof Error ? err.message : 'Unknown error'}\n`,
+            'utf-8'
+          )
+          .catch(() => {});
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      subtaskIds: subtasks.map((s) => s.id),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
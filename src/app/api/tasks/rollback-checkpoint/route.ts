@@ -0,0 +1,149 @@
+/**
+ * Rollback Checkpoint API Route
+ *
+ * Resets the task's worktree to a subtask checkpoint (the commit made when that dev subtask
+ * completed) or, without subtaskId, to the commit before the first dev subtask. Dev subtasks
+ * whose checkpoint is not part of the target are reset to pending, QA results are discarded,
+ * the task returns to In Progress and the pending dev subtasks are re-run in the background.
+ * When every dev subtask is kept, the task goes straight back to AI Review instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import path from 'path';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { listActiveAgentSessions } from '@/lib/agents/registry';
+import { executeDevSubtasks } from '@/lib/agents/subtask-runner';
+import { isCheckpointContained, resetToCheckpoint } from '@/lib/git/checkpoints';
+import { loadSetupPaths } from '@/lib/git/worktree-setup';
+import { getProjectDir } from '@/lib/project-dir';
+
+export async function POST(req: NextRequest) {
+  try {
+    const projectDir = await getProjectDir(req);
+    const taskPersistence = getTaskPersistence(projectDir);
+    const { taskId, subtaskId } = await req.json();
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'taskId required' }, { status: 400 });
+    }
+
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+    if (!task.worktreePath) {
+      return NextResponse.json({ error: 'Task has no worktree to roll back' }, { status: 400 });
+    }
+    if (task.phase === 'planning' || task.phase === 'done') {
+      return NextResponse.json(
+        { error: 'Only tasks in development or review can be rolled back' },
+        { status: 400 }
+      );
+    }
+
+    const subtask = subtaskId ? task.subtasks.find((s) => s.id === subtaskId) : undefined;
+    if (subtaskId && !subtask) {
+      return NextResponse.json({ error: 'Subtask not found' }, { status: 404 });
+    }
+    const target = subtaskId ? subtask?.checkpoint : task.checkpointBase;
+    if (!target) {
+      return NextResponse.json(
+        { error: subtaskId ? 'Subtask has no checkpoint' : 'Task has no base checkpoint' },
+        { status: 400 }
+      );
+    }
+
+    if (listActiveAgentSessions(projectDir).some((session) => session.taskId === taskId)) {
+      return NextResponse.json(
+        { error: 'Stop the running agents of this task before rolling back' },
+        { status: 409 }
+      );
+    }
+
+    await resetToCheckpoint(task.worktreePath, target, await loadSetupPaths(projectDir));
+
+    // Keep the dev subtasks whose work is part of the target commit, re-run the others
+    for (const s of task.subtasks) {
+      if (s.type === 'qa') {
+        s.status = 'pending';
+        s.verdict = undefined;
+        continue;
+      }
+      const kept =
+        s.status === 'completed' &&
+        !!s.checkpoint &&
+        (await isCheckpointContained(task.worktreePath, s.checkpoint, target));
+      if (!kept) {
+        s.status = 'pending';
+        s.checkpoint = undefined;
+      }
+    }
+    const rerun = task.subtasks.filter((s) => s.type === 'dev' && s.status === 'pending');
+    task.phase = rerun.length > 0 ? 'in_progress' : 'ai_review';
+    task.status = 'in_progress';
+    task.assignedAgent = undefined;
+    task.interruption = undefined;
+    task.blockedReason = undefined;
+    task.verification = undefined;
+    task.updatedAt = Date.now();
+    await taskPersistence.saveTask(task);
+
+    if (rerun.length === 0) {
+      // Nothing to redo in development: verify the rolled-back worktree again
+      const projectPath = req.headers.get('X-Project-Path');
+      const fetchHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (projectPath) fetchHeaders['X-Project-Path'] = projectPath;
+      await fetch(
+        `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/agents/start-review`,
+        {
+          method: 'POST',
+          headers: fetchHeaders,
+          body: JSON.stringify({ taskId }),
+        }
+      ).catch((error) => console.log('Auto-start review failed:', error));
+      return NextResponse.json({ success: true, checkpoint: target, rerunSubtaskIds: [] });
+    }
+
+    const logsPath = path.join(
+      projectDir,
+      '.code-automata',
+      'tasks',
+      taskId,
+      'development-logs.txt'
+    );
+    await fs.mkdir(path.dirname(logsPath), { recursive: true });
+    await fs.appendFile(
+      logsPath,
+      `\n${'='.repeat(80)}\n[Rollback] Worktree reset to ${target.slice(0, 10)} (${
+        subtask ? `after ${subtask.label}` : 'before the first dev subtask'
+      }) - re-running ${rerun.length} subtask(s)\n${'='.repeat(80)}\n\n`,
+      'utf-8'
+    );
+
+    // Re-run in background - return immediately so the client can follow the logs
+    executeDevSubtasks(taskPersistence, projectDir, taskId, rerun, logsPath).catch(async (err) => {
+      console.error('[rollback-checkpoint] Error re-running subtasks:', err);
+      await fs
+        .appendFile(
+          logsPath,
+          `[Rollback Error] ${err instanceof Error ? err.message : 'Unknown error'}\n`,
+          'utf-8'
+        )
+        .catch(() => {});
+    });
+
+    return NextResponse.json({
+      success: true,
+      checkpoint: target,
+      rerunSubtaskIds: rerun.map((s) => s.id),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,11 +8,23 @@
  *
  * Phase transitions: In Progress and AI Review are one-way states. Tasks cannot
  * be moved backwards to them from later phases (use Planning/Replanning instead).
+ *
+ * Verification: when the project declares verification commands, AI Review → Human Review
+ * requires the task's last verification run to have passed.
+ *
+ * Dependencies: `metadata.dependencies` changes are validated (known tasks, no cycles).
+ * When a task moves to "done", dependents with no other unmet prerequisite are started.
+ *
+ * Issues: when a task linked to an issue moves to "done" and its PR/MR has merged, the task
+ * summary is posted to the issue and the issue is closed (in the background).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getTaskPersistence } from '@/lib/tasks/persistence';
 import { getProjectDir } from '@/lib/project-dir';
+import { validateDependencies } from '@/lib/tasks/dependencies';
+import { loadVerificationCommands } from '@/lib/agents/verification';
+import { runDoneHooks } from '@/lib/tasks/done-hooks';
 import type { WorkflowPhase } from '@/lib/tasks/schema';
 
 const FORBIDDEN_TRANSITIONS: Array<{ from: WorkflowPhase; to: WorkflowPhase }> = [
@@ -57,6 +69,31 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
+    if (
+      task.phase === 'ai_review' &&
+      updates.phase === 'human_review' &&
+      !task.verification?.passed &&
+      (await loadVerificationCommands(projectDir)).length > 0
+    ) {
+      const failed = task.verification?.results.filter((r) => !r.passed).map((r) => r.name);
+      return NextResponse.json(
+        {
+          error: failed?.length
+            ? `Verification commands failed: ${failed.join(', ')}`
+            : 'Verification commands have not run yet',
+        },
+        { status: 409 }
+      );
+    }
+
+    const dependencies = updates.metadata?.dependencies;
+    if (dependencies !== undefined) {
+      const errors = validateDependencies(taskId, dependencies, await taskPersistence.listTasks());
+      if (errors.length > 0) {
+        return NextResponse.json({ error: errors.join('; ') }, { status: 400 });
+      }
+    }
+
     // Update task
     const updatedTask = {
       ...task,
@@ -75,6 +112,11 @@ export async function PATCH(req: NextRequest) {
       );
     }
 
+    // Start dependents and close the linked issue in the background (lib/tasks/done-hooks.ts)
+    if (updates.phase === 'done' && task.phase !== 'done') {
+      runDoneHooks(updatedTask, projectDir);
+    }
+
     return NextResponse.json(updatedTask);
   } catch (error) {
     return NextResponse.json(
@@ -1,5 +1,335 @@
-import { ComingSoon } from '@/components/coming-soon';
+'use client';
 
-export default function GitHubPage() {
-  return <ComingSoon />;
+/**
+ * Issues Page
+ *
+ * Browses the open issues of the project's `origin` repository (GitHub or GitLab) with
+ * label/milestone/assignee filters, and imports them into the Planning column one at a time
+ * or in bulk (POST /api/git/issues). Issues that already have a task show an "Imported" badge.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useProjectStore } from '@/store/project-store';
+import { useTaskStore } from '@/store/task-store';
+import { apiFetch } from '@/lib/api-client';
+import type { Issue } from '@/lib/git/issues';
+import type { HostingProvider } from '@/lib/tasks/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertCircle, CircleDot, Download, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface IssueFilters {
+  labels: string;
+  milestone: string;
+  assignee: string;
+}
+
+const NO_FILTERS: IssueFilters = { labels: '', milestone: '', assignee: '' };
+
+interface IssuesResponse {
+  provider: HostingProvider;
+  issues: Issue[];
+  importedIssues: Record<number, string>;
+}
+
+export default function IssuesPage() {
+  const projectPath = useProjectStore((s) => s.projectPath);
+  const loadTasks = useTaskStore((s) => s.loadTasks);
+  const [data, setData] = useState<IssuesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<IssueFilters>(NO_FILTERS);
+  // Filters are applied on submit, not on every keystroke
+  const [appliedFilters, setAppliedFilters] = useState<IssueFilters>(NO_FILTERS);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+
+  const fetchIssues = useCallback(async () => {
+    if (!projectPath) {
+      setData(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(appliedFilters)) {
+        if (value.trim()) params.set(key, value.trim());
+      }
+      const res = await apiFetch(`/api/git/issues?${params.toString()}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(typeof body?.error === 'string' ? body.error : `Request failed (${res.status})`);
+        setData(null);
+        return;
+      }
+      setData(body as IssuesResponse);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load issues');
+      setData(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath, appliedFilters]);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [fetchIssues]);
+
+  const importIssues = async (numbers: number[]) => {
+    setImporting(true);
+    try {
+      const res = await apiFetch('/api/git/issues', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ numbers }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(typeof body?.error === 'string' ? body.error : 'Failed to import issues');
+        return;
+      }
+      const created = (body.created ?? []) as Array<{ id: string; title: string }>;
+      const skipped = (body.skipped ?? []) as Array<{ number: number }>;
+      toast.success(
+        created.length === 1
+          ? `Imported "${created[0].title}" into Planning`
+          : `Imported ${created.length} issues into Planning`,
+        skipped.length > 0
+          ? { description: `${skipped.length} already imported, skipped` }
+          : undefined
+      );
+      loadTasks();
+      fetchIssues();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to import issues');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggle = (number: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(number)) next.delete(number);
+      else next.add(number);
+      return next;
+    });
+  };
+
+  if (!projectPath) {
+    return (
+      <div
+        className="min-h-screen flex flex-col items-center justify-center gap-6 p-6"
+        style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+      >
+        <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          Open a project from the sidebar to browse its issues.
+        </p>
+      </div>
+    );
+  }
+
+  const issues = data?.issues ?? [];
+  const imported = data?.importedIssues ?? {};
+  const importable = issues.filter((i) => !imported[i.number]);
+  const providerName = data?.provider === 'gitlab' ? 'GitLab' : 'GitHub';
+
+  return (
+    <div
+      className="min-h-screen p-6"
+      style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+    >
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <h1 className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>
+            {data ? `${providerName} Issues` : 'Issues'}
+          </h1>
+          <Button
+            data-testid="import-selected-issues"
+            disabled={selected.size === 0 || importing}
+            onClick={() => importIssues([...selected])}
+            className="gap-2"
+            style={{
+              backgroundColor: 'var(--color-primary)',
+              color: 'var(--color-primary-text)',
+            }}
+          >
+            {importing ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4" />
+            )}
+            Import selected ({selected.size})
+          </Button>
+        </header>
+
+        <form
+          className="flex flex-col sm:flex-row gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setAppliedFilters({ ...filters });
+          }}
+        >
+          <Input
+            placeholder="Labels (comma-separated)"
+            value={filters.labels}
+            onChange={(e) => setFilters({ ...filters, labels: e.target.value })}
+          />
+          <Input
+            placeholder="Milestone"
+            value={filters.milestone}
+            onChange={(e) => setFilters({ ...filters, milestone: e.target.value })}
+          />
+          <Input
+            placeholder="Assignee"
+            value={filters.assignee}
+            onChange={(e) => setFilters({ ...filters, assignee: e.target.value })}
+          />
+          <Button type="submit" variant="outline" className="gap-2" disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Filter
+          </Button>
+        </form>
+
+        {error ? (
+          <div
+            data-testid="issues-error-state"
+            className="rounded-lg border p-6 text-center space-y-3"
+            style={{ background: 'var(--color-surface)', borderColor: 'var(--color-border)' }}
+          >
+            <AlertCircle
+              className="w-10 h-10 mx-auto"
+              style={{ color: 'var(--color-destructive)' }}
+            />
+            <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              {error}
+            </p>
+            <Button variant="outline" onClick={fetchIssues}>
+              Retry
+            </Button>
+          </div>
+        ) : loading && !data ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin" style={{ color: 'var(--color-primary)' }} />
+          </div>
+        ) : issues.length === 0 ? (
+          <p
+            data-testid="issues-empty-state"
+            className="text-sm text-center py-12"
+            style={{ color: 'var(--color-text-muted)' }}
+          >
+            No open issues match these filters.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <label
+              className="flex items-center gap-2 text-xs"
+              style={{ color: 'var(--color-text-secondary)' }}
+            >
+              <Checkbox
+                checked={importable.length > 0 && selected.size === importable.length}
+                disabled={importable.length === 0}
+                onCheckedChange={(checked) =>
+                  setSelected(checked ? new Set(importable.map((i) => i.number)) : new Set())
+                }
+              />
+              Select all not yet imported ({importable.length})
+            </label>
+
+            {issues.map((issue) => {
+              const taskId = imported[issue.number];
+              return (
+                <div
+                  key={issue.number}
+                  data-testid={`issue-${issue.number}`}
+                  className="flex items-start gap-3 rounded-lg border p-3"
+                  style={{ background: 'var(--color-surface)', borderColor: 'var(--color-border)' }}
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selected.has(issue.number)}
+                    disabled={!!taskId}
+                    onCheckedChange={() => toggle(issue.number)}
+                  />
+                  <CircleDot
+                    className="w-4 h-4 mt-0.5 shrink-0"
+                    style={{ color: 'var(--color-success)' }}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-baseline gap-2">
+                      <a
+                        href={issue.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium hover:underline truncate"
+                        style={{ color: 'var(--color-text-primary)' }}
+                      >
+                        {issue.title}
+                      </a>
+                      <span
+                        className="text-xs shrink-0"
+                        style={{ color: 'var(--color-text-muted)' }}
+                      >
+                        #{issue.number}
+                      </span>
+                    </div>
+                    <div
+                      className="flex flex-wrap items-center gap-1.5 text-xs"
+                      style={{ color: 'var(--color-text-muted)' }}
+                    >
+                      {issue.labels.map((label) => (
+                        <span
+                          key={label}
+                          className="px-1.5 py-0.5 rounded"
+                          style={{
+                            background: 'var(--color-background)',
+                            border: '1px solid var(--color-border)',
+                            color: 'var(--color-text-secondary)',
+                          }}
+                        >
+                          {label}
+                        </span>
+                      ))}
+                      {issue.milestone && <span>Milestone: {issue.milestone}</span>}
+                      {issue.assignees.length > 0 && (
+                        <span>Assigned: {issue.assignees.join(', ')}</span>
+                      )}
+                      {issue.commentCount > 0 && <span>{issue.commentCount} comments</span>}
+                    </div>
+                  </div>
+                  {taskId ? (
+                    <span
+                      className="text-xs px-2 py-1 rounded shrink-0"
+                      title={taskId}
+                      style={{
+                        background: 'var(--color-background)',
+                        color: 'var(--color-text-muted)',
+                      }}
+                    >
+                      Imported
+                    </span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="shrink-0"
+                      disabled={importing}
+                      onClick={() => importIssues([issue.number])}
+                    >
+                      Import
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
 }
@@ -1,5 +1,310 @@
-import { ComingSoon } from '@/components/coming-soon';
+'use client';
+
+/**
+ * Memory Page
+ *
+ * Curate the project memory (.code-automata/memory/): patterns and gotchas that are
+ * retrieved into agent prompts. Lists entries with kind filter and search; New/Edit open
+ * MemoryEntryModal; cards pin, resolve and delete. Harvested gotchas (failed subtasks,
+ * fix-agent retries) show up here automatically. Gates on projectPath like Worktrees.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useProjectStore } from '@/store/project-store';
+import { apiFetch } from '@/lib/api-client';
+import type { MemoryEntry, MemoryKind } from '@/lib/memory/store';
+import { MemoryEntryCard } from '@/components/memory/memory-entry-card';
+import { MemoryEntryModal } from '@/components/memory/memory-entry-modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, AlertCircle, Brain, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+type KindFilter = 'all' | MemoryKind;
+
+const KIND_FILTERS: { value: KindFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'pattern', label: 'Patterns' },
+  { value: 'gotcha', label: 'Gotchas' },
+];
 
 export default function MemoryPage() {
-  return <ComingSoon />;
+  const projectPath = useProjectStore((s) => s.projectPath);
+  const [entries, setEntries] = useState<MemoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [search, setSearch] = useState('');
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editing, setEditing] = useState<MemoryEntry | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    if (!projectPath) {
+      setEntries([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/api/memory/list');
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(typeof body?.error === 'string' ? body.error : `Request failed (${res.status})`);
+        setEntries([]);
+        return;
+      }
+      setEntries(body as MemoryEntry[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load memory');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectPath]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (kindFilter !== 'all' && entry.kind !== kindFilter) return false;
+      if (!query) return true;
+      return [
+        entry.title,
+        entry.content,
+        entry.context,
+        entry.example,
+        ...entry.tags,
+        ...entry.files,
+      ]
+        .filter(Boolean)
+        .some((text) => text!.toLowerCase().includes(query));
+    });
+  }, [entries, kindFilter, search]);
+
+  const openEditor = useCallback((entry: MemoryEntry | null) => {
+    setEditing(entry);
+    setModalOpen(true);
+  }, []);
+
+  const handleSaved = useCallback(
+    (saved: MemoryEntry) => {
+      toast.success(editing ? 'Memory entry updated' : 'Memory entry added');
+      setEntries((prev) => [saved, ...prev.filter((entry) => entry.id !== saved.id)]);
+    },
+    [editing]
+  );
+
+  const handleUpdate = useCallback(async (entry: MemoryEntry, updates: Partial<MemoryEntry>) => {
+    try {
+      const res = await apiFetch('/api/memory/update', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: entry.id, ...updates }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? `Update failed (${res.status})`);
+      setEntries((prev) => prev.map((e) => (e.id === entry.id ? (body as MemoryEntry) : e)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update memory entry');
+    }
+  }, []);
+
+  const handleDelete = useCallback(async (entry: MemoryEntry) => {
+    try {
+      const res = await apiFetch(`/api/memory/delete?id=${encodeURIComponent(entry.id)}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Delete failed (${res.status})`);
+      }
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      toast.success('Memory entry deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete memory entry');
+    }
+  }, []);
+
+  if (!projectPath) {
+    return (
+      <div
+        data-testid="memory-no-project"
+        className="min-h-screen flex flex-col items-center justify-center gap-6 p-6"
+        style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+      >
+        <div
+          className="rounded-lg border p-8 max-w-md w-full text-center space-y-4"
+          style={{
+            background: 'var(--color-surface)',
+            borderColor: 'var(--color-border)',
+          }}
+        >
+          <Brain className="w-12 h-12 mx-auto" style={{ color: 'var(--color-text-muted)' }} />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+            Select a project
+          </h2>
+          <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            Open a project from the sidebar to view its memory.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div
+        className="min-h-screen flex flex-col items-center justify-center gap-4 p-6"
+        style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+      >
+        <Loader2 className="w-10 h-10 animate-spin" style={{ color: 'var(--color-primary)' }} />
+        <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          Loading memory…
+        </p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div
+        data-testid="memory-error-state"
+        className="min-h-screen flex flex-col items-center justify-center gap-6 p-6"
+        style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+      >
+        <div
+          className="rounded-lg border p-6 max-w-md w-full text-center space-y-4"
+          style={{
+            background: 'var(--color-surface)',
+            borderColor: 'var(--color-border)',
+          }}
+        >
+          <AlertCircle
+            className="w-12 h-12 mx-auto"
+            style={{ color: 'var(--color-destructive)' }}
+          />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+            Something went wrong
+          </h2>
+          <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {error}
+          </p>
+          <Button
+            onClick={fetchEntries}
+            style={{
+              backgroundColor: 'var(--color-primary)',
+              color: 'var(--color-primary-text)',
+            }}
+          >
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="min-h-screen p-6"
+      style={{ background: 'var(--color-background)', color: 'var(--color-text-primary)' }}
+    >
+      <div className="max-w-4xl mx-auto space-y-6">
+        <header className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>
+              Memory
+            </h1>
+            <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              Patterns and gotchas added to agent prompts when they match a task&apos;s tags or
+              files. Pinned entries are always included.
+            </p>
+          </div>
+          <Button
+            className="gap-2"
+            onClick={() => openEditor(null)}
+            style={{
+              backgroundColor: 'var(--color-primary)',
+              color: 'var(--color-primary-text)',
+            }}
+          >
+            <Plus className="w-4 h-4" />
+            New entry
+          </Button>
+        </header>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="flex gap-1">
+            {KIND_FILTERS.map((filter) => (
+              <Button
+                key={filter.value}
+                variant="outline"
+                size="sm"
+                onClick={() => setKindFilter(filter.value)}
+                style={{
+                  background:
+                    kindFilter === filter.value
+                      ? 'var(--color-surface-hover)'
+                      : 'var(--color-surface)',
+                  borderColor:
+                    kindFilter === filter.value ? 'var(--color-primary)' : 'var(--color-border)',
+                  color: 'var(--color-text-primary)',
+                }}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+          <Input
+            placeholder="Search title, content, tags or files"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        {filtered.length === 0 ? (
+          <div
+            data-testid="memory-empty-state"
+            className="rounded-lg border p-8 text-center space-y-2"
+            style={{ background: 'var(--color-surface)', borderColor: 'var(--color-border)' }}
+          >
+            <Brain className="w-10 h-10 mx-auto" style={{ color: 'var(--color-text-muted)' }} />
+            <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              {entries.length === 0
+                ? 'No memory yet. Add a pattern, or let failed subtasks and fix-agent retries record gotchas.'
+                : 'No entries match the filter.'}
+            </p>
+          </div>
+        ) : (
+          <ul data-testid="memory-list" className="grid gap-4">
+            {filtered.map((entry) => (
+              <li key={entry.id}>
+                <MemoryEntryCard
+                  entry={entry}
+                  onEdit={openEditor}
+                  onDelete={handleDelete}
+                  onUpdate={handleUpdate}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <MemoryEntryModal
+        open={modalOpen}
+        onOpenChange={(open) => {
+          setModalOpen(open);
+          if (!open) setEditing(null);
+        }}
+        entry={editing}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
 }
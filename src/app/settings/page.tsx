@@ -14,6 +14,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
 import {
   PLAN_GENERATION_DEFAULT_TEMPLATE,
+  PULL_REQUEST_BODY_DEFAULT_TEMPLATE,
   SUBTASK_GENERATION_DEFAULT_TEMPLATE,
 } from '@/lib/prompts/defaults';
 
@@ -22,6 +23,7 @@ type TabId = 'custom-prompts';
 interface PromptsResponse {
   planGeneration: { custom: boolean; template: string };
   subtaskGeneration: { custom: boolean; template: string };
+  pullRequestBody: { custom: boolean; template: string };
 }
 
 const PLACEHOLDERS_PLAN = [
@@ -34,6 +36,20 @@ const PLACEHOLDERS_PLAN = [
 
 const PLACEHOLDERS_SUBTASK = ['{{task.title}}', '{{task.description}}', '{{planContent}}'];
 
+const PLACEHOLDERS_PR_BODY = [
+  '{{overview}}',
+  '{{testing_strategy}}',
+  '{{subtasks}}',
+  '{{verification}}',
+  '{{manual_qa}}',
+  '{{diffstat}}',
+  '{{issue}}',
+  '{{task.id}}',
+  '{{task.title}}',
+  '{{task.description}}',
+  '{{planContent}}',
+];
+
 export default function SettingsPage() {
   const projectPath = useProjectStore((s) => s.projectPath);
   const [activeTab, setActiveTab] = useState<TabId>('custom-prompts');
@@ -41,9 +57,12 @@ export default function SettingsPage() {
   const [subtaskTemplate, setSubtaskTemplate] = useState('');
   const [planCustom, setPlanCustom] = useState(false);
   const [subtaskCustom, setSubtaskCustom] = useState(false);
+  const [prBodyTemplate, setPrBodyTemplate] = useState('');
+  const [prBodyCustom, setPrBodyCustom] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSavingPlan, setIsSavingPlan] = useState(false);
   const [isSavingSubtask, setIsSavingSubtask] = useState(false);
+  const [isSavingPrBody, setIsSavingPrBody] = useState(false);
 
   useEffect(() => {
     if (!projectPath) {
@@ -61,6 +80,8 @@ export default function SettingsPage() {
           setSubtaskTemplate(data.subtaskGeneration.template);
           setPlanCustom(data.planGeneration.custom);
           setSubtaskCustom(data.subtaskGeneration.custom);
+          setPrBodyTemplate(data.pullRequestBody.template);
+          setPrBodyCustom(data.pullRequestBody.custom);
         }
       } catch (err) {
         if (!cancelled) {
@@ -87,6 +108,12 @@ export default function SettingsPage() {
     toast.success('Subtask template reset to default');
   };
 
+  const handleResetPrBody = () => {
+    setPrBodyTemplate(PULL_REQUEST_BODY_DEFAULT_TEMPLATE);
+    setPrBodyCustom(false);
+    toast.success('PR description template reset to default');
+  };
+
   const handleSavePlan = async () => {
     if (!projectPath) return;
     setIsSavingPlan(true);
@@ -129,6 +156,27 @@ export default function SettingsPage() {
     }
   };
 
+  const handleSavePrBody = async () => {
+    if (!projectPath) return;
+    setIsSavingPrBody(true);
+    try {
+      const res = await apiFetch('/api/prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pullRequestBody: { template: prBodyTemplate },
+        }),
+      });
+      if (!res.ok) throw new Error('Failed to save');
+      setPrBodyCustom(prBodyTemplate.trim().length > 0);
+      toast.success('PR description template saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setIsSavingPrBody(false);
+    }
+  };
+
   if (!projectPath) {
     return (
       <div
@@ -317,6 +365,75 @@ export default function SettingsPage() {
                     )}
                   </div>
                 </section>
+
+                <section>
+                  <h2
+                    className="text-lg font-semibold mb-2"
+                    style={{ color: 'var(--color-text-primary)' }}
+                  >
+                    Pull Request Description
+                  </h2>
+                  <p className="text-sm mb-3" style={{ color: 'var(--color-text-muted)' }}>
+                    Description of the GitHub PR / GitLab MR created from Human Review. Section
+                    placeholders include their own heading and are left out when the task has no
+                    data for them.
+                  </p>
+                  <p className="text-xs mb-2" style={{ color: 'var(--color-text-muted)' }}>
+                    Placeholders: {PLACEHOLDERS_PR_BODY.join(', ')}
+                  </p>
+                  <Textarea
+                    value={prBodyTemplate}
+                    onChange={(e) => setPrBodyTemplate(e.target.value)}
+                    rows={14}
+                    className="font-mono text-sm"
+                  />
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleResetPrBody}
+                      style={{
+                        borderColor: 'var(--color-border)',
+                        background: 'var(--color-surface)',
+                        color: 'var(--color-text-primary)',
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.background = 'var(--color-surface-hover)';
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.background = 'var(--color-surface)';
+                      }}
+                    >
+                      Reset to Default
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleSavePrBody}
+                      disabled={isSavingPrBody}
+                      style={{
+                        background: 'var(--color-primary)',
+                        color: 'var(--color-primary-text)',
+                      }}
+                      onMouseEnter={(e) => {
+                        if (!isSavingPrBody)
+                          e.currentTarget.style.background = 'var(--color-primary-hover)';
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.background = 'var(--color-primary)';
+                      }}
+                    >
+                      {isSavingPrBody ? 'Saving...' : 'Save'}
+                    </Button>
+                    {prBodyCustom && (
+                      <span
+                        className="text-xs self-center"
+                        style={{ color: 'var(--color-text-muted)' }}
+                      >
+                        Using custom template
+                      </span>
+                    )}
+                  </div>
+                </section>
               </>
             )}
           </div>
@@ -0,0 +1,172 @@
+'use client';
+
+/**
+ * AgentSessionCard
+ *
+ * One agent session on the Agents dashboard: task, provider, phase, status, elapsed time
+ * (or start/finish for history), last message and token usage. Actions: Attach (opens the
+ * session's terminal) and, for running or queued sessions, Stop.
+ */
+
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, Square, TerminalSquare } from 'lucide-react';
+
+export interface AgentSessionView {
+  taskId: string;
+  taskTitle?: string;
+  threadId: string;
+  provider?: string;
+  phase?: string;
+  subtaskId?: string;
+  status: 'queued' | 'running' | 'completed' | 'error' | 'stopped' | 'interrupted';
+  queuePosition?: number;
+  error?: string;
+  startedAt?: number;
+  completedAt?: number;
+  elapsedMs?: number;
+  lastMessage?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+}
+
+const STATUS_COLORS: Record<AgentSessionView['status'], string> = {
+  queued: 'var(--color-text-muted)',
+  running: 'var(--color-info)',
+  completed: 'var(--color-success)',
+  error: 'var(--color-error)',
+  stopped: 'var(--color-warning)',
+  interrupted: 'var(--color-warning)',
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export interface AgentSessionCardProps {
+  session: AgentSessionView;
+  stopping?: boolean;
+  onAttach: (session: AgentSessionView) => void;
+  onStop?: (session: AgentSessionView) => void;
+}
+
+export function AgentSessionCard({ session, stopping, onAttach, onStop }: AgentSessionCardProps) {
+  const isRunning = session.status === 'running';
+  const isLive = isRunning || session.status === 'queued';
+  const duration =
+    session.elapsedMs ??
+    (session.startedAt && session.completedAt
+      ? session.completedAt - session.startedAt
+      : undefined);
+  const hasTokens = session.inputTokens !== undefined || session.outputTokens !== undefined;
+
+  return (
+    <Card
+      data-testid="agent-session-card"
+      style={{ background: 'var(--color-surface)', borderColor: 'var(--color-border)' }}
+    >
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2 flex-wrap text-xs">
+          <span style={{ color: STATUS_COLORS[session.status] }}>
+            ● {session.status}
+            {session.queuePosition !== undefined && ` (#${session.queuePosition})`}
+          </span>
+          {session.provider && (
+            <Badge variant="outline" style={{ color: 'var(--color-text-secondary)' }}>
+              {session.provider}
+            </Badge>
+          )}
+          {session.phase && <Badge variant="secondary">{session.phase}</Badge>}
+          {session.subtaskId && (
+            <span style={{ color: 'var(--color-text-muted)' }}>{session.subtaskId}</span>
+          )}
+        </div>
+        <CardTitle className="text-base">
+          <Link
+            href={`/task/${session.taskId}`}
+            className="hover:underline"
+            style={{ color: 'var(--color-text-primary)' }}
+          >
+            {session.taskTitle ?? session.taskId}
+          </Link>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <p
+          className="font-mono text-xs truncate"
+          title={session.lastMessage}
+          style={{ color: 'var(--color-text-secondary)' }}
+        >
+          {session.lastMessage ?? 'No output yet'}
+        </p>
+        {session.error && (
+          <p className="text-xs" style={{ color: 'var(--color-error)' }}>
+            {session.error}
+          </p>
+        )}
+        <div
+          className="flex flex-wrap gap-x-4 gap-y-1 text-xs"
+          style={{ color: 'var(--color-text-muted)' }}
+        >
+          {session.startedAt && <span>Started {new Date(session.startedAt).toLocaleString()}</span>}
+          {duration !== undefined && session.status !== 'queued' && (
+            <span>
+              {isRunning ? 'Elapsed' : 'Duration'} {formatDuration(duration)}
+            </span>
+          )}
+          {hasTokens && (
+            <span>
+              {formatTokens(session.inputTokens ?? 0)} in ·{' '}
+              {formatTokens(session.outputTokens ?? 0)} out
+            </span>
+          )}
+          {(session.costUsd ?? 0) > 0 && <span>${session.costUsd!.toFixed(2)}</span>}
+          <span className="font-mono">{session.threadId}</span>
+        </div>
+      </CardContent>
+      <CardFooter className="gap-2 justify-end">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          onClick={() => onAttach(session)}
+          title={isLive ? 'Attach terminal' : 'Replay log'}
+        >
+          <TerminalSquare className="w-4 h-4" />
+          {isLive ? 'Attach' : 'Log'}
+        </Button>
+        {isLive && onStop && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={() => onStop(session)}
+            disabled={stopping}
+            title="Stop agent"
+            style={{ color: 'var(--color-destructive)' }}
+          >
+            {stopping ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Square className="w-4 h-4" />
+            )}
+            Stop
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
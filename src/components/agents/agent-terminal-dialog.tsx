@@ -0,0 +1,41 @@
+'use client';
+
+/**
+ * Agent Terminal Dialog
+ *
+ * Attaches the AgentTerminal to a session from the Agents dashboard: live output for running
+ * sessions, a replay of the stream log for finished ones.
+ */
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+} from '@/components/ui/dialog';
+import { AgentTerminal } from '@/components/agents/terminal';
+
+interface AgentTerminalDialogProps {
+  /** Session to attach to; null closes the dialog */
+  session: { threadId: string; taskId: string; taskTitle?: string } | null;
+  onClose: () => void;
+}
+
+export function AgentTerminalDialog({ session, onClose }: AgentTerminalDialogProps) {
+  return (
+    <Dialog open={session !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>{session?.taskTitle ?? session?.taskId}</DialogTitle>
+          <DialogDescription>Agent output for thread {session?.threadId}</DialogDescription>
+        </DialogHeader>
+        <DialogBody className="py-4">
+          {/* Keyed so switching sessions reconnects the stream */}
+          {session && <AgentTerminal key={session.threadId} threadId={session.threadId} />}
+        </DialogBody>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,12 +19,15 @@ import {
 import { useTaskStore } from '@/store/task-store';
 import { useProjectStore } from '@/store/project-store';
 import { apiFetch } from '@/lib/api-client';
-import { WORKFLOW_PHASES, WorkflowPhase, Task } from '@/lib/tasks/schema';
+import { WORKFLOW_PHASES, WorkflowPhase, Task, needsMergeRequestSync } from '@/lib/tasks/schema';
 import { toast } from 'sonner';
 import { KanbanColumn } from './column';
 import { TaskCard } from './task-card';
 import { EditTaskModal } from '@/components/tasks/edit-task-modal';
 
+/** How often open PRs/MRs are synced from GitHub/GitLab (state, review, CI) */
+const MERGE_REQUEST_SYNC_INTERVAL_MS = 60_000;
+
 /** Forbidden drag transitions: In Progress and AI Review are one-way states. */
 const FORBIDDEN_TRANSITIONS: Array<{ from: WorkflowPhase; to: WorkflowPhase }> = [
   { from: 'ai_review', to: 'in_progress' },
@@ -76,6 +79,20 @@ export function KanbanBoard() {
     };
   }, [loadTasks, projectPath]);
 
+  // Sync PR/MR status while any task has an open one; merged tasks move to Done server-side
+  const hasOpenMergeRequests = tasks.some(needsMergeRequestSync);
+  useEffect(() => {
+    if (!hasOpenMergeRequests) return;
+
+    const sync = () =>
+      apiFetch('/api/git/sync-mr', { method: 'POST' })
+        .then(() => loadTasks())
+        .catch((error) => console.error('Failed to sync PR/MR status:', error));
+    sync();
+    const interval = setInterval(sync, MERGE_REQUEST_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasOpenMergeRequests, loadTasks, projectPath]);
+
   const handleDragStart = (event: DragStartEvent) => {
     const taskId = event.active.id as string;
     const task = tasks.find((t) => t.id === taskId);
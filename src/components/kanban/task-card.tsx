@@ -8,7 +8,7 @@
 
 import { useDraggable } from '@dnd-kit/core';
 import { useState } from 'react';
-import { Task } from '@/lib/tasks/schema';
+import { MergeRequestStatus, Task, UsageTotals } from '@/lib/tasks/schema';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -19,9 +19,56 @@ import { TaskDetailModal } from '@/components/tasks/task-detail-modal';
 import { HumanReviewModal } from '@/components/tasks/human-review-modal';
 import { PlanningLogsModal } from '@/components/tasks/planning-logs-modal';
 import { DeleteTaskModal } from '@/components/tasks/delete-task-modal';
+import { WorktreeCleanupModal } from '@/components/tasks/worktree-cleanup-modal';
 import { toast } from 'sonner';
 import { useTaskStore } from '@/store/task-store';
 import { apiFetch } from '@/lib/api-client';
+import { getUnmetDependencies } from '@/lib/tasks/dependencies';
+
+/** PR/MR badge colors on the card (see task.mergeRequestStatus) */
+const MERGE_REQUEST_STATE_COLORS: Record<MergeRequestStatus['state'], string> = {
+  open: 'var(--color-info)',
+  merged: '#a78bfa',
+  closed: 'var(--color-text-muted)',
+};
+
+const REVIEW_DECISION_LABELS: Record<
+  NonNullable<MergeRequestStatus['reviewDecision']>,
+  { label: string; color: string }
+> = {
+  approved: { label: '✓ approved', color: 'var(--color-success)' },
+  changes_requested: { label: '✎ changes requested', color: 'var(--color-warning)' },
+  review_required: { label: '◌ review required', color: 'var(--color-text-secondary)' },
+};
+
+const CHECKS_LABELS: Record<
+  NonNullable<MergeRequestStatus['checks']>,
+  { label: string; color: string }
+> = {
+  passing: { label: '● checks passing', color: 'var(--color-success)' },
+  failing: { label: '● checks failing', color: 'var(--color-error)' },
+  pending: { label: '● checks pending', color: 'var(--color-warning)' },
+};
+
+/**
+ * Compact usage line, e.g. "12.4k tokens · $0.38 · 6m 12s"
+ */
+function formatUsage(usage: UsageTotals): string {
+  const tokens = usage.inputTokens + usage.outputTokens;
+  const tokenText =
+    tokens >= 1_000_000
+      ? `${(tokens / 1_000_000).toFixed(1)}M`
+      : tokens >= 1_000
+        ? `${(tokens / 1_000).toFixed(1)}k`
+        : String(tokens);
+  const seconds = Math.round(usage.durationMs / 1000);
+  const duration = seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  return [
+    `${tokenText} tokens`,
+    ...(usage.costUsd > 0 ? [`$${usage.costUsd.toFixed(2)}`] : []),
+    duration,
+  ].join(' · ');
+}
 
 interface TaskCardProps {
   task: Task;
@@ -39,8 +86,11 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
   const [showPlanningLogsModal, setShowPlanningLogsModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showCleanupModal, setShowCleanupModal] = useState(false);
+  const [isSyncingMergeRequest, setIsSyncingMergeRequest] = useState(false);
   const [isModalClosing, setIsModalClosing] = useState(false);
-  const { loadTasks } = useTaskStore();
+  const { tasks, loadTasks } = useTaskStore();
+  const unmetDependencies = task.phase === 'done' ? [] : getUnmetDependencies(task, tasks);
 
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: task.id,
@@ -97,7 +147,7 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
       const response = await apiFetch('/api/agents/stop', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ threadId: task.assignedAgent }),
+        body: JSON.stringify({ taskId: task.id }),
       });
 
       if (!response.ok) {
@@ -114,6 +164,55 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
     }
   };
 
+  const handleRetryWorktreeSetup = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      const response = await apiFetch('/api/git/worktree', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'setup', taskId: task.id }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to start worktree setup');
+      } else {
+        toast.success('Worktree setup started');
+        await loadTasks();
+      }
+    } catch (_error) {
+      toast.error('Failed to start worktree setup');
+    }
+  };
+
+  const handleSyncMergeRequest = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsSyncingMergeRequest(true);
+    try {
+      const response = await apiFetch('/api/git/sync-mr', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: task.id }),
+      });
+      const data = await response.json();
+      const error = response.ok ? data.results?.[0]?.error : data.error;
+      if (error) {
+        toast.error(error);
+      } else {
+        await loadTasks();
+      }
+    } catch (_error) {
+      toast.error('Failed to sync PR/MR status');
+    } finally {
+      setIsSyncingMergeRequest(false);
+    }
+  };
+
+  const handleCleanupClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowCleanupModal(true);
+  };
+
   const handleDeleteIconClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
@@ -206,8 +305,8 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
       return;
     }
 
-    // Prevent opening if delete modal is open
-    if (showDeleteModal) {
+    // Prevent opening if delete or worktree cleanup modal is open
+    if (showDeleteModal || showCleanupModal) {
       return;
     }
 
@@ -340,6 +439,53 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
             </span>
           </div>
         )}
+        {task.mergeRequestUrl && (
+          <div
+            data-testid="task-merge-request-status"
+            className="flex flex-wrap items-center gap-1 mt-2"
+            title={
+              task.mergeRequestStatus
+                ? `Synced ${new Date(task.mergeRequestStatus.syncedAt).toLocaleTimeString()} - click to refresh`
+                : 'Click to sync PR/MR status'
+            }
+            onClick={handleSyncMergeRequest}
+          >
+            <Badge
+              className="text-[10px] px-1.5 py-0 cursor-pointer"
+              style={{
+                background: MERGE_REQUEST_STATE_COLORS[task.mergeRequestStatus?.state ?? 'open'],
+                color: '#ffffff',
+                opacity: isSyncingMergeRequest ? 0.6 : 1,
+              }}
+            >
+              {task.mergeRequestProvider === 'gitlab' ? 'MR' : 'PR'}{' '}
+              {task.mergeRequestStatus?.state ?? 'open'}
+            </Badge>
+            {task.mergeRequestStatus?.state === 'open' &&
+              task.mergeRequestStatus.reviewDecision && (
+                <Badge
+                  className="text-[10px] px-1.5 py-0 cursor-pointer"
+                  style={{
+                    background: 'var(--color-surface-hover)',
+                    color: REVIEW_DECISION_LABELS[task.mergeRequestStatus.reviewDecision].color,
+                  }}
+                >
+                  {REVIEW_DECISION_LABELS[task.mergeRequestStatus.reviewDecision].label}
+                </Badge>
+              )}
+            {task.mergeRequestStatus?.state === 'open' && task.mergeRequestStatus.checks && (
+              <Badge
+                className="text-[10px] px-1.5 py-0 cursor-pointer"
+                style={{
+                  background: 'var(--color-surface-hover)',
+                  color: CHECKS_LABELS[task.mergeRequestStatus.checks].color,
+                }}
+              >
+                {CHECKS_LABELS[task.mergeRequestStatus.checks].label}
+              </Badge>
+            )}
+          </div>
+        )}
       </CardHeader>
 
       <CardContent className="pt-0 space-y-2">
@@ -409,6 +555,77 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
           </div>
         )}
 
+        {task.usage && task.usage.total.runs > 0 && (
+          <div
+            data-testid="task-usage"
+            className="text-xs"
+            style={{ color: 'var(--color-text-muted)' }}
+            title={`${task.usage.total.runs} agent run(s), ${task.usage.total.toolCalls} tool call(s)`}
+          >
+            {formatUsage(task.usage.total)}
+          </div>
+        )}
+
+        {task.status === 'blocked' && task.blockedReason && (
+          <div
+            data-testid="task-blocked-reason"
+            className="text-xs"
+            style={{ color: 'var(--color-error)' }}
+          >
+            ⛔ {task.blockedReason}
+          </div>
+        )}
+
+        {unmetDependencies.length > 0 && (
+          <div
+            data-testid="task-waiting-dependencies"
+            className="text-xs truncate"
+            style={{ color: 'var(--color-warning)' }}
+            title="Starts automatically once these tasks are done"
+          >
+            🔗 Waiting for: {unmetDependencies.map((dep) => dep.title || dep.id).join(', ')}
+          </div>
+        )}
+
+        {task.queuePosition !== undefined && (
+          <div
+            data-testid="task-queued"
+            className="text-xs"
+            style={{ color: 'var(--color-info)' }}
+            title="Waiting for a free agent slot (see .code-automata/scheduler.json)"
+          >
+            ⏳ queued (#{task.queuePosition})
+          </div>
+        )}
+
+        {task.worktreeSetup?.status === 'failed' && (
+          <div
+            data-testid="task-worktree-setup-failed"
+            className="flex items-center gap-2 text-xs"
+            style={{ color: 'var(--color-warning)' }}
+            title={task.worktreeSetup.steps
+              .filter((step) => !step.ok)
+              .map((step) => `${step.name}: ${step.error ?? 'failed'}`)
+              .join('\n')}
+          >
+            ⚠ Worktree setup failed
+            <button type="button" className="underline" onClick={handleRetryWorktreeSetup}>
+              Retry
+            </button>
+          </div>
+        )}
+
+        {task.interruption?.phase === task.phase && (
+          <div
+            data-testid="task-interrupted"
+            className="text-xs"
+            style={{ color: 'var(--color-warning)' }}
+            title={task.interruption.reason}
+          >
+            ⚠ Interrupted{task.phase === 'planning' ? ' - edit to restart' : ' - open to continue'}
+          </div>
+        )}
+
         {/* Planning Phase Buttons */}
         {task.phase === 'planning' ? (
           <>
@@ -648,6 +865,30 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
             >
               ✓ Completed
             </div>
+            {task.worktreePath &&
+              (task.mergeRequestStatus?.state === 'merged' || task.localMerge) && (
+                <Button
+                  data-testid="cleanup-worktree-button"
+                  size="sm"
+                  variant="outline"
+                  onClick={handleCleanupClick}
+                  className="w-full text-xs"
+                  style={{
+                    background: 'var(--color-surface-hover)',
+                    color: 'var(--color-text-primary)',
+                    borderColor: 'var(--color-border)',
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.background = 'var(--color-background)';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.background = 'var(--color-surface-hover)';
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Clean Up Worktree
+                </Button>
+              )}
           </>
         ) : (
           /* In Progress / Other Phases - Original Agent Buttons */
@@ -747,6 +988,7 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
           open={showHumanReviewModal}
           onOpenChange={setShowHumanReviewModal}
           task={task}
+          onMergedLocally={() => task.worktreePath && setShowCleanupModal(true)}
         />
       )}
 
@@ -760,6 +1002,15 @@ export function TaskCard({ task, onEditBlockedTask }: TaskCardProps) {
         />
       )}
 
+      {/* Worktree Cleanup Modal (after the PR/MR merged or a local merge) */}
+      {task.worktreePath && (
+        <WorktreeCleanupModal
+          open={showCleanupModal}
+          onOpenChange={setShowCleanupModal}
+          task={task}
+        />
+      )}
+
       {/* Delete Task Modal */}
       <DeleteTaskModal
         open={showDeleteModal}
@@ -71,7 +71,7 @@ const projectLinks = [
 ];
 
 const toolLinks = [
-  { href: '/github', label: 'GitHub Issues', icon: GithubIcon },
+  { href: '/github', label: 'Issues', icon: GithubIcon },
   { href: '/worktrees', label: 'Git Worktrees', icon: GitBranch },
   { href: '/memory', label: 'Memory/Context', icon: Brain },
 ];
@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * MemoryEntryCard
+ *
+ * Card for a single memory entry: kind, title, content, example/context, tags, files,
+ * source (manual or harvested) and occurrence count. Actions: Pin/unpin, Edit, Delete,
+ * and Mark resolved for open harvested gotchas.
+ */
+
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Pencil, Pin, PinOff, Trash2 } from 'lucide-react';
+import type { MemoryEntry } from '@/lib/memory/store';
+
+const SOURCE_LABELS: Record<MemoryEntry['source'], string> = {
+  manual: 'Manual',
+  subtask_failure: 'From failed subtask',
+  fix_retry: 'From fix-agent retry',
+};
+
+export interface MemoryEntryCardProps {
+  entry: MemoryEntry;
+  onEdit: (entry: MemoryEntry) => void;
+  onDelete: (entry: MemoryEntry) => void;
+  onUpdate: (entry: MemoryEntry, updates: Partial<MemoryEntry>) => void;
+}
+
+export function MemoryEntryCard({ entry, onEdit, onDelete, onUpdate }: MemoryEntryCardProps) {
+  const isGotcha = entry.kind === 'gotcha';
+  const detail = isGotcha ? entry.context : entry.example;
+  const isOpen = isGotcha && entry.resolved === false;
+
+  return (
+    <Card
+      data-testid="memory-entry-card"
+      style={{
+        background: 'var(--color-surface)',
+        borderColor: entry.pinned ? 'var(--color-primary)' : 'var(--color-border)',
+      }}
+    >
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2 flex-wrap text-xs">
+          <Badge variant="outline" style={{ color: 'var(--color-text-secondary)' }}>
+            {isGotcha ? 'Gotcha' : 'Pattern'}
+          </Badge>
+          <span style={{ color: 'var(--color-text-muted)' }}>{SOURCE_LABELS[entry.source]}</span>
+          {(entry.occurrences ?? 1) > 1 && (
+            <span style={{ color: 'var(--color-warning)' }}>seen {entry.occurrences}×</span>
+          )}
+          {isOpen && <span style={{ color: 'var(--color-error)' }}>unresolved</span>}
+        </div>
+        <CardTitle className="text-base" style={{ color: 'var(--color-text-primary)' }}>
+          {entry.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <p className="whitespace-pre-wrap" style={{ color: 'var(--color-text-secondary)' }}>
+          {entry.content}
+        </p>
+        {detail && (
+          <p className="text-xs whitespace-pre-wrap" style={{ color: 'var(--color-text-muted)' }}>
+            {isGotcha ? 'Context: ' : 'Example: '}
+            {detail}
+          </p>
+        )}
+        {(entry.tags.length > 0 || entry.files.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {entry.tags.map((tag) => (
+              <Badge key={`tag-${tag}`} variant="secondary">
+                #{tag}
+              </Badge>
+            ))}
+            {entry.files.map((file) => (
+              <Badge key={`file-${file}`} variant="outline" className="font-mono">
+                {file}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="gap-2 justify-end">
+        {isOpen && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onUpdate(entry, { resolved: true })}
+            title="Mark resolved"
+          >
+            <CheckCircle2 className="w-4 h-4" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onUpdate(entry, { pinned: !entry.pinned })}
+          title={entry.pinned ? 'Unpin' : 'Pin (always include in prompts)'}
+        >
+          {entry.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onEdit(entry)} title="Edit">
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onDelete(entry)}
+          title="Delete"
+          style={{ color: 'var(--color-destructive)' }}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
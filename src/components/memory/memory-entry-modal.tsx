@@ -0,0 +1,257 @@
+'use client';
+
+/**
+ * Memory Entry Modal
+ *
+ * Create or edit a memory entry (pattern or gotcha): title, content, example/context,
+ * comma-separated tags and files, pinned. Saves via the memory create/update API.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+import type { MemoryEntry, MemoryKind } from '@/lib/memory/store';
+
+interface MemoryEntryModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Entry to edit; null creates a new entry */
+  entry: MemoryEntry | null;
+  onSaved?: (entry: MemoryEntry) => void;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function MemoryEntryModal({ open, onOpenChange, entry, onSaved }: MemoryEntryModalProps) {
+  const [kind, setKind] = useState<MemoryKind>('pattern');
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [detail, setDetail] = useState('');
+  const [tags, setTags] = useState('');
+  const [files, setFiles] = useState('');
+  const [pinned, setPinned] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setKind(entry?.kind ?? 'pattern');
+    setTitle(entry?.title ?? '');
+    setContent(entry?.content ?? '');
+    setDetail((entry?.kind === 'gotcha' ? entry?.context : entry?.example) ?? '');
+    setTags(entry?.tags.join(', ') ?? '');
+    setFiles(entry?.files.join(', ') ?? '');
+    setPinned(entry?.pinned ?? false);
+    setError(null);
+  }, [open, entry]);
+
+  const isGotcha = kind === 'gotcha';
+  const canSave = title.trim() !== '' && content.trim() !== '';
+
+  const handleSave = useCallback(async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const fields = {
+        kind,
+        title,
+        content,
+        example: isGotcha ? '' : detail,
+        context: isGotcha ? detail : '',
+        tags: splitList(tags),
+        files: splitList(files),
+        pinned,
+      };
+      const res = entry
+        ? await apiFetch('/api/memory/update', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: entry.id, ...fields }),
+          })
+        : await apiFetch('/api/memory/create', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(fields),
+          });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error ?? `Save failed (${res.status})`);
+      }
+      onSaved?.(data as MemoryEntry);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save memory entry');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [
+    canSave,
+    kind,
+    title,
+    content,
+    detail,
+    isGotcha,
+    tags,
+    files,
+    pinned,
+    entry,
+    onOpenChange,
+    onSaved,
+  ]);
+
+  return (
+    <Dialog open={open} onOpenChange={isSaving ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Memory Entry' : 'New Memory Entry'}</DialogTitle>
+          <DialogDescription>
+            Relevant entries are added to agent prompts by tag and file overlap with the task.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogBody className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="memory-kind">Kind</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as MemoryKind)}>
+              <SelectTrigger id="memory-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pattern">Pattern</SelectItem>
+                <SelectItem value="gotcha">Gotcha</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="memory-title">{isGotcha ? 'Issue *' : 'Category *'}</Label>
+            <Input
+              id="memory-title"
+              placeholder={isGotcha ? 'What goes wrong' : 'e.g. API routes'}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="memory-content">{isGotcha ? 'Solution *' : 'Description *'}</Label>
+            <Textarea
+              id="memory-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="memory-detail">{isGotcha ? 'Context' : 'Example'}</Label>
+            <Textarea
+              id="memory-detail"
+              value={detail}
+              onChange={(e) => setDetail(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="memory-tags">Tags</Label>
+            <Input
+              id="memory-tags"
+              placeholder="Comma-separated, e.g. auth, planning"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="memory-files">Files</Label>
+            <Input
+              id="memory-files"
+              placeholder="Comma-separated paths or directories, e.g. src/lib/auth"
+              value={files}
+              onChange={(e) => setFiles(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="memory-pinned">Always include (pinned)</Label>
+            <Switch id="memory-pinned" checked={pinned} onCheckedChange={setPinned} />
+          </div>
+
+          {error && (
+            <div
+              className="rounded-md border p-2 text-sm"
+              style={{
+                borderColor: 'var(--color-destructive)',
+                color: 'var(--color-destructive)',
+                backgroundColor: 'var(--color-surface-hover)',
+              }}
+            >
+              {error}
+            </div>
+          )}
+        </DialogBody>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+            style={{
+              background: 'var(--color-surface-hover)',
+              color: 'var(--color-text-primary)',
+              borderColor: 'var(--color-border)',
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !canSave}
+            className="font-medium"
+            style={{
+              backgroundColor: 'var(--color-primary)',
+              color: 'var(--color-primary-text)',
+            }}
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+/**
+ * Checkpoint List
+ *
+ * Git checkpoints of a task (commit before the first dev subtask, and one per completed dev
+ * subtask) with a "Roll back" action per checkpoint. Rolling back resets the worktree via
+ * /api/tasks/rollback-checkpoint and re-runs the dev subtasks after it.
+ */
+
+import { useState } from 'react';
+import { GitCommitHorizontal, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiFetch } from '@/lib/api-client';
+import { useTaskStore } from '@/store/task-store';
+import type { Task } from '@/lib/tasks/schema';
+
+interface CheckpointListProps {
+  task: Task;
+}
+
+export function CheckpointList({ task }: CheckpointListProps) {
+  const { loadTasks } = useTaskStore();
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+  const checkpoints = [
+    ...(task.checkpointBase
+      ? [
+          {
+            key: 'base',
+            subtaskId: undefined,
+            label: 'Before dev subtasks',
+            sha: task.checkpointBase,
+          },
+        ]
+      : []),
+    ...task.subtasks
+      .filter((s) => s.type === 'dev' && s.status === 'completed' && s.checkpoint)
+      .map((s) => ({ key: s.id, subtaskId: s.id, label: `After: ${s.label}`, sha: s.checkpoint! })),
+  ];
+  if (checkpoints.length === 0) return null;
+
+  const handleRollback = async (checkpoint: (typeof checkpoints)[number]) => {
+    if (
+      !window.confirm(
+        `Roll the worktree back to "${checkpoint.label}"? Later changes are discarded and the subtasks after it run again.`
+      )
+    ) {
+      return;
+    }
+    setRollingBack(checkpoint.key);
+    try {
+      const res = await apiFetch('/api/tasks/rollback-checkpoint', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: task.id, subtaskId: checkpoint.subtaskId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to roll back');
+        return;
+      }
+      toast.success(
+        data.rerunSubtaskIds?.length
+          ? `Rolled back - re-running ${data.rerunSubtaskIds.length} subtask(s)`
+          : 'Rolled back - restarting AI review'
+      );
+      await loadTasks();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  return (
+    <div
+      data-testid="checkpoint-list"
+      className="border-t pt-4 mt-6 space-y-2"
+      style={{ borderColor: 'var(--color-border)' }}
+    >
+      <h3 className="text-sm font-semibold" style={{ color: 'var(--color-text-primary)' }}>
+        Checkpoints
+      </h3>
+      {checkpoints.map((checkpoint) => (
+        <div
+          key={checkpoint.key}
+          className="flex items-center gap-2 text-xs rounded-md border px-3 py-2"
+          style={{ borderColor: 'var(--color-border)', background: 'var(--color-surface)' }}
+        >
+          <GitCommitHorizontal className="w-4 h-4" style={{ color: 'var(--color-text-muted)' }} />
+          <span className="font-mono" style={{ color: 'var(--color-text-muted)' }}>
+            {checkpoint.sha.slice(0, 7)}
+          </span>
+          <span className="flex-1 truncate" style={{ color: 'var(--color-text-secondary)' }}>
+            {checkpoint.label}
+          </span>
+          <button
+            onClick={() => handleRollback(checkpoint)}
+            disabled={rollingBack !== null}
+            className="flex items-center gap-1 px-2 py-1 rounded-md transition-all"
+            style={{
+              border: '1px solid var(--color-border)',
+              color: 'var(--color-warning)',
+              opacity: rollingBack !== null && rollingBack !== checkpoint.key ? 0.5 : 1,
+            }}
+            title="Reset the worktree to this checkpoint and re-run the subtasks after it"
+          >
+            {rollingBack === checkpoint.key ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <RotateCcw className="w-3.5 h-3.5" />
+            )}
+            Roll back
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -94,3 +94,53 @@ export function CliReadinessPanel({
     </div>
   );
 }
+
+export interface CliAdapterCapabilities {
+  supportsThreads: boolean;
+  supportsModes: string[];
+  maxConcurrentAgents: number;
+  supportsPermissions: boolean;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  builtin: 'Built-in',
+  plugin: 'Plugin',
+  command: 'Command template',
+};
+
+/** Capabilities summary for adapters without a dedicated preflight (plugins, command templates, ...) */
+export function CliCapabilitiesPanel({
+  displayName,
+  source,
+  capabilities,
+}: {
+  displayName: string;
+  source?: string;
+  capabilities?: CliAdapterCapabilities;
+}) {
+  return (
+    <CliReadinessPanel
+      title={displayName}
+      isLoading={false}
+      statusLabel={source ? (SOURCE_LABELS[source] ?? source) : undefined}
+    >
+      {capabilities ? (
+        <div className="space-y-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          <div>Threads: {capabilities.supportsThreads ? 'resumable' : 'single-run'}</div>
+          <div>
+            Modes:{' '}
+            {capabilities.supportsModes.length > 0 ? capabilities.supportsModes.join(', ') : '—'}
+          </div>
+          <div>Max concurrent agents: {capabilities.maxConcurrentAgents}</div>
+          <div>
+            Permission rules: {capabilities.supportsPermissions ? 'supported' : 'not supported'}
+          </div>
+        </div>
+      ) : (
+        <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          No capability information
+        </div>
+      )}
+    </CliReadinessPanel>
+  );
+}
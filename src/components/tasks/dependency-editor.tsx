@@ -0,0 +1,97 @@
+'use client';
+
+/**
+ * Dependency Editor
+ *
+ * Prerequisite picker for the new/edit task modals: a checklist of the project's other
+ * tasks (with their phase) and the "base worktree on prerequisite branch" option. The
+ * parent validates the selection (validateDependencies) and passes the errors in.
+ */
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { getPhaseDisplayName, type Task } from '@/lib/tasks/schema';
+
+interface DependencyEditorProps {
+  tasks: Task[];
+  /** Task being edited; excluded from the list */
+  taskId?: string;
+  value: string[];
+  onChange: (dependencies: string[]) => void;
+  baseOnDependency: boolean;
+  onBaseOnDependencyChange: (value: boolean) => void;
+  errors?: string[];
+}
+
+export function DependencyEditor({
+  tasks,
+  taskId,
+  value,
+  onChange,
+  baseOnDependency,
+  onBaseOnDependencyChange,
+  errors = [],
+}: DependencyEditorProps) {
+  const candidates = tasks.filter((task) => task.id !== taskId);
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...value, id] : value.filter((dep) => dep !== id));
+  };
+
+  return (
+    <div className="space-y-2" data-testid="dependency-editor">
+      <Label>Prerequisites</Label>
+      <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+        The task waits in Planning until every prerequisite is Done, then starts automatically.
+      </p>
+      {candidates.length === 0 ? (
+        <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          No other tasks in this project.
+        </p>
+      ) : (
+        <div
+          className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1"
+          style={{ borderColor: 'var(--color-border)' }}
+        >
+          {candidates.map((task) => (
+            <div key={task.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                id={`dep-${task.id}`}
+                checked={value.includes(task.id)}
+                onCheckedChange={(checked) => toggle(task.id, checked === true)}
+              />
+              <Label htmlFor={`dep-${task.id}`} className="cursor-pointer flex-1 truncate">
+                {task.title || task.id}
+              </Label>
+              <span
+                className="text-xs"
+                style={{
+                  color: task.phase === 'done' ? 'var(--color-success)' : 'var(--color-text-muted)',
+                }}
+              >
+                {getPhaseDisplayName(task.phase)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {value.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="base-on-dependency"
+            checked={baseOnDependency}
+            onCheckedChange={(checked) => onBaseOnDependencyChange(checked === true)}
+          />
+          <Label htmlFor="base-on-dependency" className="cursor-pointer text-sm">
+            Branch worktree from the prerequisite&apos;s branch
+          </Label>
+        </div>
+      )}
+      {errors.map((error) => (
+        <p key={error} className="text-xs" style={{ color: 'var(--color-error)' }}>
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,566 @@
+'use client';
+
+/**
+ * Diff Viewer
+ *
+ * Changes of a task's branch against the main branch (GET /api/git/diff): file index, then
+ * each file's hunks with syntax highlighting, in unified or side-by-side layout. Renamed and
+ * binary files are marked; very large files are listed without their hunks.
+ * With `onDraftCommentsChange`, clicking a line number opens an inline editor to leave a review
+ * comment on that line (drafts are owned by the parent until they are submitted).
+ */
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  FileDiff,
+  Loader2,
+  MessageSquare,
+  RefreshCw,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { apiFetch } from '@/lib/api-client';
+import type { BranchDiff, DiffFile, DiffHunk, DiffLine } from '@/lib/git/diff';
+import type { ReviewCommentInput } from '@/lib/agents/review-changes';
+import { languageForPath, tokenizeLine, type TokenKind } from '@/lib/syntax-highlight';
+
+interface DiffViewerProps {
+  taskId: string;
+  draftComments?: ReviewCommentInput[];
+  onDraftCommentsChange?: (comments: ReviewCommentInput[]) => void;
+}
+
+interface LineCommenting {
+  drafts: ReviewCommentInput[];
+  onAdd: (comment: ReviewCommentInput) => void;
+  onRemove: (comment: ReviewCommentInput) => void;
+}
+
+type ViewMode = 'unified' | 'split';
+
+const STATUS_LABELS: Record<DiffFile['status'], { label: string; color: string }> = {
+  added: { label: 'A', color: 'var(--color-success)' },
+  modified: { label: 'M', color: 'var(--color-warning)' },
+  deleted: { label: 'D', color: 'var(--color-error)' },
+  renamed: { label: 'R', color: 'var(--color-info)' },
+};
+
+const TOKEN_COLORS: Record<TokenKind, string | undefined> = {
+  plain: undefined,
+  keyword: 'var(--color-primary)',
+  string: 'var(--color-success)',
+  number: 'var(--color-warning)',
+  comment: 'var(--color-text-muted)',
+};
+
+const LINE_BACKGROUNDS: Record<DiffLine['type'], string | undefined> = {
+  context: undefined,
+  add: 'rgba(34, 197, 94, 0.12)',
+  delete: 'rgba(239, 68, 68, 0.12)',
+};
+
+const LINE_MARKERS: Record<DiffLine['type'], string> = { context: ' ', add: '+', delete: '-' };
+
+function fileAnchorId(index: number): string {
+  return `diff-file-${index}`;
+}
+
+/** Where a comment on this line points: deleted lines by their base line number */
+function commentTarget(line: DiffLine): { key: string; side: 'old' | 'new'; line: number } {
+  const side = line.type === 'delete' ? 'old' : 'new';
+  const number = (side === 'old' ? line.oldLine : line.newLine) ?? 0;
+  return { key: `${side}:${number}`, side, line: number };
+}
+
+/**
+ * Pair a hunk's lines for the side-by-side layout: context lines on both sides, and each run
+ * of deletions next to the additions that follow it
+ */
+function buildSplitRows(hunk: DiffHunk): Array<{ left?: DiffLine; right?: DiffLine }> {
+  const rows: Array<{ left?: DiffLine; right?: DiffLine }> = [];
+  let deleted: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, added.length); i++) {
+      rows.push({ left: deleted[i], right: added[i] });
+    }
+    deleted = [];
+    added = [];
+  };
+  for (const line of hunk.lines) {
+    if (line.type === 'context') {
+      flush();
+      rows.push({ left: line, right: line });
+    } else if (line.type === 'delete') {
+      if (added.length > 0) flush();
+      deleted.push(line);
+    } else {
+      added.push(line);
+    }
+  }
+  flush();
+  return rows;
+}
+
+function HighlightedCode({ content, language }: { content: string; language: string | null }) {
+  return (
+    <>
+      {tokenizeLine(content, language).map((token, i) => (
+        <span key={i} style={{ color: TOKEN_COLORS[token.kind] }}>
+          {token.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function LineNumber({ value, onClick }: { value?: number; onClick?: () => void }) {
+  return (
+    <td
+      className={`select-none text-right px-2 align-top w-[1%] whitespace-nowrap ${
+        onClick ? 'cursor-pointer hover:underline' : ''
+      }`}
+      style={{ color: 'var(--color-text-muted)' }}
+      title={onClick ? 'Comment on this line' : undefined}
+      onClick={onClick}
+    >
+      {value ?? ''}
+    </td>
+  );
+}
+
+function CodeCell({ line, language }: { line?: DiffLine; language: string | null }) {
+  return (
+    <td
+      className="px-2 whitespace-pre-wrap break-all align-top"
+      style={{ background: line ? LINE_BACKGROUNDS[line.type] : 'var(--color-surface-hover)' }}
+    >
+      {line && (
+        <>
+          <span className="select-none" style={{ color: 'var(--color-text-muted)' }}>
+            {LINE_MARKERS[line.type]}
+          </span>
+          <HighlightedCode content={line.content} language={language} />
+        </>
+      )}
+    </td>
+  );
+}
+
+function HunkHeader({ hunk, colSpan }: { hunk: DiffHunk; colSpan: number }) {
+  return (
+    <tr>
+      <td
+        colSpan={colSpan}
+        className="px-2 py-1"
+        style={{ background: 'var(--color-surface-hover)', color: 'var(--color-info)' }}
+      >
+        {hunk.header}
+      </td>
+    </tr>
+  );
+}
+
+function CommentRow({
+  colSpan,
+  drafts,
+  editing,
+  onSave,
+  onCancel,
+  onRemove,
+}: {
+  colSpan: number;
+  drafts: ReviewCommentInput[];
+  editing: boolean;
+  onSave: (body: string) => void;
+  onCancel: () => void;
+  onRemove: (comment: ReviewCommentInput) => void;
+}) {
+  const [body, setBody] = useState('');
+
+  return (
+    <tr>
+      <td
+        colSpan={colSpan}
+        className="px-3 py-2 font-sans space-y-2"
+        style={{ background: 'var(--color-surface)', borderTop: '1px solid var(--color-border)' }}
+      >
+        {drafts.map((draft, i) => (
+          <div
+            key={i}
+            data-testid="diff-draft-comment"
+            className="flex items-start gap-2 rounded border px-2 py-1.5"
+            style={{ borderColor: 'var(--color-border)', color: 'var(--color-text-primary)' }}
+          >
+            <MessageSquare
+              className="w-3.5 h-3.5 mt-0.5 flex-shrink-0"
+              style={{ color: 'var(--color-info)' }}
+            />
+            <span className="flex-1 whitespace-pre-wrap">{draft.body}</span>
+            <button
+              type="button"
+              title="Remove comment"
+              style={{ color: 'var(--color-text-muted)' }}
+              onClick={() => onRemove(draft)}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {editing && (
+          <div className="space-y-2">
+            <Textarea
+              data-testid="diff-comment-input"
+              autoFocus
+              rows={3}
+              value={body}
+              placeholder="What should change here?"
+              className="text-xs"
+              onChange={(e) => setBody(e.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                disabled={!body.trim()}
+                onClick={() => onSave(body.trim())}
+              >
+                Add comment
+              </Button>
+            </div>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+function FileDiffBody({
+  file,
+  mode,
+  commenting,
+}: {
+  file: DiffFile;
+  mode: ViewMode;
+  commenting?: LineCommenting;
+}) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const language = languageForPath(file.path);
+  const colSpan = mode === 'split' ? 4 : 3;
+
+  if (file.binary || file.truncated || file.hunks.length === 0) {
+    return (
+      <div className="px-3 py-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+        {file.binary
+          ? 'Binary file not shown'
+          : file.truncated
+            ? 'Diff too large to display'
+            : file.status === 'renamed'
+              ? 'File renamed without changes'
+              : 'No content changes (mode change only)'}
+      </div>
+    );
+  }
+
+  const startComment = (line?: DiffLine) =>
+    commenting && line ? () => setEditing(commentTarget(line).key) : undefined;
+
+  // Drafts and the open editor for the lines of one row, shown below it
+  const renderComments = (lines: Array<DiffLine | undefined>, rowKey: string) => {
+    if (!commenting) return null;
+    const targets = lines
+      .filter((line): line is DiffLine => !!line)
+      .map((line) => ({ ...commentTarget(line), content: line.content }))
+      .filter((target, i, all) => all.findIndex((t) => t.key === target.key) === i);
+    return targets.map((target) => {
+      const drafts = commenting.drafts.filter(
+        (d) => d.path === file.path && `${d.side}:${d.line}` === target.key
+      );
+      if (drafts.length === 0 && editing !== target.key) return null;
+      return (
+        <CommentRow
+          key={`${rowKey}-${target.key}`}
+          colSpan={colSpan}
+          drafts={drafts}
+          editing={editing === target.key}
+          onCancel={() => setEditing(null)}
+          onRemove={commenting.onRemove}
+          onSave={(body) => {
+            commenting.onAdd({
+              path: file.path,
+              line: target.line,
+              side: target.side,
+              body,
+              lineContent: target.content,
+            });
+            setEditing(null);
+          }}
+        />
+      );
+    });
+  };
+
+  return (
+    <table className="w-full border-collapse font-mono text-xs leading-5">
+      <tbody>
+        {file.hunks.map((hunk, h) => (
+          <Fragment key={h}>
+            <HunkHeader hunk={hunk} colSpan={colSpan} />
+            {mode === 'split'
+              ? buildSplitRows(hunk).map((row, i) => (
+                  <Fragment key={i}>
+                    <tr>
+                      <LineNumber value={row.left?.oldLine} onClick={startComment(row.left)} />
+                      <CodeCell line={row.left} language={language} />
+                      <LineNumber value={row.right?.newLine} onClick={startComment(row.right)} />
+                      <CodeCell line={row.right} language={language} />
+                    </tr>
+                    {renderComments([row.left, row.right], `${h}-${i}`)}
+                  </Fragment>
+                ))
+              : hunk.lines.map((line, i) => (
+                  <Fragment key={i}>
+                    <tr>
+                      <LineNumber value={line.oldLine} onClick={startComment(line)} />
+                      <LineNumber value={line.newLine} onClick={startComment(line)} />
+                      <CodeCell line={line} language={language} />
+                    </tr>
+                    {renderComments([line], `${h}-${i}`)}
+                  </Fragment>
+                ))}
+          </Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function FileStatusBadge({ file }: { file: DiffFile }) {
+  const status = STATUS_LABELS[file.status];
+  return (
+    <span
+      className="inline-flex w-4 justify-center font-mono font-semibold"
+      style={{ color: status.color }}
+      title={file.status}
+    >
+      {status.label}
+    </span>
+  );
+}
+
+function FileStats({ file }: { file: DiffFile }) {
+  if (file.binary) {
+    return <span style={{ color: 'var(--color-text-muted)' }}>binary</span>;
+  }
+  return (
+    <span className="font-mono whitespace-nowrap">
+      <span style={{ color: 'var(--color-success)' }}>+{file.additions}</span>{' '}
+      <span style={{ color: 'var(--color-error)' }}>-{file.deletions}</span>
+    </span>
+  );
+}
+
+export function DiffViewer({ taskId, draftComments, onDraftCommentsChange }: DiffViewerProps) {
+  const [diff, setDiff] = useState<BranchDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<ViewMode>('unified');
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const loadDiff = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`/api/git/diff?taskId=${taskId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load diff');
+        return;
+      }
+      setDiff(data as BranchDiff);
+      setCollapsed(new Set());
+    } catch (err) {
+      console.error('Failed to load diff:', err);
+      setError('Failed to load diff');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadDiff();
+  }, [loadDiff]);
+
+  const commenting: LineCommenting | undefined = onDraftCommentsChange
+    ? {
+        drafts: draftComments ?? [],
+        onAdd: (comment) => onDraftCommentsChange([...(draftComments ?? []), comment]),
+        onRemove: (comment) =>
+          onDraftCommentsChange((draftComments ?? []).filter((c) => c !== comment)),
+      }
+    : undefined;
+
+  const toggleFile = (index: number) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const scrollToFile = (index: number) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      next.delete(index);
+      return next;
+    });
+    document.getElementById(fileAnchorId(index))?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  return (
+    <div data-testid="diff-viewer" className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3
+          className="flex items-center gap-2 font-medium text-sm"
+          style={{ color: 'var(--color-text-primary)' }}
+        >
+          <FileDiff className="w-4 h-4" />
+          Changes
+        </h3>
+        {diff && (
+          <span className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+            {diff.files.length} file{diff.files.length === 1 ? '' : 's'} vs {diff.baseBranch} ·{' '}
+            <span style={{ color: 'var(--color-success)' }}>+{diff.additions}</span>{' '}
+            <span style={{ color: 'var(--color-error)' }}>-{diff.deletions}</span>
+          </span>
+        )}
+        {commenting && diff && diff.files.length > 0 && (
+          <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+            Click a line number to comment
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {(['unified', 'split'] as const).map((m) => (
+            <Button
+              key={m}
+              data-testid={`diff-mode-${m}`}
+              size="sm"
+              variant={mode === m ? 'secondary' : 'ghost'}
+              className="h-7 text-xs"
+              onClick={() => setMode(m)}
+            >
+              {m === 'unified' ? 'Unified' : 'Side by side'}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={loadDiff}
+            disabled={isLoading}
+            title="Reload diff"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && !diff ? (
+        <div
+          className="flex items-center gap-2 text-xs"
+          style={{ color: 'var(--color-text-secondary)' }}
+        >
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading diff…
+        </div>
+      ) : error ? (
+        <p className="text-xs" style={{ color: 'var(--color-error)' }}>
+          {error}
+        </p>
+      ) : diff && diff.files.length === 0 ? (
+        <p className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+          No changes against {diff.baseBranch}.
+        </p>
+      ) : (
+        diff && (
+          <>
+            {/* File index */}
+            <div
+              className="rounded border text-xs divide-y"
+              style={{ borderColor: 'var(--color-border)' }}
+            >
+              {diff.files.map((file, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  className="flex w-full items-center gap-2 px-2 py-1 text-left"
+                  style={{ color: 'var(--color-text-primary)', borderColor: 'var(--color-border)' }}
+                  onClick={() => scrollToFile(i)}
+                >
+                  <FileStatusBadge file={file} />
+                  <span className="font-mono truncate flex-1">
+                    {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                  </span>
+                  <FileStats file={file} />
+                </button>
+              ))}
+            </div>
+
+            {/* Per-file diffs */}
+            {diff.files.map((file, i) => (
+              <div
+                key={i}
+                id={fileAnchorId(i)}
+                data-testid="diff-file"
+                className="rounded border overflow-hidden"
+                style={{ borderColor: 'var(--color-border)' }}
+              >
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 px-2 py-1.5 text-xs text-left"
+                  style={{
+                    background: 'var(--color-surface)',
+                    color: 'var(--color-text-primary)',
+                  }}
+                  onClick={() => toggleFile(i)}
+                >
+                  {collapsed.has(i) ? (
+                    <ChevronRight className="w-3.5 h-3.5" />
+                  ) : (
+                    <ChevronDown className="w-3.5 h-3.5" />
+                  )}
+                  <FileStatusBadge file={file} />
+                  <span className="font-mono truncate flex-1">
+                    {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                    {file.similarity !== undefined && file.similarity < 100 && (
+                      <span style={{ color: 'var(--color-text-muted)' }}>
+                        {' '}
+                        ({file.similarity}% similar)
+                      </span>
+                    )}
+                  </span>
+                  <FileStats file={file} />
+                </button>
+                {!collapsed.has(i) && (
+                  <div
+                    className="overflow-x-auto border-t"
+                    style={{ borderColor: 'var(--color-border)' }}
+                  >
+                    <FileDiffBody file={file} mode={mode} commenting={commenting} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </>
+        )
+      )}
+    </div>
+  );
+}
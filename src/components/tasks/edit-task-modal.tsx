@@ -4,7 +4,8 @@
  * Edit Task Modal
  *
  * Modal for editing blocked tasks - allows modifying description, CLI tool,
- * model selection, etc. and restarting planning.
+ * model selection, prerequisites, etc. and restarting planning. A task whose
+ * prerequisites are not done is saved and left waiting instead of restarted.
  */
 
 import { useState, useEffect } from 'react';
@@ -30,10 +31,21 @@ import {
 } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Task } from '@/lib/tasks/schema';
+import {
+  formatUnmetDependencies,
+  getUnmetDependencies,
+  validateDependencies,
+} from '@/lib/tasks/dependencies';
 import { apiFetch } from '@/lib/api-client';
 import { useTaskStore } from '@/store/task-store';
 import { toast } from 'sonner';
-import { CliReadinessPanel, CliReadinessPlaceholder } from '@/components/tasks/cli-readiness-panel';
+import {
+  CliCapabilitiesPanel,
+  CliReadinessPanel,
+  CliReadinessPlaceholder,
+  type CliAdapterCapabilities,
+} from '@/components/tasks/cli-readiness-panel';
+import { DependencyEditor } from '@/components/tasks/dependency-editor';
 
 type AmpPreflightResult = {
   ampCliPath: string | null;
@@ -65,7 +77,9 @@ interface CLIConfigSchema {
 interface CLIAdapter {
   name: string;
   displayName: string;
+  source?: 'builtin' | 'command' | 'plugin';
   configSchema: CLIConfigSchema;
+  capabilities?: CliAdapterCapabilities;
 }
 
 interface EditTaskModalProps {
@@ -75,12 +89,14 @@ interface EditTaskModalProps {
 }
 
 export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps) {
-  const { loadTasks } = useTaskStore();
+  const { tasks, loadTasks } = useTaskStore();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [cliTool, setCliTool] = useState<string>('mock');
   const [cliConfig, setCliConfig] = useState<Record<string, unknown>>({});
   const [requiresHumanReview, setRequiresHumanReview] = useState(false);
+  const [dependencies, setDependencies] = useState<string[]>([]);
+  const [baseOnDependency, setBaseOnDependency] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isResuming, setIsResuming] = useState(false);
   const [availableAdapters, setAvailableAdapters] = useState<CLIAdapter[]>([]);
@@ -99,6 +115,8 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
       setCliTool(task.cliTool || 'mock');
       setCliConfig((task.cliConfig as Record<string, unknown>) || {});
       setRequiresHumanReview(task.requiresHumanReview || false);
+      setDependencies(task.metadata?.dependencies ?? []);
+      setBaseOnDependency(task.metadata?.baseOnDependency ?? false);
     }
   }, [open]); // eslint-disable-line react-hooks/exhaustive-deps -- intentionally omit task to avoid reset on store refresh
 
@@ -292,6 +310,8 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
     }
   };
 
+  const dependencyErrors = task ? validateDependencies(task.id, dependencies, tasks) : [];
+
   const handleSaveAndRestart = async () => {
     if (!task || !description.trim()) {
       toast.error('Please fill in the description');
@@ -310,6 +330,7 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
           cliTool,
           cliConfig,
           requiresHumanReview,
+          metadata: { ...task.metadata, dependencies, baseOnDependency },
           status: 'pending',
           planningStatus: 'not_started',
           assignedAgent: null,
@@ -322,6 +343,14 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
         return;
       }
 
+      const unmet = getUnmetDependencies({ ...task, metadata: { dependencies } }, tasks);
+      if (unmet.length > 0) {
+        toast.success(`Task updated. ${formatUnmetDependencies(unmet)}`);
+        onOpenChange(false);
+        await loadTasks();
+        return;
+      }
+
       const startRes = await apiFetch('/api/agents/start-planning', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -396,8 +425,13 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
             <Input
               id={field.name}
               type="number"
-              value={value as string | number | undefined}
-              onChange={(e) => handleConfigChange(field.name, parseInt(e.target.value))}
+              value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+              onChange={(e) =>
+                handleConfigChange(
+                  field.name,
+                  e.target.value === '' ? undefined : parseFloat(e.target.value)
+                )
+              }
             />
           </div>
         );
@@ -535,6 +569,12 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
                     </div>
                   )}
               </CliReadinessPanel>
+            ) : currentAdapter ? (
+              <CliCapabilitiesPanel
+                displayName={currentAdapter.displayName}
+                source={currentAdapter.source}
+                capabilities={currentAdapter.capabilities}
+              />
             ) : (
               <CliReadinessPlaceholder />
             )}
@@ -547,6 +587,18 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
             </div>
           )}
 
+          <div className="pt-4 border-t" style={{ borderColor: 'var(--color-border)' }}>
+            <DependencyEditor
+              tasks={tasks}
+              taskId={task?.id}
+              value={dependencies}
+              onChange={setDependencies}
+              baseOnDependency={baseOnDependency}
+              onBaseOnDependencyChange={setBaseOnDependency}
+              errors={dependencyErrors}
+            />
+          </div>
+
           <div
             className="flex items-start gap-3 pt-4 border-t"
             style={{ borderColor: 'var(--color-border)' }}
@@ -611,6 +663,7 @@ export function EditTaskModal({ open, onOpenChange, task }: EditTaskModalProps)
             disabled={
               isSaving ||
               !description.trim() ||
+              dependencyErrors.length > 0 ||
               (cliTool === 'amp' && (isCheckingAmp || !ampPreflight || !ampPreflight.canRunAmp)) ||
               (cliTool === 'cursor' &&
                 (isCheckingCursor || !cursorPreflight || !cursorPreflight.canRunCursor))
@@ -5,7 +5,10 @@
  *
  * Modal for reviewing completed development and QA work before merging
  * Provides options for:
+ * - Reviewing the branch diff in the app (git enabled)
+ * - Requesting changes with line comments on the diff (sends the task back to development)
  * - Creating MR for review (if git enabled)
+ * - Merging the branch into the main branch locally (fast-forward, squash or merge commit)
  * - Review Locally: open worktree in Cursor or VS Code (Electron)
  * - Open in file explorer (Electron)
  */
@@ -38,20 +41,32 @@ import {
   CheckCircle2,
   AlertTriangle,
   Loader2,
+  GitMerge,
 } from 'lucide-react';
-import { Task } from '@/lib/tasks/schema';
+import { LocalMergeStrategy, Task } from '@/lib/tasks/schema';
+import type { LocalMergePreview } from '@/lib/git/local-merge';
+import type { ReviewCommentInput } from '@/lib/agents/review-changes';
 import { toast } from 'sonner';
 import { useTaskStore } from '@/store/task-store';
 import { useProjectStore } from '@/store/project-store';
 import { apiFetch } from '@/lib/api-client';
+import { DiffViewer } from '@/components/tasks/diff-viewer';
+import { ReviewCommentHistory } from '@/components/tasks/review-comment-history';
 import type { AvailableEditor } from '@/types/electron';
 
 interface HumanReviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   task: Task;
+  onMergedLocally?: () => void; // Called after a local merge moved the task to Done
 }
 
+const MERGE_STRATEGY_LABELS: Record<LocalMergeStrategy, string> = {
+  'fast-forward': 'Fast-forward',
+  squash: 'Squash into one commit',
+  merge: 'Merge commit',
+};
+
 /** Build worktree path without Node path in client (projectPath/.code-automata/worktrees/taskId). */
 function buildWorktreePath(projectPath: string | null, taskId: string): string | null {
   if (!projectPath) return null;
@@ -65,10 +80,17 @@ function availableEditorsSorted(editors: AvailableEditor[]): AvailableEditor[] {
   return [...available].sort((a, b) => (a.id === 'cursor' ? -1 : b.id === 'cursor' ? 1 : 0));
 }
 
-export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalProps) {
+export function HumanReviewModal({
+  open,
+  onOpenChange,
+  task,
+  onMergedLocally,
+}: HumanReviewModalProps) {
   const [isCreatingMR, setIsCreatingMR] = useState(false);
   const [isOpeningEditor, setIsOpeningEditor] = useState(false);
   const [isMovingToDone, setIsMovingToDone] = useState(false);
+  const [isRequestingChanges, setIsRequestingChanges] = useState(false);
+  const [draftComments, setDraftComments] = useState<ReviewCommentInput[]>([]);
   const [mrUrl, setMrUrl] = useState<string | null>(task.mergeRequestUrl || null);
   const [gitStatus, setGitStatus] = useState<{
     hasChanges: boolean;
@@ -79,6 +101,9 @@ export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalP
   const [selectedEditorId, setSelectedEditorId] = useState<AvailableEditor['id'] | null>(null);
   const [editorsLoading, setEditorsLoading] = useState(false);
   const [openingFolder, setOpeningFolder] = useState(false);
+  const [mergePreview, setMergePreview] = useState<LocalMergePreview | null>(null);
+  const [mergeStrategy, setMergeStrategy] = useState<LocalMergeStrategy>('squash');
+  const [isMergingLocally, setIsMergingLocally] = useState(false);
   const { loadTasks } = useTaskStore();
   const { projectPath } = useProjectStore();
 
@@ -113,6 +138,16 @@ export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalP
     }
   }, [open, task.id, task.branchName]);
 
+  // Preview the local merge (conflicts, fast-forward, main checkout state) when modal opens
+  useEffect(() => {
+    if (open && task.branchName) {
+      apiFetch(`/api/git/merge?taskId=${task.id}`)
+        .then((res) => res.json())
+        .then((data) => setMergePreview(data.preview ?? null))
+        .catch((err) => console.error('Failed to preview local merge:', err));
+    }
+  }, [open, task.id, task.branchName]);
+
   // Fetch available editors when modal opens (Electron only)
   useEffect(() => {
     if (!open || !isElectron || !window.electron) return;
@@ -202,6 +237,66 @@ export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalP
     }
   };
 
+  const handleMergeLocally = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsMergingLocally(true);
+    try {
+      const response = await apiFetch('/api/git/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: task.id, strategy: mergeStrategy }),
+      });
+
+      const data = await response.json().catch(() => ({}) as Record<string, unknown>);
+      if (!response.ok) {
+        toast.error(data?.error || 'Failed to merge', {
+          description: data?.conflicts?.length ? data.conflicts.join(', ') : undefined,
+        });
+        return;
+      }
+
+      toast.success(`Merged into ${mergePreview?.mainBranch ?? 'main'}`);
+      await loadTasks();
+      onOpenChange(false);
+      onMergedLocally?.();
+    } catch (error) {
+      console.error('Failed to merge locally:', error);
+      toast.error('Failed to merge');
+    } finally {
+      setIsMergingLocally(false);
+    }
+  };
+
+  const handleRequestChanges = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsRequestingChanges(true);
+    try {
+      const response = await apiFetch('/api/tasks/request-changes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: task.id, comments: draftComments }),
+      });
+
+      const data = await response.json().catch(() => ({}) as Record<string, unknown>);
+      if (!response.ok) {
+        toast.error(data?.error || 'Failed to request changes');
+        return;
+      }
+
+      toast.success('Changes requested', {
+        description: `${draftComments.length} comment(s) sent back to development`,
+      });
+      setDraftComments([]);
+      await loadTasks();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to request changes:', error);
+      toast.error('Failed to request changes');
+    } finally {
+      setIsRequestingChanges(false);
+    }
+  };
+
   const handleOpenInEditor = async (e: React.MouseEvent) => {
     e.stopPropagation();
     if (!worktreePath || !selectedEditorId || !window.electron) return;
@@ -271,7 +366,7 @@ export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalP
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[700px]">
+      <DialogContent className="sm:max-w-[1000px]">
         <DialogHeader>
           <DialogTitle>Human Review - Ready for Merge</DialogTitle>
           <DialogDescription>
@@ -394,6 +489,18 @@ export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalP
             </div>
           </div>
 
+          {/* Branch diff */}
+          {isGitEnabled && (
+            <div className="pt-4 border-t" style={{ borderColor: 'var(--color-border)' }}>
+              <DiffViewer
+                taskId={task.id}
+                draftComments={draftComments}
+                onDraftCommentsChange={setDraftComments}
+              />
+              <ReviewCommentHistory task={task} />
+            </div>
+          )}
+
           {/* Git-based Review Options */}
           {isGitEnabled ? (
             <div className="space-y-3 pt-4 border-t" style={{ borderColor: 'var(--color-border)' }}>
@@ -448,6 +555,110 @@ export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalP
                   </Button>
                 </div>
               </Card>
+
+              <Card
+                data-testid="local-merge-card"
+                className="p-4 transition-colors"
+                style={{
+                  background: 'var(--color-surface)',
+                  borderColor: 'var(--color-border)',
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--color-primary)';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--color-border)';
+                }}
+              >
+                <div className="space-y-3">
+                  <div>
+                    <h4
+                      className="text-sm font-medium flex items-center gap-2"
+                      style={{ color: 'var(--color-text-primary)' }}
+                    >
+                      <GitMerge className="w-4 h-4" />
+                      Merge Locally
+                    </h4>
+                    <p className="text-xs mt-1" style={{ color: 'var(--color-text-secondary)' }}>
+                      Merge the branch into {mergePreview?.mainBranch ?? 'the main branch'} in the
+                      project checkout, without a remote or merge request
+                      {mergePreview ? ` (${mergePreview.commitsAhead} commit(s))` : ''}
+                    </p>
+                  </div>
+                  {mergePreview && !mergePreview.onMainBranch && (
+                    <p className="text-xs" style={{ color: 'var(--color-warning)' }}>
+                      The project checkout is not on {mergePreview.mainBranch}.
+                    </p>
+                  )}
+                  {mergePreview?.dirty && (
+                    <p className="text-xs" style={{ color: 'var(--color-warning)' }}>
+                      The project checkout has uncommitted changes. Commit or stash them first.
+                    </p>
+                  )}
+                  {mergePreview && mergePreview.conflicts.length > 0 && (
+                    <p className="text-xs" style={{ color: 'var(--color-error)' }}>
+                      Conflicts with {mergePreview.mainBranch} in:{' '}
+                      <span className="font-mono">{mergePreview.conflicts.join(', ')}</span>
+                    </p>
+                  )}
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Select
+                      value={mergeStrategy}
+                      onValueChange={(v) => setMergeStrategy(v as LocalMergeStrategy)}
+                    >
+                      <SelectTrigger className="w-full sm:w-[220px] h-9 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(MERGE_STRATEGY_LABELS) as LocalMergeStrategy[]).map(
+                          (strategy) => (
+                            <SelectItem
+                              key={strategy}
+                              value={strategy}
+                              className="text-xs"
+                              disabled={
+                                strategy === 'fast-forward' &&
+                                mergePreview?.canFastForward === false
+                              }
+                            >
+                              {MERGE_STRATEGY_LABELS[strategy]}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      data-testid="merge-locally-button"
+                      onClick={handleMergeLocally}
+                      disabled={
+                        isMergingLocally ||
+                        !mergePreview ||
+                        !mergePreview.onMainBranch ||
+                        mergePreview.dirty ||
+                        mergePreview.commitsAhead === 0 ||
+                        (mergeStrategy !== 'fast-forward' && mergePreview.conflicts.length > 0) ||
+                        (mergeStrategy === 'fast-forward' && !mergePreview.canFastForward)
+                      }
+                      size="sm"
+                      className="flex-1 text-xs"
+                      style={{
+                        background: 'var(--color-primary)',
+                        color: 'var(--color-primary-text)',
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.background = 'var(--color-primary-hover)';
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.background = 'var(--color-primary)';
+                      }}
+                    >
+                      {isMergingLocally
+                        ? 'Merging…'
+                        : `Merge into ${mergePreview?.mainBranch ?? 'main'}`}
+                    </Button>
+                  </div>
+                </div>
+              </Card>
             </div>
           ) : (
             <div
@@ -670,6 +881,24 @@ export function HumanReviewModal({ open, onOpenChange, task }: HumanReviewModalP
           >
             Close
           </Button>
+          <Button
+            data-testid="request-changes-button"
+            variant="outline"
+            className="text-xs"
+            style={{
+              color: 'var(--color-warning)',
+              borderColor: 'var(--color-warning)',
+            }}
+            onClick={handleRequestChanges}
+            disabled={isRequestingChanges || draftComments.length === 0}
+            title={
+              draftComments.length === 0 ? 'Click a line number in the diff to comment' : undefined
+            }
+          >
+            {isRequestingChanges
+              ? 'Requesting…'
+              : `Request changes${draftComments.length > 0 ? ` (${draftComments.length})` : ''}`}
+          </Button>
           <Button
             style={{
               background: 'var(--color-success)',
@@ -3,7 +3,9 @@
 /**
  * New Task Modal
  *
- * Modal for creating new tasks with CLI tool selection and configuration
+ * Modal for creating new tasks with CLI tool selection and configuration.
+ * Tasks with prerequisites that are not done yet are created without starting planning;
+ * they start automatically once the prerequisites are done.
  */
 
 import { useState, useEffect } from 'react';
@@ -30,7 +32,19 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { useTaskStore } from '@/store/task-store';
 import { apiFetch } from '@/lib/api-client';
-import { CliReadinessPanel, CliReadinessPlaceholder } from '@/components/tasks/cli-readiness-panel';
+import { toast } from 'sonner';
+import {
+  formatUnmetDependencies,
+  getUnmetDependencies,
+  validateDependencies,
+} from '@/lib/tasks/dependencies';
+import {
+  CliCapabilitiesPanel,
+  CliReadinessPanel,
+  CliReadinessPlaceholder,
+  type CliAdapterCapabilities,
+} from '@/components/tasks/cli-readiness-panel';
+import { DependencyEditor } from '@/components/tasks/dependency-editor';
 
 type AmpPreflightResult = {
   ampCliPath: string | null;
@@ -62,7 +76,9 @@ interface ConfigField {
 interface CLIAdapter {
   name: string;
   displayName: string;
+  source?: 'builtin' | 'command' | 'plugin';
   configSchema: CLIConfigSchema;
+  capabilities?: CliAdapterCapabilities;
 }
 
 interface NewTaskModalProps {
@@ -71,13 +87,15 @@ interface NewTaskModalProps {
 }
 
 export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
-  const { createTask } = useTaskStore();
+  const { tasks, createTask } = useTaskStore();
 
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [cliTool, setCliTool] = useState<string>('mock');
   const [cliConfig, setCliConfig] = useState<Record<string, unknown>>({});
   const [requiresHumanReview, setRequiresHumanReview] = useState(false);
+  const [dependencies, setDependencies] = useState<string[]>([]);
+  const [baseOnDependency, setBaseOnDependency] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [availableAdapters, setAvailableAdapters] = useState<CLIAdapter[]>([]);
   const [isLoadingAdapters, setIsLoadingAdapters] = useState(true);
@@ -262,6 +280,9 @@ export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
     }));
   };
 
+  // New tasks have no dependents yet, so only unknown IDs could fail here
+  const dependencyErrors = validateDependencies('', dependencies, tasks);
+
   const handleCreate = async () => {
     if (!description.trim()) {
       alert('Please fill in all required fields');
@@ -285,8 +306,10 @@ export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
         planningLogsPath: `.code-automata/tasks/{task-id}/planning-logs.txt`, // Will be updated with actual ID
         metadata: {
           estimatedComplexity: 'medium',
+          ...(dependencies.length > 0 && { dependencies, baseOnDependency }),
         },
       });
+      const unmet = getUnmetDependencies(task, tasks);
 
       // Reset form
       setTitle('');
@@ -294,10 +317,17 @@ export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
       setCliTool('amp');
       setCliConfig({});
       setRequiresHumanReview(false);
+      setDependencies([]);
+      setBaseOnDependency(false);
 
       onOpenChange(false);
 
-      // Always start planning immediately, regardless of human review requirement
+      if (unmet.length > 0) {
+        toast.success(`Task created. ${formatUnmetDependencies(unmet)}`);
+        return;
+      }
+
+      // Otherwise start planning immediately, regardless of human review requirement
       try {
         await apiFetch('/api/agents/start-planning', {
           method: 'POST',
@@ -382,8 +412,13 @@ export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
             <Input
               id={field.name}
               type="number"
-              value={value as string | number | undefined}
-              onChange={(e) => handleConfigChange(field.name, parseInt(e.target.value))}
+              value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+              onChange={(e) =>
+                handleConfigChange(
+                  field.name,
+                  e.target.value === '' ? undefined : parseFloat(e.target.value)
+                )
+              }
             />
           </div>
         );
@@ -520,6 +555,12 @@ export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
                     </div>
                   )}
               </CliReadinessPanel>
+            ) : currentAdapter ? (
+              <CliCapabilitiesPanel
+                displayName={currentAdapter.displayName}
+                source={currentAdapter.source}
+                capabilities={currentAdapter.capabilities}
+              />
             ) : (
               <CliReadinessPlaceholder />
             )}
@@ -533,6 +574,18 @@ export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
             </div>
           )}
 
+          {/* Prerequisites */}
+          <div className="pt-4 border-t" style={{ borderColor: 'var(--color-border)' }}>
+            <DependencyEditor
+              tasks={tasks}
+              value={dependencies}
+              onChange={setDependencies}
+              baseOnDependency={baseOnDependency}
+              onBaseOnDependencyChange={setBaseOnDependency}
+              errors={dependencyErrors}
+            />
+          </div>
+
           {/* Human Review Checkbox */}
           <div
             className="flex items-start gap-3 pt-4 border-t"
@@ -580,6 +633,7 @@ export function NewTaskModal({ open, onOpenChange }: NewTaskModalProps) {
             disabled={
               isCreating ||
               !description.trim() ||
+              dependencyErrors.length > 0 ||
               (cliTool === 'amp' && (isCheckingAmp || !ampPreflight || !ampPreflight.canRunAmp)) ||
               (cliTool === 'cursor' &&
                 (isCheckingCursor || !cursorPreflight || !cursorPreflight.canRunCursor))
@@ -0,0 +1,105 @@
+'use client';
+
+/**
+ * QA Fix History
+ *
+ * Rounds of the automatic QA fix loop (task.qaFixRounds): which QA subtasks and verification
+ * commands failed, their findings and failing commands, the fix subtasks that were generated and how the round ended.
+ */
+
+import { CheckCircle2, Loader2, Wrench, XCircle } from 'lucide-react';
+import type { QAFixRound, Task } from '@/lib/tasks/schema';
+
+interface QAFixHistoryProps {
+  task: Task;
+}
+
+const OUTCOME_LABELS: Record<QAFixRound['outcome'], string> = {
+  fixing: 'Fixing',
+  passed: 'QA passed',
+  failed: 'QA still failed',
+};
+
+export function QAFixHistory({ task }: QAFixHistoryProps) {
+  const rounds = task.qaFixRounds ?? [];
+  if (rounds.length === 0) return null;
+
+  return (
+    <div
+      data-testid="qa-fix-history"
+      className="border-t pt-4 mt-6 space-y-3"
+      style={{ borderColor: 'var(--color-border)' }}
+    >
+      <h3
+        className="flex items-center gap-2 text-sm font-semibold"
+        style={{ color: 'var(--color-text-primary)' }}
+      >
+        <Wrench className="w-4 h-4" />
+        QA Fix Rounds
+      </h3>
+      {rounds.map((round) => (
+        <div
+          key={round.round}
+          className="rounded-md border px-3 py-2 text-xs space-y-2"
+          style={{ borderColor: 'var(--color-border)', background: 'var(--color-surface)' }}
+        >
+          <div className="flex items-center gap-2">
+            {round.outcome === 'fixing' ? (
+              <Loader2
+                className="w-3.5 h-3.5 animate-spin"
+                style={{ color: 'var(--color-info)' }}
+              />
+            ) : round.outcome === 'passed' ? (
+              <CheckCircle2 className="w-3.5 h-3.5" style={{ color: 'var(--color-success)' }} />
+            ) : (
+              <XCircle className="w-3.5 h-3.5" style={{ color: 'var(--color-error)' }} />
+            )}
+            <span className="font-medium" style={{ color: 'var(--color-text-primary)' }}>
+              Round {round.round}
+            </span>
+            <span style={{ color: 'var(--color-text-muted)' }}>
+              {OUTCOME_LABELS[round.outcome]} · {new Date(round.startedAt).toLocaleString()}
+            </span>
+          </div>
+          {round.failed.map((qa) => (
+            <div key={qa.subtaskId} style={{ color: 'var(--color-text-secondary)' }}>
+              <div className="font-medium">{qa.label}</div>
+              <ul className="list-disc pl-5">
+                {qa.findings.map((finding, i) => (
+                  <li key={i}>{finding}</li>
+                ))}
+              </ul>
+              {qa.failingCommands.length > 0 && (
+                <div
+                  className="font-mono mt-1 whitespace-pre-wrap"
+                  style={{ color: 'var(--color-text-muted)' }}
+                >
+                  {qa.failingCommands.map((command) => `$ ${command}`).join('\n')}
+                </div>
+              )}
+            </div>
+          ))}
+          {round.verification?.map((result) => (
+            <div key={result.name} style={{ color: 'var(--color-text-secondary)' }}>
+              <div className="font-medium">
+                Verification: {result.name}{' '}
+                <span style={{ color: 'var(--color-text-muted)' }}>
+                  ({result.timedOut ? 'timed out' : `exit code ${result.exitCode}`})
+                </span>
+              </div>
+              <div
+                className="font-mono mt-1 whitespace-pre-wrap"
+                style={{ color: 'var(--color-text-muted)' }}
+              >
+                $ {result.command}
+              </div>
+            </div>
+          ))}
+          <div style={{ color: 'var(--color-text-muted)' }}>
+            Fix subtasks: {round.fixSubtaskIds.join(', ')}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+/**
+ * Review Comment History
+ *
+ * Line comments sent with "Request changes" in human review (task.reviewComments), grouped by
+ * round, with the dev subtask that addressed each comment and its status.
+ */
+
+import { CheckCircle2, Circle, Loader2, MessageSquare } from 'lucide-react';
+import type { ReviewComment, Task } from '@/lib/tasks/schema';
+
+interface ReviewCommentHistoryProps {
+  task: Task;
+}
+
+export function ReviewCommentHistory({ task }: ReviewCommentHistoryProps) {
+  const comments = task.reviewComments ?? [];
+  if (comments.length === 0) return null;
+
+  const rounds = new Map<number, ReviewComment[]>();
+  for (const comment of comments) {
+    rounds.set(comment.round, [...(rounds.get(comment.round) ?? []), comment]);
+  }
+
+  return (
+    <div
+      data-testid="review-comment-history"
+      className="border-t pt-4 mt-6 space-y-3"
+      style={{ borderColor: 'var(--color-border)' }}
+    >
+      <h3
+        className="flex items-center gap-2 text-sm font-semibold"
+        style={{ color: 'var(--color-text-primary)' }}
+      >
+        <MessageSquare className="w-4 h-4" />
+        Requested Changes
+      </h3>
+      {[...rounds.entries()].map(([round, roundComments]) => (
+        <div
+          key={round}
+          className="rounded-md border px-3 py-2 text-xs space-y-2"
+          style={{ borderColor: 'var(--color-border)', background: 'var(--color-surface)' }}
+        >
+          <div className="flex items-center gap-2">
+            <span className="font-medium" style={{ color: 'var(--color-text-primary)' }}>
+              Round {round}
+            </span>
+            <span style={{ color: 'var(--color-text-muted)' }}>
+              {new Date(roundComments[0].createdAt).toLocaleString()}
+            </span>
+          </div>
+          {roundComments.map((comment) => {
+            const status = task.subtasks.find((s) => s.id === comment.subtaskId)?.status;
+            return (
+              <div key={comment.id} className="flex items-start gap-2">
+                {status === 'completed' ? (
+                  <CheckCircle2
+                    className="w-3.5 h-3.5 mt-0.5 flex-shrink-0"
+                    style={{ color: 'var(--color-success)' }}
+                  />
+                ) : status === 'in_progress' ? (
+                  <Loader2
+                    className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 animate-spin"
+                    style={{ color: 'var(--color-info)' }}
+                  />
+                ) : (
+                  <Circle
+                    className="w-3.5 h-3.5 mt-0.5 flex-shrink-0"
+                    style={{ color: 'var(--color-text-muted)' }}
+                  />
+                )}
+                <div className="min-w-0" style={{ color: 'var(--color-text-secondary)' }}>
+                  <div className="font-mono truncate" style={{ color: 'var(--color-text-muted)' }}>
+                    {comment.path}:{comment.line}
+                    {comment.side === 'old' ? ' (removed line)' : ''}
+                  </div>
+                  <div className="whitespace-pre-wrap">{comment.body}</div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,7 +3,8 @@
 /**
  * Task Detail Modal
  *
- * Shows task subtasks and logs in tabbed interface
+ * Shows task subtasks and logs in tabbed interface, plus the QA fix round history and the
+ * task's git checkpoints (roll back to one and re-run the subtasks after it)
  */
 
 import { useMemo, useRef, useState, useEffect } from 'react';
@@ -21,6 +22,9 @@ import { useTaskStore } from '@/store/task-store';
 import { apiFetch, buildStreamUrl } from '@/lib/api-client';
 import { Button } from '@/components/ui/button';
 import { AgentLog } from '@/lib/agents/manager';
+import { CheckpointList } from '@/components/tasks/checkpoint-list';
+import { QAFixHistory } from '@/components/tasks/qa-fix-history';
+import { ReviewCommentHistory } from '@/components/tasks/review-comment-history';
 import {
   DndContext,
   closestCenter,
@@ -201,6 +205,9 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
   const [isSkipping, setIsSkipping] = useState<string | null>(null);
   const [isSkippingCurrent, setIsSkippingCurrent] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
+  const [canResume, setCanResume] = useState(false);
+  const [streamKey, setStreamKey] = useState(0);
   const [subtasks, setSubtasks] = useState<Subtask[]>(task.subtasks);
   const [agentLogs, setAgentLogs] = useState<AgentLog[]>([]);
   const [logStatus, setLogStatus] = useState<
@@ -232,6 +239,29 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
   const currentSubtask = task.subtasks.find((s) => s.status === 'in_progress');
   const activeThreadId = task.assignedAgent;
 
+  // Detect threads orphaned by a server restart (assigned but no longer running)
+  useEffect(() => {
+    if (!open || !activeThreadId) {
+      setCanResume(false);
+      return;
+    }
+
+    let cancelled = false;
+    const params = new URLSearchParams({ taskId: task.id, threadId: activeThreadId });
+    apiFetch(`/api/agents/resume?${params.toString()}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setCanResume(Boolean(data?.resumable));
+      })
+      .catch(() => {
+        if (!cancelled) setCanResume(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, task.id, activeThreadId, streamKey]);
+
   // Auto-switch to logs tab when a subtask is in progress
   useEffect(() => {
     if (currentSubtask && activeTab === 'subtasks') {
@@ -285,7 +315,7 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
     return () => {
       eventSource.close();
     };
-  }, [open, activeTab, activeThreadId]);
+  }, [open, activeTab, activeThreadId, streamKey]);
 
   useEffect(() => {
     if (activeTab !== 'logs') return;
@@ -440,6 +470,53 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
     }
   };
 
+  // Set by the crash recovery sweep when the agent for this phase was lost
+  const interruption = task.interruption?.phase === task.phase ? task.interruption : undefined;
+  const interruptionPhaseSubtasks = task.subtasks.filter(
+    (s) => s.type === (task.phase === 'ai_review' ? 'qa' : 'dev')
+  );
+  const continueFromIndex = interruption
+    ? interruptionPhaseSubtasks.findIndex((s) =>
+        interruption.subtaskId ? s.id === interruption.subtaskId : s.status !== 'completed'
+      )
+    : -1;
+  const continueFromSubtask =
+    continueFromIndex === -1 ? undefined : interruptionPhaseSubtasks[continueFromIndex];
+
+  const handleResume = async (fromSubtaskId?: string) => {
+    setIsResuming(true);
+    try {
+      const response = await apiFetch('/api/agents/resume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          taskId: task.id,
+          threadId: activeThreadId || interruption?.threadId,
+          fromSubtaskId,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to resume agent');
+        return;
+      }
+
+      toast.success(
+        data.attached ? 'Agent is still running' : data.threadId ? 'Agent resumed' : 'Continuing'
+      );
+      setCanResume(false);
+      setActiveTab('logs');
+      setStreamKey((k) => k + 1); // Reconnect the log stream for the same thread
+      await loadTasks();
+    } catch (error) {
+      toast.error('Failed to resume agent');
+      console.error(error);
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
   const getSubtaskIcon = (subtask: Subtask) => {
     if (subtask.status === 'completed') {
       return <CheckCircle2 className="w-5 h-5" style={{ color: 'var(--color-success)' }} />;
@@ -538,6 +615,40 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
           <DialogDescription>{task.description}</DialogDescription>
         </DialogHeader>
 
+        {interruption && (
+          <div
+            className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-xs"
+            style={{
+              borderColor: 'var(--color-warning)',
+              background: 'var(--color-surface-hover)',
+              color: 'var(--color-text-primary)',
+            }}
+          >
+            <div>
+              <span className="font-medium" style={{ color: 'var(--color-warning)' }}>
+                ⚠ Interrupted
+              </span>{' '}
+              {interruption.reason} ({new Date(interruption.interruptedAt).toLocaleString()})
+            </div>
+            {continueFromSubtask && (
+              <button
+                onClick={() => handleResume(continueFromSubtask.id)}
+                disabled={isResuming}
+                className="px-3 py-1.5 rounded-md text-xs font-medium transition-all"
+                style={{
+                  background: 'var(--color-warning)',
+                  color: '#000000',
+                  opacity: isResuming ? 0.6 : 1,
+                  whiteSpace: 'nowrap',
+                }}
+                title={`Continue with "${continueFromSubtask.label}" and the remaining subtasks`}
+              >
+                {isResuming ? 'Continuing…' : `Continue from subtask ${continueFromIndex + 1}`}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Tabs */}
         <div
           className="flex shrink-0 gap-1 border-b"
@@ -931,6 +1042,9 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
                   </div>
                 </>
               ) : null}
+              <QAFixHistory task={task} />
+              <ReviewCommentHistory task={task} />
+              {task.phase !== 'planning' && task.phase !== 'done' && <CheckpointList task={task} />}
             </>
           ) : (
             <div
@@ -1004,7 +1118,16 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
                         <span style={{ color: 'var(--color-text-muted)' }}>
                           [{formatTimestamp(log.timestamp)}]
                         </span>{' '}
-                        <span style={{ color: 'var(--color-info)' }}>{log.type}:</span>{' '}
+                        <span
+                          style={{
+                            color:
+                              log.type === 'validation'
+                                ? 'var(--color-warning)'
+                                : 'var(--color-info)',
+                          }}
+                        >
+                          {log.type}:
+                        </span>{' '}
                         <span style={{ color: 'var(--color-terminal-text)' }}>
                           {typeof log.content === 'string'
                             ? log.content
@@ -1035,7 +1158,23 @@ export function TaskDetailModal({ open, onOpenChange, task }: TaskDetailModalPro
                 return `${relevantSubtasks.filter((s) => s.status === 'completed').length}/${relevantSubtasks.length} completed`;
               })()}
             </div>
-            <div className="flex-1 flex justify-center">
+            <div className="flex-1 flex justify-center gap-2">
+              {canResume && !interruption && (
+                <button
+                  onClick={() => handleResume()}
+                  disabled={isResuming}
+                  className="px-3 py-1.5 rounded-md text-xs font-medium transition-all"
+                  style={{
+                    background: 'var(--color-info)',
+                    color: '#ffffff',
+                    opacity: isResuming ? 0.6 : 1,
+                    whiteSpace: 'nowrap',
+                  }}
+                  title="Continue the interrupted subtask with its conversation history"
+                >
+                  {isResuming ? 'Resuming…' : 'Resume'}
+                </button>
+              )}
               {currentSubtask && (
                 <button
                   onClick={handleSkipCurrentSubtask}
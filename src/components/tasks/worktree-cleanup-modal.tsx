@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * Worktree Cleanup Modal
+ *
+ * Offered once a task's branch has landed (PR/MR merged, or merged locally): removes the task's
+ * worktree and, optionally, its local and remote branch. The task itself stays on the board.
+ */
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogBody,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiFetch } from '@/lib/api-client';
+import { useTaskStore } from '@/store/task-store';
+import type { Task } from '@/lib/tasks/schema';
+
+interface WorktreeCleanupModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  task: Task;
+}
+
+export function WorktreeCleanupModal({ open, onOpenChange, task }: WorktreeCleanupModalProps) {
+  const { loadTasks } = useTaskStore();
+  const [deleteBranch, setDeleteBranch] = useState(true);
+  const [deleteRemoteBranch, setDeleteRemoteBranch] = useState(false);
+  const [isCleaning, setIsCleaning] = useState(false);
+
+  const handleCleanup = async () => {
+    setIsCleaning(true);
+    try {
+      const response = await apiFetch('/api/git/worktree', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'delete',
+          taskId: task.id,
+          keepTask: true,
+          alsoDeleteBranch: deleteBranch,
+          alsoDeleteFromRemote: deleteBranch && deleteRemoteBranch,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to clean up worktree');
+      } else {
+        toast.success('Worktree cleaned up');
+        onOpenChange(false);
+        await loadTasks();
+      }
+    } catch (_error) {
+      toast.error('Failed to clean up worktree');
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isCleaning ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="w-5 h-5" style={{ color: 'var(--color-text-secondary)' }} />
+            Clean Up Worktree
+          </DialogTitle>
+          <DialogDescription>
+            The changes of this task have been merged. Remove its worktree to free disk space; the
+            task stays in Done.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogBody className="space-y-3 py-4">
+          {task.worktreePath && (
+            <div
+              className="text-xs font-mono px-2 py-1 rounded break-all"
+              style={{
+                backgroundColor: 'var(--color-surface-hover)',
+                color: 'var(--color-text-secondary)',
+              }}
+            >
+              {task.worktreePath}
+            </div>
+          )}
+          <label
+            className="flex items-center gap-2 text-sm"
+            style={{ color: 'var(--color-text-primary)' }}
+          >
+            <input
+              type="checkbox"
+              checked={deleteBranch}
+              onChange={(e) => setDeleteBranch(e.target.checked)}
+              disabled={isCleaning}
+            />
+            Delete branch <span className="font-mono text-xs">{task.branchName}</span>
+          </label>
+          {/* Only pushed branches (PR/MR) exist on origin */}
+          {task.mergeRequestUrl && (
+            <label
+              className="flex items-center gap-2 text-sm"
+              style={{
+                color: deleteBranch ? 'var(--color-text-primary)' : 'var(--color-text-muted)',
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={deleteBranch && deleteRemoteBranch}
+                onChange={(e) => setDeleteRemoteBranch(e.target.checked)}
+                disabled={isCleaning || !deleteBranch}
+              />
+              Also delete the branch on origin
+            </label>
+          )}
+        </DialogBody>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isCleaning}
+            style={{
+              background: 'var(--color-surface-hover)',
+              color: 'var(--color-text-primary)',
+              borderColor: 'var(--color-border)',
+            }}
+          >
+            Keep Worktree
+          </Button>
+          <Button
+            onClick={handleCleanup}
+            disabled={isCleaning}
+            className="font-medium"
+            style={{
+              backgroundColor: 'var(--color-primary)',
+              color: 'var(--color-primary-text)',
+            }}
+          >
+            {isCleaning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Cleaning up...
+              </>
+            ) : (
+              'Clean Up'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { appendAgentStreamLog } from '../stream-log';
+import { recordAgentRun } from '../usage';
+import { readAgentHistory, summarizeLogContent } from '../agent-history';
+
+describe('agent session history', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-history-'));
+
+    await appendAgentStreamLog(
+      'task-1',
+      'thread-done',
+      { timestamp: 1_000, type: 'system', content: 'Starting' },
+      projectDir
+    );
+    await appendAgentStreamLog(
+      'task-1',
+      'thread-done',
+      {
+        timestamp: 5_000,
+        type: 'assistant',
+        content: { message: { content: [{ type: 'text', text: 'All tests pass.' }] } },
+      },
+      projectDir
+    );
+    await appendAgentStreamLog(
+      'task-1',
+      'thread-done',
+      { type: 'status', status: 'completed' },
+      projectDir
+    );
+    await recordAgentRun(
+      {
+        taskId: 'task-1',
+        threadId: 'thread-done',
+        phase: 'in_progress',
+        provider: 'amp',
+        status: 'completed',
+        startedAt: 900,
+        completedAt: 5_100,
+        inputTokens: 1_200,
+        outputTokens: 300,
+        costUsd: 0.02,
+        durationMs: 4_200,
+        toolCalls: 2,
+      },
+      projectDir
+    );
+
+    // No status line: the server went away mid-run
+    await appendAgentStreamLog(
+      'task-2',
+      'thread-cut',
+      { timestamp: 2_000, type: 'tool', content: { tool: 'edit_file' } },
+      projectDir
+    );
+    await appendAgentStreamLog(
+      'task-2',
+      'thread-live',
+      { timestamp: 3_000, type: 'system', content: 'Working' },
+      projectDir
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('summarizes string and native adapter messages', () => {
+    expect(summarizeLogContent('  Reading   files ')).toBe('Reading files');
+    expect(summarizeLogContent({ type: 'tool_use', name: 'Bash' })).toBe('→ Bash');
+    expect(summarizeLogContent({ usage: 3 })).toBe('{"usage":3}');
+    expect(summarizeLogContent('x'.repeat(300))).toHaveLength(200);
+  });
+
+  it('reads finished and interrupted sessions, skipping active threads', async () => {
+    const history = await readAgentHistory(projectDir, {
+      activeThreadIds: new Set(['thread-live']),
+    });
+    const byThread = Object.fromEntries(history.map((entry) => [entry.threadId, entry]));
+
+    expect(Object.keys(byThread).sort()).toEqual(['thread-cut', 'thread-done']);
+    expect(byThread['thread-done']).toMatchObject({
+      taskId: 'task-1',
+      status: 'completed',
+      provider: 'amp',
+      phase: 'in_progress',
+      startedAt: 900,
+      completedAt: 5_100,
+      messageCount: 2,
+      lastMessage: 'All tests pass.',
+      inputTokens: 1_200,
+    });
+    expect(byThread['thread-cut']).toMatchObject({
+      status: 'interrupted',
+      lastMessage: '→ edit_file',
+      startedAt: 2_000,
+    });
+  });
+});
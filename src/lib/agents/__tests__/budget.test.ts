@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Task } from '@/lib/tasks/schema';
+import { checkRunBudget, endRunBudget, loadRunBudget } from '../budget';
+import { recordAgentRun } from '../usage';
+
+const run = { inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0 };
+
+function makeTask(cliConfig: Record<string, unknown>): Task {
+  return {
+    id: 'task-1',
+    title: 'Task',
+    description: '',
+    phase: 'in_progress',
+    status: 'in_progress',
+    subtasks: [],
+    cliConfig,
+    usage: {
+      total: {
+        inputTokens: 8_000,
+        outputTokens: 1_000,
+        costUsd: 0.9,
+        durationMs: 0,
+        toolCalls: 0,
+        runs: 1,
+      },
+      byPhase: {},
+    },
+    createdAt: 1,
+    updatedAt: 1,
+    metadata: {},
+  };
+}
+
+describe('run budgets', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'budget-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('counts earlier task runs against the task budget', async () => {
+    const budget = await loadRunBudget(makeTask({ maxTokens: 10_000, mode: 'smart' }), projectDir);
+    expect(budget).toBeDefined();
+    expect(checkRunBudget(budget!, { ...run, outputTokens: 500 })).toBeNull();
+    expect(checkRunBudget(budget!, { ...run, outputTokens: 1_000 })).toMatch(
+      /^Budget exceeded: Task token budget/
+    );
+  });
+
+  it('counts parallel runs of the task against the same budget', async () => {
+    const task = { ...makeTask({ maxTokens: 10_000 }), id: 'task-parallel' };
+    const first = (await loadRunBudget(task, projectDir))!;
+    const second = (await loadRunBudget(task, projectDir))!;
+
+    expect(checkRunBudget(first, { ...run, outputTokens: 600 })).toBeNull();
+    expect(checkRunBudget(second, { ...run, outputTokens: 300 })).toBeNull();
+    expect(checkRunBudget(second, { ...run, outputTokens: 400 })).toMatch(
+      /^Budget exceeded: Task token budget \(10,000 of/
+    );
+
+    // A finished run still counts for runs whose budget was loaded before it finished
+    endRunBudget(first, { ...run, outputTokens: 600 });
+    expect(checkRunBudget(second, { ...run, outputTokens: 400 })).toMatch(/^Budget exceeded/);
+    endRunBudget(second, { ...run, outputTokens: 400 });
+  });
+
+  it('has no budget when nothing is configured', async () => {
+    expect(await loadRunBudget(makeTask({ maxCostUsd: '' }), projectDir)).toBeUndefined();
+  });
+
+  it('applies the project daily cap to runs finished today', async () => {
+    await fs.mkdir(path.join(projectDir, '.code-automata'), { recursive: true });
+    await fs.writeFile(
+      path.join(projectDir, '.code-automata', 'budget.json'),
+      JSON.stringify({ dailyMaxCostUsd: 2 })
+    );
+    await recordAgentRun(
+      {
+        taskId: 'other',
+        threadId: 'thread-1',
+        phase: 'in_progress',
+        provider: 'amp',
+        status: 'completed',
+        startedAt: Date.now() - 1_000,
+        completedAt: Date.now(),
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 1.5,
+        durationMs: 1_000,
+        toolCalls: 0,
+      },
+      projectDir
+    );
+
+    const budget = await loadRunBudget(makeTask({}), projectDir);
+    expect(checkRunBudget(budget!, { ...run, costUsd: 0.25 })).toBeNull();
+    expect(checkRunBudget(budget!, { ...run, costUsd: 0.5 })).toBe(
+      'Budget exceeded: Project daily cost budget ($2.00 of $2.00)'
+    );
+  });
+});
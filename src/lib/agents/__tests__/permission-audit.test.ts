@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { findToolViolations, getChangedPaths, snapshotWorktree } from '../permission-audit';
+import { loadPermissionRules } from '../permission-policy';
+
+describe('permission audit', () => {
+  let repoDir: string;
+
+  beforeAll(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'permission-audit-'));
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@test', ...args], {
+        cwd: repoDir,
+      });
+    git('init', '-q');
+    await fs.writeFile(path.join(repoDir, 'README.md'), 'hello\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'init');
+  });
+
+  afterAll(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('finds files changed since the snapshot, ignoring app state', async () => {
+    const before = await snapshotWorktree(repoDir);
+    expect(before).not.toBeNull();
+
+    await fs.writeFile(path.join(repoDir, 'README.md'), 'changed\n');
+    await fs.mkdir(path.join(repoDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(repoDir, 'src', 'new.ts'), 'export {};\n');
+    await fs.mkdir(path.join(repoDir, '.code-automata'), { recursive: true });
+    await fs.writeFile(path.join(repoDir, '.code-automata', 'state.json'), '{}');
+
+    expect(await getChangedPaths(before!, repoDir)).toEqual(['README.md', 'src/new.ts']);
+  });
+
+  it('uses the read-only planning default and per-phase overrides', async () => {
+    const planning = await loadPermissionRules(repoDir, 'planning');
+    expect(planning).toEqual([{ kind: 'path', action: '**', allowed: false }]);
+
+    await fs.writeFile(
+      path.join(repoDir, '.code-automata', 'permissions.json'),
+      JSON.stringify({ dev: { tools: { deny: ['Bash'] } } })
+    );
+    const dev = await loadPermissionRules(repoDir, 'dev');
+    expect(findToolViolations(dev, { tool: 'Bash', command: 'ls' })).toHaveLength(1);
+    expect(findToolViolations(dev, { tool: 'Bash', status: 'completed', call_id: 'c1' })).toEqual(
+      []
+    );
+  });
+});
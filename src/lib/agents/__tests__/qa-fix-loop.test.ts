@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import type { Subtask, Task, VerificationResult } from '@/lib/tasks/schema';
+import { extractQAVerdict } from '@/lib/validation/qa-verdict-validator';
+import { completeQAFixRound, startQAFixRound } from '../qa-fix-loop';
+
+function makeTask(subtasks: Subtask[]): Task {
+  return {
+    id: 'task-1',
+    title: 'Task',
+    description: '',
+    phase: 'ai_review',
+    status: 'in_progress',
+    subtasks,
+    createdAt: 0,
+    updatedAt: 0,
+    metadata: {},
+  };
+}
+
+const failedQA: Subtask = {
+  id: 'qa-1',
+  content: 'Run the auth tests',
+  label: 'Verify auth',
+  status: 'pending',
+  type: 'qa',
+  verdict: {
+    verdict: 'fail',
+    findings: ['Login returns 500 for unknown users'],
+    failingCommands: ['npm test -- auth'],
+  },
+};
+
+describe('QA fix loop', () => {
+  it('extracts the last verdict from agent output', () => {
+    const output = [
+      'Test report: {"passed": 3, "failed": 1}',
+      '```json',
+      '{"verdict": "fail", "findings": ["Login returns 500"], "failingCommands": ["npm test"]}',
+      '```',
+    ].join('\n');
+
+    expect(extractQAVerdict(output).verdict).toEqual({
+      verdict: 'fail',
+      findings: ['Login returns 500'],
+      failingCommands: ['npm test'],
+    });
+    expect(extractQAVerdict('{"verdict": "pass"}').verdict?.verdict).toBe('pass');
+
+    const invalid = extractQAVerdict('{"verdict": "fail", "findings": []}');
+    expect(invalid.verdict).toBeNull();
+    expect(invalid.result.errors[0].field).toBe('findings');
+    expect(extractQAVerdict('All good!').verdict).toBeNull();
+  });
+
+  it('adds fix subtasks before the QA subtasks and records the round', () => {
+    const dev: Subtask = {
+      id: 'dev-1',
+      content: 'x',
+      label: 'Build',
+      status: 'completed',
+      type: 'dev',
+    };
+    const task = makeTask([dev, { ...failedQA }]);
+
+    const fixes = startQAFixRound(task, 2);
+
+    expect(fixes?.map((s) => s.id)).toEqual(['fix-1-qa-1']);
+    expect(fixes?.[0].content).toContain('npm test -- auth');
+    expect(task.subtasks.map((s) => s.id)).toEqual(['dev-1', 'fix-1-qa-1', 'qa-1']);
+    expect(task.qaFixRounds).toMatchObject([
+      { round: 1, outcome: 'fixing', fixSubtaskIds: ['fix-1-qa-1'] },
+    ]);
+
+    completeQAFixRound(task, 'passed');
+    expect(task.qaFixRounds?.[0].outcome).toBe('passed');
+  });
+
+  it('adds one fix subtask for failed verification commands', () => {
+    const task = makeTask([{ ...failedQA, status: 'completed', verdict: undefined }]);
+    const failedTypecheck: VerificationResult = {
+      name: 'typecheck',
+      command: 'npx tsc --noEmit',
+      exitCode: 2,
+      expectedExitCode: 0,
+      timedOut: false,
+      durationMs: 1_000,
+      passed: false,
+      outputTail: "src/app.ts(3,1): error TS2304: Cannot find name 'foo'.",
+    };
+
+    const fixes = startQAFixRound(task, 2, [failedTypecheck]);
+
+    expect(fixes?.map((s) => s.id)).toEqual(['fix-1-verification']);
+    expect(fixes?.[0].content).toContain('TS2304');
+    expect(task.qaFixRounds?.[0]).toMatchObject({ failed: [], verification: [failedTypecheck] });
+  });
+
+  it('stops after the configured number of rounds', () => {
+    const task = makeTask([{ ...failedQA }]);
+
+    expect(startQAFixRound(task, 1)).not.toBeNull();
+    expect(startQAFixRound(task, 1)).toBeNull();
+    expect(task.qaFixRounds?.map((r) => r.outcome)).toEqual(['failed']);
+    expect(startQAFixRound(makeTask([{ ...failedQA }]), 0)).toBeNull();
+  });
+});
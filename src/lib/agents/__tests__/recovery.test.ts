@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import type { Task } from '@/lib/tasks/schema';
+import { getThreadSession, saveThreadSession } from '../thread-sessions';
+import { reconcileOrphanedTasks } from '../recovery';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    description: '',
+    phase: 'in_progress',
+    status: 'in_progress',
+    subtasks: [
+      { id: 's1', content: 'one', label: 'One', status: 'completed', type: 'dev' },
+      { id: 's2', content: 'two', label: 'Two', status: 'in_progress', type: 'dev' },
+      { id: 's3', content: 'three', label: 'Three', status: 'pending', type: 'dev' },
+    ],
+    createdAt: 1,
+    updatedAt: 1,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('reconcileOrphanedTasks', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'recovery-'));
+    const persistence = getTaskPersistence(projectDir);
+
+    await persistence.saveTask(makeTask('orphan', { assignedAgent: 'thread-old' }));
+    await persistence.saveTask(makeTask('started-here', { assignedAgent: 'thread-new' }));
+    await persistence.saveTask(
+      makeTask('idle', {
+        phase: 'human_review',
+        status: 'completed',
+        subtasks: [],
+      })
+    );
+
+    const record = {
+      taskId: 'orphan',
+      provider: 'mock',
+      workingDir: projectDir,
+      prompt: 'Do the thing',
+      status: 'running' as const,
+      updatedAt: 0,
+    };
+    await saveThreadSession({ ...record, threadId: 'thread-old', startedAt: 0 }, projectDir);
+    await saveThreadSession(
+      { ...record, threadId: 'thread-new', taskId: 'started-here', startedAt: Date.now() },
+      projectDir
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('marks tasks whose agent predates this process as interrupted', async () => {
+    const interrupted = await reconcileOrphanedTasks(projectDir);
+    expect(interrupted.map((t) => t.id)).toEqual(['orphan']);
+
+    const task = await getTaskPersistence(projectDir).loadTask('orphan');
+    expect(task?.status).toBe('blocked');
+    expect(task?.assignedAgent).toBeUndefined();
+    expect(task?.interruption).toMatchObject({
+      phase: 'in_progress',
+      threadId: 'thread-old',
+      subtaskId: 's2',
+    });
+    expect(task?.subtasks.map((s) => s.status)).toEqual(['completed', 'pending', 'pending']);
+    expect((await getThreadSession('thread-old', projectDir))?.status).toBe('interrupted');
+
+    const untouched = await getTaskPersistence(projectDir).loadTask('started-here');
+    expect(untouched?.assignedAgent).toBe('thread-new');
+    expect(untouched?.interruption).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { appendAgentStreamLog } from '../stream-log';
+import {
+  getThreadSession,
+  saveThreadSession,
+  updateThreadSession,
+  ThreadSessionRecord,
+} from '../thread-sessions';
+import { buildResumePrompt, isResumableSession, readThreadTranscript } from '../resume';
+
+const baseRecord: ThreadSessionRecord = {
+  threadId: 'thread-1',
+  taskId: 'task-1',
+  provider: 'aider',
+  workingDir: '/tmp/worktree',
+  prompt: 'Implement the login form',
+  status: 'running',
+  startedAt: 1,
+  updatedAt: 1,
+};
+
+describe('thread sessions', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'thread-sessions-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('persists concurrent updates without losing fields', async () => {
+    await saveThreadSession(baseRecord, projectDir);
+    await Promise.all([
+      updateThreadSession('thread-1', { resumeHandle: 'chat-42' }, projectDir),
+      updateThreadSession('thread-1', { status: 'completed' }, projectDir),
+      updateThreadSession('unknown', { status: 'error' }, projectDir),
+    ]);
+
+    const record = await getThreadSession('thread-1', projectDir);
+    expect(record).toMatchObject({ resumeHandle: 'chat-42', status: 'completed' });
+    expect(await getThreadSession('unknown', projectDir)).toBeNull();
+    expect(isResumableSession(record!)).toBe(false);
+  });
+
+  it('rebuilds a transcript from the stream log for adapters without a resume handle', async () => {
+    const log = (type: string, content: unknown) =>
+      appendAgentStreamLog('task-1', 'thread-1', { timestamp: 1, type, content }, projectDir);
+    await log('system', { message: 'Agent session started' });
+    await log('assistant', { message: 'Creating the form component' });
+    await log('tool', { tool: 'edit_file', status: 'completed', path: 'src/login.tsx' });
+    await appendAgentStreamLog(
+      'task-1',
+      'thread-1',
+      { type: 'status', status: 'error' },
+      projectDir
+    );
+
+    const transcript = await readThreadTranscript('task-1', 'thread-1', projectDir);
+    expect(transcript).toEqual([
+      '[assistant] Creating the form component',
+      '[tool] edit_file "src/login.tsx"',
+    ]);
+
+    const prompt = buildResumePrompt(baseRecord, transcript);
+    expect(prompt).toContain('[tool] edit_file "src/login.tsx"');
+    expect(prompt).toContain('Implement the login form');
+
+    const nativePrompt = buildResumePrompt({ ...baseRecord, resumeHandle: 'chat-42' }, transcript);
+    expect(nativePrompt).not.toContain('edit_file');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { Subtask, Task } from '@/lib/tasks/schema';
+import { requestReviewChanges, validateReviewComments } from '../review-changes';
+
+function makeTask(subtasks: Subtask[]): Task {
+  return {
+    id: 'task-1',
+    title: 'Task',
+    description: '',
+    phase: 'human_review',
+    status: 'completed',
+    subtasks,
+    createdAt: 0,
+    updatedAt: 0,
+    metadata: {},
+  };
+}
+
+describe('review changes', () => {
+  it('rejects empty and invalid comments', () => {
+    expect(validateReviewComments([]).errors).toEqual(['At least one review comment is required']);
+
+    const { comments, errors } = validateReviewComments([
+      { path: 'src/a.ts', line: 3, side: 'new', body: 'Handle null' },
+      { path: '', line: 0, side: 'left', body: ' ' },
+    ]);
+    expect(comments).toEqual([]);
+    expect(errors).toEqual([
+      'Comment 2: path is required',
+      'Comment 2: line must be a positive integer',
+      'Comment 2: side must be "old" or "new"',
+      'Comment 2: body is required',
+    ]);
+  });
+
+  it('adds anchored dev subtasks before QA and resets QA results', () => {
+    const task = makeTask([
+      { id: 's1', content: 'Build it', label: 'Build', status: 'completed', type: 'dev' },
+      {
+        id: 'qa-1',
+        content: 'Check it',
+        label: 'Check',
+        status: 'completed',
+        type: 'qa',
+        verdict: { verdict: 'pass', findings: ['ok'], failingCommands: [] },
+      },
+    ]);
+    task.verification = {
+      stage: 'after_qa',
+      startedAt: 0,
+      completedAt: 0,
+      passed: true,
+      results: [],
+    };
+
+    const { comments } = validateReviewComments([
+      { path: 'src/a.ts', line: 12, side: 'new', body: 'Handle null', lineContent: 'return x;' },
+      { path: 'src/b.ts', line: 4, side: 'old', body: 'Keep this check' },
+    ]);
+    const first = requestReviewChanges(task, comments);
+
+    expect(task.subtasks.map((s) => s.id)).toEqual(['s1', 'review-1-1', 'review-1-2', 'qa-1']);
+    expect(first[0]).toMatchObject({
+      label: 'Review: src/a.ts:12',
+      type: 'dev',
+      status: 'pending',
+      files: ['src/a.ts'],
+      reviewRound: 1,
+    });
+    expect(first[0].content).toContain('`src/a.ts` line 12');
+    expect(first[0].content).toContain('> return x;');
+    expect(first[1].content).toContain('base version');
+    expect(task.subtasks[3]).toMatchObject({ status: 'pending', verdict: undefined });
+    expect(task.verification).toBeUndefined();
+    expect(task.reviewComments?.map((c) => [c.round, c.subtaskId])).toEqual([
+      [1, 'review-1-1'],
+      [1, 'review-1-2'],
+    ]);
+
+    // A second request starts a new round and keeps the earlier comments
+    requestReviewChanges(task, comments.slice(0, 1));
+    expect(task.reviewComments?.map((c) => c.id)).toEqual(['1-1', '1-2', '2-1']);
+    expect(task.subtasks.map((s) => s.id)).toContain('review-2-1');
+  });
+});
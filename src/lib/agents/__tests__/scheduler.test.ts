@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AgentScheduler, loadSchedulerLimits, ScheduleRequest } from '../scheduler';
+
+const PROJECT = '/projects/app';
+
+function request(threadId: string, overrides: Partial<ScheduleRequest> = {}): ScheduleRequest {
+  return {
+    threadId,
+    taskId: `task-${threadId}`,
+    projectDir: PROJECT,
+    provider: 'amp',
+    priority: 0,
+    ...overrides,
+  };
+}
+
+describe('agent scheduler', () => {
+  it('queues runs over the global limit and starts them as slots free up', async () => {
+    const scheduler = new AgentScheduler();
+    scheduler.setLimits(PROJECT, { maxConcurrent: 1, providerLimits: {} });
+    const started: string[] = [];
+
+    const first = scheduler.acquire(request('a')).then((release) => {
+      started.push('a');
+      return release;
+    });
+    const second = scheduler.acquire(request('b')).then((release) => {
+      started.push('b');
+      return release;
+    });
+    const releaseA = await first;
+    expect(started).toEqual(['a']);
+    expect(scheduler.getQueuePosition('b')).toBe(1);
+
+    releaseA();
+    releaseA(); // idempotent
+    (await second)();
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.runningCount()).toBe(0);
+  });
+
+  it('orders by priority, then tasks with fewer running runs, then FIFO', async () => {
+    const scheduler = new AgentScheduler();
+    scheduler.setLimits(PROJECT, { maxConcurrent: 1, providerLimits: {} });
+    const releaseBusy = await scheduler.acquire(request('busy', { taskId: 'task-1' }));
+
+    scheduler.acquire(request('same-task', { taskId: 'task-1' })).catch(() => {});
+    scheduler.acquire(request('other-task', { taskId: 'task-2' })).catch(() => {});
+    scheduler.acquire(request('qa', { taskId: 'task-3', priority: 2 })).catch(() => {});
+
+    expect(scheduler.listQueued().map((run) => run.threadId)).toEqual([
+      'qa',
+      'other-task',
+      'same-task',
+    ]);
+    expect(scheduler.cancel('qa')).toBe(true);
+    expect(scheduler.cancel('qa')).toBe(false);
+    expect(scheduler.getQueuePosition('other-task')).toBe(1);
+    releaseBusy();
+  });
+
+  it('skips runs whose provider is at its limit', async () => {
+    const scheduler = new AgentScheduler();
+    scheduler.setLimits(PROJECT, { maxConcurrent: 3, providerLimits: { amp: 1 } });
+    await scheduler.acquire(request('amp-1'));
+
+    scheduler.acquire(request('amp-2')).catch(() => {});
+    await scheduler.acquire(request('cursor-1', { provider: 'cursor' }));
+
+    expect(scheduler.runningCount('amp')).toBe(1);
+    expect(scheduler.runningCount('cursor')).toBe(1);
+    expect(scheduler.listQueued().map((run) => run.threadId)).toEqual(['amp-2']);
+
+    // Adapter capability applies only when scheduler.json has no entry for the provider
+    scheduler.setProviderDefault('cursor', 1);
+    scheduler.acquire(request('cursor-2', { provider: 'cursor' })).catch(() => {});
+    expect(scheduler.getQueuePosition('cursor-2')).toBe(2);
+  });
+
+  it("applies each project's limits to its own runs", async () => {
+    const scheduler = new AgentScheduler();
+    const other = '/projects/other';
+    scheduler.setLimits(PROJECT, { maxConcurrent: 1, providerLimits: {} });
+    scheduler.setLimits(other, { maxConcurrent: 2, providerLimits: {} });
+
+    await scheduler.acquire(request('app-1'));
+    scheduler.acquire(request('app-2')).catch(() => {});
+    await scheduler.acquire(request('other-1', { projectDir: other }));
+    await scheduler.acquire(request('other-2', { projectDir: other }));
+    scheduler.acquire(request('other-3', { projectDir: other })).catch(() => {});
+
+    expect(scheduler.runningCount()).toBe(3);
+    expect(scheduler.listQueued().map((run) => run.threadId)).toEqual(['app-2', 'other-3']);
+  });
+
+  it('loads limits from scheduler.json and falls back to defaults', async () => {
+    const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scheduler-'));
+    try {
+      expect(await loadSchedulerLimits(projectDir)).toEqual({
+        maxConcurrent: 12,
+        providerLimits: {},
+      });
+      await fs.mkdir(path.join(projectDir, '.code-automata'));
+      await fs.writeFile(
+        path.join(projectDir, '.code-automata', 'scheduler.json'),
+        JSON.stringify({ maxConcurrent: 4, providerLimits: { amp: 2, cursor: 0 } })
+      );
+      expect(await loadSchedulerLimits(projectDir)).toEqual({
+        maxConcurrent: 4,
+        providerLimits: { amp: 2 },
+      });
+    } finally {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    }
+  });
+});
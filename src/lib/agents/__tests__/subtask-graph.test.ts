@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { Subtask } from '@/lib/tasks/schema';
+import { pickRunnableSubtasks, subtaskFilesOverlap } from '../subtask-graph';
+
+function subtask(id: string, overrides: Partial<Subtask> = {}): Subtask {
+  return { id, content: id, label: id, status: 'pending', type: 'dev', ...overrides };
+}
+
+function pick(subtasks: Subtask[], running: string[] = [], slots = 3) {
+  return pickRunnableSubtasks(
+    subtasks.filter((s) => s.status === 'pending' && !running.includes(s.id)),
+    {
+      devSubtasks: subtasks,
+      runIds: new Set(subtasks.map((s) => s.id)),
+      running: subtasks.filter((s) => running.includes(s.id)),
+      slots,
+    }
+  ).map((s) => s.id);
+}
+
+describe('dev subtask scheduling', () => {
+  it('runs independent subtasks with disjoint files together', () => {
+    const subtasks = [
+      subtask('api', { dependsOn: [], files: ['src/app/api/example/route.ts'] }),
+      subtask('ui', { dependsOn: [], files: ['src/components/example.tsx'] }),
+      subtask('wire', { dependsOn: ['api', 'ui'], files: ['src/app/page.tsx'] }),
+    ];
+
+    expect(pick(subtasks)).toEqual(['api', 'ui']);
+    expect(pick(subtasks, [], 1)).toEqual(['api']);
+
+    subtasks[0].status = 'completed';
+    expect(pick(subtasks, ['ui'])).toEqual([]);
+    subtasks[1].status = 'completed';
+    expect(pick(subtasks)).toEqual(['wire']);
+  });
+
+  it('serializes subtasks whose files overlap', () => {
+    const lib = subtask('lib', { dependsOn: [], files: ['src/lib/'] });
+    const util = subtask('util', { dependsOn: [], files: ['./src/lib/util.ts'] });
+    const glob = subtask('glob', { dependsOn: [], files: ['src/components/**/*.tsx'] });
+
+    expect(subtaskFilesOverlap(lib, util)).toBe(true);
+    expect(subtaskFilesOverlap(lib, glob)).toBe(false);
+    expect(pick([lib, util, glob])).toEqual(['lib', 'glob']);
+    expect(pick([lib, util, glob], ['lib'])).toEqual(['glob']);
+  });
+
+  it('keeps subtasks without hints sequential', () => {
+    const subtasks = [subtask('one'), subtask('two'), subtask('three')];
+
+    expect(pick(subtasks)).toEqual(['one']);
+    subtasks[0].status = 'completed';
+    expect(pick(subtasks)).toEqual(['two']);
+  });
+
+  it('ignores dependencies outside the current run', () => {
+    const subtasks = [subtask('earlier'), subtask('later', { dependsOn: ['earlier'] })];
+    const runnable = pickRunnableSubtasks([subtasks[1]], {
+      devSubtasks: subtasks,
+      runIds: new Set(['later']),
+      running: [],
+      slots: 3,
+    });
+
+    expect(runnable.map((s) => s.id)).toEqual(['later']);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { normalizeUsage } from '@/lib/cli/usage';
+import { AgentRunRecord, readAgentRuns, recordAgentRun, summarizeAgentRuns } from '../usage';
+
+function makeRun(overrides: Partial<AgentRunRecord> = {}): AgentRunRecord {
+  return {
+    taskId: 'task-1',
+    threadId: 'thread-1',
+    phase: 'in_progress',
+    subtaskId: 's1',
+    provider: 'amp',
+    mode: 'smart',
+    model: 'claude-opus',
+    status: 'completed',
+    startedAt: 1_000,
+    completedAt: 61_000,
+    inputTokens: 1_000,
+    outputTokens: 200,
+    costUsd: 0.05,
+    durationMs: 60_000,
+    toolCalls: 4,
+    ...overrides,
+  };
+}
+
+describe('agent usage accounting', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+    await getTaskPersistence(projectDir).saveTask({
+      id: 'task-1',
+      title: 'Task',
+      description: '',
+      phase: 'in_progress',
+      status: 'in_progress',
+      subtasks: [
+        { id: 's1', content: 'one', label: 'One', status: 'in_progress', type: 'dev' },
+        { id: 's2', content: 'two', label: 'Two', status: 'pending', type: 'dev' },
+      ],
+      createdAt: 1,
+      updatedAt: 1,
+      metadata: {},
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('folds runs into task, phase and subtask totals', async () => {
+    await recordAgentRun(makeRun(), projectDir);
+    await recordAgentRun(
+      makeRun({ threadId: 'thread-2', phase: 'ai_review', subtaskId: undefined, mode: 'rush' }),
+      projectDir
+    );
+
+    const task = await getTaskPersistence(projectDir).loadTask('task-1');
+    expect(task?.usage?.total).toMatchObject({ inputTokens: 2_000, toolCalls: 8, runs: 2 });
+    expect(task?.usage?.byPhase.ai_review?.runs).toBe(1);
+    expect(task?.subtasks[0].usage).toMatchObject({ outputTokens: 200, runs: 1 });
+    expect(task?.subtasks[1].usage).toBeUndefined();
+  });
+
+  it('summarizes the run log for the project report', async () => {
+    const runs = await readAgentRuns(projectDir);
+    const summary = summarizeAgentRuns(runs);
+    expect(summary.total.runs).toBe(2);
+    expect(summary.byMode.smart.inputTokens).toBe(1_000);
+    expect(summary.byMode.rush.costUsd).toBeCloseTo(0.05);
+    expect(summary.byProvider.amp.durationMs).toBe(120_000);
+
+    expect(await readAgentRuns(projectDir, { taskId: 'other' })).toEqual([]);
+  });
+});
+
+describe('normalizeUsage', () => {
+  it('maps Anthropic- and OpenAI-style usage objects', () => {
+    expect(
+      normalizeUsage(
+        { input_tokens: 10, cache_read_input_tokens: 90, output_tokens: 5 },
+        'claude-opus'
+      )
+    ).toEqual({ inputTokens: 100, outputTokens: 5, costUsd: undefined, model: 'claude-opus' });
+    expect(normalizeUsage({ prompt_tokens: 7, completion_tokens: 3 })).toMatchObject({
+      inputTokens: 7,
+      outputTokens: 3,
+    });
+    expect(normalizeUsage(undefined)).toBeUndefined();
+  });
+});
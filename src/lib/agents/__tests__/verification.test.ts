@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadVerificationCommands, runVerification } from '../verification';
+
+describe('verification commands', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'verification-'));
+    await fs.mkdir(path.join(projectDir, '.code-automata'));
+    await fs.writeFile(
+      path.join(projectDir, '.code-automata', 'verification.json'),
+      JSON.stringify({
+        commands: [
+          { name: 'lint', command: 'echo lint ok' },
+          { name: 'warnings', command: 'echo two warnings; exit 2', expectedExitCode: 2 },
+          { name: 'test', command: 'echo 1 failing test; exit 1' },
+          { name: 'slow', command: 'sleep 5', timeoutSeconds: 0.2 },
+          { name: 'broken' },
+        ],
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('loads commands with defaults and skips invalid entries', async () => {
+    const commands = await loadVerificationCommands(projectDir);
+
+    expect(commands.map((c) => c.name)).toEqual(['lint', 'warnings', 'test', 'slow']);
+    expect(commands[0]).toMatchObject({ timeoutSeconds: 600, expectedExitCode: 0 });
+    expect(await loadVerificationCommands(os.tmpdir())).toEqual([]);
+  });
+
+  it('runs every command and checks exit codes and timeouts', async () => {
+    const logsPath = path.join(projectDir, 'review-logs.txt');
+    const run = await runVerification(projectDir, projectDir, 'after_qa', logsPath);
+
+    expect(run?.passed).toBe(false);
+    expect(run?.results.map((r) => [r.name, r.passed])).toEqual([
+      ['lint', true],
+      ['warnings', true],
+      ['test', false],
+      ['slow', false],
+    ]);
+    expect(run?.results[2]).toMatchObject({ exitCode: 1, outputTail: '1 failing test' });
+    expect(run?.results[3].timedOut).toBe(true);
+
+    const logs = await fs.readFile(logsPath, 'utf-8');
+    expect(logs).toContain('[Verify: test] FAILED - exit code 1 (expected 0)');
+    expect(logs).toContain('[Verification Failed: test, slow]');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Agent session history (local dev)
+ *
+ * Finished sessions are read back from the per-thread stream logs
+ * (`.code-automata/tasks/{taskId}/agent-stream-{threadId}.ndjson`), enriched with the
+ * thread session record (provider) and the usage log (phase, tokens, cost). A log without
+ * a status line whose thread is not running in this server is reported as interrupted.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { StreamLogLine } from '@/lib/agents/stream-log';
+import { listThreadSessions } from '@/lib/agents/thread-sessions';
+import { readAgentRuns } from '@/lib/agents/usage';
+import type { WorkflowPhase } from '@/lib/tasks/schema';
+
+const STREAM_LOG_PATTERN = /^agent-stream-(.+)\.ndjson$/;
+const MAX_MESSAGE_LENGTH = 200;
+
+export type AgentHistoryStatus = 'completed' | 'error' | 'stopped' | 'interrupted';
+
+export interface AgentHistoryEntry {
+  taskId: string;
+  threadId: string;
+  provider?: string;
+  phase?: WorkflowPhase;
+  subtaskId?: string;
+  status: AgentHistoryStatus;
+  error?: string;
+  startedAt?: number;
+  completedAt?: number;
+  messageCount: number;
+  lastMessage?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+}
+
+/** A log still being written has no status line yet */
+type ParsedStreamLog = Omit<AgentHistoryEntry, 'status'> & {
+  status: AgentHistoryStatus | 'running';
+};
+
+function truncate(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > MAX_MESSAGE_LENGTH ? `${clean.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : clean;
+}
+
+function textOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() ? value : undefined;
+  if (Array.isArray(value)) {
+    const parts = value.map(textOf).filter(Boolean);
+    return parts.length > 0 ? parts.join(' ') : undefined;
+  }
+  if (!value || typeof value !== 'object') return undefined;
+
+  const obj = value as Record<string, unknown>;
+  if (obj.type === 'tool_use' && typeof obj.name === 'string') return `→ ${obj.name}`;
+  for (const key of ['text', 'message', 'content', 'result', 'error']) {
+    const text = textOf(obj[key]);
+    if (text) return text;
+  }
+  if (typeof obj.tool === 'string') return `→ ${obj.tool}`;
+  return undefined;
+}
+
+/**
+ * One-line summary of a log entry's content (adapters log strings or their native JSON)
+ */
+export function summarizeLogContent(content: unknown): string {
+  const text = textOf(content);
+  if (text) return truncate(text);
+  try {
+    return truncate(JSON.stringify(content) ?? '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Parse one stream log file into a history entry (without provider/usage enrichment)
+ */
+export function parseAgentStreamLog(
+  taskId: string,
+  threadId: string,
+  raw: string
+): ParsedStreamLog {
+  const entry: ParsedStreamLog = {
+    taskId,
+    threadId,
+    status: 'running',
+    messageCount: 0,
+  };
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    let parsed: StreamLogLine;
+    try {
+      parsed = JSON.parse(line) as StreamLogLine;
+    } catch {
+      // Skip partial lines
+      continue;
+    }
+
+    if (parsed.type === 'status' && 'status' in parsed) {
+      const status = parsed.status as AgentHistoryStatus;
+      entry.status = ['completed', 'error', 'stopped'].includes(status) ? status : 'error';
+      if (parsed.error) entry.error = summarizeLogContent(parsed.error);
+      continue;
+    }
+    if (!('timestamp' in parsed)) continue;
+
+    entry.messageCount++;
+    entry.startedAt ??= parsed.timestamp;
+    entry.completedAt = parsed.timestamp;
+    const summary = summarizeLogContent(parsed.content);
+    if (summary) entry.lastMessage = summary;
+  }
+
+  return entry;
+}
+
+/**
+ * Finished (and interrupted) sessions of the project, most recent first.
+ * `activeThreadIds` are skipped: those are reported live by the registry.
+ */
+export async function readAgentHistory(
+  projectDir: string,
+  options: { activeThreadIds?: Set<string>; limit?: number } = {}
+): Promise<AgentHistoryEntry[]> {
+  const tasksDir = path.join(projectDir, '.code-automata', 'tasks');
+  const files: { taskId: string; threadId: string; filePath: string; mtimeMs: number }[] = [];
+
+  const taskDirs = await fs.readdir(tasksDir, { withFileTypes: true }).catch(() => []);
+  for (const dir of taskDirs) {
+    if (!dir.isDirectory()) continue;
+    const names = await fs.readdir(path.join(tasksDir, dir.name)).catch(() => []);
+    for (const name of names) {
+      const match = STREAM_LOG_PATTERN.exec(name);
+      if (!match || options.activeThreadIds?.has(match[1])) continue;
+      const filePath = path.join(tasksDir, dir.name, name);
+      const stat = await fs.stat(filePath).catch(() => null);
+      if (!stat) continue;
+      files.push({ taskId: dir.name, threadId: match[1], filePath, mtimeMs: stat.mtimeMs });
+    }
+  }
+
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  const selected = files.slice(0, options.limit ?? 50);
+  if (selected.length === 0) return [];
+
+  const [sessions, runs] = await Promise.all([
+    listThreadSessions(projectDir),
+    readAgentRuns(projectDir),
+  ]);
+  const providerByThread = new Map(sessions.map((s) => [s.threadId, s.provider]));
+  const runByThread = new Map(runs.map((run) => [run.threadId, run]));
+
+  const history: AgentHistoryEntry[] = [];
+  for (const file of selected) {
+    const raw = await fs.readFile(file.filePath, 'utf-8').catch(() => null);
+    if (raw === null) continue;
+
+    const parsed = parseAgentStreamLog(file.taskId, file.threadId, raw);
+    const run = runByThread.get(file.threadId);
+    history.push({
+      ...parsed,
+      // No status line and not active here: the server stopped mid-run
+      status: parsed.status === 'running' ? 'interrupted' : parsed.status,
+      provider: run?.provider ?? providerByThread.get(file.threadId),
+      phase: run?.phase,
+      subtaskId: run?.subtaskId,
+      startedAt: run?.startedAt ?? parsed.startedAt,
+      completedAt: run?.completedAt ?? parsed.completedAt,
+      inputTokens: run?.inputTokens,
+      outputTokens: run?.outputTokens,
+      costUsd: run?.costUsd,
+    });
+  }
+  return history;
+}
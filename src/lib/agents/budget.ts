@@ -0,0 +1,260 @@
+/**
+ * Spend/time budgets (local dev)
+ *
+ * Task budgets come from `task.cliConfig` (maxTokens, maxCostUsd, maxWallClockMinutes) and
+ * cover every agent run of the task. The project daily cap lives in `.code-automata/budget.json`
+ * ({ dailyMaxTokens, dailyMaxCostUsd, dailyMaxWallClockMinutes }) and covers all runs finished
+ * since local midnight. `AgentManager` checks the running agent against both and halts it
+ * when a limit is exceeded.
+ *
+ * Runs that share a scope (parallel subtasks, several tasks of a project) are checked against
+ * a live in-process total: the spend persisted when the run's budget was loaded, plus what
+ * other runs of the scope spent since then, plus the run itself.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { ConfigField } from '@/lib/cli/base';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import type { Task, UsageTotals } from '@/lib/tasks/schema';
+import { readAgentRuns, summarizeAgentRuns } from '@/lib/agents/usage';
+
+export interface BudgetLimits {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxDurationMs?: number;
+}
+
+/** What was already spent against the limits before the current run started */
+export interface BudgetScope {
+  label: string; // e.g. "Task" or "Project daily"
+  key: string; // Runs with the same key share the limits
+  limits: BudgetLimits;
+  spent: Pick<UsageTotals, 'inputTokens' | 'outputTokens' | 'costUsd' | 'durationMs'>;
+  finishedAtLoad: RunSpend; // The scope's in-process finished total when `spent` was read
+}
+
+export interface RunBudget {
+  scopes: BudgetScope[];
+}
+
+/** Usage of the current run so far */
+export interface RunSpend {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/** In-process spend of a budget scope */
+interface ScopeSpend {
+  running: Map<RunBudget, RunSpend>;
+  finished: RunSpend; // Runs that ended in this process
+}
+
+const liveSpend = new Map<string, ScopeSpend>();
+
+function emptySpend(): RunSpend {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0 };
+}
+
+function addSpend(a: RunSpend, b: RunSpend): RunSpend {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd + b.costUsd,
+    durationMs: a.durationMs + b.durationMs,
+  };
+}
+
+function subtractSpend(a: RunSpend, b: RunSpend): RunSpend {
+  return {
+    inputTokens: a.inputTokens - b.inputTokens,
+    outputTokens: a.outputTokens - b.outputTokens,
+    costUsd: a.costUsd - b.costUsd,
+    durationMs: a.durationMs - b.durationMs,
+  };
+}
+
+function getScopeSpend(key: string): ScopeSpend {
+  let spend = liveSpend.get(key);
+  if (!spend) {
+    spend = { running: new Map(), finished: emptySpend() };
+    liveSpend.set(key, spend);
+  }
+  return spend;
+}
+
+/**
+ * Budget fields offered with every adapter's CLI config
+ */
+export const BUDGET_CONFIG_FIELDS: ConfigField[] = [
+  {
+    name: 'maxTokens',
+    label: 'Token budget',
+    type: 'number',
+    description: 'Halt the agent when the task has used this many tokens (empty = no limit)',
+  },
+  {
+    name: 'maxCostUsd',
+    label: 'Cost budget (USD)',
+    type: 'number',
+    description: 'Halt the agent when the task has cost this much (empty = no limit)',
+  },
+  {
+    name: 'maxWallClockMinutes',
+    label: 'Time budget (minutes)',
+    type: 'number',
+    description:
+      'Halt the agent when its runs on this task exceed this wall time (empty = no limit)',
+  },
+];
+
+function positive(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function hasLimits(limits: BudgetLimits): boolean {
+  return (
+    limits.maxTokens !== undefined ||
+    limits.maxCostUsd !== undefined ||
+    limits.maxDurationMs !== undefined
+  );
+}
+
+export function getTaskBudgetLimits(task: Task): BudgetLimits {
+  const config = task.cliConfig ?? {};
+  const minutes = positive(config.maxWallClockMinutes);
+  return {
+    maxTokens: positive(config.maxTokens),
+    maxCostUsd: positive(config.maxCostUsd),
+    maxDurationMs: minutes !== undefined ? minutes * 60_000 : undefined,
+  };
+}
+
+export async function loadProjectDailyLimits(projectDir: string): Promise<BudgetLimits> {
+  try {
+    const raw = await fs.readFile(path.join(projectDir, '.code-automata', 'budget.json'), 'utf-8');
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const minutes = positive(parsed.dailyMaxWallClockMinutes);
+    return {
+      maxTokens: positive(parsed.dailyMaxTokens),
+      maxCostUsd: positive(parsed.dailyMaxCostUsd),
+      maxDurationMs: minutes !== undefined ? minutes * 60_000 : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Build the budget for a new run of the task. Returns undefined when no limit applies.
+ */
+export async function loadRunBudget(
+  task: Task,
+  projectDir: string
+): Promise<RunBudget | undefined> {
+  const scopes: BudgetScope[] = [];
+  const project = path.resolve(projectDir);
+
+  const taskLimits = getTaskBudgetLimits(task);
+  if (hasLimits(taskLimits)) {
+    const key = `task:${project}:${task.id}`;
+    const total = task.usage?.total;
+    scopes.push({
+      label: 'Task',
+      key,
+      finishedAtLoad: { ...getScopeSpend(key).finished },
+      limits: taskLimits,
+      spent: {
+        inputTokens: total?.inputTokens ?? 0,
+        outputTokens: total?.outputTokens ?? 0,
+        costUsd: total?.costUsd ?? 0,
+        durationMs: total?.durationMs ?? 0,
+      },
+    });
+  }
+
+  const dailyLimits = await loadProjectDailyLimits(projectDir);
+  if (hasLimits(dailyLimits)) {
+    const midnight = new Date();
+    midnight.setHours(0, 0, 0, 0);
+    const key = `daily:${project}:${midnight.getTime()}`;
+    // Read the in-process total first: a run finishing in between is counted twice, not never
+    const finishedAtLoad = { ...getScopeSpend(key).finished };
+    const today = summarizeAgentRuns(
+      await readAgentRuns(projectDir, { since: midnight.getTime() })
+    );
+    scopes.push({
+      label: 'Project daily',
+      key,
+      finishedAtLoad,
+      limits: dailyLimits,
+      spent: today.total,
+    });
+  }
+
+  return scopes.length > 0 ? { scopes } : undefined;
+}
+
+/**
+ * Record the run's spend so far and return a "budget exceeded" reason when the scope totals
+ * (including other runs of the same scopes) reached a limit
+ */
+export function checkRunBudget(budget: RunBudget, run: RunSpend): string | null {
+  for (const { label, key, limits, spent: persisted, finishedAtLoad } of budget.scopes) {
+    const scope = getScopeSpend(key);
+    scope.running.set(budget, run);
+
+    // Runs that finished after `persisted` was read are in the in-process total only
+    let spent = addSpend(persisted, subtractSpend(scope.finished, finishedAtLoad));
+    for (const [other, otherSpend] of scope.running) {
+      if (other !== budget) spent = addSpend(spent, otherSpend);
+    }
+
+    const tokens = spent.inputTokens + spent.outputTokens + run.inputTokens + run.outputTokens;
+    if (limits.maxTokens !== undefined && tokens >= limits.maxTokens) {
+      return `Budget exceeded: ${label} token budget (${tokens.toLocaleString()} of ${limits.maxTokens.toLocaleString()} tokens)`;
+    }
+    const cost = spent.costUsd + run.costUsd;
+    if (limits.maxCostUsd !== undefined && cost >= limits.maxCostUsd) {
+      return `Budget exceeded: ${label} cost budget ($${cost.toFixed(2)} of $${limits.maxCostUsd.toFixed(2)})`;
+    }
+    const duration = spent.durationMs + run.durationMs;
+    if (limits.maxDurationMs !== undefined && duration >= limits.maxDurationMs) {
+      return `Budget exceeded: ${label} time budget (${Math.round(duration / 60_000)} of ${Math.round(limits.maxDurationMs / 60_000)} min)`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Move a run's final spend from the running to the finished totals of its scopes. Call it
+ * once the run's usage is persisted; later calls do nothing.
+ */
+export function endRunBudget(budget: RunBudget, run: RunSpend): void {
+  for (const { key } of budget.scopes) {
+    const scope = getScopeSpend(key);
+    if (!scope.running.delete(budget)) continue;
+    scope.finished = addSpend(scope.finished, run);
+  }
+}
+
+/**
+ * Block the task after its agent was halted for exceeding a budget
+ */
+export async function markTaskBudgetExceeded(
+  taskId: string,
+  reason: string,
+  projectDir: string
+): Promise<void> {
+  await getTaskPersistence(projectDir).updateTask(taskId, (task) => {
+    task.status = 'blocked';
+    task.blockedReason = reason;
+    task.assignedAgent = undefined;
+    task.subtasks = task.subtasks.map((s) =>
+      s.status === 'in_progress' ? { ...s, status: 'pending' as const } : s
+    );
+  });
+}
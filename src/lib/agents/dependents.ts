@@ -0,0 +1,70 @@
+/**
+ * Automatic unblocking of dependent tasks (local dev)
+ *
+ * Called when a task reaches `done`. Every dependent that was waiting on it and has no other
+ * unmet prerequisite is started through the normal planning route. Dependents that asked to
+ * be based on their prerequisite (`metadata.baseOnDependency`) and have no worktree yet get
+ * one branched from the finished task's branch first.
+ */
+
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { findReadyDependents } from '@/lib/tasks/dependencies';
+import { getWorktreeManager } from '@/lib/git/worktree';
+import type { Task } from '@/lib/tasks/schema';
+
+async function ensureDependentWorktree(dependent: Task, doneTask: Task, projectDir: string) {
+  if (!dependent.metadata?.baseOnDependency || dependent.worktreePath) return;
+
+  const manager = getWorktreeManager(projectDir);
+  if (!(await manager.verifyGitAvailable())) return;
+
+  const worktreeInfo = await manager.createWorktree(dependent.id, doneTask.branchName);
+  dependent.worktreePath = worktreeInfo.path;
+  dependent.branchName = worktreeInfo.branchName;
+  dependent.updatedAt = Date.now();
+  await getTaskPersistence(projectDir).updateTask(dependent.id, (current) => {
+    current.worktreePath = worktreeInfo.path;
+    current.branchName = worktreeInfo.branchName;
+    current.updatedAt = dependent.updatedAt;
+  });
+  console.log(
+    `[Task ${dependent.id}] Worktree created from ${doneTask.branchName}: ${worktreeInfo.path}`
+  );
+}
+
+/**
+ * Start the dependents unblocked by `doneTask`. Returns the IDs of the tasks started.
+ * Failures are logged per dependent; they stay in Planning and can be started by hand.
+ */
+export async function startReadyDependents(doneTask: Task, projectDir: string): Promise<string[]> {
+  const tasks = await getTaskPersistence(projectDir).listTasks();
+  const ready = findReadyDependents(doneTask.id, tasks);
+  const started: string[] = [];
+
+  for (const dependent of ready) {
+    try {
+      await ensureDependentWorktree(dependent, doneTask, projectDir);
+
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/agents/start-planning`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Project-Path': projectDir },
+          body: JSON.stringify({ taskId: dependent.id }),
+        }
+      );
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to start planning (${response.status})`);
+      }
+
+      started.push(dependent.id);
+      console.log(`[Task ${dependent.id}] Prerequisites done, planning started`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[Task ${dependent.id}] Failed to auto-start after ${doneTask.id}: ${message}`);
+    }
+  }
+
+  return started;
+}
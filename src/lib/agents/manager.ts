@@ -2,24 +2,70 @@
  * Agent Manager
  *
  * Manages a pool of concurrent AI agent sessions
- * Supports up to 12 concurrent agents (matching Code-Automata limit)
+ * Runs wait for a slot in the process-wide agent scheduler (see scheduler.ts)
  */
 
-import { CLIAdapter } from '@/lib/cli/base';
+import { CLIAdapter, PermissionRule, StreamMessage } from '@/lib/cli/base';
 import { CLIFactory, CLIProvider } from '@/lib/cli/factory';
 import { ContextData } from '@/lib/cli/base';
 import { appendAgentStreamLog } from '@/lib/agents/stream-log';
 import { setThreadTaskId } from '@/lib/agents/thread-index';
+import {
+  saveThreadSession,
+  updateThreadSession,
+  ThreadSessionStatus,
+} from '@/lib/agents/thread-sessions';
+import { recordAgentRun } from '@/lib/agents/usage';
+import {
+  checkRunBudget,
+  endRunBudget,
+  markTaskBudgetExceeded,
+  RunBudget,
+} from '@/lib/agents/budget';
+import { agentScheduler } from '@/lib/agents/scheduler';
+import {
+  findToolViolations,
+  findViolation,
+  getChangedPaths,
+  PermissionViolation,
+  snapshotWorktree,
+  WorktreeSnapshot,
+} from '@/lib/agents/permission-audit';
+import type { WorkflowPhase } from '@/lib/tasks/schema';
+
+const BUDGET_CHECK_INTERVAL_MS = 5000;
 
 export interface AgentSession {
   taskId: string;
   threadId: string;
   projectDir: string;
-  status: 'running' | 'completed' | 'error' | 'stopped';
-  startedAt: number;
+  status: 'queued' | 'running' | 'completed' | 'error' | 'stopped';
+  startedAt: number; // When the run got its scheduler slot
   completedAt?: number;
   logs: AgentLog[];
   error?: string;
+  usage: AgentUsage;
+  usageContext?: AgentUsageContext;
+}
+
+/**
+ * Usage accumulated over one agent run (tokens as reported by the adapter)
+ */
+export interface AgentUsage {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  toolCalls: number;
+  durationMs: number;
+}
+
+/**
+ * Where a run's usage is attributed in the task
+ */
+export interface AgentUsageContext {
+  phase: WorkflowPhase;
+  subtaskId?: string;
 }
 
 export interface AgentLog {
@@ -32,21 +78,50 @@ export interface AgentOptions {
   workingDir: string;
   projectDir?: string;
   context?: ContextData;
+  usageContext?: AgentUsageContext;
+  /** Halt the agent when the run pushes the task or project over a limit */
+  budget?: RunBudget;
+  /** Phase permission rules: passed to the adapter and audited after the fact */
+  permissions?: PermissionRule[];
+  /** Scheduler priority when the run has to wait for a slot (higher first) */
+  priority?: number;
   onComplete?: (result: AgentResult) => void | Promise<void>;
 }
 
+export interface ResumeAgentOptions extends AgentOptions {
+  /** Adapter-native resume handle persisted with the thread session */
+  resumeHandle?: string;
+}
+
 export interface AgentResult {
   success: boolean;
   output: string;
   error?: string;
+  usage?: AgentUsage;
+  violations?: PermissionViolation[];
+}
+
+interface PermissionAudit {
+  rules: PermissionRule[];
+  workingDir: string;
+  before: WorktreeSnapshot | null;
+  violations: PermissionViolation[];
+  pathsChecked: boolean;
 }
 
 export class AgentManager {
   private cli: CLIAdapter;
+  private provider: CLIProvider;
   private activeAgents = new Map<string, AgentSession>();
-  private maxConcurrent = 12;
+  private releases = new Map<string, () => void>();
+  private mode?: string;
+  private model?: string;
+  private recordedRuns = new WeakSet<AgentSession>();
+  private audits = new WeakMap<AgentSession, PermissionAudit>();
+  private runBudgets = new WeakMap<AgentSession, RunBudget>();
 
   constructor(cliProvider: CLIProvider = 'mock') {
+    this.provider = cliProvider;
     this.cli = CLIFactory.create(cliProvider);
   }
 
@@ -61,17 +136,14 @@ export class AgentManager {
   }): Promise<void> {
     // Pass through full config to adapter (includes model, etc.)
     await this.cli.initialize(config);
+    this.mode = config.mode;
+    this.model = typeof config.model === 'string' ? config.model : undefined;
   }
 
   /**
    * Start a new agent on a task
    */
   async startAgent(taskId: string, prompt: string, options: AgentOptions): Promise<string> {
-    // Check concurrent limit
-    if (this.activeAgents.size >= this.maxConcurrent) {
-      throw new Error(`Maximum ${this.maxConcurrent} concurrent agents reached`);
-    }
-
     // Create thread
     const threadId = await this.cli.createThread(options.workingDir);
     const projectDir = options.projectDir || process.cwd();
@@ -81,18 +153,94 @@ export class AgentManager {
     } catch {
       // ignore
     }
+    // Persist what is needed to resume this thread after a server restart
+    await saveThreadSession(
+      {
+        threadId,
+        taskId,
+        provider: this.provider,
+        workingDir: options.workingDir,
+        prompt,
+        status: 'running',
+        startedAt: Date.now(),
+        updatedAt: Date.now(),
+      },
+      projectDir
+    ).catch(() => {});
+
+    this.launchAgent(taskId, threadId, prompt, projectDir, options, 'Agent session started');
+    return threadId;
+  }
+
+  /**
+   * Resume an interrupted thread (e.g. after a server restart).
+   * Reuses the same thread ID so logs and the thread index stay continuous;
+   * the adapter restores its native conversation from the resume handle when it has one.
+   */
+  async resumeAgent(
+    taskId: string,
+    threadId: string,
+    prompt: string,
+    options: ResumeAgentOptions
+  ): Promise<string> {
+    if (this.activeAgents.has(threadId)) {
+      throw new Error(`Agent ${threadId} is already running`);
+    }
+    await this.cli.resumeThread(threadId, {
+      workingDir: options.workingDir,
+      resumeHandle: options.resumeHandle,
+    });
+    const projectDir = options.projectDir || process.cwd();
+    await updateThreadSession(
+      threadId,
+      { status: 'running', resumedAt: Date.now() },
+      projectDir
+    ).catch(() => {});
 
+    this.launchAgent(taskId, threadId, prompt, projectDir, options, 'Agent session resumed');
+    return threadId;
+  }
+
+  /**
+   * Register the session and start execution in the background once the scheduler grants
+   * a slot. Until then the session is `queued` and the stream log shows its position.
+   */
+  private launchAgent(
+    taskId: string,
+    threadId: string,
+    prompt: string,
+    projectDir: string,
+    options: AgentOptions,
+    startMessage: string
+  ): void {
     // Initialize session
     const session: AgentSession = {
       taskId,
       threadId,
       projectDir,
-      status: 'running',
+      status: 'queued',
       startedAt: Date.now(),
       logs: [],
+      usage: {
+        model: this.model,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0,
+        toolCalls: 0,
+        durationMs: 0,
+      },
+      usageContext: options.usageContext,
     };
 
     this.activeAgents.set(threadId, session);
+    const slot = agentScheduler.acquire({
+      threadId,
+      taskId,
+      projectDir,
+      provider: this.provider,
+      priority: options.priority ?? 0,
+    });
+    const queuePosition = agentScheduler.getQueuePosition(threadId);
     // Best-effort: create/append an initial log entry so `/api/agents/stream` can attach quickly
     appendAgentStreamLog(
       taskId,
@@ -100,30 +248,57 @@ export class AgentManager {
       {
         timestamp: Date.now(),
         type: 'system',
-        content: { message: 'Agent session started' },
+        content: {
+          message: queuePosition
+            ? `Queued (#${queuePosition}): waiting for an agent slot`
+            : startMessage,
+        },
       },
       projectDir
     ).catch(() => {});
 
-    // Start execution in background (don't await)
-    this.executeAgent(threadId, prompt, options.context, options.onComplete).catch((error) => {
-      session.status = 'error';
-      session.error = error instanceof Error ? error.message : 'Unknown error';
-      session.completedAt = Date.now();
+    slot.then(
+      (release) => {
+        this.releases.set(threadId, release);
+        session.status = 'running';
+        session.startedAt = Date.now();
+        if (queuePosition) {
+          appendAgentStreamLog(
+            taskId,
+            threadId,
+            { timestamp: Date.now(), type: 'system', content: { message: startMessage } },
+            projectDir
+          ).catch(() => {});
+        }
 
-      // Call completion callback with error
-      if (options.onComplete) {
-        Promise.resolve(
-          options.onComplete({
-            success: false,
-            output: '',
-            error: error instanceof Error ? error.message : 'Unknown error',
+        // Start execution in background (don't await)
+        this.executeAgent(threadId, prompt, options)
+          .catch((error) => {
+            session.status = 'error';
+            session.error = error instanceof Error ? error.message : 'Unknown error';
+            session.completedAt = Date.now();
+
+            // Call completion callback with error
+            if (options.onComplete) {
+              Promise.resolve(
+                options.onComplete({
+                  success: false,
+                  output: '',
+                  error: error instanceof Error ? error.message : 'Unknown error',
+                })
+              ).catch(console.error);
+            }
           })
-        ).catch(console.error);
+          // Never leak the slot, even if the adapter ended without a final message
+          .finally(() => {
+            release();
+            if (this.releases.get(threadId) === release) this.releases.delete(threadId);
+          });
+      },
+      () => {
+        // Stopped while queued: stopAgent already recorded the outcome
       }
-    });
-
-    return threadId;
+    );
   }
 
   /**
@@ -135,13 +310,18 @@ export class AgentManager {
       throw new Error(`Agent ${threadId} not found`);
     }
 
-    await this.cli.stopThread(threadId);
+    const wasQueued = session.status === 'queued';
+    if (wasQueued) {
+      agentScheduler.cancel(threadId);
+    } else {
+      await this.cli.stopThread(threadId);
+    }
 
     session.status = 'stopped';
     session.completedAt = Date.now();
 
     // Remove from active agents to free up slot
-    this.activeAgents.delete(threadId);
+    this.freeSlot(threadId);
     appendAgentStreamLog(
       session.taskId,
       threadId,
@@ -151,6 +331,8 @@ export class AgentManager {
       },
       session.projectDir
     ).catch(() => {});
+    this.recordSessionStatus(session, 'stopped');
+    if (!wasQueued) this.recordUsage(session).catch(() => {});
   }
 
   /**
@@ -180,20 +362,64 @@ export class AgentManager {
   private async executeAgent(
     threadId: string,
     prompt: string,
-    context?: ContextData,
-    onComplete?: (result: AgentResult) => void | Promise<void>
+    options: AgentOptions
   ): Promise<void> {
     const session = this.activeAgents.get(threadId);
     if (!session) return;
 
+    const { context, onComplete, budget, permissions } = options;
     let output = '';
+    let persistedHandle: string | undefined;
+    const startedToolCalls = new Set<string>();
+
+    // Budget check on every message, plus a timer for wall time while the agent is quiet
+    const budgetState: { reason: string | null; stopped: boolean } = {
+      reason: null,
+      stopped: false,
+    };
+    const checkBudget = () => {
+      if (budget && !budgetState.reason) {
+        budgetState.reason = checkRunBudget(budget, {
+          ...session.usage,
+          durationMs: Date.now() - session.startedAt,
+        });
+      }
+      return budgetState.reason;
+    };
+    if (budget) this.runBudgets.set(session, budget);
+    const budgetTimer = budget
+      ? setInterval(() => {
+          if (checkBudget() && !budgetState.stopped) {
+            budgetState.stopped = true;
+            this.cli.stopThread(threadId).catch(() => {});
+          }
+        }, BUDGET_CHECK_INTERVAL_MS)
+      : null;
 
     try {
+      // A task already over budget is not started at all
+      const initialReason = checkBudget();
+      if (initialReason) {
+        await this.haltForBudget(session, initialReason, output, onComplete);
+        return;
+      }
+
+      if (permissions && permissions.length > 0) {
+        this.audits.set(session, {
+          rules: permissions,
+          workingDir: options.workingDir,
+          before: await snapshotWorktree(options.workingDir),
+          violations: [],
+          pathsChecked: false,
+        });
+      }
+
       // Execute with CLI adapter
       for await (const message of this.cli.execute({
         prompt,
         threadId,
         context,
+        permissions,
       })) {
         // Store log
         const log = {
@@ -205,6 +431,30 @@ export class AgentManager {
         // Persist for SSE streaming (best-effort)
         appendAgentStreamLog(session.taskId, threadId, log, session.projectDir).catch(() => {});
 
+        // Persist the adapter-native resume handle as soon as the adapter reports one
+        const resumeHandle = this.cli.getResumeHandle?.(threadId);
+        if (resumeHandle && resumeHandle !== persistedHandle) {
+          persistedHandle = resumeHandle;
+          updateThreadSession(threadId, { resumeHandle }, session.projectDir).catch(() => {});
+        }
+
+        this.accumulateUsage(session, message, startedToolCalls);
+        // stopAgent already recorded the outcome; the adapter's closing messages (e.g. an
+        // error "Stopped by user") must not complete or fail the run
+        if (session.status === 'stopped') break;
+        if (message.type === 'tool' && message.data && typeof message.data === 'object') {
+          await this.auditToolMessage(session, message.data as Record<string, unknown>);
+        }
+        // Final messages end the run normally (their usage counts against the next run),
+        // unless they are the fallout of the budget timer stopping the process
+        const isFinal = message.type === 'result' || message.type === 'error';
+        const budgetReason =
+          session.status === 'running' && (!isFinal || budgetState.stopped) ? checkBudget() : null;
+        if (budgetReason) {
+          await this.haltForBudget(session, budgetReason, output, onComplete);
+          break;
+        }
+
         // Collect output from assistant messages
         if (message.type === 'assistant' && message.data && typeof message.data === 'object') {
           const data = message.data as Record<string, unknown>;
@@ -228,7 +478,8 @@ export class AgentManager {
           session.completedAt = Date.now();
 
           // Remove from active agents to free up slot
-          this.activeAgents.delete(threadId);
+          this.freeSlot(threadId);
+          await this.auditChangedPaths(session);
           appendAgentStreamLog(
             session.taskId,
             threadId,
@@ -238,6 +489,8 @@ export class AgentManager {
             },
             session.projectDir
           ).catch(() => {});
+          this.recordSessionStatus(session, 'completed');
+          await this.recordUsage(session).catch(() => {});
 
           // Call completion callback
           if (onComplete) {
@@ -245,6 +498,8 @@ export class AgentManager {
               success: true,
               output: output.trim(),
               error: undefined,
+              usage: session.usage,
+              violations: this.audits.get(session)?.violations,
             });
           }
           break;
@@ -257,7 +512,8 @@ export class AgentManager {
           session.completedAt = Date.now();
 
           // Remove from active agents to free up slot
-          this.activeAgents.delete(threadId);
+          this.freeSlot(threadId);
+          await this.auditChangedPaths(session);
           appendAgentStreamLog(
             session.taskId,
             threadId,
@@ -268,6 +524,8 @@ export class AgentManager {
             },
             session.projectDir
           ).catch(() => {});
+          this.recordSessionStatus(session, 'error');
+          await this.recordUsage(session).catch(() => {});
 
           // Call completion callback with error
           if (onComplete) {
@@ -275,18 +533,33 @@ export class AgentManager {
               success: false,
               output: output.trim(),
               error: JSON.stringify(message.data),
+              usage: session.usage,
+              violations: this.audits.get(session)?.violations,
             });
           }
           break;
         }
       }
+
+      // The budget timer stopped the process and the adapter ended without a final message
+      const stoppedReason = session.status === 'running' ? checkBudget() : null;
+      if (stoppedReason) {
+        await this.haltForBudget(session, stoppedReason, output, onComplete);
+      }
     } catch (error) {
+      if (session.status === 'stopped') return;
+      const stoppedReason = session.status === 'running' ? checkBudget() : null;
+      if (stoppedReason) {
+        await this.haltForBudget(session, stoppedReason, output, onComplete);
+        return;
+      }
       session.status = 'error';
       session.error = error instanceof Error ? error.message : 'Unknown error';
       session.completedAt = Date.now();
 
       // Remove from active agents to free up slot
-      this.activeAgents.delete(threadId);
+      this.freeSlot(threadId);
+      await this.auditChangedPaths(session);
       appendAgentStreamLog(
         session.taskId,
         threadId,
@@ -297,6 +570,8 @@ export class AgentManager {
         },
         session.projectDir
       ).catch(() => {});
+      this.recordSessionStatus(session, 'error');
+      await this.recordUsage(session).catch(() => {});
 
       // Call completion callback with error
       if (onComplete) {
@@ -304,11 +579,208 @@ export class AgentManager {
           success: false,
           output: output.trim(),
           error: error instanceof Error ? error.message : 'Unknown error',
+          usage: session.usage,
+          violations: this.audits.get(session)?.violations,
         });
       }
+    } finally {
+      if (budgetTimer) clearInterval(budgetTimer);
+      this.endRunBudget(session);
     }
   }
 
+  /**
+   * Return the run's scheduler slot so queued runs can start (idempotent)
+   */
+  private releaseSlot(threadId: string): void {
+    this.releases.get(threadId)?.();
+    this.releases.delete(threadId);
+  }
+
+  private freeSlot(threadId: string): void {
+    this.activeAgents.delete(threadId);
+    this.releaseSlot(threadId);
+  }
+
+  /**
+   * Best-effort update of the persisted thread session status
+   */
+  private recordSessionStatus(session: AgentSession, status: ThreadSessionStatus): void {
+    updateThreadSession(session.threadId, { status }, session.projectDir).catch(() => {});
+  }
+
+  /**
+   * Stop a run that exceeded its budget and block the task with the reason
+   */
+  private async haltForBudget(
+    session: AgentSession,
+    reason: string,
+    output: string,
+    onComplete?: (result: AgentResult) => void | Promise<void>
+  ): Promise<void> {
+    const threadId = session.threadId;
+    await this.cli.stopThread(threadId).catch(() => {});
+
+    session.status = 'stopped';
+    session.error = reason;
+    session.completedAt = Date.now();
+    this.freeSlot(threadId);
+    await this.auditChangedPaths(session);
+    appendAgentStreamLog(
+      session.taskId,
+      threadId,
+      { type: 'status', status: 'stopped', error: reason },
+      session.projectDir
+    ).catch(() => {});
+    this.recordSessionStatus(session, 'stopped');
+    await this.recordUsage(session).catch(() => {});
+    await markTaskBudgetExceeded(session.taskId, reason, session.projectDir).catch(console.error);
+
+    if (onComplete) {
+      await onComplete({
+        success: false,
+        output: output.trim(),
+        error: reason,
+        usage: session.usage,
+        violations: this.audits.get(session)?.violations,
+      });
+    }
+  }
+
+  /**
+   * Check a tool event against the permission rules and report violations
+   */
+  private async auditToolMessage(
+    session: AgentSession,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const audit = this.audits.get(session);
+    if (!audit) return;
+    const violations = findToolViolations(audit.rules, data);
+    if (violations.length > 0) await this.reportViolations(session, audit, violations);
+  }
+
+  /**
+   * Diff the worktree against the snapshot taken at start and report changed paths the
+   * policy does not allow. Runs once, before the final status line is written.
+   */
+  private async auditChangedPaths(session: AgentSession): Promise<void> {
+    const audit = this.audits.get(session);
+    if (!audit || !audit.before || audit.pathsChecked) return;
+    audit.pathsChecked = true;
+
+    const changed = await getChangedPaths(audit.before, audit.workingDir).catch(() => []);
+    const violations = changed
+      .map((filePath) => findViolation(audit.rules, 'path', filePath))
+      .filter((violation): violation is PermissionViolation => violation !== null);
+    if (violations.length > 0) await this.reportViolations(session, audit, violations);
+  }
+
+  /**
+   * Emit permission violations as `validation` messages in the thread's stream
+   */
+  private async reportViolations(
+    session: AgentSession,
+    audit: PermissionAudit,
+    violations: PermissionViolation[]
+  ): Promise<void> {
+    audit.violations.push(...violations);
+    const log = {
+      timestamp: Date.now(),
+      type: 'validation',
+      content: {
+        success: false,
+        source: 'permissions',
+        message: `Permission policy violated: ${violations.map((v) => v.message).join('; ')}`,
+        violations,
+      },
+    };
+    session.logs.push(log);
+    await appendAgentStreamLog(session.taskId, session.threadId, log, session.projectDir).catch(
+      () => {}
+    );
+  }
+
+  /**
+   * Add a stream message's usage report and tool call to the session totals.
+   * Adapters that emit both a started and a completed event per call share a call ID,
+   * so completions of an already-counted call are skipped.
+   */
+  private accumulateUsage(
+    session: AgentSession,
+    message: StreamMessage,
+    startedToolCalls: Set<string>
+  ): void {
+    const usage = session.usage;
+    if (message.usage) {
+      usage.inputTokens += message.usage.inputTokens ?? 0;
+      usage.outputTokens += message.usage.outputTokens ?? 0;
+      usage.costUsd += message.usage.costUsd ?? 0;
+      if (message.usage.model) usage.model = message.usage.model;
+    }
+
+    if (message.type === 'tool' && message.data && typeof message.data === 'object') {
+      const data = message.data as Record<string, unknown>;
+      const callId = data.call_id ?? data.id;
+      const key = typeof callId === 'string' ? callId : undefined;
+      const isCompletion = data.status === 'completed' || data.status === 'failed';
+      if (isCompletion && key && startedToolCalls.has(key)) return;
+      if (key) startedToolCalls.add(key);
+      usage.toolCalls += 1;
+    }
+  }
+
+  /**
+   * Persist the run's usage once (wall time from start to now)
+   */
+  private async recordUsage(session: AgentSession): Promise<void> {
+    if (this.recordedRuns.has(session)) return;
+    this.recordedRuns.add(session);
+
+    const completedAt = session.completedAt ?? Date.now();
+    session.usage.durationMs = completedAt - session.startedAt;
+    if (!session.usageContext || session.status === 'running' || session.status === 'queued') {
+      return;
+    }
+
+    await recordAgentRun(
+      {
+        taskId: session.taskId,
+        threadId: session.threadId,
+        phase: session.usageContext.phase,
+        subtaskId: session.usageContext.subtaskId,
+        provider: this.provider,
+        mode: this.mode,
+        model: session.usage.model,
+        status: session.status,
+        startedAt: session.startedAt,
+        completedAt,
+        inputTokens: session.usage.inputTokens,
+        outputTokens: session.usage.outputTokens,
+        costUsd: session.usage.costUsd,
+        durationMs: session.usage.durationMs,
+        toolCalls: session.usage.toolCalls,
+      },
+      session.projectDir
+    );
+    // Persisted now: later budgets read it from the usage log
+    this.endRunBudget(session);
+  }
+
+  /**
+   * Stop counting the run as running in its budget scopes (idempotent)
+   */
+  private endRunBudget(session: AgentSession): void {
+    const budget = this.runBudgets.get(session);
+    if (!budget) return;
+    endRunBudget(budget, {
+      inputTokens: session.usage.inputTokens,
+      outputTokens: session.usage.outputTokens,
+      costUsd: session.usage.costUsd,
+      durationMs: (session.completedAt ?? Date.now()) - session.startedAt,
+    });
+  }
+
   /**
    * Get CLI capabilities
    */
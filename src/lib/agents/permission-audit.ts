@@ -0,0 +1,132 @@
+/**
+ * Permission audit (local dev)
+ *
+ * Not every adapter can enforce the permission policy natively, so the agent manager checks
+ * it after the fact: tool and command events are checked as they stream in, and the files an
+ * agent changed are found by diffing the worktree before and after the run.
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import type { PermissionKind, PermissionRule } from '@/lib/cli/base';
+import { checkPermission, describeDenial } from '@/lib/cli/permissions';
+
+const execFileAsync = promisify(execFile);
+
+/** Paths the app itself writes inside worktrees (including Cursor's generated permissions) */
+const IGNORED_PATHS = [/^\.code-automata\//, /^\.cursor\/cli\.json$/];
+
+export interface PermissionViolation {
+  kind: PermissionKind;
+  value: string;
+  rule?: PermissionRule;
+  message: string;
+}
+
+export interface WorktreeSnapshot {
+  head: string | null;
+  /** Dirty/untracked path → status + size + mtime */
+  files: Map<string, string>;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+  return stdout;
+}
+
+/**
+ * Record HEAD and the state of every dirty or untracked file. Returns null outside a git repo.
+ */
+export async function snapshotWorktree(cwd: string): Promise<WorktreeSnapshot | null> {
+  try {
+    const head = await git(cwd, ['rev-parse', 'HEAD'])
+      .then((out) => out.trim())
+      .catch(() => null);
+    const status = await git(cwd, ['status', '--porcelain=v1', '-z', '--untracked-files=all']);
+
+    const files = new Map<string, string>();
+    const entries = status.split('\0');
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (entry.length < 4) continue;
+      const code = entry.slice(0, 2);
+      const filePath = entry.slice(3);
+      // Renames are followed by the original path
+      if (code.startsWith('R') || code.startsWith('C')) i++;
+      const stat = await fs.stat(path.join(cwd, filePath)).catch(() => null);
+      files.set(filePath, `${code}:${stat ? `${stat.size}:${stat.mtimeMs}` : 'missing'}`);
+    }
+    return { head, files };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Paths changed between the snapshot and now (working tree changes and new commits)
+ */
+export async function getChangedPaths(before: WorktreeSnapshot, cwd: string): Promise<string[]> {
+  const after = await snapshotWorktree(cwd);
+  if (!after) return [];
+
+  const changed = new Set<string>();
+  for (const [filePath, state] of after.files) {
+    if (before.files.get(filePath) !== state) changed.add(filePath);
+  }
+  for (const filePath of before.files.keys()) {
+    if (!after.files.has(filePath)) changed.add(filePath);
+  }
+  if (before.head && after.head && before.head !== after.head) {
+    const committed = await git(cwd, ['diff', '--name-only', before.head, after.head]).catch(
+      () => ''
+    );
+    for (const filePath of committed.split('\n')) {
+      if (filePath.trim()) changed.add(filePath.trim());
+    }
+  }
+
+  return [...changed].filter((p) => !IGNORED_PATHS.some((re) => re.test(p))).sort();
+}
+
+/**
+ * Check one value against the rules; returns a violation when it is not permitted
+ */
+export function findViolation(
+  rules: PermissionRule[],
+  kind: PermissionKind,
+  value: string
+): PermissionViolation | null {
+  const decision = checkPermission(rules, kind, value);
+  if (decision.allowed) return null;
+  return { kind, value, rule: decision.rule, message: describeDenial(kind, value, decision) };
+}
+
+/**
+ * Tool and command violations in a `tool` stream message
+ */
+export function findToolViolations(
+  rules: PermissionRule[],
+  data: Record<string, unknown>
+): PermissionViolation[] {
+  const violations: PermissionViolation[] = [];
+  // Completion events repeat the started event
+  if (data.status === 'completed' && (data.call_id || data.id)) return violations;
+
+  if (typeof data.tool === 'string') {
+    const violation = findViolation(rules, 'tool', data.tool);
+    if (violation) violations.push(violation);
+  }
+
+  const input =
+    data.input && typeof data.input === 'object' ? (data.input as Record<string, unknown>) : {};
+  const command = [data.command, input.command, input.cmd].find(
+    (value): value is string => typeof value === 'string' && value.trim() !== ''
+  );
+  if (command) {
+    const violation = findViolation(rules, 'command', command);
+    if (violation) violations.push(violation);
+  }
+  return violations;
+}
@@ -0,0 +1,109 @@
+/**
+ * Project permission policy (local dev)
+ *
+ * Per-phase allow/deny lists for tools, shell commands and worktree paths, loaded from
+ * `.code-automata/permissions.json`. A phase defined in the file replaces the default for
+ * that phase. The policy is compiled to `PermissionRule[]`, which adapters translate to their
+ * native mechanism and the agent manager audits after the fact.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { PermissionKind, PermissionRule } from '@/lib/cli/base';
+import type { Task } from '@/lib/tasks/schema';
+
+export type PermissionPhase = 'planning' | 'dev' | 'qa' | 'fix';
+
+export const PERMISSION_PHASES: PermissionPhase[] = ['planning', 'dev', 'qa', 'fix'];
+
+export interface PermissionList {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface PhasePermissionPolicy {
+  tools?: PermissionList; // Tool names as the adapter reports them (e.g. edit_file, Bash)
+  commands?: PermissionList; // Shell commands, e.g. "git push*"
+  paths?: PermissionList; // Worktree-relative globs the agent may change, e.g. "src/**"
+}
+
+export type PermissionPolicy = Record<PermissionPhase, PhasePermissionPolicy>;
+
+export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = {
+  planning: { paths: { deny: ['**'] } }, // Read-only
+  dev: { commands: { deny: ['git push*'] } },
+  qa: { commands: { deny: ['git push*'] } },
+  fix: { commands: { deny: ['git push*'] } },
+};
+
+function getPolicyPath(projectDir: string): string {
+  return path.join(projectDir, '.code-automata', 'permissions.json');
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+}
+
+function parseList(value: unknown): PermissionList | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const list = value as Record<string, unknown>;
+  return { allow: toStringList(list.allow), deny: toStringList(list.deny) };
+}
+
+export async function loadPermissionPolicy(projectDir: string): Promise<PermissionPolicy> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getPolicyPath(projectDir), 'utf-8');
+  } catch {
+    return DEFAULT_PERMISSION_POLICY;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const policy = { ...DEFAULT_PERMISSION_POLICY };
+    for (const phase of PERMISSION_PHASES) {
+      const entry = parsed[phase];
+      if (!entry || typeof entry !== 'object') continue;
+      const phasePolicy = entry as Record<string, unknown>;
+      policy[phase] = {
+        tools: parseList(phasePolicy.tools),
+        commands: parseList(phasePolicy.commands),
+        paths: parseList(phasePolicy.paths),
+      };
+    }
+    return policy;
+  } catch (error) {
+    console.warn('[permissions] Ignoring invalid permissions.json:', error);
+    return DEFAULT_PERMISSION_POLICY;
+  }
+}
+
+export function toPermissionRules(policy: PhasePermissionPolicy): PermissionRule[] {
+  const rules: PermissionRule[] = [];
+  const add = (kind: PermissionKind, list: PermissionList | undefined) => {
+    for (const action of list?.deny ?? []) rules.push({ kind, action, allowed: false });
+    for (const action of list?.allow ?? []) rules.push({ kind, action, allowed: true });
+  };
+  add('tool', policy.tools);
+  add('command', policy.commands);
+  add('path', policy.paths);
+  return rules;
+}
+
+/**
+ * Policy phase for an agent started on the task in its current workflow phase
+ */
+export function getPermissionPhase(task: Task): PermissionPhase {
+  if (task.phase === 'planning') return 'planning';
+  if (task.phase === 'ai_review') return 'qa';
+  return 'dev';
+}
+
+export async function loadPermissionRules(
+  projectDir: string,
+  phase: PermissionPhase
+): Promise<PermissionRule[]> {
+  const policy = await loadPermissionPolicy(projectDir);
+  return toPermissionRules(policy[phase]);
+}
@@ -8,6 +8,7 @@ import { startAgentForTask } from '@/lib/agents/registry';
 import { cleanPlanningArtifactsFromWorktree } from '@/lib/worktree/cleanup';
 import { getPlanGenerationPrompt } from '@/lib/prompts/loader';
 import { extractAndValidateJSON } from '@/lib/validation/subtask-validator';
+import { harvestFixRetry } from '@/lib/memory/harvest';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -117,6 +118,9 @@ export async function startPlanGeneration(params: StartPlanGenerationParams): Pr
           }
         }
 
+        // Remember the format problem so later planning runs are warned about it
+        await harvestFixRetry(task, 'plan generation', errMsg, projectDir).catch(() => {});
+
         // Retry: run fix agent
         if (parseAttempt < MAX_PARSE_RETRIES) {
           await fs.appendFile(
@@ -157,6 +161,7 @@ Rules:
             prompt: fixPrompt,
             workingDir: currentTask.worktreePath || projectDir,
             projectDir,
+            permissionPhase: 'fix',
             onComplete: createOnComplete(parseAttempt + 1),
           });
 
@@ -0,0 +1,134 @@
+/**
+ * QA fix loop
+ *
+ * When QA subtasks report a "fail" verdict or the project's verification commands fail
+ * (see verification.ts), a fix round adds one dev subtask per failed QA subtask (built from
+ * its findings and failing commands), plus one for the failed verification commands, and
+ * sends the task back to development. Once the fixes complete, the task returns to AI Review,
+ * where only the failed QA subtasks run again. After getMaxQAFixRounds() rounds that still
+ * fail, the task is blocked.
+ * Every round is recorded in `task.qaFixRounds` for the human reviewer.
+ */
+
+import type { QAFixRound, Subtask, Task, VerificationResult } from '@/lib/tasks/schema';
+
+export const DEFAULT_MAX_QA_FIX_ROUNDS = 2;
+
+/**
+ * Fix rounds per task before giving up (CODE_AUTOMATA_MAX_QA_FIX_ROUNDS, 0 disables the loop)
+ */
+export function getMaxQAFixRounds(): number {
+  const raw = process.env.CODE_AUTOMATA_MAX_QA_FIX_ROUNDS;
+  const configured = Number(raw ?? '');
+  return raw && Number.isInteger(configured) && configured >= 0
+    ? configured
+    : DEFAULT_MAX_QA_FIX_ROUNDS;
+}
+
+/**
+ * QA subtasks whose latest run reported a failure (they are back to pending)
+ */
+export function getFailedQASubtasks(task: Task): Subtask[] {
+  return task.subtasks.filter(
+    (s) => s.type === 'qa' && s.status === 'pending' && s.verdict?.verdict === 'fail'
+  );
+}
+
+/**
+ * Close the running fix round, if any
+ */
+export function completeQAFixRound(task: Task, outcome: 'passed' | 'failed'): void {
+  const rounds = task.qaFixRounds ?? [];
+  const current = rounds[rounds.length - 1];
+  if (current?.outcome === 'fixing') {
+    current.outcome = outcome;
+    current.completedAt = Date.now();
+  }
+}
+
+function buildFixSubtaskContent(qa: Subtask): string {
+  const findings = qa.verdict?.findings ?? [];
+  const commands = qa.verdict?.failingCommands ?? [];
+  return [
+    `QA check "${qa.label}" failed. Fix the implementation so it passes.`,
+    `QA check details: ${qa.content}`,
+    findings.length > 0 ? `Findings:\n${findings.map((f) => `- ${f}`).join('\n')}` : '',
+    commands.length > 0
+      ? `Failing commands (make them pass):\n${commands.map((c) => `- ${c}`).join('\n')}`
+      : '',
+    'Only change what is needed to address these findings.',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function buildVerificationFixContent(failed: VerificationResult[]): string {
+  return [
+    'These verification commands failed in the worktree. Fix the code so they pass (do not change the commands or their configuration).',
+    ...failed.map(
+      (r) =>
+        `$ ${r.command}\n${r.timedOut ? 'Timed out.' : `Exit code ${r.exitCode}, expected ${r.expectedExitCode}.`}\nLast output:\n${r.outputTail}`
+    ),
+  ].join('\n\n');
+}
+
+/**
+ * Start the next fix round for the task's failed QA subtasks and verification commands:
+ * records the round and inserts the fix dev subtasks after the existing dev subtasks. Returns
+ * the new subtasks, or null when no rounds are left (the last round is then marked failed).
+ */
+export function startQAFixRound(
+  task: Task,
+  maxRounds: number,
+  failedVerification: VerificationResult[] = []
+): Subtask[] | null {
+  const failed = getFailedQASubtasks(task);
+  completeQAFixRound(task, 'failed');
+
+  const rounds = task.qaFixRounds ?? [];
+  if ((failed.length === 0 && failedVerification.length === 0) || rounds.length >= maxRounds) {
+    return null;
+  }
+
+  const round = rounds.length + 1;
+  const fixSubtasks: Subtask[] = failed.map((qa) => ({
+    id: `fix-${round}-${qa.id}`,
+    content: buildFixSubtaskContent(qa),
+    label: `Fix: ${qa.label}`,
+    status: 'pending',
+    type: 'dev',
+    activeForm: `Fixing ${qa.label}`,
+    fixRound: round,
+  }));
+  if (failedVerification.length > 0) {
+    fixSubtasks.push({
+      id: `fix-${round}-verification`,
+      content: buildVerificationFixContent(failedVerification),
+      label: `Fix: ${failedVerification.map((r) => r.name).join(', ')}`,
+      status: 'pending',
+      type: 'dev',
+      activeForm: 'Fixing verification failures',
+      fixRound: round,
+    });
+  }
+
+  const entry: QAFixRound = {
+    round,
+    startedAt: Date.now(),
+    failed: failed.map((qa) => ({
+      subtaskId: qa.id,
+      label: qa.label,
+      findings: qa.verdict?.findings ?? [],
+      failingCommands: qa.verdict?.failingCommands ?? [],
+    })),
+    verification: failedVerification.length > 0 ? failedVerification : undefined,
+    fixSubtaskIds: fixSubtasks.map((s) => s.id),
+    outcome: 'fixing',
+  };
+  task.qaFixRounds = [...rounds, entry];
+
+  const firstQA = task.subtasks.findIndex((s) => s.type === 'qa');
+  const insertAt = firstQA === -1 ? task.subtasks.length : firstQA;
+  task.subtasks.splice(insertAt, 0, ...fixSubtasks);
+  return fixSubtasks;
+}
@@ -4,11 +4,13 @@
  * Builds prompts for QA subtask execution. Manual QA subtasks (label/content
  * contains "manual") get constrained instructions: exactly 1 .md file in
  * manual-qa-required/ folder, concise documentation for human verification.
+ * Other QA subtasks must end with a JSON verdict (see validation/qa-verdict-validator.ts)
+ * that drives the automatic fix loop.
  */
 
 import type { Subtask } from '@/lib/tasks/schema';
 
-const MANUAL_QA_FOLDER = 'manual-qa-required';
+export const MANUAL_QA_FOLDER = 'manual-qa-required';
 
 /**
  * Detect if a QA subtask requires manual human verification.
@@ -49,5 +51,12 @@ Verify and document what a human should check. Be brief.`;
 **QA Subtask:** ${subtask.label}
 **Details:** ${subtask.content}
 
-Please verify and test this thoroughly following best practices.`;
+Please verify and test this thoroughly following best practices.
+
+End your response with your verdict as a JSON object:
+{
+  "verdict": "pass" or "fail",
+  "findings": ["What is wrong (for fail: concrete, actionable, with file paths) or what you verified"],
+  "failingCommands": ["Commands that failed, e.g. npm test -- auth (empty if none)"]
+}`;
 }
@@ -0,0 +1,118 @@
+/**
+ * Crash recovery (local dev)
+ *
+ * Agent managers live in memory, so after a crash or restart tasks keep a stale
+ * `assignedAgent` and `in_progress` subtasks that nothing will ever advance.
+ * The reconciler runs once per project per server process (before the first task listing),
+ * compares tasks against live sessions in the agent registry, and marks orphans as
+ * interrupted so the UI can offer "continue from subtask N".
+ */
+
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import type { Subtask, Task, WorkflowPhase } from '@/lib/tasks/schema';
+import { getAgentSessionByThreadId } from '@/lib/agents/registry';
+import { getThreadSession, updateThreadSession } from '@/lib/agents/thread-sessions';
+
+const PROCESS_STARTED_AT = Date.now() - Math.round(process.uptime() * 1000);
+
+const ACTIVE_PHASES: WorkflowPhase[] = ['planning', 'in_progress', 'ai_review'];
+
+const reconciledProjects = new Map<string, Promise<Task[]>>();
+
+/**
+ * The subtask the agent was working on: the phase's first in_progress subtask, otherwise its
+ * first unfinished one (reset to pending when the agent errored). Dev subtasks may run in
+ * parallel; the others that were in progress restart on fresh threads when the phase continues.
+ */
+export function getFirstUnfinishedSubtask(task: Task): Subtask | undefined {
+  const type = task.phase === 'ai_review' ? 'qa' : task.phase === 'in_progress' ? 'dev' : null;
+  if (!type) return undefined;
+  const phaseSubtasks = task.subtasks.filter((s) => s.type === type);
+  return (
+    phaseSubtasks.find((s) => s.status === 'in_progress') ??
+    phaseSubtasks.find((s) => s.status !== 'completed')
+  );
+}
+
+/**
+ * A thread is orphaned when it is not live in this process and was not started by it.
+ * Threads started after boot are skipped: with isolated route module state (dev/HMR) they
+ * can be running without being visible in this copy of the registry.
+ */
+async function isThreadOrphaned(threadId: string, projectDir: string): Promise<boolean> {
+  if (getAgentSessionByThreadId(threadId)) return false;
+
+  const record = await getThreadSession(threadId, projectDir);
+  if (!record) return true; // Started before sessions were persisted
+  return (record.resumedAt ?? record.startedAt) < PROCESS_STARTED_AT;
+}
+
+/**
+ * Mark every task whose agent is gone as interrupted (blocked, with a reason).
+ * Returns the tasks that were marked.
+ */
+export async function reconcileOrphanedTasks(projectDir: string): Promise<Task[]> {
+  const taskPersistence = getTaskPersistence(projectDir);
+  const tasks = await taskPersistence.listTasks();
+  const interrupted: Task[] = [];
+
+  for (const task of tasks) {
+    if (!ACTIVE_PHASES.includes(task.phase)) continue;
+    if (task.status === 'blocked' || task.status === 'completed') continue;
+
+    const threadId = task.assignedAgent;
+    const hasRunningSubtask = task.subtasks.some((s) => s.status === 'in_progress');
+    if (!threadId && !hasRunningSubtask) continue;
+    if (threadId && !(await isThreadOrphaned(threadId, projectDir))) continue;
+
+    const subtask = getFirstUnfinishedSubtask(task);
+    task.interruption = {
+      reason: threadId
+        ? 'The server stopped while the agent was running'
+        : 'A subtask was left in progress with no agent attached',
+      interruptedAt: Date.now(),
+      phase: task.phase,
+      threadId,
+      subtaskId: subtask?.id,
+    };
+    task.subtasks = task.subtasks.map((s) =>
+      s.status === 'in_progress' ? { ...s, status: 'pending' as const } : s
+    );
+    task.status = 'blocked';
+    task.assignedAgent = undefined;
+    await taskPersistence.saveTask(task);
+
+    if (threadId) {
+      await updateThreadSession(threadId, { status: 'interrupted' }, projectDir).catch(() => {});
+    }
+    interrupted.push(task);
+  }
+
+  return interrupted;
+}
+
+/**
+ * Run the reconciler once per project for this server process
+ */
+export function ensureTasksReconciled(projectDir: string): Promise<Task[]> {
+  let pending = reconciledProjects.get(projectDir);
+  if (!pending) {
+    pending = reconcileOrphanedTasks(projectDir)
+      .then((interrupted) => {
+        if (interrupted.length > 0) {
+          console.log(
+            `[recovery] Marked ${interrupted.length} orphaned task(s) as interrupted:`,
+            interrupted.map((t) => t.id).join(', ')
+          );
+        }
+        return interrupted;
+      })
+      .catch((error) => {
+        // Allow a retry on the next listing
+        reconciledProjects.delete(projectDir);
+        throw error;
+      });
+    reconciledProjects.set(projectDir, pending);
+  }
+  return pending;
+}
@@ -4,16 +4,28 @@
  * Code-Automata-style alignment:
  * - Provider selection is per-task, not env-driven singleton
  * - Thread → manager lookup enables /stream + /stop to work with multiple providers
+ * - Runs of all managers share one scheduler queue (priority by phase, per-provider limits)
  *
  * Notes:
  * - This is intentionally in-memory (works for local dev / long-lived Next server).
  * - For production/serverless, this would need persistence or a dedicated worker process.
  */
 
-import { AgentManager } from '@/lib/agents/manager';
+import path from 'path';
+import { AgentManager, AgentUsage } from '@/lib/agents/manager';
 import { CLIFactory, CLIProvider } from '@/lib/cli/factory';
-import type { Task } from '@/lib/tasks/schema';
+import type { Task, WorkflowPhase } from '@/lib/tasks/schema';
 import { ampPreflight } from '@/lib/amp/preflight';
+import { loadRuntimeAdapters } from '@/lib/cli/plugins';
+import { loadRunBudget } from '@/lib/agents/budget';
+import {
+  getPermissionPhase,
+  loadPermissionRules,
+  PermissionPhase,
+} from '@/lib/agents/permission-policy';
+import { retrieveMemoryContext } from '@/lib/memory/retrieval';
+import { summarizeLogContent } from '@/lib/agents/agent-history';
+import { agentScheduler, getPhasePriority, loadSchedulerLimits } from '@/lib/agents/scheduler';
 
 type ManagerEntry = {
   taskId: string;
@@ -27,16 +39,42 @@ type ManagerEntry = {
 
 type ThreadEntry = {
   taskId: string;
+  provider: CLIProvider;
   manager: AgentManager;
 };
 
+/**
+ * A running session as shown on the Agents dashboard
+ */
+export interface ActiveAgentSummary {
+  taskId: string;
+  threadId: string;
+  provider: CLIProvider;
+  status: 'queued' | 'running';
+  queuePosition?: number;
+  phase?: WorkflowPhase;
+  subtaskId?: string;
+  startedAt: number;
+  elapsedMs: number;
+  lastMessage?: string;
+  usage: AgentUsage;
+}
+
 const managersByTaskId = new Map<string, ManagerEntry>();
 const threads = new Map<string, ThreadEntry>();
 
+/**
+ * Resolve the task's CLI tool to a registered provider (built-in or runtime).
+ * Tasks without a CLI tool use mock; unknown names are an error rather than a silent fallback.
+ */
 function resolveProvider(task: Task): CLIProvider {
-  const desired = (task.cliTool || 'mock').toLowerCase();
-  if (CLIFactory.isProviderAvailable(desired)) return desired;
-  return 'mock';
+  if (!task.cliTool) return 'mock';
+  const candidates = [task.cliTool, task.cliTool.toLowerCase()];
+  const match = candidates.find((name) => CLIFactory.isProviderAvailable(name));
+  if (match) return match;
+  throw new Error(
+    `Unknown CLI tool "${task.cliTool}". Registered providers: ${CLIFactory.getAvailableProviders().join(', ')}`
+  );
 }
 
 function resolveCwd(task: Task): string {
@@ -85,11 +123,35 @@ async function createAndInitializeManager(task: Task): Promise<ManagerEntry> {
   };
 }
 
+/**
+ * Apply the project's scheduler limits before queueing a run of the task's provider
+ */
+async function configureScheduler(
+  task: Task,
+  manager: AgentManager,
+  projectDir: string
+): Promise<void> {
+  agentScheduler.setProviderDefault(
+    resolveProvider(task),
+    manager.getCapabilities().maxConcurrentAgents
+  );
+  agentScheduler.setLimits(projectDir, await loadSchedulerLimits(projectDir));
+}
+
 /**
  * Get (or create) an initialized manager for a task.
  * If the task's provider/cwd changed, replace the entry.
+ * When projectDir is given, that project's runtime adapters (plugins, command templates)
+ * are registered first so tasks using them resolve to the right provider.
  */
-export async function getAgentManagerForTask(task: Task): Promise<AgentManager> {
+export async function getAgentManagerForTask(
+  task: Task,
+  projectDir?: string
+): Promise<AgentManager> {
+  if (projectDir) {
+    await loadRuntimeAdapters(projectDir);
+  }
+
   const desiredProvider = resolveProvider(task);
   const desiredCwd = resolveCwd(task);
 
@@ -114,19 +176,83 @@ export async function startAgentForTask(args: {
   prompt: string;
   workingDir: string;
   projectDir?: string;
+  subtaskId?: string; // Attributes the run's usage to this subtask
+  permissionPhase?: PermissionPhase; // Defaults to the task's workflow phase
   onComplete?: (result: {
     success: boolean;
     output: string;
     error?: string;
   }) => void | Promise<void>;
 }): Promise<{ threadId: string }> {
-  const mgr = await getAgentManagerForTask(args.task);
+  const mgr = await getAgentManagerForTask(args.task, args.projectDir);
+  await configureScheduler(args.task, mgr, args.projectDir || process.cwd());
   const threadId = await mgr.startAgent(args.task.id, args.prompt, {
     workingDir: args.workingDir,
     projectDir: args.projectDir,
+    context: await retrieveMemoryContext(args.task, args.projectDir || process.cwd(), {
+      subtaskId: args.subtaskId,
+      workingDir: args.workingDir,
+    }),
+    usageContext: { phase: args.task.phase, subtaskId: args.subtaskId },
+    priority: getPhasePriority(args.task.phase),
+    budget: await loadRunBudget(args.task, args.projectDir || process.cwd()),
+    permissions: await loadPermissionRules(
+      args.projectDir || process.cwd(),
+      args.permissionPhase ?? getPermissionPhase(args.task)
+    ),
     onComplete: args.onComplete,
   });
-  threads.set(threadId, { taskId: args.task.id, manager: mgr });
+  threads.set(threadId, {
+    taskId: args.task.id,
+    provider: resolveProvider(args.task),
+    manager: mgr,
+  });
+  return { threadId };
+}
+
+/**
+ * Resume an interrupted thread for a task (same thread ID) and register it so /stream and /stop
+ * can find it again. Used after a server restart dropped the in-memory managers.
+ */
+export async function resumeAgentForTask(args: {
+  task: Task;
+  threadId: string;
+  prompt: string;
+  workingDir: string;
+  projectDir?: string;
+  resumeHandle?: string;
+  subtaskId?: string;
+  permissionPhase?: PermissionPhase;
+  onComplete?: (result: {
+    success: boolean;
+    output: string;
+    error?: string;
+  }) => void | Promise<void>;
+}): Promise<{ threadId: string }> {
+  const mgr = await getAgentManagerForTask(args.task, args.projectDir);
+  await configureScheduler(args.task, mgr, args.projectDir || process.cwd());
+  const threadId = await mgr.resumeAgent(args.task.id, args.threadId, args.prompt, {
+    workingDir: args.workingDir,
+    projectDir: args.projectDir,
+    resumeHandle: args.resumeHandle,
+    context: await retrieveMemoryContext(args.task, args.projectDir || process.cwd(), {
+      subtaskId: args.subtaskId,
+      workingDir: args.workingDir,
+    }),
+    usageContext: { phase: args.task.phase, subtaskId: args.subtaskId },
+    priority: getPhasePriority(args.task.phase),
+    budget: await loadRunBudget(args.task, args.projectDir || process.cwd()),
+    permissions: await loadPermissionRules(
+      args.projectDir || process.cwd(),
+      args.permissionPhase ?? getPermissionPhase(args.task)
+    ),
+    onComplete: args.onComplete,
+  });
+  threads.set(threadId, {
+    taskId: args.task.id,
+    provider: resolveProvider(args.task),
+    manager: mgr,
+  });
   return { threadId };
 }
 
@@ -142,3 +268,59 @@ export async function stopAgentByThreadId(threadId: string): Promise<{ taskId: s
   await entry.manager.stopAgent(threadId);
   return { taskId: entry.taskId };
 }
+
+/**
+ * Stop every running or queued agent of a task (parallel subtasks run one thread each).
+ * Returns the IDs of the stopped threads.
+ */
+export async function stopAgentsForTask(taskId: string): Promise<string[]> {
+  const stopped: string[] = [];
+  for (const session of listActiveAgentSessions()) {
+    if (session.taskId !== taskId) continue;
+    // A thread may finish while its siblings are being stopped
+    if (await stopAgentByThreadId(session.threadId).catch(() => null)) {
+      stopped.push(session.threadId);
+    }
+  }
+  return stopped;
+}
+
+/**
+ * Running sessions across all task managers, optionally limited to one project
+ */
+export function listActiveAgentSessions(projectDir?: string): ActiveAgentSummary[] {
+  const now = Date.now();
+  const sessions: ActiveAgentSummary[] = [];
+  for (const [threadId, entry] of threads) {
+    const session = entry.manager.getAgentStatus(threadId);
+    if (!session || (session.status !== 'running' && session.status !== 'queued')) continue;
+    if (projectDir && path.resolve(session.projectDir) !== path.resolve(projectDir)) continue;
+
+    const lastLog = session.logs[session.logs.length - 1];
+    sessions.push({
+      taskId: session.taskId,
+      threadId,
+      provider: entry.provider,
+      status: session.status,
+      queuePosition: agentScheduler.getQueuePosition(threadId),
+      phase: session.usageContext?.phase,
+      subtaskId: session.usageContext?.subtaskId,
+      startedAt: session.startedAt,
+      elapsedMs: now - session.startedAt,
+      lastMessage: lastLog ? summarizeLogContent(lastLog.content) : undefined,
+      usage: session.usage,
+    });
+  }
+  return sessions.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Queue position of each task with a run waiting for a scheduler slot (its earliest run)
+ */
+export function getTaskQueuePositions(): Map<string, number> {
+  const positions = new Map<string, number>();
+  for (const run of agentScheduler.listQueued()) {
+    if (!positions.has(run.taskId)) positions.set(run.taskId, run.position);
+  }
+  return positions;
+}
@@ -0,0 +1,91 @@
+/**
+ * Thread resume helpers
+ *
+ * Builds the prompt used to continue an interrupted thread. Adapters with a native resume
+ * handle already hold the conversation, so they only get a short "continue" instruction;
+ * adapters without one get a transcript rebuilt from the persisted stream log.
+ */
+
+import fs from 'fs/promises';
+import { getAgentStreamLogPath } from '@/lib/agents/stream-log';
+import type { ThreadSessionRecord } from '@/lib/agents/thread-sessions';
+
+const DEFAULT_TRANSCRIPT_LINES = 40;
+const MAX_TRANSCRIPT_LINE_LENGTH = 500;
+
+/**
+ * Session statuses that can be resumed. A `running` record whose thread is not live in this
+ * process was orphaned by a restart; `stopped` threads were cancelled on purpose.
+ */
+export function isResumableSession(record: ThreadSessionRecord): boolean {
+  return (
+    record.status === 'running' || record.status === 'interrupted' || record.status === 'error'
+  );
+}
+
+function summarizeContent(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (content && typeof content === 'object') {
+    const data = content as Record<string, unknown>;
+    for (const key of ['message', 'output', 'text']) {
+      if (typeof data[key] === 'string') return data[key] as string;
+    }
+    if (typeof data.tool === 'string') {
+      return `${data.tool} ${JSON.stringify(data.input ?? data.path ?? data.command ?? '')}`;
+    }
+  }
+  return JSON.stringify(content);
+}
+
+/**
+ * Read the last assistant/tool lines of a thread's stream log as plain text
+ */
+export async function readThreadTranscript(
+  taskId: string,
+  threadId: string,
+  projectDir: string,
+  maxLines: number = DEFAULT_TRANSCRIPT_LINES
+): Promise<string[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getAgentStreamLogPath(taskId, threadId, projectDir), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const lines: string[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as { type?: string; content?: unknown };
+      if (entry.type !== 'assistant' && entry.type !== 'tool') continue;
+      const text = summarizeContent(entry.content).trim();
+      if (!text) continue;
+      lines.push(
+        `[${entry.type}] ${text.length > MAX_TRANSCRIPT_LINE_LENGTH ? text.slice(0, MAX_TRANSCRIPT_LINE_LENGTH) + '…' : text}`
+      );
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return lines.slice(-maxLines);
+}
+
+/**
+ * Prompt for continuing an interrupted thread
+ */
+export function buildResumePrompt(record: ThreadSessionRecord, transcript: string[] = []): string {
+  const intro = `Your previous session on this task was interrupted before it finished (the server restarted).
+Continue from where you left off. Inspect the current state of the working directory first:
+some of the work may already be done, so do not redo or revert it.`;
+
+  const history =
+    !record.resumeHandle && transcript.length > 0
+      ? `\n\n**What you did before the interruption (most recent last):**\n${transcript.join('\n')}`
+      : '';
+
+  return `${intro}${history}
+
+**Original instructions:**
+${record.prompt}`;
+}
@@ -0,0 +1,111 @@
+/**
+ * Review changes
+ *
+ * "Request changes" in human review: each line comment left on the branch diff becomes a dev
+ * subtask anchored to its file and line, inserted after the existing dev subtasks. QA results
+ * and the last verification run no longer apply to the changed code, so QA runs again once
+ * the new subtasks complete. The comments are kept in `task.reviewComments` (with the subtask
+ * that addressed each) as the review's audit trail.
+ */
+
+import type { ReviewComment, Subtask, Task } from '@/lib/tasks/schema';
+
+export type ReviewCommentInput = Pick<ReviewComment, 'path' | 'line' | 'side' | 'body'> & {
+  lineContent?: string;
+};
+
+/**
+ * Check the comments sent by the client; returns the valid comments and one error per
+ * invalid field
+ */
+export function validateReviewComments(input: unknown): {
+  comments: ReviewCommentInput[];
+  errors: string[];
+} {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { comments: [], errors: ['At least one review comment is required'] };
+  }
+
+  const errors: string[] = [];
+  const comments: ReviewCommentInput[] = [];
+  input.forEach((entry, i) => {
+    const c = (entry ?? {}) as Record<string, unknown>;
+    const at = `Comment ${i + 1}`;
+    if (typeof c.path !== 'string' || !c.path.trim()) errors.push(`${at}: path is required`);
+    if (!Number.isInteger(c.line) || (c.line as number) < 1) {
+      errors.push(`${at}: line must be a positive integer`);
+    }
+    if (c.side !== 'old' && c.side !== 'new') errors.push(`${at}: side must be "old" or "new"`);
+    if (typeof c.body !== 'string' || !c.body.trim()) errors.push(`${at}: body is required`);
+    if (errors.length > 0) return;
+    comments.push({
+      path: c.path as string,
+      line: c.line as number,
+      side: c.side as ReviewComment['side'],
+      body: (c.body as string).trim(),
+      lineContent: typeof c.lineContent === 'string' ? c.lineContent : undefined,
+    });
+  });
+  return { comments: errors.length > 0 ? [] : comments, errors };
+}
+
+function buildReviewSubtaskContent(comment: ReviewCommentInput): string {
+  const location =
+    comment.side === 'new'
+      ? `\`${comment.path}\` line ${comment.line}`
+      : `\`${comment.path}\` near line ${comment.line} of the base version (a line this branch removed)`;
+  return [
+    `A reviewer left this comment on ${location}:`,
+    comment.lineContent !== undefined ? `Commented line:\n> ${comment.lineContent}` : '',
+    `Comment:\n${comment.body}`,
+    'Update the code to address the comment. Only change what is needed for it.',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Record the comments as a new review round and add one dev subtask per comment. Resets QA
+ * subtasks and verification; the caller moves the task back to development. Returns the new
+ * subtasks.
+ */
+export function requestReviewChanges(task: Task, comments: ReviewCommentInput[]): Subtask[] {
+  const existing = task.reviewComments ?? [];
+  const round = existing.reduce((max, c) => Math.max(max, c.round), 0) + 1;
+  const createdAt = Date.now();
+
+  const subtasks: Subtask[] = comments.map((comment, i) => ({
+    id: `review-${round}-${i + 1}`,
+    content: buildReviewSubtaskContent(comment),
+    label: `Review: ${comment.path}:${comment.line}`,
+    status: 'pending',
+    type: 'dev',
+    activeForm: `Addressing review comment on ${comment.path}`,
+    files: [comment.path],
+    reviewRound: round,
+  }));
+
+  task.reviewComments = [
+    ...existing,
+    ...comments.map((comment, i) => ({
+      id: `${round}-${i + 1}`,
+      round,
+      ...comment,
+      createdAt,
+      subtaskId: subtasks[i].id,
+    })),
+  ];
+
+  const firstQA = task.subtasks.findIndex((s) => s.type === 'qa');
+  const insertAt = firstQA === -1 ? task.subtasks.length : firstQA;
+  task.subtasks.splice(insertAt, 0, ...subtasks);
+
+  for (const s of task.subtasks) {
+    if (s.type === 'qa') {
+      s.status = 'pending';
+      s.verdict = undefined;
+    }
+  }
+  task.verification = undefined;
+  return subtasks;
+}
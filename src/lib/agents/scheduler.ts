@@ -0,0 +1,226 @@
+/**
+ * Agent scheduler (local dev)
+ *
+ * One process-wide queue for agent runs, shared by every task manager in the registry.
+ * A run waits for a slot when its project's limit or its provider's limit is reached instead
+ * of failing. The next run is picked by:
+ * 1. priority (higher first: QA review > development > planning)
+ * 2. fairness: tasks with fewer runs in progress first
+ * 3. FIFO (enqueue order)
+ * Runs whose provider is at its limit are skipped, so they don't hold up other providers.
+ *
+ * Limits come from each project's `.code-automata/scheduler.json` and count only that
+ * project's runs:
+ * { "maxConcurrent": 12, "providerLimits": { "amp": 4, "cursor": 2 } }
+ * A provider without an entry is bounded by its adapter's `maxConcurrentAgents` capability,
+ * counted across all projects since it describes the CLI itself.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { WorkflowPhase } from '@/lib/tasks/schema';
+
+export interface SchedulerLimits {
+  maxConcurrent: number;
+  providerLimits: Record<string, number>;
+}
+
+export const DEFAULT_SCHEDULER_LIMITS: SchedulerLimits = {
+  maxConcurrent: 12,
+  providerLimits: {},
+};
+
+export interface ScheduleRequest {
+  threadId: string;
+  taskId: string;
+  projectDir: string;
+  provider: string;
+  priority: number;
+}
+
+export interface QueuedRun extends ScheduleRequest {
+  position: number; // 1-based
+  enqueuedAt: number;
+}
+
+type QueueEntry = ScheduleRequest & {
+  seq: number;
+  enqueuedAt: number;
+  grant: (release: () => void) => void;
+  reject: (error: Error) => void;
+};
+
+type RunningEntry = { taskId: string; projectDir: string; provider: string };
+
+const PHASE_PRIORITY: Partial<Record<WorkflowPhase, number>> = {
+  ai_review: 2,
+  in_progress: 1,
+  planning: 0,
+};
+
+/**
+ * Runs closer to done go first, so finishing work is not starved by new planning runs
+ */
+export function getPhasePriority(phase: WorkflowPhase): number {
+  return PHASE_PRIORITY[phase] ?? 0;
+}
+
+function positiveInt(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+export async function loadSchedulerLimits(projectDir: string): Promise<SchedulerLimits> {
+  try {
+    const raw = await fs.readFile(
+      path.join(projectDir, '.code-automata', 'scheduler.json'),
+      'utf-8'
+    );
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const providerLimits: Record<string, number> = {};
+    if (parsed.providerLimits && typeof parsed.providerLimits === 'object') {
+      for (const [provider, limit] of Object.entries(parsed.providerLimits)) {
+        const n = positiveInt(limit);
+        if (n !== undefined) providerLimits[provider] = n;
+      }
+    }
+    return {
+      maxConcurrent: positiveInt(parsed.maxConcurrent) ?? DEFAULT_SCHEDULER_LIMITS.maxConcurrent,
+      providerLimits,
+    };
+  } catch {
+    return DEFAULT_SCHEDULER_LIMITS;
+  }
+}
+
+export class AgentScheduler {
+  private limitsByProject = new Map<string, SchedulerLimits>();
+  private providerDefaults: Record<string, number> = {};
+  private queue: QueueEntry[] = [];
+  private running = new Map<string, RunningEntry>();
+  private seq = 0;
+
+  /**
+   * Limits for the runs of one project; projects without limits use the defaults
+   */
+  setLimits(projectDir: string, limits: SchedulerLimits): void {
+    this.limitsByProject.set(path.resolve(projectDir), limits);
+    this.drain();
+  }
+
+  /**
+   * Limit used for the provider when the configured limits don't name it
+   */
+  setProviderDefault(provider: string, limit: number): void {
+    this.providerDefaults[provider] = limit;
+    this.drain();
+  }
+
+  /**
+   * Wait for a slot. Resolves with the release function (idempotent) once the run may start;
+   * rejects when the run is cancelled while queued.
+   */
+  acquire(request: ScheduleRequest): Promise<() => void> {
+    return new Promise((grant, reject) => {
+      this.queue.push({ ...request, seq: this.seq++, enqueuedAt: Date.now(), grant, reject });
+      this.drain();
+    });
+  }
+
+  /**
+   * Remove a queued run. Returns false when it is not queued (already running or unknown).
+   */
+  cancel(threadId: string): boolean {
+    const index = this.queue.findIndex((entry) => entry.threadId === threadId);
+    if (index === -1) return false;
+    const [entry] = this.queue.splice(index, 1);
+    entry.reject(new Error('Cancelled while queued'));
+    return true;
+  }
+
+  /**
+   * Queued runs in the order they will be considered
+   */
+  listQueued(): QueuedRun[] {
+    return this.ordered().map((entry, index) => ({
+      threadId: entry.threadId,
+      taskId: entry.taskId,
+      projectDir: entry.projectDir,
+      provider: entry.provider,
+      priority: entry.priority,
+      enqueuedAt: entry.enqueuedAt,
+      position: index + 1,
+    }));
+  }
+
+  getQueuePosition(threadId: string): number | undefined {
+    return this.listQueued().find((run) => run.threadId === threadId)?.position;
+  }
+
+  runningCount(provider?: string): number {
+    if (!provider) return this.running.size;
+    let count = 0;
+    for (const entry of this.running.values()) {
+      if (entry.provider === provider) count++;
+    }
+    return count;
+  }
+
+  private runningForTask(taskId: string): number {
+    let count = 0;
+    for (const entry of this.running.values()) {
+      if (entry.taskId === taskId) count++;
+    }
+    return count;
+  }
+
+  private ordered(): QueueEntry[] {
+    return [...this.queue].sort(
+      (a, b) =>
+        b.priority - a.priority ||
+        this.runningForTask(a.taskId) - this.runningForTask(b.taskId) ||
+        a.seq - b.seq
+    );
+  }
+
+  private hasSlot(request: ScheduleRequest): boolean {
+    const projectDir = path.resolve(request.projectDir);
+    const limits = this.limitsByProject.get(projectDir) ?? DEFAULT_SCHEDULER_LIMITS;
+    let projectRunning = 0;
+    let projectProviderRunning = 0;
+    for (const entry of this.running.values()) {
+      if (path.resolve(entry.projectDir) !== projectDir) continue;
+      projectRunning++;
+      if (entry.provider === request.provider) projectProviderRunning++;
+    }
+    if (projectRunning >= limits.maxConcurrent) return false;
+
+    const projectLimit = limits.providerLimits[request.provider];
+    if (projectLimit !== undefined) return projectProviderRunning < projectLimit;
+    const providerDefault = this.providerDefaults[request.provider];
+    return providerDefault === undefined || this.runningCount(request.provider) < providerDefault;
+  }
+
+  private drain(): void {
+    for (;;) {
+      const next = this.ordered().find((entry) => this.hasSlot(entry));
+      if (!next) return;
+
+      this.queue.splice(this.queue.indexOf(next), 1);
+      this.running.set(next.threadId, {
+        taskId: next.taskId,
+        projectDir: next.projectDir,
+        provider: next.provider,
+      });
+      let released = false;
+      next.grant(() => {
+        if (released) return;
+        released = true;
+        this.running.delete(next.threadId);
+        this.drain();
+      });
+    }
+  }
+}
+
+/** Shared by every AgentManager so the limits bound all of a project's tasks, not one task */
+export const agentScheduler = new AgentScheduler();
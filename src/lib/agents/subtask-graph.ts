@@ -0,0 +1,89 @@
+/**
+ * Dev subtask scheduling
+ *
+ * Decides which dev subtasks may run now, so independent ones run concurrently:
+ * - `dependsOn` lists the dev subtasks that must be completed first. Without it (plans
+ *   generated before these fields existed, custom prompts) a subtask depends on the previous
+ *   dev subtask, which keeps such plans strictly sequential.
+ * - `files` lists the files/directories a subtask expects to touch. Subtasks whose files
+ *   overlap are serialized. Without it the subtask may touch anything and runs alone.
+ * Dependencies that are not part of the current run (e.g. earlier subtasks when resuming from
+ * a later one) don't hold it up.
+ */
+
+import type { Subtask } from '@/lib/tasks/schema';
+
+export const DEFAULT_MAX_PARALLEL_SUBTASKS = 3;
+
+/**
+ * Per-task limit on concurrent dev subtask agents (CODE_AUTOMATA_MAX_PARALLEL_SUBTASKS).
+ * The agent scheduler's global and per-provider limits still apply on top.
+ */
+export function getMaxParallelSubtasks(): number {
+  const configured = Number(process.env.CODE_AUTOMATA_MAX_PARALLEL_SUBTASKS || '');
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_MAX_PARALLEL_SUBTASKS;
+}
+
+/**
+ * Subtasks that must complete before this one (explicit or implied by list order)
+ */
+export function getSubtaskPrerequisites(subtask: Subtask, devSubtasks: Subtask[]): string[] {
+  if (subtask.dependsOn) return subtask.dependsOn;
+  const index = devSubtasks.findIndex((s) => s.id === subtask.id);
+  return index > 0 ? [devSubtasks[index - 1].id] : [];
+}
+
+function normalizeFilePath(file: string): string {
+  // Globs are compared by their literal prefix ("src/lib/**/*.ts" -> "src/lib")
+  const literal = file.split(/[*?[{]/)[0];
+  return literal.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Whether two subtasks may touch the same file. Missing hints count as touching everything.
+ */
+export function subtaskFilesOverlap(a: Subtask, b: Subtask): boolean {
+  if (!a.files?.length || !b.files?.length) return true;
+  const pathsA = a.files.map(normalizeFilePath);
+  const pathsB = b.files.map(normalizeFilePath);
+  return pathsA.some((x) =>
+    pathsB.some(
+      (y) => x === '' || y === '' || x === y || x.startsWith(`${y}/`) || y.startsWith(`${x}/`)
+    )
+  );
+}
+
+/**
+ * Pending subtasks to start now, in list order: prerequisites completed (or outside this run),
+ * no file overlap with running or already picked subtasks, at most `slots` of them.
+ */
+export function pickRunnableSubtasks(
+  pending: Subtask[],
+  options: {
+    devSubtasks: Subtask[]; // All dev subtasks of the task, in order, with current statuses
+    runIds: Set<string>; // Subtasks that are part of this run
+    running: Subtask[];
+    slots: number;
+  }
+): Subtask[] {
+  const picked: Subtask[] = [];
+  const byId = new Map(options.devSubtasks.map((s) => [s.id, s]));
+
+  for (const subtask of pending) {
+    if (picked.length >= options.slots) break;
+
+    const ready = getSubtaskPrerequisites(subtask, options.devSubtasks).every((id) => {
+      const prerequisite = byId.get(id);
+      return !prerequisite || prerequisite.status === 'completed' || !options.runIds.has(id);
+    });
+    if (!ready) continue;
+
+    const busy = [...options.running, ...picked];
+    if (busy.some((other) => subtaskFilesOverlap(subtask, other))) continue;
+
+    picked.push(subtask);
+  }
+  return picked;
+}
@@ -0,0 +1,944 @@
+/**
+ * Subtask runner
+ *
+ * Execution of dev subtasks (→ ai_review), independent ones in parallel, and sequential
+ * execution of QA subtasks, gated by the project's verification commands (→ human_review, or
+ * a fix round when QA or verification fails, see qa-fix-loop.ts and verification.ts).
+ * Shared by start-development, start-review and the resume route: when `resume` is given,
+ * the matching subtask continues its interrupted thread instead of starting a fresh agent.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { TaskPersistence } from '@/lib/tasks/persistence';
+import type { Subtask, Task, VerificationRun } from '@/lib/tasks/schema';
+import { resumeAgentForTask, startAgentForTask, stopAgentsForTask } from '@/lib/agents/registry';
+import { cleanPlanningArtifactsFromWorktree } from '@/lib/worktree/cleanup';
+import { buildQASubtaskPrompt, isManualQASubtask } from '@/lib/agents/qa-subtask-prompt';
+import {
+  completeQAFixRound,
+  getFailedQASubtasks,
+  getMaxQAFixRounds,
+  startQAFixRound,
+} from '@/lib/agents/qa-fix-loop';
+import { harvestSubtaskFailure, resolveSubtaskGotchas } from '@/lib/memory/harvest';
+import { getMaxParallelSubtasks, pickRunnableSubtasks } from '@/lib/agents/subtask-graph';
+import { commitCheckpoint, getHeadCommit } from '@/lib/git/checkpoints';
+import { loadSetupPaths, waitForWorktreeSetup } from '@/lib/git/worktree-setup';
+import { runVerification } from '@/lib/agents/verification';
+import { extractQAVerdict } from '@/lib/validation/qa-verdict-validator';
+import { generateValidationFeedback } from '@/lib/validation/subtask-validator';
+
+// Runs of a QA subtask (first + re-prompts) until it reports a valid verdict
+const MAX_QA_VERDICT_ATTEMPTS = 3;
+
+export interface SubtaskResumeTarget {
+  subtaskId: string;
+  threadId: string;
+  prompt: string;
+  resumeHandle?: string;
+}
+
+export interface SubtaskRunOptions {
+  /** Continue this subtask's interrupted thread instead of starting a new one */
+  resume?: SubtaskResumeTarget;
+}
+
+/**
+ * Execute dev subtasks, running independent ones concurrently (see subtask-graph.ts).
+ * Each subtask gets its own agent thread; at most getMaxParallelSubtasks() run at once.
+ * Returns when every subtask of the run has finished, or when the task is blocked.
+ */
+export async function executeDevSubtasks(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string,
+  subtasks: Subtask[],
+  logsPath: string,
+  options: SubtaskRunOptions = {}
+) {
+  const maxParallel = getMaxParallelSubtasks();
+  const runIds = new Set(subtasks.map((s) => s.id));
+  const waiting = [...subtasks];
+  const running = new Map<string, Promise<void>>();
+
+  if (!(await ensureWorktreeReady(taskPersistence, projectDir, taskId, logsPath))) return;
+  await recordCheckpointBase(taskPersistence, projectDir, taskId);
+
+  while (true) {
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task || task.status === 'blocked') break;
+
+    // Drop subtasks that no longer need to run
+    for (const subtask of [...waiting]) {
+      const current = task.subtasks.find((s) => s.id === subtask.id);
+      const skipReason = !current
+        ? 'deleted'
+        : current.type !== 'dev' // Safety: dev phase should only execute dev subtasks
+          ? 'not dev'
+          : current.status === 'completed' // e.g. skipped by user
+            ? 'already completed'
+            : null;
+      if (!skipReason) continue;
+      waiting.splice(waiting.indexOf(subtask), 1);
+      await fs.appendFile(
+        logsPath,
+        `\n${'='.repeat(80)}\n[Subtask ${subtasks.indexOf(subtask) + 1}/${subtasks.length}] ${subtask.label} - SKIPPED (${skipReason})\n${'='.repeat(80)}\n\n`,
+        'utf-8'
+      );
+    }
+
+    const devSubtasks = task.subtasks.filter((s) => s.type === 'dev');
+    const runnable = pickRunnableSubtasks(
+      waiting.map((w) => task.subtasks.find((s) => s.id === w.id)!),
+      {
+        devSubtasks,
+        runIds,
+        running: devSubtasks.filter((s) => running.has(s.id)),
+        slots: maxParallel - running.size,
+      }
+    );
+
+    for (const subtask of runnable) {
+      waiting.splice(
+        waiting.findIndex((w) => w.id === subtask.id),
+        1
+      );
+      const number = subtasks.findIndex((s) => s.id === subtask.id) + 1;
+      await startDevSubtask(taskPersistence, projectDir, taskId, subtask, logsPath, {
+        number,
+        total: subtasks.length,
+        parallel: running.size > 0 || runnable.length > 1,
+        resume: options.resume,
+      });
+      running.set(
+        subtask.id,
+        waitForSubtaskCompletion(taskPersistence, taskId, subtask.id).finally(() =>
+          running.delete(subtask.id)
+        )
+      );
+    }
+
+    if (running.size === 0) {
+      // Nothing running and nothing can start: the remaining subtasks wait on each other
+      if (waiting.length > 0) {
+        const reason = `Dev subtasks cannot start, their dependencies did not complete: ${waiting
+          .map((s) => s.id)
+          .join(', ')}`;
+        await fs.appendFile(logsPath, `\n[Stalled] ${reason}\n`, 'utf-8');
+        await taskPersistence.updateTask(taskId, (current) => {
+          current.status = 'blocked';
+          current.blockedReason = reason;
+        });
+      }
+      break;
+    }
+
+    // Wait for any running subtask to finish, then schedule again
+    await Promise.race(running.values());
+  }
+}
+
+/**
+ * Mark a dev subtask in progress and start (or resume) its agent
+ */
+async function startDevSubtask(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string,
+  subtask: Subtask,
+  logsPath: string,
+  run: { number: number; total: number; parallel: boolean; resume?: SubtaskResumeTarget }
+) {
+  await fs.appendFile(
+    logsPath,
+    `\n${'='.repeat(80)}\n[Subtask ${run.number}/${run.total}] ${subtask.label}${run.parallel ? ' (parallel)' : ''}\n${'='.repeat(80)}\n\n`,
+    'utf-8'
+  );
+
+  // Update subtask to in_progress (a running subtask supersedes any earlier interruption or block)
+  const task = await taskPersistence.updateTask(taskId, (current) => {
+    const idx = current.subtasks.findIndex((s) => s.id === subtask.id);
+    if (idx !== -1) current.subtasks[idx].status = 'in_progress';
+    current.interruption = undefined;
+    current.blockedReason = undefined;
+  });
+  if (!task) return;
+
+  // Execute subtask
+  const fileScope = subtask.files?.length
+    ? `\n**Files:** ${subtask.files.join(', ')}\nOther subtasks may be running in the same working directory at the same time. Keep your changes to these files.\n`
+    : '';
+  const prompt = `Execute the following subtask as part of the implementation plan:
+
+**Subtask:** ${subtask.label}
+**Details:** ${subtask.content}
+${fileScope}
+Please implement this subtask following best practices.`;
+
+  // Create completion handler for this subtask
+  const onSubtaskComplete = async (result: {
+    success: boolean;
+    output: string;
+    error?: string;
+  }) => {
+    await fs.appendFile(
+      logsPath,
+      `\n[Subtask ${run.number} Completed] Success: ${result.success}\n`,
+      'utf-8'
+    );
+
+    if (!result.success) {
+      await fs.appendFile(logsPath, `[Error] ${result.error}\n`, 'utf-8');
+
+      await taskPersistence.updateTask(taskId, (currentTask) => {
+        const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
+        if (idx !== -1) {
+          currentTask.subtasks[idx].status = 'pending'; // Reset to pending on error
+        }
+        currentTask.status = 'blocked';
+      });
+
+      // Parallel siblings would keep editing a blocked task; stop them so they rerun later
+      const stopped = await stopAgentsForTask(taskId);
+      if (stopped.length > 0) {
+        await fs.appendFile(
+          logsPath,
+          `[Blocked] Stopped ${stopped.length} running subtask agent(s)\n`,
+          'utf-8'
+        );
+        await taskPersistence.updateTask(taskId, (currentTask) => {
+          for (const sibling of currentTask.subtasks) {
+            if (sibling.status === 'in_progress') sibling.status = 'pending';
+          }
+        });
+      }
+      await harvestSubtaskFailure(task, subtask, result.error, projectDir).catch(() => {});
+      return;
+    }
+
+    await fs.appendFile(logsPath, `[Output]\n${result.output}\n`, 'utf-8');
+    await resolveSubtaskGotchas(taskId, subtask.id, result.output, projectDir).catch(() => {});
+
+    const fresh = await taskPersistence.loadTask(taskId);
+    const siblingsRunning = !!fresh?.subtasks.some(
+      (s) => s.type === 'dev' && s.id !== subtask.id && s.status === 'in_progress'
+    );
+    const checkpoint = await createSubtaskCheckpoint(
+      task,
+      subtask,
+      projectDir,
+      logsPath,
+      siblingsRunning
+    );
+
+    // Mark subtask as completed
+    let movedToReview = false;
+    const currentTask = await taskPersistence.updateTask(taskId, (current) => {
+      const idx = current.subtasks.findIndex((s) => s.id === subtask.id);
+      if (idx !== -1) {
+        current.subtasks[idx].status = 'completed';
+        current.subtasks[idx].checkpoint = checkpoint;
+      }
+
+      // Check if all DEV subtasks are completed (parallel completions are serialized by updateTask)
+      const allDevCompleted = current.subtasks
+        .filter((s) => s.type === 'dev')
+        .every((s) => s.status === 'completed');
+
+      if (allDevCompleted && current.phase === 'in_progress') {
+        current.phase = 'ai_review'; // Move to AI review phase
+        current.assignedAgent = undefined; // Clear agent
+        current.updatedAt = Date.now(); // Start 15s grace period for "Auto-starting QA" (prevents brief "Retry AI Review" flash)
+        movedToReview = true;
+      }
+    });
+
+    if (currentTask && movedToReview) {
+      await fs.appendFile(
+        logsPath,
+        `\n${'='.repeat(80)}\n[ALL DEV SUBTASKS COMPLETED - Moving to AI Review]\n${'='.repeat(80)}\n`,
+        'utf-8'
+      );
+
+      // Clean planning artifacts before AI review (ensure not in final output)
+      await cleanPlanningArtifactsFromWorktree(currentTask.worktreePath || projectDir).catch(
+        () => {}
+      );
+
+      // Automatically start AI review
+      await fs.appendFile(logsPath, `\n[AUTO] Initiating AI Review Phase...\n`, 'utf-8');
+      startAIReviewAutomatically(taskPersistence, projectDir, currentTask.id, logsPath);
+    }
+  };
+
+  // Start agent for this subtask (or continue its interrupted thread)
+  const { threadId: subtaskThreadId } = await launchSubtaskAgent(
+    task,
+    subtask.id,
+    prompt,
+    projectDir,
+    onSubtaskComplete,
+    run.resume
+  );
+
+  await fs.appendFile(
+    logsPath,
+    `[Agent ${run.resume?.subtaskId === subtask.id ? 'Resumed' : 'Started'} for Subtask ${run.number}] Thread ID: ${subtaskThreadId}\n`,
+    'utf-8'
+  );
+
+  // Store the latest thread ID in task for potential cancellation
+  await taskPersistence.updateTask(taskId, (current) => {
+    current.assignedAgent = subtaskThreadId;
+  });
+}
+
+/**
+ * Wait for the worktree bootstrap hooks; block the task when they failed, since agents and
+ * verification commands need a runnable checkout
+ */
+async function ensureWorktreeReady(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string,
+  logsPath: string
+): Promise<boolean> {
+  await waitForWorktreeSetup(projectDir, taskId);
+  const task = await taskPersistence.loadTask(taskId);
+  if (task?.worktreeSetup?.status !== 'failed') return true;
+
+  const failedStep = task.worktreeSetup.steps.find((s) => !s.ok);
+  const reason = `Worktree setup failed${failedStep ? ` (${failedStep.name})` : ''}, see worktree-setup-logs.txt`;
+  await fs.appendFile(logsPath, `\n[Blocked] ${reason}\n`, 'utf-8');
+  await taskPersistence.updateTask(taskId, (current) => {
+    current.status = 'blocked';
+    current.blockedReason = reason;
+  });
+  return false;
+}
+
+/**
+ * Commit the worktree before the first dev subtask so a rollback can return to it
+ */
+async function recordCheckpointBase(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string
+) {
+  const task = await taskPersistence.loadTask(taskId);
+  if (!task?.worktreePath || task.checkpointBase) return;
+  try {
+    const base = await commitCheckpoint(
+      task.worktreePath,
+      'checkpoint: before dev subtasks',
+      undefined,
+      await loadSetupPaths(projectDir)
+    );
+    await taskPersistence.updateTask(taskId, (current) => {
+      current.checkpointBase = base;
+    });
+  } catch (error) {
+    console.warn(`[Task ${taskId}] Could not record checkpoint base:`, error);
+  }
+}
+
+/**
+ * Commit the worktree after a completed dev subtask. Returns the SHA, or undefined when the
+ * task has no worktree, the commit failed or was skipped (the subtask still counts as
+ * completed). While siblings run in parallel only the subtask's `files` are committed, so
+ * their partial edits stay out; subtasks without `files` never run beside others.
+ */
+async function createSubtaskCheckpoint(
+  task: Task,
+  subtask: Subtask,
+  projectDir: string,
+  logsPath: string,
+  siblingsRunning: boolean
+): Promise<string | undefined> {
+  if (!task.worktreePath) return undefined;
+  const scoped = siblingsRunning && !!subtask.files?.length;
+  if (siblingsRunning && !scoped) {
+    await fs.appendFile(logsPath, `[Checkpoint Skipped] Other subtasks are running\n`, 'utf-8');
+    return undefined;
+  }
+  try {
+    await cleanPlanningArtifactsFromWorktree(task.worktreePath).catch(() => {});
+    const before = await getHeadCommit(task.worktreePath);
+    const sha = await commitCheckpoint(
+      task.worktreePath,
+      `checkpoint: ${subtask.id} - ${subtask.label}`,
+      scoped ? subtask.files : undefined,
+      await loadSetupPaths(projectDir)
+    );
+    // Nothing in its files changed: edits elsewhere are not committed, so HEAD would be a
+    // checkpoint whose rollback drops them
+    if (scoped && sha === before) {
+      await fs.appendFile(
+        logsPath,
+        `[Checkpoint Skipped] No changes in the subtask's files\n`,
+        'utf-8'
+      );
+      return undefined;
+    }
+    await fs.appendFile(logsPath, `[Checkpoint] ${sha.slice(0, 10)}\n`, 'utf-8');
+    return sha;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await fs.appendFile(logsPath, `[Checkpoint Failed] ${message}\n`, 'utf-8');
+    return undefined;
+  }
+}
+
+/**
+ * Start the agent for a subtask, or resume its interrupted thread when it is the resume target
+ */
+function launchSubtaskAgent(
+  task: Task,
+  subtaskId: string,
+  prompt: string,
+  projectDir: string,
+  onComplete: (result: { success: boolean; output: string; error?: string }) => Promise<void>,
+  resume?: SubtaskResumeTarget
+): Promise<{ threadId: string }> {
+  const workingDir = task.worktreePath || projectDir;
+  if (resume && resume.subtaskId === subtaskId) {
+    return resumeAgentForTask({
+      task,
+      threadId: resume.threadId,
+      prompt: resume.prompt,
+      resumeHandle: resume.resumeHandle,
+      workingDir,
+      projectDir,
+      subtaskId,
+      onComplete,
+    });
+  }
+  return startAgentForTask({ task, prompt, workingDir, projectDir, subtaskId, onComplete });
+}
+
+/**
+ * Wait for a subtask to complete
+ */
+async function waitForSubtaskCompletion(
+  taskPersistence: TaskPersistence,
+  taskId: string,
+  subtaskId: string
+): Promise<void> {
+  return new Promise((resolve) => {
+    let elapsed = 0;
+    const configured = Number(process.env.CODE_AUTOMATA_SUBTASK_WAIT_MS || '');
+    const maxWait = Number.isFinite(configured) && configured > 0 ? configured : 30 * 60 * 1000; // 30 min default
+
+    const interval = setInterval(async () => {
+      elapsed += 1000;
+
+      // Timeout after max wait
+      if (elapsed >= maxWait) {
+        clearInterval(interval);
+        console.error(`[waitForSubtaskCompletion] Timeout waiting for subtask ${subtaskId}`);
+        resolve();
+        return;
+      }
+
+      const task = await taskPersistence.loadTask(taskId);
+      if (!task) {
+        clearInterval(interval);
+        resolve();
+        return;
+      }
+
+      // Check if task is blocked or completed
+      if (task.status === 'blocked' || task.status === 'completed') {
+        clearInterval(interval);
+        resolve();
+        return;
+      }
+
+      // Check if subtask still exists
+      const subtask = task.subtasks.find((s) => s.id === subtaskId);
+      if (!subtask) {
+        // Subtask was deleted
+        clearInterval(interval);
+        resolve();
+        return;
+      }
+
+      // Check if subtask is completed
+      if (subtask.status === 'completed') {
+        clearInterval(interval);
+        resolve();
+      }
+    }, 1000); // Check every 1s
+  });
+}
+
+/**
+ * Automatically start AI review phase after dev subtasks complete
+ * Triggers the review process via background job without waiting
+ */
+function startAIReviewAutomatically(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string,
+  devLogsPath: string
+): void {
+  // Fire and forget - don't await
+  // This allows the dev phase to finish while review starts in background
+  setTimeout(async () => {
+    try {
+      await fs.appendFile(devLogsPath, `[AUTO] Triggering AI Review Phase...\n`, 'utf-8');
+
+      const task = await taskPersistence.loadTask(taskId);
+      if (!task || task.phase !== 'ai_review') {
+        await fs.appendFile(
+          devLogsPath,
+          `[AUTO] Cannot start review - task not in ai_review phase\n`,
+          'utf-8'
+        );
+        return;
+      }
+
+      // Create review logs path
+      const reviewLogsPath = path.join(
+        projectDir,
+        '.code-automata',
+        'tasks',
+        taskId,
+        'review-logs.txt'
+      );
+      const logsDir = path.dirname(reviewLogsPath);
+      await fs.mkdir(logsDir, { recursive: true });
+
+      // After a fix round, keep the logs of the earlier QA runs
+      const writeLog = task.qaFixRounds?.length ? fs.appendFile : fs.writeFile;
+      await writeLog(
+        reviewLogsPath,
+        `${task.qaFixRounds?.length ? `\n${'='.repeat(80)}\nAI Review re-run after fix round ${task.qaFixRounds.length}` : 'AI Review auto-started'} for task: ${task.title}\n` +
+          `Task ID: ${taskId}\n` +
+          `Started at: ${new Date().toISOString()}\n` +
+          `${'='.repeat(80)}\n\n`,
+        'utf-8'
+      );
+
+      await fs.appendFile(
+        reviewLogsPath,
+        `[Starting Sequential QA Verification]\n${'='.repeat(80)}\n\n`,
+        'utf-8'
+      );
+
+      // Execute QA subtasks
+      const qaSubtasks = task.subtasks.filter((s) => s.type === 'qa');
+      await executeQASubtasksSequentially(
+        taskPersistence,
+        projectDir,
+        taskId,
+        qaSubtasks,
+        reviewLogsPath
+      );
+
+      await fs.appendFile(devLogsPath, `[AUTO] AI Review Phase initiated\n`, 'utf-8');
+    } catch (error) {
+      await fs.appendFile(
+        devLogsPath,
+        `[AUTO] Error initiating AI review: ${error instanceof Error ? error.message : 'Unknown'}\n`,
+        'utf-8'
+      );
+    }
+  }, 1000); // Give 1 second for phase transition to be saved
+}
+
+/**
+ * Execute QA subtasks sequentially (auto-triggered after dev completion)
+ */
+export async function executeQASubtasksSequentially(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string,
+  qaSubtasks: Subtask[],
+  logsPath: string,
+  options: SubtaskRunOptions = {}
+) {
+  // Verdicts of earlier runs were handled by their fix round; these QA subtasks run again
+  await taskPersistence.updateTask(taskId, (current) => {
+    for (const s of current.subtasks) {
+      if (s.type === 'qa' && s.status !== 'completed') s.verdict = undefined;
+    }
+  });
+
+  // Deterministic checks first: when they fail, fix them before spending QA agent runs
+  const afterDev = await recordVerification(
+    taskPersistence,
+    projectDir,
+    taskId,
+    'after_dev',
+    logsPath
+  );
+  if (afterDev && !afterDev.passed) {
+    await finishQARun(taskPersistence, projectDir, taskId, logsPath, afterDev);
+    return;
+  }
+
+  for (let count = 0; count < qaSubtasks.length; count++) {
+    const subtask = qaSubtasks[count];
+
+    // Load fresh task data to check current status; a blocked task ends the QA run
+    const task = await taskPersistence.loadTask(taskId);
+    if (!task || task.status === 'blocked') return;
+
+    const taskSubtaskIndex = task.subtasks.findIndex((s) => s.id === subtask.id);
+    if (taskSubtaskIndex === -1) {
+      await fs.appendFile(
+        logsPath,
+        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (deleted)\n${'='.repeat(80)}\n\n`,
+        'utf-8'
+      );
+      continue;
+    }
+
+    // Safety: QA phase should only execute QA subtasks
+    if (task.subtasks[taskSubtaskIndex].type !== 'qa') {
+      await fs.appendFile(
+        logsPath,
+        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (not qa)\n${'='.repeat(80)}\n\n`,
+        'utf-8'
+      );
+      continue;
+    }
+
+    // Check if this subtask was already completed (e.g., skipped by user)
+    if (task.subtasks[taskSubtaskIndex].status === 'completed') {
+      await fs.appendFile(
+        logsPath,
+        `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label} - SKIPPED (already completed)\n${'='.repeat(80)}\n\n`,
+        'utf-8'
+      );
+      continue;
+    }
+
+    await fs.appendFile(
+      logsPath,
+      `\n${'='.repeat(80)}\n[QA Subtask ${count + 1}/${qaSubtasks.length}] ${subtask.label}\n${'='.repeat(80)}\n\n`,
+      'utf-8'
+    );
+
+    // Update subtask to in_progress (a running subtask supersedes any earlier interruption or block)
+    task.subtasks[taskSubtaskIndex].status = 'in_progress';
+    task.subtasks[taskSubtaskIndex].verdict = undefined;
+    task.interruption = undefined;
+    task.blockedReason = undefined;
+    await taskPersistence.saveTask(task);
+
+    // Execute subtask (manual QA subtasks get constrained prompt: 1 doc in manual-qa-required/)
+    const prompt = buildQASubtaskPrompt(subtask);
+
+    let verdictAttempts = 1;
+
+    // Create completion handler for this subtask
+    const onSubtaskComplete = async (result: {
+      success: boolean;
+      output: string;
+      error?: string;
+    }) => {
+      await fs.appendFile(
+        logsPath,
+        `\n[QA Subtask ${count + 1} Completed] Success: ${result.success}\n`,
+        'utf-8'
+      );
+
+      if (!result.success) {
+        await fs.appendFile(logsPath, `[Error] ${result.error}\n`, 'utf-8');
+
+        const currentTask = await taskPersistence.loadTask(taskId);
+        if (currentTask) {
+          const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
+          if (idx !== -1) {
+            currentTask.subtasks[idx].status = 'pending';
+          }
+          currentTask.status = 'blocked';
+          await taskPersistence.saveTask(currentTask);
+        }
+        await harvestSubtaskFailure(task, subtask, result.error, projectDir).catch(() => {});
+        return;
+      }
+
+      await fs.appendFile(logsPath, `[Output]\n${result.output}\n`, 'utf-8');
+      await resolveSubtaskGotchas(taskId, subtask.id, result.output, projectDir).catch(() => {});
+
+      // Manual QA only writes a checklist for the human; other QA reports a verdict.
+      // A missing/invalid verdict is sent back to the agent; if it stays invalid, the check failed.
+      let verdict = null;
+      if (!isManualQASubtask(subtask)) {
+        const extracted = extractQAVerdict(result.output);
+        verdict = extracted.verdict;
+        if (!verdict) {
+          const feedback = generateValidationFeedback(extracted.result);
+          if (verdictAttempts < MAX_QA_VERDICT_ATTEMPTS) {
+            verdictAttempts++;
+            await fs.appendFile(
+              logsPath,
+              `[QA Verdict Invalid] Re-prompting (attempt ${verdictAttempts}/${MAX_QA_VERDICT_ATTEMPTS})\n${feedback}\n`,
+              'utf-8'
+            );
+            try {
+              await resumeAgentForTask({
+                task,
+                threadId: subtaskThreadId,
+                prompt: `Your QA verdict had validation issues. Please fix them:\n\n${feedback}\n\nEnd your output with the corrected JSON verdict.`,
+                workingDir: task.worktreePath || projectDir,
+                projectDir,
+                subtaskId: subtask.id,
+                onComplete: onSubtaskComplete,
+              });
+              return;
+            } catch (error) {
+              const message = error instanceof Error ? error.message : 'Unknown error';
+              await fs.appendFile(logsPath, `[Error] Re-prompt failed: ${message}\n`, 'utf-8');
+            }
+          }
+
+          const reason = `QA subtask "${subtask.label}" gave no valid verdict`;
+          await fs.appendFile(logsPath, `[QA Verdict Invalid] ${reason}\n${feedback}\n`, 'utf-8');
+          await taskPersistence.updateTask(taskId, (current) => {
+            const idx = current.subtasks.findIndex((s) => s.id === subtask.id);
+            if (idx !== -1) current.subtasks[idx].status = 'pending';
+            current.status = 'blocked';
+            current.blockedReason = reason;
+          });
+          return;
+        }
+        await fs.appendFile(
+          logsPath,
+          `[QA Verdict] ${verdict.verdict.toUpperCase()}${verdict.findings.map((f) => `\n  - ${f}`).join('')}\n`,
+          'utf-8'
+        );
+      }
+
+      if (verdict?.verdict === 'fail') {
+        // Back to pending with the findings; the fix loop picks it up after the QA run
+        const currentTask = await taskPersistence.loadTask(taskId);
+        if (currentTask) {
+          const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
+          if (idx !== -1) {
+            currentTask.subtasks[idx].status = 'pending';
+            currentTask.subtasks[idx].verdict = verdict;
+          }
+          await taskPersistence.saveTask(currentTask);
+        }
+        return;
+      }
+
+      // Mark subtask as completed
+      const currentTask = await taskPersistence.loadTask(taskId);
+      if (currentTask) {
+        const idx = currentTask.subtasks.findIndex((s) => s.id === subtask.id);
+        if (idx !== -1) {
+          currentTask.subtasks[idx].status = 'completed';
+          currentTask.subtasks[idx].verdict = verdict ?? undefined;
+        }
+        // The move to Human Review happens after the run, once verification passed too
+        await taskPersistence.saveTask(currentTask);
+      }
+    };
+
+    // Start agent for this QA subtask (or continue its interrupted thread)
+    const { threadId: subtaskThreadId } = await launchSubtaskAgent(
+      task,
+      subtask.id,
+      prompt,
+      projectDir,
+      onSubtaskComplete,
+      options.resume
+    );
+
+    await fs.appendFile(
+      logsPath,
+      `[Agent ${options.resume?.subtaskId === subtask.id ? 'Resumed' : 'Started'} for QA Subtask] Thread ID: ${subtaskThreadId}\n`,
+      'utf-8'
+    );
+
+    // Store the thread ID in task for potential cancellation
+    const taskWithThread = await taskPersistence.loadTask(taskId);
+    if (taskWithThread) {
+      taskWithThread.assignedAgent = subtaskThreadId;
+      await taskPersistence.saveTask(taskWithThread);
+    }
+
+    // Wait for this subtask to complete before moving to next
+    await waitForQASubtaskCompletion(taskPersistence, taskId, subtask.id);
+
+    // Blocked (failed run, invalid verdict): keep the reason and don't start more QA agents
+    const afterWait = await taskPersistence.loadTask(taskId);
+    if (!afterWait || afterWait.status === 'blocked') return;
+  }
+
+  await finishQARun(taskPersistence, projectDir, taskId, logsPath);
+}
+
+/**
+ * Run the project's verification commands in the task's worktree and store the result on
+ * the task. Returns undefined when the project has none.
+ */
+async function recordVerification(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string,
+  stage: VerificationRun['stage'],
+  logsPath: string
+): Promise<VerificationRun | undefined> {
+  const task = await taskPersistence.loadTask(taskId);
+  if (!task) return undefined;
+  const run = await runVerification(projectDir, task.worktreePath || projectDir, stage, logsPath);
+  if (run) {
+    await taskPersistence.updateTask(taskId, (current) => {
+      current.verification = run;
+    });
+  }
+  return run;
+}
+
+/**
+ * After a QA run (or failed verification before it): move to Human Review when every QA
+ * subtask passed and the verification commands pass; otherwise start a fix round (dev
+ * subtasks for the findings, then the failed checks run again) or block the task when no
+ * rounds are left
+ */
+async function finishQARun(
+  taskPersistence: TaskPersistence,
+  projectDir: string,
+  taskId: string,
+  logsPath: string,
+  verification?: VerificationRun
+) {
+  const task = await taskPersistence.loadTask(taskId);
+  if (!task || task.phase !== 'ai_review' || task.status === 'blocked') return;
+  const failed = getFailedQASubtasks(task);
+  const allQACompleted = task.subtasks
+    .filter((s) => s.type === 'qa')
+    .every((s) => s.status === 'completed');
+  // QA subtasks left unfinished (e.g. wait timeout): nothing to decide yet
+  if (!verification && failed.length === 0 && !allQACompleted) return;
+
+  const gate =
+    verification ??
+    (await recordVerification(taskPersistence, projectDir, taskId, 'after_qa', logsPath));
+  const failedVerification = gate?.results.filter((r) => !r.passed) ?? [];
+
+  if (failed.length === 0 && failedVerification.length === 0) {
+    await taskPersistence.updateTask(taskId, (current) => {
+      current.phase = 'human_review';
+      current.status = 'completed';
+      current.assignedAgent = undefined;
+      completeQAFixRound(current, 'passed');
+    });
+    await fs.appendFile(
+      logsPath,
+      `\n${'='.repeat(80)}\n[ALL QA SUBTASKS COMPLETED - Moving to Human Review]\n${'='.repeat(80)}\n`,
+      'utf-8'
+    );
+    // Clean planning artifacts before human review (ensure not in final output)
+    await cleanPlanningArtifactsFromWorktree(task.worktreePath || projectDir).catch(() => {});
+    return;
+  }
+
+  const failures = [
+    ...failed.map((s) => s.label),
+    ...failedVerification.map((r) => `verification "${r.name}"`),
+  ];
+  const maxRounds = getMaxQAFixRounds();
+  const updated = await taskPersistence.updateTask(taskId, (current) => {
+    if (startQAFixRound(current, maxRounds, failedVerification)) {
+      current.phase = 'in_progress';
+      current.status = 'in_progress';
+    } else {
+      const rounds = current.qaFixRounds?.length ?? 0;
+      current.status = 'blocked';
+      current.blockedReason = `QA failed${rounds > 0 ? ` after ${rounds} fix round(s)` : ''}: ${failures.join(', ')}`;
+    }
+    current.assignedAgent = undefined;
+    current.updatedAt = Date.now();
+  });
+  if (!updated) return;
+
+  if (updated.status === 'blocked') {
+    await fs.appendFile(logsPath, `\n[QA Failed] ${updated.blockedReason}\n`, 'utf-8');
+    return;
+  }
+  const round = updated.qaFixRounds?.length ?? 1;
+  const roundSubtasks = updated.subtasks.filter((s) => s.fixRound === round);
+  await fs.appendFile(
+    logsPath,
+    `\n${'='.repeat(80)}\n[QA Failed - Fix Round ${round}/${maxRounds}] ${failures.join(', ')} - ${roundSubtasks.length} fix subtask(s), back to development\n${'='.repeat(80)}\n`,
+    'utf-8'
+  );
+
+  const devLogsPath = path.join(
+    projectDir,
+    '.code-automata',
+    'tasks',
+    taskId,
+    'development-logs.txt'
+  );
+  await fs.appendFile(
+    devLogsPath,
+    `\n${'='.repeat(80)}\n[QA Fix Round ${round}/${maxRounds}] ${roundSubtasks.map((s) => s.label).join(', ')}\n${'='.repeat(80)}\n\n`,
+    'utf-8'
+  );
+  // Completing the fixes moves the task back to AI Review, which re-runs the failed QA subtasks
+  await executeDevSubtasks(taskPersistence, projectDir, taskId, roundSubtasks, devLogsPath);
+}
+
+/**
+ * Wait for QA subtask to complete
+ */
+async function waitForQASubtaskCompletion(
+  taskPersistence: TaskPersistence,
+  taskId: string,
+  subtaskId: string
+): Promise<void> {
+  return new Promise((resolve) => {
+    let elapsed = 0;
+    const configured = Number(process.env.CODE_AUTOMATA_SUBTASK_WAIT_MS || '');
+    const maxWait = Number.isFinite(configured) && configured > 0 ? configured : 30 * 60 * 1000; // 30 min default
+
+    const interval = setInterval(async () => {
+      elapsed += 1000;
+
+      if (elapsed >= maxWait) {
+        clearInterval(interval);
+        console.error(`[waitForQASubtaskCompletion] Timeout waiting for QA subtask ${subtaskId}`);
+        resolve();
+        return;
+      }
+
+      const task = await taskPersistence.loadTask(taskId);
+      if (!task) {
+        clearInterval(interval);
+        resolve();
+        return;
+      }
+
+      if (task.status === 'blocked' || task.status === 'completed') {
+        clearInterval(interval);
+        resolve();
+        return;
+      }
+
+      const subtask = task.subtasks.find((s) => s.id === subtaskId);
+      if (!subtask) {
+        clearInterval(interval);
+        resolve();
+        return;
+      }
+
+      // Completed, or reported a failure (back to pending with the verdict)
+      if (
+        subtask.status === 'completed' ||
+        (subtask.status === 'pending' && subtask.verdict?.verdict === 'fail')
+      ) {
+        clearInterval(interval);
+        resolve();
+      }
+    }, 1000);
+  });
+}
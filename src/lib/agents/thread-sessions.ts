@@ -0,0 +1,114 @@
+/**
+ * Thread session records (local dev)
+ *
+ * Persists what is needed to resume an agent thread after the Next.js server restarts:
+ * provider, working directory, original prompt, and the adapter-native resume handle
+ * (e.g. Cursor chat ID). Stored in `.code-automata/thread-sessions.json`, next to thread-index.json.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export type ThreadSessionStatus = 'running' | 'completed' | 'error' | 'stopped' | 'interrupted';
+
+export interface ThreadSessionRecord {
+  threadId: string;
+  taskId: string;
+  provider: string;
+  workingDir: string;
+  prompt: string;
+  status: ThreadSessionStatus;
+  resumeHandle?: string;
+  /** Last time the thread was resumed after an interruption */
+  resumedAt?: number;
+  startedAt: number;
+  updatedAt: number;
+}
+
+function getSessionsPath(projectDir: string): string {
+  return path.join(projectDir, '.code-automata', 'thread-sessions.json');
+}
+
+async function readSessions(projectDir: string): Promise<Record<string, ThreadSessionRecord>> {
+  try {
+    const raw = await fs.readFile(getSessionsPath(projectDir), 'utf-8');
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object') {
+      return parsed as Record<string, ThreadSessionRecord>;
+    }
+    return {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeSessions(
+  projectDir: string,
+  sessions: Record<string, ThreadSessionRecord>
+): Promise<void> {
+  const sessionsPath = getSessionsPath(projectDir);
+  await fs.mkdir(path.dirname(sessionsPath), { recursive: true });
+  const tmp = sessionsPath + `.tmp-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+  await fs.writeFile(tmp, JSON.stringify(sessions, null, 2), 'utf-8');
+  await fs.rename(tmp, sessionsPath);
+}
+
+// Serialize read-modify-write cycles per project so concurrent agents don't drop updates
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function withSessions<T>(
+  projectDir: string,
+  fn: (sessions: Record<string, ThreadSessionRecord>) => T | Promise<T>
+): Promise<T> {
+  const key = getSessionsPath(projectDir);
+  const previous = writeQueues.get(key) ?? Promise.resolve();
+  const next = previous
+    .catch(() => {})
+    .then(async () => {
+      const sessions = await readSessions(projectDir);
+      const result = await fn(sessions);
+      await writeSessions(projectDir, sessions);
+      return result;
+    });
+  writeQueues.set(key, next);
+  return next;
+}
+
+export async function saveThreadSession(
+  record: ThreadSessionRecord,
+  projectDir: string = process.cwd()
+): Promise<void> {
+  await withSessions(projectDir, (sessions) => {
+    sessions[record.threadId] = record;
+  });
+}
+
+/**
+ * Merge fields into an existing record. No-op if the thread is unknown.
+ */
+export async function updateThreadSession(
+  threadId: string,
+  patch: Partial<Omit<ThreadSessionRecord, 'threadId'>>,
+  projectDir: string = process.cwd()
+): Promise<void> {
+  await withSessions(projectDir, (sessions) => {
+    const existing = sessions[threadId];
+    if (!existing) return;
+    sessions[threadId] = { ...existing, ...patch, updatedAt: Date.now() };
+  });
+}
+
+export async function getThreadSession(
+  threadId: string,
+  projectDir: string = process.cwd()
+): Promise<ThreadSessionRecord | null> {
+  const sessions = await readSessions(projectDir);
+  return sessions[threadId] ?? null;
+}
+
+export async function listThreadSessions(
+  projectDir: string = process.cwd()
+): Promise<ThreadSessionRecord[]> {
+  const sessions = await readSessions(projectDir);
+  return Object.values(sessions).sort((a, b) => b.startedAt - a.startedAt);
+}
@@ -0,0 +1,137 @@
+/**
+ * Agent usage accounting (local dev)
+ *
+ * Every finished agent run is appended to `.code-automata/usage.ndjson` (the source for the
+ * project usage report) and folded into the task's `usage` totals per phase and per subtask.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import type { UsageTotals, WorkflowPhase } from '@/lib/tasks/schema';
+
+export interface AgentRunRecord {
+  taskId: string;
+  threadId: string;
+  phase: WorkflowPhase;
+  subtaskId?: string;
+  provider: string;
+  mode?: string;
+  model?: string;
+  status: 'completed' | 'error' | 'stopped';
+  startedAt: number;
+  completedAt: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+  toolCalls: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byTask: Record<string, UsageTotals>;
+  byPhase: Record<string, UsageTotals>;
+  byProvider: Record<string, UsageTotals>;
+  byMode: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+function getUsageLogPath(projectDir: string): string {
+  return path.join(projectDir, '.code-automata', 'usage.ndjson');
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0, toolCalls: 0, runs: 0 };
+}
+
+export function addRunToTotals(totals: UsageTotals | undefined, run: AgentRunRecord): UsageTotals {
+  const base = totals ?? emptyUsageTotals();
+  return {
+    inputTokens: base.inputTokens + run.inputTokens,
+    outputTokens: base.outputTokens + run.outputTokens,
+    costUsd: base.costUsd + run.costUsd,
+    durationMs: base.durationMs + run.durationMs,
+    toolCalls: base.toolCalls + run.toolCalls,
+    runs: base.runs + 1,
+  };
+}
+
+/**
+ * Append the run to the project log and add it to the task (and subtask) totals
+ */
+export async function recordAgentRun(run: AgentRunRecord, projectDir: string): Promise<void> {
+  const logPath = getUsageLogPath(projectDir);
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  await fs.appendFile(logPath, JSON.stringify(run) + '\n', 'utf-8');
+
+  await getTaskPersistence(projectDir).updateTask(run.taskId, (task) => {
+    const usage = task.usage ?? { total: emptyUsageTotals(), byPhase: {} };
+    task.usage = {
+      total: addRunToTotals(usage.total, run),
+      byPhase: { ...usage.byPhase, [run.phase]: addRunToTotals(usage.byPhase[run.phase], run) },
+    };
+    if (run.subtaskId) {
+      task.subtasks = task.subtasks.map((s) =>
+        s.id === run.subtaskId ? { ...s, usage: addRunToTotals(s.usage, run) } : s
+      );
+    }
+  });
+}
+
+/**
+ * Read recorded runs, optionally limited to one task and/or runs finished after `since`
+ */
+export async function readAgentRuns(
+  projectDir: string,
+  filter: { taskId?: string; since?: number } = {}
+): Promise<AgentRunRecord[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getUsageLogPath(projectDir), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const runs: AgentRunRecord[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const run = JSON.parse(line) as AgentRunRecord;
+      if (filter.taskId && run.taskId !== filter.taskId) continue;
+      if (filter.since && run.completedAt < filter.since) continue;
+      runs.push(run);
+    } catch {
+      // Skip partial lines
+    }
+  }
+  return runs;
+}
+
+/**
+ * Aggregate runs by task, phase, provider, mode and model
+ */
+export function summarizeAgentRuns(runs: AgentRunRecord[]): UsageSummary {
+  const summary: UsageSummary = {
+    total: emptyUsageTotals(),
+    byTask: {},
+    byPhase: {},
+    byProvider: {},
+    byMode: {},
+    byModel: {},
+  };
+
+  const add = (group: Record<string, UsageTotals>, key: string, run: AgentRunRecord) => {
+    group[key] = addRunToTotals(group[key], run);
+  };
+
+  for (const run of runs) {
+    summary.total = addRunToTotals(summary.total, run);
+    add(summary.byTask, run.taskId, run);
+    add(summary.byPhase, run.phase, run);
+    add(summary.byProvider, run.provider, run);
+    add(summary.byMode, run.mode ?? 'default', run);
+    add(summary.byModel, run.model ?? 'unknown', run);
+  }
+  return summary;
+}
@@ -0,0 +1,180 @@
+/**
+ * Verification commands (local dev)
+ *
+ * Deterministic checks (lint, typecheck, tests, build...) declared by the project in
+ * `.code-automata/verification.json` and run by the orchestrator itself in the task's
+ * worktree, so AI Review does not rely on the QA agent's word:
+ *
+ * { "commands": [{ "name": "typecheck", "command": "npx tsc --noEmit",
+ *                  "timeoutSeconds": 600, "expectedExitCode": 0 }] }
+ *
+ * They run before the QA agents (after development) and after every QA run; a task only
+ * moves from AI Review to Human Review when the last run passed. Commands run through the
+ * shell with CI=true so test runners don't start in watch mode.
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import type { VerificationResult, VerificationRun } from '@/lib/tasks/schema';
+import { stopCommand } from '@/lib/process';
+
+export interface VerificationCommand {
+  name: string;
+  command: string;
+  timeoutSeconds: number;
+  expectedExitCode: number;
+}
+
+export const DEFAULT_VERIFICATION_TIMEOUT_SECONDS = 600;
+
+const OUTPUT_TAIL_LINES = 40;
+const MAX_LOGGED_OUTPUT = 200_000;
+
+function getConfigPath(projectDir: string): string {
+  return path.join(projectDir, '.code-automata', 'verification.json');
+}
+
+/**
+ * Load the project's verification commands (empty when not configured; invalid entries are
+ * skipped with a warning)
+ */
+export async function loadVerificationCommands(projectDir: string): Promise<VerificationCommand[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getConfigPath(projectDir), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as { commands?: unknown };
+    if (!Array.isArray(parsed.commands)) return [];
+    const commands: VerificationCommand[] = [];
+    for (const entry of parsed.commands) {
+      const c = (entry ?? {}) as Record<string, unknown>;
+      if (typeof c.command !== 'string' || !c.command.trim()) {
+        console.warn('[verification] Skipping entry without a command:', entry);
+        continue;
+      }
+      const timeout = Number(c.timeoutSeconds);
+      const exitCode = Number(c.expectedExitCode);
+      commands.push({
+        name: typeof c.name === 'string' && c.name.trim() ? c.name : c.command,
+        command: c.command,
+        timeoutSeconds:
+          Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_VERIFICATION_TIMEOUT_SECONDS,
+        expectedExitCode: Number.isInteger(exitCode) ? exitCode : 0,
+      });
+    }
+    return commands;
+  } catch (error) {
+    console.warn('[verification] Ignoring invalid verification.json:', error);
+    return [];
+  }
+}
+
+/**
+ * Run one verification command; resolves with its result and full output
+ */
+export function runVerificationCommand(
+  command: VerificationCommand,
+  cwd: string
+): Promise<{ result: VerificationResult; output: string }> {
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    let output = '';
+    let timedOut = false;
+    const finish = (exitCode: number | null) => {
+      clearTimeout(timer);
+      const passed = !timedOut && exitCode === command.expectedExitCode;
+      resolve({
+        output,
+        result: {
+          name: command.name,
+          command: command.command,
+          exitCode,
+          expectedExitCode: command.expectedExitCode,
+          timedOut,
+          durationMs: Date.now() - startedAt,
+          passed,
+          outputTail: output.trimEnd().split('\n').slice(-OUTPUT_TAIL_LINES).join('\n'),
+        },
+      });
+    };
+
+    const child = spawn(command.command, {
+      cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, CI: 'true' },
+    });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stopCommand(process.platform !== 'win32' ? child.pid : undefined, () => child.kill());
+    }, command.timeoutSeconds * 1000);
+
+    child.stdout?.on('data', (chunk) => (output += chunk.toString()));
+    child.stderr?.on('data', (chunk) => (output += chunk.toString()));
+    child.on('error', (err) => {
+      output += `\n${err.message}`;
+      finish(null);
+    });
+    child.on('close', (code) => finish(code));
+  });
+}
+
+/**
+ * Run all verification commands in order (all of them, so the log shows every failure) and
+ * append their output to the logs. Returns undefined when the project has none.
+ */
+export async function runVerification(
+  projectDir: string,
+  workingDir: string,
+  stage: VerificationRun['stage'],
+  logsPath: string
+): Promise<VerificationRun | undefined> {
+  const commands = await loadVerificationCommands(projectDir);
+  if (commands.length === 0) return undefined;
+
+  const startedAt = Date.now();
+  await fs.appendFile(
+    logsPath,
+    `\n${'='.repeat(80)}\n[Verification - ${stage === 'after_dev' ? 'after development' : 'after QA'}] ${commands.length} command(s)\n${'='.repeat(80)}\n`,
+    'utf-8'
+  );
+
+  const results: VerificationResult[] = [];
+  for (const command of commands) {
+    await fs.appendFile(logsPath, `\n[Verify: ${command.name}] $ ${command.command}\n`, 'utf-8');
+    const { result, output } = await runVerificationCommand(command, workingDir);
+    results.push(result);
+    await fs.appendFile(
+      logsPath,
+      `${output.length > MAX_LOGGED_OUTPUT ? `...(truncated)\n${output.slice(-MAX_LOGGED_OUTPUT)}` : output}\n` +
+        `[Verify: ${command.name}] ${result.passed ? 'PASSED' : 'FAILED'} - ${
+          result.timedOut
+            ? `timed out after ${command.timeoutSeconds}s`
+            : `exit code ${result.exitCode}`
+        }${result.passed ? '' : ` (expected ${command.expectedExitCode})`}, ${Math.round(result.durationMs / 1000)}s\n`,
+      'utf-8'
+    );
+  }
+
+  const run: VerificationRun = {
+    stage,
+    startedAt,
+    completedAt: Date.now(),
+    passed: results.every((r) => r.passed),
+    results,
+  };
+  const failed = results.filter((r) => !r.passed).map((r) => r.name);
+  await fs.appendFile(
+    logsPath,
+    `\n[Verification ${run.passed ? 'Passed' : `Failed: ${failed.join(', ')}`}]\n`,
+    'utf-8'
+  );
+  return run;
+}
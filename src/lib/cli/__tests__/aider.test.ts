@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseAiderLine, parseAiderUsage } from '../aider';
+
+describe('parseAiderLine', () => {
+  it('maps applied edits to completed edit_file tool events', () => {
+    expect(parseAiderLine('Applied edit to src/app/page.tsx')).toEqual({
+      type: 'tool',
+      data: { tool: 'edit_file', status: 'completed', path: 'src/app/page.tsx' },
+    });
+  });
+
+  it('maps shell commands to started bash tool events', () => {
+    const parsed = parseAiderLine('Running npm test');
+    expect(parsed.type).toBe('tool');
+    expect(parsed.data).toMatchObject({ tool: 'bash', command: 'npm test' });
+  });
+
+  it('maps token/cost and banner lines to system messages', () => {
+    expect(parseAiderLine('Tokens: 2.1k sent, 312 received. Cost: $0.01 message.').type).toBe(
+      'system'
+    );
+    expect(parseAiderLine('Aider v0.82.0').type).toBe('system');
+  });
+
+  it('maps provider errors to error messages', () => {
+    expect(parseAiderLine('litellm.AuthenticationError: invalid x-api-key').type).toBe('error');
+  });
+
+  it('treats everything else as assistant text, preserving the raw line', () => {
+    expect(parseAiderLine('  {"subtasks": []}')).toEqual({
+      type: 'assistant',
+      data: { message: '  {"subtasks": []}' },
+    });
+  });
+});
+
+describe('parseAiderUsage', () => {
+  it('reads token counts with k/M suffixes and the per-message cost', () => {
+    expect(
+      parseAiderUsage('Tokens: 2.1k sent, 312 received. Cost: $0.01 message, $0.05 session.')
+    ).toEqual({ inputTokens: 2100, outputTokens: 312, costUsd: 0.01 });
+    expect(parseAiderUsage('Tokens: 1.2M sent, 4k received.')).toEqual({
+      inputTokens: 1_200_000,
+      outputTokens: 4000,
+    });
+  });
+
+  it('ignores other lines', () => {
+    expect(parseAiderUsage('Applied edit to src/app/page.tsx')).toBeUndefined();
+  });
+});
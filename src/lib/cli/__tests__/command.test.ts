@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  CommandTemplateAdapter,
+  renderArgTemplate,
+  expandEnvValue,
+  mapNdjsonEvent,
+} from '../command';
+import { validateCommandAdapterDefinition } from '../command-loader';
+
+describe('renderArgTemplate', () => {
+  it('replaces known placeholders and blanks unknown ones', () => {
+    expect(
+      renderArgTemplate('--model={{config.model}} {{ cwd }}{{missing}}', {
+        'config.model': 'gpt-4o',
+        cwd: '/tmp/wt',
+      })
+    ).toBe('--model=gpt-4o /tmp/wt');
+  });
+});
+
+describe('expandEnvValue', () => {
+  it('expands ${VAR} references from the environment', () => {
+    expect(expandEnvValue('Bearer ${TOKEN}', { TOKEN: 'abc' })).toBe('Bearer abc');
+    expect(expandEnvValue('${UNSET}', {})).toBe('');
+  });
+});
+
+describe('mapNdjsonEvent', () => {
+  const parser = {
+    format: 'ndjson' as const,
+    typeField: 'kind',
+    textField: 'payload.text',
+    typeMap: { message: 'assistant' as const, done: 'result' as const },
+  };
+
+  it('maps custom event types through typeMap and dot-path fields', () => {
+    expect(mapNdjsonEvent({ kind: 'message', payload: { text: 'hi' } }, parser)).toEqual({
+      type: 'assistant',
+      data: { message: 'hi' },
+      text: 'hi',
+    });
+    expect(mapNdjsonEvent({ kind: 'done', payload: { text: 'ok' } }, parser)?.type).toBe('result');
+  });
+
+  it('skips empty assistant events and falls back to system for unknown types', () => {
+    expect(mapNdjsonEvent({ kind: 'message', payload: {} }, parser)).toBeNull();
+    expect(mapNdjsonEvent({ kind: 'heartbeat' }, parser)?.type).toBe('system');
+  });
+});
+
+describe('validateCommandAdapterDefinition', () => {
+  it('accepts a minimal definition', () => {
+    const { definition, errors } = validateCommandAdapterDefinition({
+      name: 'my-agent',
+      command: 'my-agent',
+      args: ['run', '{{prompt}}'],
+      promptDelivery: 'argument',
+      output: { format: 'text' },
+    });
+    expect(errors).toEqual([]);
+    expect(definition?.name).toBe('my-agent');
+  });
+
+  it('reports every invalid field', () => {
+    const { definition, errors } = validateCommandAdapterDefinition({
+      name: 'Bad Name',
+      command: '',
+      args: 'run',
+      promptDelivery: 'pipe',
+      output: { format: 'xml' },
+    });
+    expect(definition).toBeNull();
+    expect(errors).toHaveLength(5);
+  });
+});
+
+describe('CommandTemplateAdapter', () => {
+  it('kills the process and removes the prompt file when the consumer stops early', async () => {
+    const adapter = new CommandTemplateAdapter({
+      name: 'slow',
+      command: 'sh',
+      args: ['-c', 'echo started; exec sleep 30', 'sh', '{{promptFile}}'],
+      promptDelivery: 'file',
+      output: { format: 'text' },
+    });
+    await adapter.initialize({ apiKey: '', cwd: os.tmpdir() });
+    const promptFile = path.join(os.tmpdir(), 'code-automata-command', 'early-stop.prompt.md');
+
+    for await (const message of adapter.execute({ prompt: 'hi', threadId: 'early-stop' })) {
+      if (message.type === 'assistant') {
+        await expect(fs.access(promptFile)).resolves.toBeUndefined();
+        break; // e.g. the manager halting a run over budget
+      }
+    }
+
+    await expect(fs.access(promptFile)).rejects.toThrow();
+    expect((adapter as unknown as { processes: Map<string, unknown> }).processes.size).toBe(0);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { StreamMessage } from '../base';
+import {
+  OpenAICompatibleAdapter,
+  parseSSEBuffer,
+  resolveWorkspacePath,
+} from '../openai-compatible';
+
+function sse(chunks: unknown[]): string {
+  return chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+}
+
+describe('resolveWorkspacePath', () => {
+  let root: string;
+  let outside: string;
+
+  beforeAll(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-path-')));
+    outside = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-outside-'));
+    await fs.symlink(outside, path.join(root, 'link'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+  });
+
+  it('resolves relative paths inside the root and rejects escapes', async () => {
+    await expect(resolveWorkspacePath(root, 'src/a.ts')).resolves.toBe(path.join(root, 'src/a.ts'));
+    await expect(resolveWorkspacePath(root, '..foo')).resolves.toBe(path.join(root, '..foo'));
+    await expect(resolveWorkspacePath(root, '../etc/passwd')).rejects.toThrow(/outside/);
+    await expect(resolveWorkspacePath(root, '/etc/passwd')).rejects.toThrow(/outside/);
+  });
+
+  it('follows symlinks before checking the root', async () => {
+    await expect(resolveWorkspacePath(root, 'link/secret.txt')).rejects.toThrow(/outside/);
+    await expect(resolveWorkspacePath(root, 'link/new/dir/file.txt')).rejects.toThrow(/outside/);
+  });
+});
+
+describe('parseSSEBuffer', () => {
+  it('returns complete data payloads and keeps the partial remainder', () => {
+    expect(parseSSEBuffer('data: {"a":1}\n\ndata: [DONE]\n\ndata: {"b"')).toEqual({
+      events: ['{"a":1}', '[DONE]'],
+      rest: 'data: {"b"',
+    });
+  });
+});
+
+describe('OpenAICompatibleAdapter against a stub server', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let workDir: string;
+  const requests: Array<{ messages: Array<{ role: string }>; tools: unknown[] }> = [];
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'openai-compatible-test-'));
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        const parsed = JSON.parse(body);
+        requests.push(parsed);
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const hasToolResult = parsed.messages.some((m: { role: string }) => m.role === 'tool');
+        const prompt: string = parsed.messages[1]?.content ?? '';
+        if (!hasToolResult && prompt.startsWith('RUN: ')) {
+          res.end(
+            sse([
+              {
+                choices: [
+                  {
+                    delta: {
+                      tool_calls: [
+                        {
+                          index: 0,
+                          id: 'call_run',
+                          function: {
+                            name: 'run_command',
+                            arguments: JSON.stringify({ command: prompt.slice(5) }),
+                          },
+                        },
+                      ],
+                    },
+                  },
+                ],
+              },
+            ])
+          );
+        } else if (!hasToolResult) {
+          // Tool call arguments split across chunks, as real servers do
+          res.end(
+            sse([
+              { choices: [{ delta: { content: 'Creating the file.\n' } }] },
+              {
+                choices: [
+                  {
+                    delta: {
+                      tool_calls: [
+                        {
+                          index: 0,
+                          id: 'call_1',
+                          function: { name: 'write_file', arguments: '{"path":"hello.txt",' },
+                        },
+                      ],
+                    },
+                  },
+                ],
+              },
+              {
+                choices: [
+                  {
+                    delta: {
+                      tool_calls: [{ index: 0, function: { arguments: '"content":"hi"}' } }],
+                    },
+                  },
+                ],
+              },
+            ])
+          );
+        } else {
+          res.end(
+            sse([
+              { choices: [{ delta: { content: 'Done: ' } }] },
+              { choices: [{ delta: { content: 'wrote hello.txt' } }] },
+            ])
+          );
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('streams content, runs tool calls in the worktree, and returns the final answer', async () => {
+    const adapter = new OpenAICompatibleAdapter();
+    await adapter.initialize({ apiKey: '', cwd: workDir, baseUrl, model: 'stub' } as never);
+    const threadId = await adapter.createThread(workDir);
+
+    const messages: StreamMessage[] = [];
+    for await (const msg of adapter.execute({ prompt: 'Write hello.txt', threadId })) {
+      messages.push(msg);
+    }
+
+    expect(await fs.readFile(path.join(workDir, 'hello.txt'), 'utf-8')).toBe('hi');
+    expect(messages.map((m) => m.type)).toEqual([
+      'system',
+      'assistant',
+      'tool',
+      'tool',
+      'assistant',
+      'result',
+    ]);
+    expect(messages[3].data).toMatchObject({ tool: 'write_file', status: 'completed' });
+    expect(messages[5].data).toMatchObject({ success: true, output: 'Done: wrote hello.txt' });
+    expect(requests).toHaveLength(2);
+    expect(requests[1].messages.map((m) => m.role)).toEqual([
+      'system',
+      'user',
+      'assistant',
+      'tool',
+    ]);
+  });
+
+  it('reports an error when the turns run out while the model still calls tools', async () => {
+    const adapter = new OpenAICompatibleAdapter();
+    await adapter.initialize({
+      apiKey: '',
+      cwd: workDir,
+      baseUrl,
+      model: 'stub',
+      maxTurns: 1,
+    } as never);
+
+    const messages: StreamMessage[] = [];
+    for await (const msg of adapter.execute({ prompt: 'Write hello.txt' })) {
+      messages.push(msg);
+    }
+
+    const last = messages[messages.length - 1];
+    expect(last.type).toBe('error');
+    expect(last.data).toMatchObject({ error: expect.stringContaining('1 tool turns') });
+  });
+
+  it('times out commands together with the processes they started', async () => {
+    const adapter = new OpenAICompatibleAdapter();
+    await adapter.initialize({
+      apiKey: '',
+      cwd: workDir,
+      baseUrl,
+      model: 'stub',
+      commandTimeoutMs: 300,
+    } as never);
+
+    const startedAt = Date.now();
+    const messages: StreamMessage[] = [];
+    // `sleep` is a grandchild of the adapter that keeps the output pipe open
+    for await (const msg of adapter.execute({ prompt: 'RUN: sleep 30 | cat' })) {
+      messages.push(msg);
+    }
+
+    expect(Date.now() - startedAt).toBeLessThan(10_000);
+    const run = messages.find(
+      (m) => m.type === 'tool' && (m.data as { status: string }).status === 'failed'
+    );
+    expect((run?.data as { output: string }).output).toContain('timed out after 300ms');
+  });
+
+  it('only offers read-only tools during planning', async () => {
+    requests.length = 0;
+    const adapter = new OpenAICompatibleAdapter();
+    await adapter.initialize({ apiKey: '', cwd: workDir, baseUrl, model: 'stub' } as never);
+
+    const messages: StreamMessage[] = [];
+    for await (const msg of adapter.execute({ prompt: 'plan', isQuestionGeneration: true })) {
+      messages.push(msg);
+    }
+
+    const toolNames = (requests[0].tools as Array<{ function: { name: string } }>).map(
+      (t) => t.function.name
+    );
+    expect(toolNames).toEqual(['read_file', 'list_dir']);
+    expect(
+      messages.find((m) => m.type === 'tool' && (m.data as { status: string }).status === 'failed')
+    ).toBeTruthy();
+  });
+
+  it('reports usage with the subtask generation result', async () => {
+    const adapter = new OpenAICompatibleAdapter();
+    await adapter.initialize({ apiKey: '', cwd: workDir, baseUrl, model: 'stub' } as never);
+
+    const messages: StreamMessage[] = [];
+    for await (const msg of adapter.execute({ prompt: 'subtasks', isSubtaskGeneration: true })) {
+      messages.push(msg);
+    }
+
+    const result = messages[messages.length - 1];
+    expect(result.type).toBe('result');
+    expect(result.usage).toMatchObject({ model: 'stub' });
+  });
+});
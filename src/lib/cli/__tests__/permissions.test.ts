@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import type { PermissionRule } from '../base';
+import { checkPermission, isReadOnly, matchesPermissionPattern } from '../permissions';
+
+describe('matchesPermissionPattern', () => {
+  it('lets ** span directories and keeps * within a segment', () => {
+    expect(matchesPermissionPattern('src/**', 'src/lib/a.ts', 'path')).toBe(true);
+    expect(matchesPermissionPattern('**/*.env', '.env', 'path')).toBe(true);
+    expect(matchesPermissionPattern('**/*.env', 'config/prod.env', 'path')).toBe(true);
+    expect(matchesPermissionPattern('src/*.ts', 'src/lib/a.ts', 'path')).toBe(false);
+  });
+
+  it('matches tool names case-insensitively', () => {
+    expect(matchesPermissionPattern('bash', 'Bash', 'tool')).toBe(true);
+  });
+});
+
+describe('checkPermission', () => {
+  const rules: PermissionRule[] = [
+    { kind: 'command', action: 'git push*', allowed: false },
+    { kind: 'path', action: 'src/**', allowed: true },
+  ];
+
+  it('denies matching commands, including inside compound commands', () => {
+    expect(checkPermission(rules, 'command', 'git push origin main').allowed).toBe(false);
+    expect(checkPermission(rules, 'command', 'npm test && git push').rule?.action).toBe(
+      'git push*'
+    );
+    expect(checkPermission(rules, 'command', 'git status').allowed).toBe(true);
+  });
+
+  it('requires a match when an allow list exists', () => {
+    expect(checkPermission(rules, 'path', 'src/index.ts').allowed).toBe(true);
+    expect(checkPermission(rules, 'path', 'package.json')).toEqual({ allowed: false });
+  });
+
+  it('treats a deny-all path rule as read-only', () => {
+    expect(isReadOnly([{ kind: 'path', action: '**', allowed: false }])).toBe(true);
+    expect(isReadOnly(rules)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CLIFactory } from '../factory';
+import { loadAdapterPlugins, validateCLIAdapter } from '../plugins';
+
+const VALID_PLUGIN = `
+export default class EchoAdapter {
+  name = 'echo';
+  displayName = 'Echo';
+  getConfigSchema() { return { fields: [{ name: 'greeting', label: 'Greeting', type: 'text' }] }; }
+  async initialize() {}
+  async *execute(request) {
+    yield { type: 'result', timestamp: Date.now(), data: { output: request.prompt }, threadId: 't' };
+  }
+  async createThread() { return 't'; }
+  async resumeThread() {}
+  async stopThread() {}
+  getCapabilities() {
+    return { supportsThreads: false, supportsModes: [], maxConcurrentAgents: 1, supportsPermissions: false };
+  }
+}
+`;
+
+const INVALID_PLUGIN = `
+module.exports = () => ({ name: 'broken', displayName: 'Broken', execute() {} });
+`;
+
+describe('validateCLIAdapter', () => {
+  it('lists missing contract members', () => {
+    const errors = validateCLIAdapter({ name: 'Bad Name', displayName: '' });
+    expect(errors).toContain('"displayName" must be a non-empty string');
+    expect(errors).toContain('"execute" must be a function');
+    expect(errors.some((e) => e.startsWith('"name"'))).toBe(true);
+  });
+});
+
+describe('loadAdapterPlugins', () => {
+  let projectDir: string;
+  let userDir: string;
+  const previousUserDir = process.env.CODE_AUTOMATA_PLUGINS_DIR;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'plugins-project-'));
+    userDir = await fs.mkdtemp(path.join(os.tmpdir(), 'plugins-user-'));
+    process.env.CODE_AUTOMATA_PLUGINS_DIR = userDir;
+
+    const pluginsDir = path.join(projectDir, '.code-automata', 'plugins');
+    await fs.mkdir(path.join(pluginsDir, 'echo'), { recursive: true });
+    await fs.writeFile(path.join(pluginsDir, 'echo', 'index.mjs'), VALID_PLUGIN);
+    await fs.writeFile(path.join(userDir, 'broken.cjs'), INVALID_PLUGIN);
+  });
+
+  afterAll(async () => {
+    if (previousUserDir === undefined) delete process.env.CODE_AUTOMATA_PLUGINS_DIR;
+    else process.env.CODE_AUTOMATA_PLUGINS_DIR = previousUserDir;
+    await fs.rm(projectDir, { recursive: true, force: true });
+    await fs.rm(userDir, { recursive: true, force: true });
+  });
+
+  it('registers valid plugins and reports invalid ones', async () => {
+    const { plugins, errors } = await loadAdapterPlugins(projectDir);
+
+    expect(plugins.map((p) => [p.name, p.scope])).toEqual([['echo', 'project']]);
+    expect(CLIFactory.isProviderAvailable('echo')).toBe(true);
+    expect(CLIFactory.getProvider('echo')?.source).toBe('plugin');
+    expect(CLIFactory.create('echo').getConfigSchema().fields[0].name).toBe('greeting');
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].modulePath).toMatch(/broken\.cjs$/);
+    expect(CLIFactory.isProviderAvailable('broken')).toBe(false);
+  });
+
+  it('unregisters plugins that were removed', async () => {
+    await fs.rm(path.join(projectDir, '.code-automata', 'plugins', 'echo'), { recursive: true });
+    await loadAdapterPlugins(projectDir);
+    expect(CLIFactory.isProviderAvailable('echo')).toBe(false);
+  });
+
+  it("keeps plugins registered by another project's load", async () => {
+    const otherDir = await fs.mkdtemp(path.join(os.tmpdir(), 'plugins-other-'));
+    try {
+      const otherPlugins = path.join(otherDir, '.code-automata', 'plugins');
+      await fs.mkdir(otherPlugins, { recursive: true });
+      await fs.writeFile(path.join(otherPlugins, 'echo.mjs'), VALID_PLUGIN);
+
+      await loadAdapterPlugins(otherDir);
+      await loadAdapterPlugins(projectDir);
+      expect(CLIFactory.isProviderAvailable('echo')).toBe(true);
+
+      await fs.rm(path.join(otherPlugins, 'echo.mjs'));
+      await loadAdapterPlugins(otherDir);
+      expect(CLIFactory.isProviderAvailable('echo')).toBe(false);
+    } finally {
+      await fs.rm(otherDir, { recursive: true, force: true });
+    }
+  });
+});
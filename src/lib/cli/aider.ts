@@ -0,0 +1,455 @@
+/**
+ * Aider CLI Adapter
+ *
+ * Runs aider (https://aider.chat) non-interactively inside the task worktree and maps its
+ * plain-text output into Code-Automata stream messages.
+ *
+ * Aider CLI flags used:
+ * - `--message-file <path>`: Run a single prompt and exit (non-interactive)
+ * - `--yes-always`: Auto-confirm every question (file adds, shell commands)
+ * - `--no-pretty` / `--no-fancy-input`: Plain output suitable for line parsing
+ * - `--no-auto-commits`: Code-Automata owns the git history of the worktree
+ * - `--edit-format ask`: Read-only mode for planning, subtask generation and read-only policies
+ * - `--no-suggest-shell-commands`: When the permission policy restricts shell commands
+ * - `--chat-history-file <path>` / `--restore-chat-history`: Per-thread conversation history
+ * - `--model <model>` / `--edit-format <format>`: Model and edit format selection
+ */
+
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  CLIAdapter,
+  CLIConfig,
+  CLICapabilities,
+  CLIConfigSchema,
+  ExecuteRequest,
+  ResumeThreadOptions,
+  StreamMessage,
+  UsageReport,
+} from './base';
+import { buildPromptWithContext } from './context';
+import { checkPermission, isReadOnly, rulesOfKind } from './permissions';
+
+const MODEL_OPTIONS = [
+  { value: 'sonnet', label: 'Claude Sonnet' },
+  { value: 'opus', label: 'Claude Opus' },
+  { value: 'haiku', label: 'Claude Haiku' },
+  { value: 'gpt-4o', label: 'GPT-4o' },
+  { value: 'o3-mini', label: 'o3-mini' },
+  { value: 'deepseek', label: 'DeepSeek Chat' },
+  { value: 'gemini', label: 'Gemini' },
+];
+
+const EDIT_FORMAT_OPTIONS = [
+  { value: 'auto', label: 'Model default' },
+  { value: 'diff', label: 'Diff (search/replace blocks)' },
+  { value: 'whole', label: 'Whole file' },
+  { value: 'udiff', label: 'Unified diff' },
+  { value: 'diff-fenced', label: 'Diff (fenced)' },
+  { value: 'architect', label: 'Architect (two-model)' },
+];
+
+type AiderConfig = CLIConfig & { model?: string; editFormat?: string };
+
+/**
+ * Classify a single line of aider output.
+ * Aider has no structured output mode, so we recognise its well-known status lines
+ * and treat everything else as assistant text.
+ */
+export function parseAiderLine(line: string): { type: StreamMessage['type']; data: unknown } {
+  const trimmed = line.trim();
+
+  const applied = trimmed.match(/^Applied edit to (.+)$/);
+  if (applied) {
+    return {
+      type: 'tool',
+      data: { tool: 'edit_file', status: 'completed', path: applied[1].trim() },
+    };
+  }
+
+  const created = trimmed.match(/^Creating empty file (.+)$/);
+  if (created) {
+    return {
+      type: 'tool',
+      data: { tool: 'create_file', status: 'completed', path: created[1].trim() },
+    };
+  }
+
+  const added = trimmed.match(/^Added (.+) to the chat\.?$/);
+  if (added) {
+    return { type: 'tool', data: { tool: 'read_file', status: 'completed', path: added[1] } };
+  }
+
+  const shell = trimmed.match(/^Running (.+)$/);
+  if (shell) {
+    return { type: 'tool', data: { tool: 'bash', status: 'started', command: shell[1] } };
+  }
+
+  if (
+    /^Tokens: /.test(trimmed) ||
+    /^Aider v\d/.test(trimmed) ||
+    /^(Model|Git repo|Repo-map|Main model|Weak model|Editor model): /.test(trimmed)
+  ) {
+    return { type: 'system', data: { message: trimmed } };
+  }
+
+  if (/^(litellm\.\w+Error|Error: |API Error)/.test(trimmed)) {
+    return { type: 'error', data: { error: trimmed } };
+  }
+
+  return { type: 'assistant', data: { message: line } };
+}
+
+/**
+ * Parse aider's per-message token report, e.g.
+ * "Tokens: 2.1k sent, 312 received. Cost: $0.01 message, $0.05 session."
+ * Each line covers one exchange, so it is reported as an increment.
+ */
+export function parseAiderUsage(line: string): UsageReport | undefined {
+  const match = line.trim().match(/^Tokens: ([\d.,]+)([kM]?) sent, ([\d.,]+)([kM]?) received/);
+  if (!match) return undefined;
+
+  const count = (value: string, suffix: string) => {
+    const scale = suffix === 'k' ? 1_000 : suffix === 'M' ? 1_000_000 : 1;
+    return Math.round(parseFloat(value.replace(/,/g, '')) * scale);
+  };
+  const cost = line.match(/Cost: \$([\d.,]+) message/);
+
+  return {
+    inputTokens: count(match[1], match[2]),
+    outputTokens: count(match[3], match[4]),
+    ...(cost ? { costUsd: parseFloat(cost[1].replace(/,/g, '')) } : {}),
+  };
+}
+
+export class AiderAdapter implements CLIAdapter {
+  name = 'aider';
+  displayName = 'Aider (CLI)';
+
+  private config: AiderConfig | null = null;
+  private threadWorkingDirs = new Map<string, string>();
+  private processes = new Map<string, ChildProcessWithoutNullStreams>();
+
+  getConfigSchema(): CLIConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'model',
+          label: 'Model',
+          type: 'select',
+          options: MODEL_OPTIONS,
+          default: 'sonnet',
+          description: 'Model alias passed to aider via --model (API keys are read from env)',
+        },
+        {
+          name: 'editFormat',
+          label: 'Edit Format',
+          type: 'select',
+          options: EDIT_FORMAT_OPTIONS,
+          default: 'auto',
+          description: 'How aider asks the model to express file edits',
+        },
+      ],
+    };
+  }
+
+  async initialize(config: CLIConfig): Promise<void> {
+    this.config = config;
+    console.log('[AiderAdapter] Initialized with cwd:', config.cwd);
+  }
+
+  async *execute(request: ExecuteRequest): AsyncIterable<StreamMessage> {
+    if (!this.config) {
+      throw new Error('AiderAdapter not initialized');
+    }
+
+    const threadId = request.threadId || this.generateThreadId();
+    const effectiveCwd = this.threadWorkingDirs.get(threadId) ?? this.config.cwd;
+
+    // Detect phase from request
+    const isPlanningPhase =
+      request.isQuestionGeneration ||
+      request.prompt.includes('PLANNING PHASE') ||
+      request.prompt.includes('Question Generation');
+
+    const isSubtaskGeneration =
+      request.isSubtaskGeneration || request.prompt.includes('SUBTASK GENERATION');
+
+    // Aider keeps its chat history in the repo root by default; keep it outside the worktree
+    const historyFile = this.getHistoryFile(threadId);
+    const hasHistory = await fs
+      .stat(historyFile)
+      .then(() => true)
+      .catch(() => false);
+
+    // Long prompts are passed through a file to avoid argv length limits
+    const promptFile = path.join(path.dirname(historyFile), `${threadId}.prompt.md`);
+    await fs.mkdir(path.dirname(promptFile), { recursive: true });
+    await fs.writeFile(
+      promptFile,
+      buildPromptWithContext(request.prompt, request.context),
+      'utf-8'
+    );
+
+    const model = this.config.model || 'sonnet';
+    const readOnly = isPlanningPhase || isSubtaskGeneration || isReadOnly(request.permissions);
+    const editFormat = readOnly ? 'ask' : this.config.editFormat;
+
+    const command = process.env.AIDER_CMD || 'aider';
+    const args: string[] = [
+      '--message-file',
+      promptFile,
+      '--yes-always',
+      '--no-pretty',
+      '--no-fancy-input',
+      '--no-check-update',
+      '--no-show-release-notes',
+      '--no-auto-commits',
+      '--no-gitignore',
+      '--analytics-disable',
+      '--chat-history-file',
+      historyFile,
+      '--input-history-file',
+      path.join(path.dirname(historyFile), `${threadId}.input.history`),
+      '--model',
+      model,
+    ];
+
+    if (editFormat && editFormat !== 'auto') {
+      args.push('--edit-format', editFormat);
+    }
+
+    if (hasHistory && request.threadId) {
+      args.push('--restore-chat-history');
+    }
+
+    // Aider cannot filter individual commands: an allow list or a blanket deny disables them,
+    // narrower denies are left to the manager's audit
+    const commandRules = rulesOfKind(request.permissions, 'command');
+    if (
+      commandRules.some((rule) => rule.allowed) ||
+      !checkPermission(request.permissions, 'command', 'sh').allowed ||
+      !checkPermission(request.permissions, 'tool', 'shell').allowed
+    ) {
+      args.push('--no-suggest-shell-commands');
+    }
+
+    console.log('[AiderAdapter] Spawning aider:', command, args.join(' '));
+
+    yield {
+      type: 'system',
+      timestamp: Date.now(),
+      data: {
+        message: 'Aider started',
+        command: `${command} ${args.join(' ')}`,
+        cwd: effectiveCwd,
+        mode: readOnly ? 'ask' : 'code',
+      },
+      threadId,
+    };
+
+    let child: ChildProcessWithoutNullStreams;
+    try {
+      child = spawn(command, args, {
+        cwd: effectiveCwd,
+        shell: false,
+        env: { ...process.env, AIDER_CHECK_UPDATE: 'false' },
+      });
+    } catch (error) {
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: error instanceof Error ? error.message : 'Failed to spawn aider' },
+        threadId,
+      };
+      return;
+    }
+
+    this.processes.set(threadId, child);
+    child.stdin.end(); // Never wait for interactive input
+
+    let accumulatedOutput = '';
+    let accumulatedStderr = '';
+    let spawnError: Error | null = null;
+    let buffer = '';
+
+    child.on('error', (err) => {
+      spawnError = err;
+    });
+    child.stderr.on('data', (chunk) => {
+      accumulatedStderr += chunk.toString();
+    });
+
+    const exitPromise: Promise<number> = new Promise((resolve) => {
+      child.on('close', (code) => resolve(code ?? 0));
+    });
+
+    try {
+      for await (const chunk of child.stdout) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const parsed = parseAiderLine(line);
+          if (parsed.type === 'assistant') {
+            accumulatedOutput += line + '\n';
+          }
+          const usage = parseAiderUsage(line);
+          yield {
+            type: parsed.type,
+            timestamp: Date.now(),
+            data: parsed.data,
+            threadId,
+            ...(usage ? { usage: { ...usage, model } } : {}),
+          };
+        }
+      }
+      if (buffer.trim()) {
+        accumulatedOutput += buffer;
+        yield { type: 'assistant', timestamp: Date.now(), data: { message: buffer }, threadId };
+      }
+    } catch (error) {
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: error instanceof Error ? error.message : 'Error reading aider output' },
+        threadId,
+      };
+      this.processes.delete(threadId);
+      return;
+    }
+
+    const exitCode = await exitPromise;
+    this.processes.delete(threadId);
+    await fs.unlink(promptFile).catch(() => {});
+
+    if (spawnError || exitCode !== 0) {
+      const reason = spawnError
+        ? `Failed to run aider: ${(spawnError as Error).message}`
+        : `Aider exited with code ${exitCode}`;
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: {
+          error: accumulatedStderr.trim()
+            ? `${reason}.\n\nError output:\n${accumulatedStderr.trim()}`
+            : reason,
+          output: accumulatedOutput.trim(),
+          stderr: accumulatedStderr.trim(),
+          exitCode,
+        },
+        threadId,
+      };
+      return;
+    }
+
+    if (isSubtaskGeneration) {
+      yield* this.validateSubtasks(accumulatedOutput, threadId);
+      return;
+    }
+
+    yield {
+      type: 'result',
+      timestamp: Date.now(),
+      data: {
+        success: true,
+        message: 'Aider completed successfully',
+        output: accumulatedOutput.trim(),
+        exitCode,
+      },
+      threadId,
+    };
+  }
+
+  async createThread(workingDir: string): Promise<string> {
+    const threadId = this.generateThreadId();
+    this.threadWorkingDirs.set(threadId, workingDir);
+    console.log('[AiderAdapter] Created thread:', threadId, 'in', workingDir);
+    return threadId;
+  }
+
+  async resumeThread(threadId: string, options?: ResumeThreadOptions): Promise<void> {
+    console.log('[AiderAdapter] resumeThread called for:', threadId);
+    // Chat history lives in a per-thread file; resume is handled via --restore-chat-history
+    if (options?.workingDir) this.threadWorkingDirs.set(threadId, options.workingDir);
+  }
+
+  async stopThread(threadId: string): Promise<void> {
+    const proc = this.processes.get(threadId);
+    if (!proc) {
+      console.log('[AiderAdapter] No process found for thread:', threadId);
+      return;
+    }
+
+    console.log('[AiderAdapter] Stopping thread:', threadId);
+    try {
+      proc.kill('SIGTERM');
+    } catch (error) {
+      console.error('[AiderAdapter] Failed to kill process:', error);
+    } finally {
+      this.processes.delete(threadId);
+    }
+  }
+
+  getCapabilities(): CLICapabilities {
+    return {
+      supportsThreads: true,
+      supportsModes: ['code', 'ask'],
+      maxConcurrentAgents: 12,
+      supportsPermissions: true,
+    };
+  }
+
+  /**
+   * Validate subtasks JSON once. The start-development route runs its own fix-agent
+   * loop, so a failed validation is reported and the raw output is still returned.
+   */
+  private async *validateSubtasks(output: string, threadId: string): AsyncIterable<StreamMessage> {
+    const { extractAndValidateJSON, validateSubtasks } =
+      await import('../validation/subtask-validator');
+
+    const { data: parsedData, error: parseError } = extractAndValidateJSON(output);
+    const validation = parseError ? null : validateSubtasks(parsedData);
+
+    yield {
+      type: 'validation',
+      timestamp: Date.now(),
+      data: {
+        attempt: 1,
+        success: !!validation?.valid,
+        error: parseError ?? undefined,
+        subtaskCount: parsedData?.subtasks?.length || 0,
+        errors: validation?.errors,
+        warnings: validation?.warnings,
+      },
+      threadId,
+    };
+
+    yield {
+      type: 'result',
+      timestamp: Date.now(),
+      data: {
+        success: true,
+        message: validation?.valid ? 'Subtasks validation passed' : 'Aider completed',
+        output: output.trim(),
+        subtasks: validation?.valid ? (parsedData?.subtasks ?? []) : undefined,
+      },
+      threadId,
+    };
+  }
+
+  /**
+   * Per-thread chat history file (outside the worktree so it never pollutes the branch)
+   */
+  private getHistoryFile(threadId: string): string {
+    return path.join(os.tmpdir(), 'code-automata-aider', `${threadId}.chat.history.md`);
+  }
+
+  private generateThreadId(): string {
+    return `aider-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
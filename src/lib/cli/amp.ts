@@ -19,6 +19,7 @@
 import { execute } from '@sourcegraph/amp-sdk';
 import type { AmpOptions } from '@sourcegraph/amp-sdk';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import {
   CLIAdapter,
@@ -26,9 +27,21 @@ import {
   CLICapabilities,
   CLIConfigSchema,
   ExecuteRequest,
+  ResumeThreadOptions,
   StreamMessage,
-  ContextData,
+  PermissionRule,
+  UsageReport,
 } from './base';
+import { buildPromptWithContext } from './context';
+import { isReadOnly, rulesOfKind } from './permissions';
+import { normalizeUsage } from './usage';
+
+type AmpPermission = {
+  tool: string;
+  action: 'allow' | 'reject';
+  matches?: Record<string, string>;
+  message?: string;
+};
 
 export class AmpAdapter implements CLIAdapter {
   name = 'amp';
@@ -36,6 +49,7 @@ export class AmpAdapter implements CLIAdapter {
 
   private config: CLIConfig | null = null;
   private activeThreads = new Map<string, string>();
+  private ampThreadIds = new Map<string, string>(); // Amp-native thread IDs for continue/resume
 
   getConfigSchema(): CLIConfigSchema {
     return {
@@ -83,7 +97,7 @@ export class AmpAdapter implements CLIAdapter {
 
     try {
       // Build prompt with context injection
-      let fullPrompt = this.buildPromptWithContext(request.prompt, request.context);
+      let fullPrompt = buildPromptWithContext(request.prompt, request.context);
 
       console.log('[AmpAdapter] Executing with mode:', this.config.mode);
       console.log('[AmpAdapter] Working directory:', effectiveCwd);
@@ -109,59 +123,31 @@ export class AmpAdapter implements CLIAdapter {
         mode: (this.config.mode || 'smart') as 'smart' | 'rush' | 'large',
       };
 
-      if (isPlanningPrompt) {
-        // Enforce read-only behavior during planning with an explicit permission ruleset.
-        // This prevents Amp from creating files (like ARCHITECTURE.md) before subtasks exist.
+      // Continue the Amp thread from a previous run of this thread (including after a restart)
+      const ampThreadId = this.ampThreadIds.get(threadId);
+      if (ampThreadId && request.threadId) {
+        options.continue = ampThreadId;
+      }
+
+      const ampPermissions = this.buildAmpPermissions(
+        request.permissions,
+        isPlanningPrompt,
+        effectiveCwd
+      );
+      if (ampPermissions) {
+        // Settings live outside the worktree so they never show up as agent changes
         const settingsFilePath = path.join(
-          effectiveCwd,
-          '.tmp',
-          `amp-planning-settings-${threadId}.json`
+          os.tmpdir(),
+          'code-automata-amp',
+          `amp-settings-${threadId}.json`
         );
         await fs.mkdir(path.dirname(settingsFilePath), { recursive: true });
         await fs.writeFile(
           settingsFilePath,
-          JSON.stringify(
-            {
-              'amp.permissions': [
-                // Allow read-only project exploration
-                { tool: 'Read', action: 'allow' },
-                { tool: 'glob', action: 'allow' },
-                { tool: 'Grep', action: 'allow' },
-
-                // Explicitly reject write/exec tools with a helpful message
-                {
-                  tool: 'create_file',
-                  action: 'reject',
-                  message:
-                    'Planning phase is read-only. Do not create files. Return ONLY valid JSON for the plan/questions.',
-                },
-                {
-                  tool: 'edit_file',
-                  action: 'reject',
-                  message:
-                    'Planning phase is read-only. Do not edit files. Return ONLY valid JSON for the plan/questions.',
-                },
-                {
-                  tool: 'Bash',
-                  action: 'reject',
-                  message:
-                    'Planning phase is read-only. Do not run Bash. Return ONLY valid JSON for the plan/questions.',
-                },
-
-                // Default: reject everything else (no prompts)
-                {
-                  tool: '*',
-                  action: 'reject',
-                  message:
-                    'Planning phase is read-only. Only use Read/glob/Grep. Return ONLY valid JSON.',
-                },
-              ],
-            },
-            null,
-            2
-          ),
+          JSON.stringify({ 'amp.permissions': ampPermissions }, null, 2),
           'utf-8'
         );
+        options.dangerouslyAllowAll = false;
         // Amp SDK supports loading a settings file per execution.
         (options as AmpOptions & { settingsFile?: string }).settingsFile = settingsFilePath;
       }
@@ -194,6 +180,8 @@ Rules:
       const messages = execute({ prompt: fullPrompt, options });
 
       let accumulatedOutput = '';
+      let model: string | undefined;
+      let usage: UsageReport | undefined;
 
       // Stream messages from SDK
       for await (const message of messages) {
@@ -213,6 +201,9 @@ Rules:
 
         if (message.type === 'system') {
           streamType = 'system';
+          if (message.session_id) {
+            this.ampThreadIds.set(threadId, message.session_id);
+          }
           data = {
             message: `System: session initialized`,
             sessionId: message.session_id,
@@ -222,7 +213,9 @@ Rules:
           // The SDK provides a structured Anthropic-style message payload.
           // For downstream validators/parsers, we only want the *raw text* (like Mock does),
           // not JSON-stringified message objects (which escape quotes and break JSON extraction).
-          const msg = (message as { message?: { content?: AmpAssistantContent[] } }).message;
+          const msg = (message as { message?: { content?: AmpAssistantContent[]; model?: string } })
+            .message;
+          if (msg?.model) model = msg.model;
           const content = Array.isArray(msg?.content) ? msg.content : [];
 
           const toolUses = content.filter((c: AmpAssistantContent) => c?.type === 'tool_use');
@@ -263,6 +256,8 @@ Rules:
           const resultOutput =
             resultMsg.result || resultMsg.message || resultMsg.output || 'Completed';
           accumulatedOutput += String(resultOutput) + '\n';
+          // Result messages carry the run's token usage
+          usage = normalizeUsage((message as { usage?: unknown }).usage, model);
           data = {
             success: !resultMsg.is_error,
             message: String(resultOutput),
@@ -278,6 +273,7 @@ Rules:
           timestamp: Date.now(),
           data,
           threadId,
+          ...(streamType === 'result' && usage ? { usage } : {}),
         };
       }
 
@@ -309,8 +305,10 @@ Rules:
     return threadId;
   }
 
-  async resumeThread(threadId: string): Promise<void> {
-    // Resuming is handled by passing threadId to execute()
+  async resumeThread(threadId: string, options?: ResumeThreadOptions): Promise<void> {
+    // Restore state lost on restart; continuing is handled by passing threadId to execute()
+    if (options?.workingDir) this.activeThreads.set(threadId, options.workingDir);
+    if (options?.resumeHandle) this.ampThreadIds.set(threadId, options.resumeHandle);
     const workingDir = this.activeThreads.get(threadId);
     console.log(
       '[AmpAdapter] Thread resume will be handled by execute():',
@@ -320,6 +318,10 @@ Rules:
     );
   }
 
+  getResumeHandle(threadId: string): string | undefined {
+    return this.ampThreadIds.get(threadId);
+  }
+
   async stopThread(threadId: string): Promise<void> {
     // SDK handles process cleanup automatically
     this.activeThreads.delete(threadId);
@@ -338,49 +340,131 @@ Rules:
   /**
    * Build prompt with context injection from memory system
    */
-  private buildPromptWithContext(prompt: string, context?: ContextData): string {
-    if (!context) {
-      return prompt;
+  /**
+   * Translate permission rules to an `amp.permissions` ruleset (first match wins).
+   * Planning and read-only policies use a fixed read-only ruleset.
+   */
+  private buildAmpPermissions(
+    rules: PermissionRule[] | undefined,
+    isPlanningPrompt: boolean,
+    cwd: string
+  ): AmpPermission[] | null {
+    if (isPlanningPrompt || isReadOnly(rules)) {
+      // Enforce read-only behavior during planning with an explicit permission ruleset.
+      // This prevents Amp from creating files (like ARCHITECTURE.md) before subtasks exist.
+      const reason = isPlanningPrompt
+        ? 'Planning phase is read-only.'
+        : 'This phase is read-only by project policy.';
+      return [
+        // Allow read-only project exploration
+        { tool: 'Read', action: 'allow' },
+        { tool: 'glob', action: 'allow' },
+        { tool: 'Grep', action: 'allow' },
+
+        // Explicitly reject write/exec tools with a helpful message
+        {
+          tool: 'create_file',
+          action: 'reject',
+          message: `${reason} Do not create files.${isPlanningPrompt ? ' Return ONLY valid JSON for the plan/questions.' : ''}`,
+        },
+        {
+          tool: 'edit_file',
+          action: 'reject',
+          message: `${reason} Do not edit files.${isPlanningPrompt ? ' Return ONLY valid JSON for the plan/questions.' : ''}`,
+        },
+        {
+          tool: 'Bash',
+          action: 'reject',
+          message: `${reason} Do not run Bash.${isPlanningPrompt ? ' Return ONLY valid JSON for the plan/questions.' : ''}`,
+        },
+
+        // Default: reject everything else (no prompts)
+        {
+          tool: '*',
+          action: 'reject',
+          message: `${reason} Only use Read/glob/Grep.${isPlanningPrompt ? ' Return ONLY valid JSON.' : ''}`,
+        },
+      ];
     }
 
-    const parts: string[] = ['# Context from Memory System\n'];
+    if (!rules || rules.length === 0) return null;
 
-    if (context.patterns && context.patterns.length > 0) {
-      parts.push('\n## Learned Patterns');
-      context.patterns.forEach((pattern) => {
-        parts.push(`\n### ${pattern.category}`);
-        parts.push(`${pattern.description}`);
-        if (pattern.example) {
-          parts.push(`Example: ${pattern.example}`);
-        }
+    const entries: AmpPermission[] = [];
+    const denyMessage = (kind: string, pattern: string) =>
+      `Denied by project permission policy (${kind} "${pattern}").`;
+
+    const toolRules = rulesOfKind(rules, 'tool');
+    for (const rule of toolRules.filter((r) => !r.allowed)) {
+      entries.push({
+        tool: rule.action,
+        action: 'reject',
+        message: denyMessage('tool', rule.action),
       });
     }
 
-    if (context.gotchas && context.gotchas.length > 0) {
-      parts.push('\n## Known Issues');
-      context.gotchas.forEach((gotcha) => {
-        parts.push(`\n**Issue:** ${gotcha.issue}`);
-        parts.push(`**Solution:** ${gotcha.solution}`);
-        if (gotcha.context) {
-          parts.push(`Context: ${gotcha.context}`);
-        }
+    const commandRules = rulesOfKind(rules, 'command');
+    for (const rule of commandRules.filter((r) => !r.allowed)) {
+      entries.push({
+        tool: 'Bash',
+        matches: { cmd: rule.action },
+        action: 'reject',
+        message: denyMessage('command', rule.action),
       });
     }
-
-    if (context.history && context.history.length > 0) {
-      parts.push('\n## Recent History');
-      context.history.forEach((entry) => {
-        parts.push(
-          `\n- Task ${entry.taskId} (${entry.phase}): ${
-            entry.success ? 'Success' : 'Failed'
-          } in ${entry.duration}ms`
-        );
+    const allowedCommands = commandRules.filter((r) => r.allowed);
+    if (allowedCommands.length > 0) {
+      for (const rule of allowedCommands) {
+        entries.push({ tool: 'Bash', matches: { cmd: rule.action }, action: 'allow' });
+      }
+      entries.push({
+        tool: 'Bash',
+        action: 'reject',
+        message: 'Command is not in the project permission allow list.',
       });
     }
 
-    parts.push('\n---\n\n# User Request\n\n' + prompt);
+    // Amp matches file tools on absolute paths; its `*` already spans directories
+    const pathRules = rulesOfKind(rules, 'path');
+    const toPathGlob = (pattern: string) =>
+      path.join(cwd, pattern.replace(/\*\*\/?/g, '*')).replace(/\\/g, '/');
+    for (const tool of ['create_file', 'edit_file']) {
+      for (const rule of pathRules.filter((r) => !r.allowed)) {
+        entries.push({
+          tool,
+          matches: { path: toPathGlob(rule.action) },
+          action: 'reject',
+          message: denyMessage('path', rule.action),
+        });
+      }
+      const allowedPaths = pathRules.filter((r) => r.allowed);
+      if (allowedPaths.length > 0) {
+        for (const rule of allowedPaths) {
+          entries.push({ tool, matches: { path: toPathGlob(rule.action) }, action: 'allow' });
+        }
+        entries.push({
+          tool,
+          action: 'reject',
+          message: 'Path is not in the project permission allow list.',
+        });
+      }
+    }
 
-    return parts.join('\n');
+    const allowedTools = toolRules.filter((r) => r.allowed);
+    for (const rule of allowedTools) {
+      entries.push({ tool: rule.action, action: 'allow' });
+    }
+
+    // Anything not covered keeps the usual allow-all behavior unless tools are allow-listed
+    entries.push(
+      allowedTools.length > 0
+        ? {
+            tool: '*',
+            action: 'reject',
+            message: 'Tool is not in the project permission allow list.',
+          }
+        : { tool: '*', action: 'allow' }
+    );
+    return entries;
   }
 
   /**
@@ -37,8 +37,16 @@ export interface CLIAdapter {
 
   /**
    * Resume an existing thread
+   * After a server restart the adapter has no in-memory state for the thread, so the caller
+   * passes back the working directory and the handle previously returned by getResumeHandle().
    */
-  resumeThread(threadId: string): Promise<void>;
+  resumeThread(threadId: string, options?: ResumeThreadOptions): Promise<void>;
+
+  /**
+   * Adapter-native handle needed to continue a thread in a new process
+   * (e.g. Cursor chat ID, Amp thread ID). Optional: adapters without native resume omit it.
+   */
+  getResumeHandle?(threadId: string): string | undefined;
 
   /**
    * Stop a running thread
@@ -71,11 +79,29 @@ export interface ExecuteRequest {
   isQuestionGeneration?: boolean;
 }
 
+export interface ResumeThreadOptions {
+  workingDir?: string;
+  resumeHandle?: string;
+}
+
 export interface StreamMessage {
   type: 'system' | 'assistant' | 'tool' | 'result' | 'error' | 'validation' | 'feedback';
   timestamp: number;
   data: unknown;
   threadId: string;
+  usage?: UsageReport; // Optional: token usage for accounting
+}
+
+/**
+ * Token usage reported by an adapter.
+ * Counts are increments: the manager sums every report of a run, so adapters that only know
+ * run totals report them once (on the final `result`/`error` message).
+ */
+export interface UsageReport {
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+  model?: string;
 }
 
 export interface CLICapabilities {
@@ -85,11 +111,19 @@ export interface CLICapabilities {
   supportsPermissions: boolean;
 }
 
+/**
+ * One allow/deny rule. `action` is a tool name, command or worktree-relative path pattern
+ * depending on `kind` (default: tool). Patterns use `*`, and `**` across path segments.
+ * Denying the path `**` makes the run read-only.
+ */
 export interface PermissionRule {
   action: string;
   allowed: boolean;
+  kind?: PermissionKind;
 }
 
+export type PermissionKind = 'tool' | 'command' | 'path';
+
 export interface ContextData {
   patterns?: Pattern[];
   gotchas?: Gotcha[];
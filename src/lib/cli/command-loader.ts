@@ -0,0 +1,215 @@
+/**
+ * Command adapter loader
+ *
+ * Reads `.code-automata/command-adapters.json` from the project and registers each
+ * definition with CLIFactory as a CommandTemplateAdapter.
+ *
+ * File format:
+ * {
+ *   "adapters": [
+ *     {
+ *       "name": "codex",
+ *       "displayName": "Codex CLI",
+ *       "command": "codex",
+ *       "args": ["exec", "--json", "--model", "{{config.model}}"],
+ *       "promptDelivery": "stdin",
+ *       "output": { "format": "ndjson", "typeField": "type", "textField": "text" },
+ *       "env": { "OPENAI_API_KEY": "${OPENAI_API_KEY}" },
+ *       "configFields": [{ "name": "model", "label": "Model", "type": "text", "default": "o4-mini" }]
+ *     }
+ *   ]
+ * }
+ *
+ * Loaded lazily from API routes (Next.js route handlers may not share module state),
+ * so each caller re-reads the file; invalid entries are skipped with a warning.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { ConfigField, StreamMessage } from './base';
+import { CLIFactory } from './factory';
+import {
+  CommandTemplateAdapter,
+  type CommandAdapterDefinition,
+  type CommandOutputParser,
+} from './command';
+
+const COMMAND_ADAPTERS_FILE = 'command-adapters.json';
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const PROMPT_DELIVERIES = ['stdin', 'argument', 'file'];
+const FIELD_TYPES: ConfigField['type'][] = ['select', 'number', 'boolean', 'text'];
+
+// Names registered by the last load, so adapters removed from the file are unregistered
+const registeredNames = new Set<string>();
+
+export function getCommandAdaptersPath(projectDir: string): string {
+  return path.join(projectDir, '.code-automata', COMMAND_ADAPTERS_FILE);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Validate one raw definition. Returns the typed definition or a list of problems.
+ */
+export function validateCommandAdapterDefinition(raw: unknown): {
+  definition: CommandAdapterDefinition | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { definition: null, errors: ['Definition must be an object'] };
+  }
+  const d = raw as Record<string, unknown>;
+
+  if (typeof d.name !== 'string' || !NAME_PATTERN.test(d.name)) {
+    errors.push('"name" must be a non-empty lowercase identifier (a-z, 0-9, "-" or "_")');
+  }
+  if (d.displayName !== undefined && typeof d.displayName !== 'string') {
+    errors.push('"displayName" must be a string');
+  }
+  if (typeof d.command !== 'string' || !d.command.trim()) {
+    errors.push('"command" must be a non-empty string');
+  }
+  if (!isStringArray(d.args)) {
+    errors.push('"args" must be an array of strings');
+  }
+  if (d.planningArgs !== undefined && !isStringArray(d.planningArgs)) {
+    errors.push('"planningArgs" must be an array of strings');
+  }
+  if (!PROMPT_DELIVERIES.includes(d.promptDelivery as string)) {
+    errors.push(`"promptDelivery" must be one of: ${PROMPT_DELIVERIES.join(', ')}`);
+  }
+
+  const output = d.output as Record<string, unknown> | undefined;
+  if (!output || (output.format !== 'text' && output.format !== 'ndjson')) {
+    errors.push('"output.format" must be "text" or "ndjson"');
+  } else if (output.format === 'ndjson') {
+    for (const key of ['typeField', 'textField', 'errorField', 'toolField', 'usageField']) {
+      if (output[key] !== undefined && typeof output[key] !== 'string') {
+        errors.push(`"output.${key}" must be a string`);
+      }
+    }
+    if (output.typeMap !== undefined) {
+      const valid: StreamMessage['type'][] = ['system', 'assistant', 'tool', 'result', 'error'];
+      const map = output.typeMap as Record<string, unknown>;
+      if (!map || typeof map !== 'object') {
+        errors.push('"output.typeMap" must be an object');
+      } else {
+        for (const [k, v] of Object.entries(map)) {
+          if (!valid.includes(v as StreamMessage['type'])) {
+            errors.push(`"output.typeMap.${k}" must be one of: ${valid.join(', ')}`);
+          }
+        }
+      }
+    }
+  }
+
+  if (d.env !== undefined) {
+    const env = d.env as Record<string, unknown>;
+    if (!env || typeof env !== 'object' || Object.values(env).some((v) => typeof v !== 'string')) {
+      errors.push('"env" must be an object of string values');
+    }
+  }
+
+  if (d.configFields !== undefined) {
+    if (!Array.isArray(d.configFields)) {
+      errors.push('"configFields" must be an array');
+    } else {
+      d.configFields.forEach((f, i) => {
+        const field = f as Record<string, unknown>;
+        if (!field || typeof field.name !== 'string' || typeof field.label !== 'string') {
+          errors.push(`"configFields[${i}]" needs string "name" and "label"`);
+        } else if (!FIELD_TYPES.includes(field.type as ConfigField['type'])) {
+          errors.push(`"configFields[${i}].type" must be one of: ${FIELD_TYPES.join(', ')}`);
+        }
+      });
+    }
+  }
+
+  for (const key of ['timeoutMs', 'maxConcurrentAgents']) {
+    if (d[key] !== undefined && (typeof d[key] !== 'number' || (d[key] as number) <= 0)) {
+      errors.push(`"${key}" must be a positive number`);
+    }
+  }
+
+  if (errors.length > 0) return { definition: null, errors };
+
+  return {
+    definition: {
+      name: d.name as string,
+      displayName: d.displayName as string | undefined,
+      command: d.command as string,
+      args: d.args as string[],
+      planningArgs: d.planningArgs as string[] | undefined,
+      promptDelivery: d.promptDelivery as CommandAdapterDefinition['promptDelivery'],
+      output: output as unknown as CommandOutputParser,
+      env: d.env as Record<string, string> | undefined,
+      configFields: d.configFields as ConfigField[] | undefined,
+      timeoutMs: d.timeoutMs as number | undefined,
+      maxConcurrentAgents: d.maxConcurrentAgents as number | undefined,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Load command adapter definitions for a project and (re-)register them with CLIFactory.
+ * Returns the definitions that were registered. Missing file → no adapters.
+ */
+export async function loadCommandAdapters(projectDir: string): Promise<CommandAdapterDefinition[]> {
+  const filePath = getCommandAdaptersPath(projectDir);
+  let rawList: unknown[] = [];
+
+  try {
+    const data = await fs.readFile(filePath, 'utf-8');
+    const parsed = JSON.parse(data) as { adapters?: unknown };
+    if (Array.isArray(parsed?.adapters)) {
+      rawList = parsed.adapters;
+    } else {
+      console.warn(`[command-adapters] ${filePath}: expected { "adapters": [...] }`);
+    }
+  } catch (err) {
+    const code =
+      err && typeof err === 'object' && 'code' in err ? (err as NodeJS.ErrnoException).code : '';
+    if (code !== 'ENOENT') {
+      console.warn('[command-adapters] Failed to load command-adapters.json:', err);
+    }
+  }
+
+  const definitions: CommandAdapterDefinition[] = [];
+  for (const raw of rawList) {
+    const { definition, errors } = validateCommandAdapterDefinition(raw);
+    if (!definition) {
+      const name = (raw as { name?: unknown })?.name;
+      console.warn(`[command-adapters] Skipping invalid adapter "${String(name)}":`, errors);
+      continue;
+    }
+    const existing = CLIFactory.getProvider(definition.name);
+    if (existing && existing.source !== 'command') {
+      console.warn(`[command-adapters] Skipping "${definition.name}": name already in use`);
+      continue;
+    }
+    definitions.push(definition);
+  }
+
+  // Unregister adapters that are no longer defined
+  const nextNames = new Set(definitions.map((d) => d.name));
+  for (const name of registeredNames) {
+    if (!nextNames.has(name)) {
+      CLIFactory.unregisterProvider(name);
+      registeredNames.delete(name);
+    }
+  }
+
+  for (const definition of definitions) {
+    CLIFactory.registerProvider(definition.name, {
+      source: 'command',
+      create: () => new CommandTemplateAdapter(definition),
+    });
+    registeredNames.add(definition.name);
+  }
+
+  return definitions;
+}
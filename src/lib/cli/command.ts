@@ -0,0 +1,412 @@
+/**
+ * Command Template CLI Adapter
+ *
+ * Generic adapter for headless coding-agent CLIs, defined entirely by data instead of code.
+ * Definitions live in `.code-automata/command-adapters.json` (see command-loader.ts) and describe:
+ * - the binary and an argument template (`{{prompt}}`, `{{promptFile}}`, `{{cwd}}`, `{{config.*}}`)
+ * - how the prompt is delivered (stdin, argument, or temp file)
+ * - how stdout is parsed (plain text or NDJSON with a field mapping)
+ * - extra env vars (values may reference `${VAR}` from the server environment)
+ */
+
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  CLIAdapter,
+  CLIConfig,
+  CLICapabilities,
+  CLIConfigSchema,
+  ConfigField,
+  ExecuteRequest,
+  ResumeThreadOptions,
+  StreamMessage,
+  UsageReport,
+} from './base';
+import { buildPromptWithContext } from './context';
+import { isReadOnly } from './permissions';
+import { mergeUsage, normalizeUsage } from './usage';
+
+export type PromptDelivery = 'stdin' | 'argument' | 'file';
+
+export type CommandOutputParser =
+  | { format: 'text' }
+  | {
+      format: 'ndjson';
+      /** Dot path of the event type field (default: "type") */
+      typeField?: string;
+      /** Dot path of the text payload (default: "text") */
+      textField?: string;
+      /** Dot path of the error message (default: "error") */
+      errorField?: string;
+      /** Dot path of the tool name for tool events (default: "tool") */
+      toolField?: string;
+      /** Dot path of a token usage object on any event (default: "usage") */
+      usageField?: string;
+      /** Maps the CLI's own event types onto StreamMessage types */
+      typeMap?: Record<string, StreamMessage['type']>;
+    };
+
+export interface CommandAdapterDefinition {
+  name: string;
+  displayName?: string;
+  command: string;
+  args: string[];
+  /** Extra args appended for read-only phases (planning / subtask generation / read-only policy) */
+  planningArgs?: string[];
+  promptDelivery: PromptDelivery;
+  output: CommandOutputParser;
+  env?: Record<string, string>;
+  configFields?: ConfigField[];
+  timeoutMs?: number;
+  maxConcurrentAgents?: number;
+}
+
+const STREAM_TYPES: StreamMessage['type'][] = [
+  'system',
+  'assistant',
+  'tool',
+  'result',
+  'error',
+  'validation',
+  'feedback',
+];
+
+/**
+ * Read a value from an object by dot path (e.g. "message.content.0.text").
+ */
+function getByPath(obj: unknown, dotPath: string): unknown {
+  let current: unknown = obj;
+  for (const key of dotPath.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Replace `{{key}}` placeholders in an argument template.
+ */
+export function renderArgTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_m, key: string) => values[key] ?? '');
+}
+
+/**
+ * Expand `${VAR}` references in env values from the given environment.
+ */
+export function expandEnvValue(value: string, env: Record<string, string | undefined>): string {
+  return value.replace(/\$\{(\w+)\}/g, (_m, name: string) => env[name] ?? '');
+}
+
+/**
+ * Map one NDJSON event to a stream message type + data using the definition's field mapping.
+ * Returns null for events that should be skipped (e.g. empty assistant deltas).
+ */
+export function mapNdjsonEvent(
+  event: Record<string, unknown>,
+  parser: Extract<CommandOutputParser, { format: 'ndjson' }>
+): { type: StreamMessage['type']; data: Record<string, unknown>; text?: string } | null {
+  const rawType = String(getByPath(event, parser.typeField || 'type') ?? '');
+  const mapped =
+    parser.typeMap?.[rawType] ??
+    (STREAM_TYPES.includes(rawType as StreamMessage['type'])
+      ? (rawType as StreamMessage['type'])
+      : 'system');
+  const textValue = getByPath(event, parser.textField || 'text');
+  const text = typeof textValue === 'string' ? textValue : undefined;
+
+  switch (mapped) {
+    case 'assistant':
+      return text ? { type: 'assistant', data: { message: text }, text } : null;
+    case 'tool':
+      return {
+        type: 'tool',
+        data: { tool: getByPath(event, parser.toolField || 'tool') ?? rawType, input: event },
+      };
+    case 'error': {
+      const err = getByPath(event, parser.errorField || 'error');
+      return {
+        type: 'error',
+        data: { error: typeof err === 'string' ? err : text || JSON.stringify(event) },
+      };
+    }
+    case 'result':
+      return { type: 'result', data: { output: text ?? '' }, text };
+    default:
+      return { type: mapped, data: { message: text ?? event } };
+  }
+}
+
+export class CommandTemplateAdapter implements CLIAdapter {
+  name: string;
+  displayName: string;
+
+  private readonly definition: CommandAdapterDefinition;
+  private config: (CLIConfig & Record<string, unknown>) | null = null;
+  private threadWorkingDirs = new Map<string, string>();
+  private processes = new Map<string, ChildProcessWithoutNullStreams>();
+
+  constructor(definition: CommandAdapterDefinition) {
+    this.definition = definition;
+    this.name = definition.name;
+    this.displayName = definition.displayName || definition.name;
+  }
+
+  getConfigSchema(): CLIConfigSchema {
+    return { fields: this.definition.configFields ?? [] };
+  }
+
+  async initialize(config: CLIConfig): Promise<void> {
+    this.config = config as CLIConfig & Record<string, unknown>;
+    console.log(`[CommandAdapter:${this.name}] Initialized with cwd:`, config.cwd);
+  }
+
+  async *execute(request: ExecuteRequest): AsyncIterable<StreamMessage> {
+    if (!this.config) {
+      throw new Error(`CommandAdapter ${this.name} not initialized`);
+    }
+
+    const def = this.definition;
+    const threadId = request.threadId || this.generateThreadId();
+    const effectiveCwd = this.threadWorkingDirs.get(threadId) ?? this.config.cwd;
+
+    const isReadOnlyPhase =
+      request.isQuestionGeneration ||
+      request.isSubtaskGeneration ||
+      request.prompt.includes('PLANNING PHASE') ||
+      request.prompt.includes('Question Generation') ||
+      request.prompt.includes('SUBTASK GENERATION') ||
+      isReadOnly(request.permissions);
+
+    const prompt = buildPromptWithContext(request.prompt, request.context);
+
+    // Prompt file lives outside the worktree so it never pollutes the branch
+    let promptFile = '';
+    if (def.promptDelivery === 'file' || def.args.some((a) => a.includes('{{promptFile}}'))) {
+      promptFile = path.join(os.tmpdir(), 'code-automata-command', `${threadId}.prompt.md`);
+      await fs.mkdir(path.dirname(promptFile), { recursive: true });
+      await fs.writeFile(promptFile, prompt, 'utf-8');
+    }
+
+    const values: Record<string, string> = {
+      prompt,
+      promptFile,
+      cwd: effectiveCwd,
+      threadId,
+      mode: String(this.config.mode ?? ''),
+    };
+    for (const field of def.configFields ?? []) {
+      const v = this.config[field.name] ?? field.default;
+      values[`config.${field.name}`] = v === undefined || v === null ? '' : String(v);
+    }
+
+    const argTemplates = [...def.args, ...(isReadOnlyPhase ? (def.planningArgs ?? []) : [])];
+    const args = argTemplates.map((a) => renderArgTemplate(a, values));
+    if (def.promptDelivery === 'argument' && !def.args.some((a) => a.includes('{{prompt}}'))) {
+      args.push(prompt);
+    }
+    if (def.promptDelivery === 'file' && !def.args.some((a) => a.includes('{{promptFile}}'))) {
+      args.push(promptFile);
+    }
+
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    for (const [key, value] of Object.entries(def.env ?? {})) {
+      env[key] = expandEnvValue(value, process.env);
+    }
+
+    yield {
+      type: 'system',
+      timestamp: Date.now(),
+      data: {
+        message: `${this.displayName} started`,
+        // Do not echo the prompt itself; it can be very long
+        command: `${def.command} ${args.map((a) => (a === prompt ? '<prompt>' : a)).join(' ')}`,
+        cwd: effectiveCwd,
+      },
+      threadId,
+    };
+
+    let child: ChildProcessWithoutNullStreams;
+    try {
+      child = spawn(def.command, args, { cwd: effectiveCwd, shell: false, env });
+    } catch (error) {
+      if (promptFile) await fs.unlink(promptFile).catch(() => {});
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: error instanceof Error ? error.message : `Failed to spawn ${def.command}` },
+        threadId,
+      };
+      return;
+    }
+
+    this.processes.set(threadId, child);
+
+    let spawnError: Error | null = null;
+    let accumulatedStderr = '';
+    child.on('error', (err) => {
+      spawnError = err;
+    });
+    child.stderr.on('data', (chunk) => {
+      accumulatedStderr += chunk.toString();
+    });
+    const exitPromise: Promise<number> = new Promise((resolve) => {
+      child.on('close', (code) => resolve(code ?? 0));
+    });
+
+    if (def.promptDelivery === 'stdin') {
+      child.stdin.on('error', () => {}); // Process may exit before reading stdin
+      child.stdin.write(prompt, 'utf-8');
+    }
+    child.stdin.end();
+
+    let timedOut = false;
+    const timer =
+      def.timeoutMs && def.timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGTERM');
+          }, def.timeoutMs)
+        : null;
+
+    let accumulatedOutput = '';
+    let resultOutput: string | undefined;
+    let usage: UsageReport | undefined;
+    let buffer = '';
+
+    const handleLine = (line: string): StreamMessage | null => {
+      if (def.output.format === 'ndjson') {
+        let event: unknown;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          event = null;
+        }
+        if (event && typeof event === 'object') {
+          // Usage is summed and reported once with the final message
+          const rawUsage = getByPath(event, def.output.usageField || 'usage');
+          if (rawUsage) usage = mergeUsage(usage, normalizeUsage(rawUsage));
+          const mapped = mapNdjsonEvent(event as Record<string, unknown>, def.output);
+          if (!mapped) return null;
+          if (mapped.type === 'result') {
+            // Emitted once after the process exits so the manager sees the full run
+            if (mapped.text) resultOutput = mapped.text;
+            return null;
+          }
+          if (mapped.type === 'assistant' && mapped.text) accumulatedOutput += mapped.text;
+          return { type: mapped.type, timestamp: Date.now(), data: mapped.data, threadId };
+        }
+      }
+      accumulatedOutput += line + '\n';
+      return { type: 'assistant', timestamp: Date.now(), data: { message: line }, threadId };
+    };
+
+    let exitCode = 0;
+    try {
+      for await (const chunk of child.stdout) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const msg = handleLine(line);
+          if (msg) yield msg;
+        }
+      }
+      if (buffer.trim()) {
+        const msg = handleLine(buffer);
+        if (msg) yield msg;
+      }
+      exitCode = await exitPromise;
+    } catch (error) {
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: { error: error instanceof Error ? error.message : 'Error reading command output' },
+        threadId,
+      };
+      return;
+    } finally {
+      // Also reached when reading failed or the consumer stopped iterating early
+      if (timer) clearTimeout(timer);
+      if (child.exitCode === null && child.signalCode === null) child.kill('SIGTERM');
+      if (this.processes.get(threadId) === child) this.processes.delete(threadId);
+      if (promptFile) await fs.unlink(promptFile).catch(() => {});
+    }
+
+    const output = (resultOutput ?? accumulatedOutput).trim();
+
+    if (spawnError || timedOut || exitCode !== 0) {
+      const reason = spawnError
+        ? `Failed to run ${def.command}: ${(spawnError as Error).message}`
+        : timedOut
+          ? `${this.displayName} timed out after ${def.timeoutMs}ms`
+          : `${this.displayName} exited with code ${exitCode}`;
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: {
+          error: accumulatedStderr.trim()
+            ? `${reason}.\n\nError output:\n${accumulatedStderr.trim()}`
+            : reason,
+          output,
+          stderr: accumulatedStderr.trim(),
+          exitCode,
+        },
+        threadId,
+        usage,
+      };
+      return;
+    }
+
+    yield {
+      type: 'result',
+      timestamp: Date.now(),
+      data: {
+        success: true,
+        message: `${this.displayName} completed successfully`,
+        output,
+        exitCode,
+      },
+      threadId,
+      usage,
+    };
+  }
+
+  async createThread(workingDir: string): Promise<string> {
+    const threadId = this.generateThreadId();
+    this.threadWorkingDirs.set(threadId, workingDir);
+    return threadId;
+  }
+
+  async resumeThread(threadId: string, options?: ResumeThreadOptions): Promise<void> {
+    // No native conversation resume; each run is a fresh process in the same working dir
+    if (options?.workingDir) this.threadWorkingDirs.set(threadId, options.workingDir);
+  }
+
+  async stopThread(threadId: string): Promise<void> {
+    const proc = this.processes.get(threadId);
+    if (!proc) return;
+    try {
+      proc.kill('SIGTERM');
+    } catch (error) {
+      console.error(`[CommandAdapter:${this.name}] Failed to kill process:`, error);
+    } finally {
+      this.processes.delete(threadId);
+    }
+  }
+
+  getCapabilities(): CLICapabilities {
+    return {
+      supportsThreads: false,
+      supportsModes: [],
+      maxConcurrentAgents: this.definition.maxConcurrentAgents ?? 12,
+      supportsPermissions: false,
+    };
+  }
+
+  private generateThreadId(): string {
+    return `${this.name}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Memory context injection
+ *
+ * Prepends the project memory (patterns, known issues, recent history) retrieved for a task
+ * to the prompt. Adapters call this on the prompt they hand to the agent.
+ */
+
+import { ContextData } from './base';
+
+export function buildPromptWithContext(prompt: string, context?: ContextData): string {
+  if (
+    !context ||
+    (!context.patterns?.length && !context.gotchas?.length && !context.history?.length)
+  ) {
+    return prompt;
+  }
+
+  const parts: string[] = ['# Context from Memory System\n'];
+
+  if (context.patterns && context.patterns.length > 0) {
+    parts.push('\n## Learned Patterns');
+    context.patterns.forEach((pattern) => {
+      parts.push(`\n### ${pattern.category}`);
+      parts.push(`${pattern.description}`);
+      if (pattern.example) {
+        parts.push(`Example: ${pattern.example}`);
+      }
+    });
+  }
+
+  if (context.gotchas && context.gotchas.length > 0) {
+    parts.push('\n## Known Issues');
+    context.gotchas.forEach((gotcha) => {
+      parts.push(`\n**Issue:** ${gotcha.issue}`);
+      parts.push(`**Solution:** ${gotcha.solution}`);
+      if (gotcha.context) {
+        parts.push(`Context: ${gotcha.context}`);
+      }
+    });
+  }
+
+  if (context.history && context.history.length > 0) {
+    parts.push('\n## Recent History');
+    context.history.forEach((entry) => {
+      parts.push(
+        `\n- Task ${entry.taskId} (${entry.phase}): ${
+          entry.success ? 'Success' : 'Failed'
+        } in ${entry.duration}ms`
+      );
+    });
+  }
+
+  parts.push('\n---\n\n# User Request\n\n' + prompt);
+
+  return parts.join('\n');
+}
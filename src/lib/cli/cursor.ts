@@ -18,6 +18,8 @@
  */
 
 import { spawn, ChildProcessWithoutNullStreams, execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
 import { promisify } from 'util';
 import {
   CLIAdapter,
@@ -25,8 +27,14 @@ import {
   CLICapabilities,
   CLIConfigSchema,
   ExecuteRequest,
+  PermissionRule,
+  ResumeThreadOptions,
   StreamMessage,
+  UsageReport,
 } from './base';
+import { buildPromptWithContext } from './context';
+import { isReadOnly, rulesOfKind } from './permissions';
+import { mergeUsage, normalizeUsage } from './usage';
 
 const execFileAsync = promisify(execFile);
 
@@ -63,6 +71,7 @@ export class CursorAdapter implements CLIAdapter {
   private threadWorkingDirs = new Map<string, string>();
   private threadChatIds = new Map<string, string>(); // Track Cursor chat IDs for resume
   private processes = new Map<string, ChildProcessWithoutNullStreams>();
+  private permissionFiles = new Map<string, string>(); // Generated .cursor/cli.json per thread
 
   /**
    * Fetch available models from Cursor CLI
@@ -184,8 +193,9 @@ export class CursorAdapter implements CLIAdapter {
       effectiveCwd, // Set working directory
     ];
 
-    // Note: --mode plan prevents file writes but also seems to prevent final responses
-    // For now, we rely on the prompt instructions to prevent edits during planning
+    // Note: --mode plan prevents file writes but also seems to prevent final responses.
+    // Read-only phases are enforced through the project permission file instead.
+    await this.writePermissionsFile(threadId, effectiveCwd, request.permissions);
     // if (isPlanningPhase) {
     //   args.push('--mode', 'plan');
     // }
@@ -251,9 +261,10 @@ export class CursorAdapter implements CLIAdapter {
 
     try {
       await stdinReady;
-      child.stdin.write(request.prompt, 'utf-8');
+      const prompt = buildPromptWithContext(request.prompt, request.context);
+      child.stdin.write(prompt, 'utf-8');
       child.stdin.end();
-      console.log('[CursorAdapter] Prompt sent via stdin, length:', request.prompt.length);
+      console.log('[CursorAdapter] Prompt sent via stdin, length:', prompt.length);
     } catch (error) {
       yield {
         type: 'error',
@@ -271,6 +282,7 @@ export class CursorAdapter implements CLIAdapter {
     let accumulatedStderr = '';
     let buffer = '';
     const stderrMessages: StreamMessage[] = [];
+    let usage: UsageReport | undefined = { model };
 
     // Capture stderr for error messages
     child.stderr.on('data', (chunk) => {
@@ -309,8 +321,16 @@ export class CursorAdapter implements CLIAdapter {
               tool_call?: Record<string, unknown>;
               call_id?: string;
               error?: string;
+              session_id?: string;
+              model?: string;
+              usage?: unknown;
             };
 
+            // Every event carries the Cursor chat ID; remember it so the chat can be resumed
+            if (msg.session_id) {
+              this.threadChatIds.set(threadId, msg.session_id);
+            }
+
             // Cursor stream-json format uses different message types
             if (msg.type === 'assistant') {
               // Extract text from assistant message
@@ -377,8 +397,11 @@ export class CursorAdapter implements CLIAdapter {
                 };
               }
             } else if (msg.type === 'system') {
-              // System messages (init, etc.)
-              // Skip these for now
+              // System messages (init, etc.) - only the resolved model is of interest
+              if (msg.model) usage = { ...usage, model: msg.model };
+            } else if (msg.type === 'result') {
+              // Final summary event; newer CLI versions include token usage
+              usage = mergeUsage(usage, normalizeUsage(msg.usage));
             } else if (msg.type === 'user') {
               // User messages (echoed back)
               // Skip these
@@ -457,6 +480,7 @@ export class CursorAdapter implements CLIAdapter {
           exitCode,
         },
         threadId,
+        usage,
       };
     } else {
       // Include stderr in error for debugging
@@ -474,6 +498,7 @@ export class CursorAdapter implements CLIAdapter {
           exitCode,
         },
         threadId,
+        usage,
       };
     }
   }
@@ -485,9 +510,15 @@ export class CursorAdapter implements CLIAdapter {
     return threadId;
   }
 
-  async resumeThread(threadId: string): Promise<void> {
+  async resumeThread(threadId: string, options?: ResumeThreadOptions): Promise<void> {
     console.log('[CursorAdapter] resumeThread called for:', threadId);
-    // Thread resume is handled via --resume flag in execute()
+    // Restore state lost on restart; the chat itself is resumed via --resume in execute()
+    if (options?.workingDir) this.threadWorkingDirs.set(threadId, options.workingDir);
+    if (options?.resumeHandle) this.threadChatIds.set(threadId, options.resumeHandle);
+  }
+
+  getResumeHandle(threadId: string): string | undefined {
+    return this.threadChatIds.get(threadId);
   }
 
   async stopThread(threadId: string): Promise<void> {
@@ -744,5 +775,54 @@ export class CursorAdapter implements CLIAdapter {
 
   private safeCleanupProcess(threadId: string) {
     this.processes.delete(threadId);
+
+    const permissionsFile = this.permissionFiles.get(threadId);
+    if (permissionsFile) {
+      this.permissionFiles.delete(threadId);
+      fs.rm(permissionsFile, { force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Translate permission rules to Cursor's `.cursor/cli.json` permission tokens.
+   * A project that already has its own cli.json is left alone (the manager still audits).
+   */
+  private async writePermissionsFile(
+    threadId: string,
+    cwd: string,
+    rules: PermissionRule[] | undefined
+  ): Promise<void> {
+    const allow: string[] = [];
+    const deny: string[] = [];
+
+    // Shell tokens match the command name only, so only single-word patterns translate
+    for (const rule of rulesOfKind(rules, 'command')) {
+      const name = rule.action.trim().replace(/\*$/, '');
+      if (!name || /\s/.test(name)) continue;
+      (rule.allowed ? allow : deny).push(`Shell(${name})`);
+    }
+    if (isReadOnly(rules)) {
+      deny.push('Write(**)');
+    } else {
+      for (const rule of rulesOfKind(rules, 'path')) {
+        (rule.allowed ? allow : deny).push(`Write(${rule.action})`);
+      }
+    }
+    if (allow.length === 0 && deny.length === 0) return;
+
+    const filePath = path.join(cwd, '.cursor', 'cli.json');
+    try {
+      await fs.access(filePath);
+      return;
+    } catch {
+      // No project config - write ours
+    }
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify({ permissions: { allow, deny } }, null, 2));
+      this.permissionFiles.set(threadId, filePath);
+    } catch (error) {
+      console.warn('[CursorAdapter] Failed to write permissions file:', error);
+    }
   }
 }
@@ -1,39 +1,93 @@
 /**
  * CLI Factory
  *
- * Factory pattern to create CLI adapters.
- * Makes it easy to swap between amp, Cursor, and other CLIs in the future.
+ * Registry of CLI adapters keyed by provider name.
+ * Makes it easy to swap between amp, Cursor, Aider, a local model server, and other CLIs.
+ *
+ * Built-in providers are registered below; additional providers are registered at runtime:
+ * - command-template adapters from `.code-automata/command-adapters.json` (command-loader.ts)
+ * - adapter plugins from the project/user plugins directories (plugins.ts)
  */
 
 import { CLIAdapter } from './base';
 import { AmpAdapter } from './amp';
 import { MockCLIAdapter } from './mock';
 import { CursorAdapter } from './cursor';
+import { AiderAdapter } from './aider';
+import { OpenAICompatibleAdapter } from './openai-compatible';
+
+export type BuiltinCLIProvider = 'amp' | 'mock' | 'cursor' | 'aider' | 'openai-compatible';
+
+// Runtime-registered providers are plain strings; `string & {}` keeps built-in autocompletion
+export type CLIProvider = BuiltinCLIProvider | (string & {});
+
+export type CLIProviderSource = 'builtin' | 'command' | 'plugin';
+
+export interface RegisteredProvider {
+  source: CLIProviderSource;
+  create: () => CLIAdapter;
+  /** Module the adapter was loaded from (plugins only) */
+  modulePath?: string;
+}
 
-export type CLIProvider = 'amp' | 'mock' | 'cursor';
+const BUILTIN_PROVIDERS: Record<BuiltinCLIProvider, RegisteredProvider> = {
+  amp: { source: 'builtin', create: () => new AmpAdapter() },
+  mock: { source: 'builtin', create: () => new MockCLIAdapter() },
+  cursor: { source: 'builtin', create: () => new CursorAdapter() },
+  aider: { source: 'builtin', create: () => new AiderAdapter() },
+  'openai-compatible': { source: 'builtin', create: () => new OpenAICompatibleAdapter() },
+};
+
+const runtimeProviders = new Map<string, RegisteredProvider>();
+
+function isBuiltinProvider(name: string): name is BuiltinCLIProvider {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_PROVIDERS, name);
+}
 
 export class CLIFactory {
   /**
    * Create a CLI adapter instance based on the provider type
    */
   static create(provider: CLIProvider): CLIAdapter {
-    switch (provider) {
-      case 'amp':
-        return new AmpAdapter();
-      case 'mock':
-        return new MockCLIAdapter();
-      case 'cursor':
-        return new CursorAdapter();
-      default:
-        throw new Error(`Unknown CLI provider: ${provider}`);
+    const entry = this.getProvider(provider);
+    if (!entry) {
+      throw new Error(`Unknown CLI provider: ${provider}`);
+    }
+    return entry.create();
+  }
+
+  /**
+   * Look up a registered provider (built-in or runtime)
+   */
+  static getProvider(provider: string): RegisteredProvider | undefined {
+    return isBuiltinProvider(provider)
+      ? BUILTIN_PROVIDERS[provider]
+      : runtimeProviders.get(provider);
+  }
+
+  /**
+   * Register a provider at runtime. Built-in provider names cannot be overridden;
+   * re-registering a runtime name replaces the previous entry.
+   */
+  static registerProvider(name: string, provider: RegisteredProvider): void {
+    if (isBuiltinProvider(name) || provider.source === 'builtin') {
+      throw new Error(`Cannot override built-in CLI provider: ${name}`);
     }
+    runtimeProviders.set(name, provider);
+  }
+
+  /**
+   * Remove a runtime-registered provider (no-op for unknown or built-in names)
+   */
+  static unregisterProvider(name: string): void {
+    runtimeProviders.delete(name);
   }
 
   /**
-   * Get available providers (order: Cursor first, Amp second, Mock last)
+   * Get available providers (order: Cursor, Amp, Aider, local model, runtime providers, Mock last)
    */
   static getAvailableProviders(): CLIProvider[] {
-    return ['cursor', 'amp', 'mock'];
+    return ['cursor', 'amp', 'aider', 'openai-compatible', ...runtimeProviders.keys(), 'mock'];
   }
 
   /**
@@ -45,20 +99,25 @@ export class CLIFactory {
   static isProviderAvailable(provider: string): provider is CLIProvider {
     // All known providers are considered "available"
     // Actual runtime checks (binary exists, auth OK) happen in preflight
-    return ['amp', 'mock', 'cursor'].includes(provider as CLIProvider);
+    return isBuiltinProvider(provider) || runtimeProviders.has(provider);
   }
 
   /**
    * Get available adapters with their metadata
    * Used for displaying CLI options in UI
    */
-  static getAvailableAdapters(): Array<{ name: string; displayName: string }> {
+  static getAvailableAdapters(): Array<{
+    name: string;
+    displayName: string;
+    source: CLIProviderSource;
+  }> {
     const providers = this.getAvailableProviders();
     return providers.map((provider) => {
       const adapter = this.create(provider);
       return {
         name: adapter.name,
         displayName: adapter.displayName,
+        source: this.getProvider(provider)?.source ?? 'builtin',
       };
     });
   }
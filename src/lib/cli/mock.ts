@@ -13,7 +13,9 @@ import {
   CLICapabilities,
   CLIConfigSchema,
   ExecuteRequest,
+  ResumeThreadOptions,
   StreamMessage,
+  UsageReport,
 } from './base';
 
 export class MockCLIAdapter implements CLIAdapter {
@@ -215,6 +217,7 @@ This is a mock implementation plan generated by the Mock adapter for testing pur
             : 'Generated comprehensive implementation plan',
         },
         threadId,
+        usage: this.mockUsage(request.prompt),
       };
 
       session.messages.push({
@@ -287,6 +290,7 @@ This is a mock implementation plan generated by the Mock adapter for testing pur
           message: `[MOCK] Generated ${numDevSubtasks} dev subtasks and ${numQASubtasks} QA subtasks successfully!`,
         },
         threadId,
+        usage: this.mockUsage(request.prompt),
       };
 
       session.messages.push({
@@ -411,6 +415,7 @@ This is a mock implementation plan generated by the Mock adapter for testing pur
           filesModified: [attendanceFile],
         },
         threadId,
+        usage: this.mockUsage(request.prompt),
       };
 
       session.messages.push({
@@ -476,6 +481,7 @@ This is a mock implementation plan generated by the Mock adapter for testing pur
         context: request.context ? 'Context was injected from memory' : undefined,
       },
       threadId,
+      usage: this.mockUsage(request.prompt),
     };
 
     // Store message in session
@@ -494,9 +500,9 @@ This is a mock implementation plan generated by the Mock adapter for testing pur
     return threadId;
   }
 
-  async resumeThread(threadId: string): Promise<void> {
+  async resumeThread(threadId: string, options?: ResumeThreadOptions): Promise<void> {
     console.log('[MockAdapter] Resuming thread:', threadId);
-    // No-op for mock
+    if (options?.workingDir) this.threadToWorkingDir.set(threadId, options.workingDir);
   }
 
   async stopThread(threadId: string): Promise<void> {
@@ -517,6 +523,19 @@ This is a mock implementation plan generated by the Mock adapter for testing pur
     return `mock-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
   }
 
+  /**
+   * Synthetic usage (~4 characters per token) so accounting can be exercised without an API
+   */
+  private mockUsage(prompt: string): UsageReport {
+    const inputTokens = Math.ceil(prompt.length / 4);
+    return {
+      inputTokens,
+      outputTokens: 200,
+      costUsd: 0,
+      model: `mock-${this.config?.mode ?? 'smart'}`,
+    };
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -0,0 +1,780 @@
+/**
+ * OpenAI-compatible HTTP Adapter
+ *
+ * Talks to any server exposing `POST {baseUrl}/chat/completions` (Ollama, llama.cpp server,
+ * vLLM, LM Studio, ...) so tasks can run on air-gapped machines with a local model.
+ *
+ * The model drives a small built-in tool loop scoped to the worktree:
+ * - read_file / list_dir (always available)
+ * - write_file / run_command (disabled during planning and subtask generation)
+ *
+ * Permission rules are enforced natively: denied tools are not offered to the model, and
+ * denied paths/commands are refused with an error the model can read.
+ *
+ * Tokens are streamed from SSE chunks into `assistant` messages; tool calls are executed
+ * locally, reported as `tool` messages, and fed back to the model until it stops calling tools.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  CLIAdapter,
+  CLIConfig,
+  CLICapabilities,
+  CLIConfigSchema,
+  ExecuteRequest,
+  ResumeThreadOptions,
+  PermissionRule,
+  StreamMessage,
+  UsageReport,
+} from './base';
+import { buildPromptWithContext } from './context';
+import { checkPermission, describeDenial, isReadOnly } from './permissions';
+import { mergeUsage, normalizeUsage } from './usage';
+import { stopCommand } from '@/lib/process';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'qwen2.5-coder:14b';
+const DEFAULT_MAX_TURNS = 30;
+const DEFAULT_COMMAND_TIMEOUT_MS = 120_000;
+const MAX_TOOL_OUTPUT_CHARS = 20_000;
+const MAX_LIST_ENTRIES = 500;
+
+interface OpenAICompatibleConfig extends CLIConfig {
+  baseUrl?: string;
+  model?: string;
+  temperature?: number;
+  maxTurns?: number;
+  commandTimeoutMs?: number;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type ToolName = 'read_file' | 'write_file' | 'list_dir' | 'run_command';
+
+const READ_ONLY_TOOLS: ToolName[] = ['read_file', 'list_dir'];
+
+const TOOL_DEFINITIONS: Record<ToolName, unknown> = {
+  read_file: {
+    type: 'function',
+    function: {
+      name: 'read_file',
+      description: 'Read a UTF-8 text file. Paths are relative to the working directory.',
+      parameters: {
+        type: 'object',
+        properties: { path: { type: 'string' } },
+        required: ['path'],
+      },
+    },
+  },
+  write_file: {
+    type: 'function',
+    function: {
+      name: 'write_file',
+      description:
+        'Create or overwrite a file with the given content. Parent directories are created.',
+      parameters: {
+        type: 'object',
+        properties: { path: { type: 'string' }, content: { type: 'string' } },
+        required: ['path', 'content'],
+      },
+    },
+  },
+  list_dir: {
+    type: 'function',
+    function: {
+      name: 'list_dir',
+      description: 'List entries of a directory ("." for the working directory).',
+      parameters: {
+        type: 'object',
+        properties: { path: { type: 'string' } },
+        required: ['path'],
+      },
+    },
+  },
+  run_command: {
+    type: 'function',
+    function: {
+      name: 'run_command',
+      description: 'Run a shell command in the working directory and return its output.',
+      parameters: {
+        type: 'object',
+        properties: { command: { type: 'string' } },
+        required: ['command'],
+      },
+    },
+  },
+};
+
+/**
+ * Real path of `target`, or of its nearest existing ancestor joined with the rest (for files
+ * and directories that are about to be written)
+ */
+async function realpathOfExisting(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch (error) {
+    const parent = path.dirname(target);
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === target) throw error;
+    return path.join(await realpathOfExisting(parent), path.basename(target));
+  }
+}
+
+/**
+ * Resolve a model-supplied path inside the worktree. Symlinks are followed, so a link inside
+ * the worktree cannot reach files outside it. Throws if the path escapes the root.
+ */
+export async function resolveWorkspacePath(root: string, requested: string): Promise<string> {
+  const realRoot = await fs.realpath(root);
+  const resolved = await realpathOfExisting(path.resolve(realRoot, requested || '.'));
+  const relative = path.relative(realRoot, resolved);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Path is outside the working directory: ${requested}`);
+  }
+  return resolved;
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_TOOL_OUTPUT_CHARS) return text;
+  return `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n... [truncated ${text.length - MAX_TOOL_OUTPUT_CHARS} chars]`;
+}
+
+/**
+ * Parse Server-Sent Events text into `data:` payloads. Returns the payloads of complete
+ * events and the unconsumed remainder of the buffer.
+ */
+export function parseSSEBuffer(buffer: string): { events: string[]; rest: string } {
+  const events: string[] = [];
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  for (const block of blocks) {
+    const data = block
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (data) events.push(data);
+  }
+  return { events, rest };
+}
+
+export class OpenAICompatibleAdapter implements CLIAdapter {
+  name = 'openai-compatible';
+  displayName = 'Local Model (OpenAI-compatible)';
+
+  private config: OpenAICompatibleConfig | null = null;
+  private threadWorkingDirs = new Map<string, string>();
+  private threadMessages = new Map<string, ChatMessage[]>();
+  private historyFiles = new Map<string, string>();
+  private abortControllers = new Map<string, AbortController>();
+  private commands = new Map<string, ChildProcess>();
+
+  getConfigSchema(): CLIConfigSchema {
+    return {
+      fields: [
+        {
+          name: 'baseUrl',
+          label: 'Base URL',
+          type: 'text',
+          default: DEFAULT_BASE_URL,
+          description: 'OpenAI-compatible API root (Ollama: :11434/v1, llama.cpp: :8080/v1)',
+        },
+        {
+          name: 'model',
+          label: 'Model',
+          type: 'text',
+          default: DEFAULT_MODEL,
+          description: 'Model name as served by the local server (must support tool calls)',
+        },
+        {
+          name: 'temperature',
+          label: 'Temperature',
+          type: 'number',
+          default: 0.2,
+        },
+        {
+          name: 'maxTurns',
+          label: 'Max Tool Turns',
+          type: 'number',
+          default: DEFAULT_MAX_TURNS,
+          description: 'Upper bound on model ↔ tool round trips per run',
+        },
+      ],
+    };
+  }
+
+  async initialize(config: CLIConfig): Promise<void> {
+    this.config = config;
+    console.log('[OpenAICompatibleAdapter] Initialized with cwd:', config.cwd);
+  }
+
+  async *execute(request: ExecuteRequest): AsyncIterable<StreamMessage> {
+    if (!this.config) {
+      throw new Error('OpenAICompatibleAdapter not initialized');
+    }
+
+    const threadId = request.threadId || this.generateThreadId();
+    const cwd = this.threadWorkingDirs.get(threadId) ?? this.config.cwd;
+
+    // Detect phase from request
+    const isPlanningPhase =
+      request.isQuestionGeneration ||
+      request.prompt.includes('PLANNING PHASE') ||
+      request.prompt.includes('Question Generation');
+
+    const isSubtaskGeneration =
+      request.isSubtaskGeneration || request.prompt.includes('SUBTASK GENERATION');
+
+    const permissions = request.permissions;
+    const readOnly = isPlanningPhase || isSubtaskGeneration || isReadOnly(permissions);
+    const toolNames = (
+      readOnly ? READ_ONLY_TOOLS : (Object.keys(TOOL_DEFINITIONS) as ToolName[])
+    ).filter((name) => checkPermission(permissions, 'tool', name).allowed);
+
+    const baseUrl = (
+      process.env.OPENAI_COMPATIBLE_BASE_URL ||
+      this.config.baseUrl ||
+      DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+    const model = this.config.model || DEFAULT_MODEL;
+    const maxTurns = Number(this.config.maxTurns) || DEFAULT_MAX_TURNS;
+
+    const messages = this.threadMessages.get(threadId) ?? [
+      { role: 'system', content: this.buildSystemPrompt(cwd, toolNames) },
+    ];
+    messages.push({
+      role: 'user',
+      content: buildPromptWithContext(request.prompt, request.context),
+    });
+    this.threadMessages.set(threadId, messages);
+
+    const controller = new AbortController();
+    this.abortControllers.set(threadId, controller);
+
+    yield {
+      type: 'system',
+      timestamp: Date.now(),
+      data: {
+        message: 'Local model session started',
+        baseUrl,
+        model,
+        cwd,
+        tools: toolNames,
+      },
+      threadId,
+    };
+
+    let finalOutput = '';
+    let usage: UsageReport | undefined = { model };
+    let turnsExhausted = false;
+
+    try {
+      for (let turn = 0; turn < maxTurns; turn++) {
+        // Persist the conversation each turn so the thread can be resumed after a restart
+        await this.saveHistory(threadId, messages);
+
+        let content = '';
+        let lineBuffer = '';
+        const toolCalls: ToolCall[] = [];
+
+        for await (const event of this.streamCompletion(
+          baseUrl,
+          { model, messages, toolNames },
+          controller.signal
+        )) {
+          if (event.kind === 'content') {
+            // Tokens are grouped into lines so the log view is not flooded with fragments
+            content += event.text;
+            lineBuffer += event.text;
+            const lines = lineBuffer.split('\n');
+            lineBuffer = lines.pop() || '';
+            for (const line of lines) {
+              if (!line.trim()) continue;
+              yield { type: 'assistant', timestamp: Date.now(), data: { message: line }, threadId };
+            }
+          } else if (event.kind === 'usage') {
+            usage = mergeUsage(usage, normalizeUsage(event.usage));
+          } else {
+            toolCalls.push(...event.calls);
+          }
+        }
+        if (lineBuffer.trim()) {
+          yield {
+            type: 'assistant',
+            timestamp: Date.now(),
+            data: { message: lineBuffer },
+            threadId,
+          };
+        }
+
+        messages.push({
+          role: 'assistant',
+          content: content || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
+        if (content) finalOutput = content;
+
+        if (toolCalls.length === 0) break;
+
+        for (const call of toolCalls) {
+          let args: Record<string, unknown> = {};
+          try {
+            args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+          } catch {
+            // Reported back to the model below
+          }
+
+          yield {
+            type: 'tool',
+            timestamp: Date.now(),
+            data: { tool: call.function.name, status: 'started', call_id: call.id, input: args },
+            threadId,
+          };
+
+          const { output, isError } = await this.runTool(
+            call.function.name,
+            args,
+            cwd,
+            toolNames,
+            threadId,
+            permissions
+          );
+
+          yield {
+            type: 'tool',
+            timestamp: Date.now(),
+            data: {
+              tool: call.function.name,
+              status: isError ? 'failed' : 'completed',
+              call_id: call.id,
+              input: args,
+              output: output.length > 2000 ? `${output.slice(0, 2000)}...` : output,
+            },
+            threadId,
+          };
+
+          messages.push({ role: 'tool', tool_call_id: call.id, content: output });
+        }
+
+        // The model still wanted to use tools: the work is unfinished
+        if (turn === maxTurns - 1) turnsExhausted = true;
+      }
+    } catch (error) {
+      const aborted = controller.signal.aborted;
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: {
+          error: aborted
+            ? 'Stopped by user'
+            : error instanceof Error
+              ? error.message
+              : 'Request to local model failed',
+          output: finalOutput.trim(),
+        },
+        threadId,
+        usage,
+      };
+      return;
+    } finally {
+      this.abortControllers.delete(threadId);
+      await this.saveHistory(threadId, messages);
+    }
+
+    if (turnsExhausted) {
+      yield {
+        type: 'error',
+        timestamp: Date.now(),
+        data: {
+          error: `Stopped after ${maxTurns} tool turns before the model finished (raise maxTurns)`,
+          output: finalOutput.trim(),
+        },
+        threadId,
+        usage,
+      };
+      return;
+    }
+
+    if (isSubtaskGeneration) {
+      yield* this.validateSubtasks(finalOutput, threadId, usage);
+      return;
+    }
+
+    yield {
+      type: 'result',
+      timestamp: Date.now(),
+      data: {
+        success: true,
+        message: 'Local model completed successfully',
+        output: finalOutput.trim(),
+      },
+      threadId,
+      usage,
+    };
+  }
+
+  async createThread(workingDir: string): Promise<string> {
+    const threadId = this.generateThreadId();
+    this.threadWorkingDirs.set(threadId, workingDir);
+    console.log('[OpenAICompatibleAdapter] Created thread:', threadId, 'in', workingDir);
+    return threadId;
+  }
+
+  async resumeThread(threadId: string, options?: ResumeThreadOptions): Promise<void> {
+    console.log('[OpenAICompatibleAdapter] resumeThread called for:', threadId);
+    if (options?.workingDir) this.threadWorkingDirs.set(threadId, options.workingDir);
+    // Conversation history is kept in memory per thread; after a restart reload it from disk
+    if (options?.resumeHandle && !this.threadMessages.has(threadId)) {
+      try {
+        const raw = await fs.readFile(options.resumeHandle, 'utf-8');
+        const messages = JSON.parse(raw) as ChatMessage[];
+        if (Array.isArray(messages)) {
+          this.threadMessages.set(threadId, messages);
+          this.historyFiles.set(threadId, options.resumeHandle);
+        }
+      } catch (error) {
+        console.warn('[OpenAICompatibleAdapter] Could not restore conversation:', error);
+      }
+    }
+  }
+
+  getResumeHandle(threadId: string): string | undefined {
+    return this.historyFiles.get(threadId);
+  }
+
+  async stopThread(threadId: string): Promise<void> {
+    console.log('[OpenAICompatibleAdapter] Stopping thread:', threadId);
+    this.abortControllers.get(threadId)?.abort();
+    const proc = this.commands.get(threadId);
+    if (proc) {
+      stopCommand(process.platform !== 'win32' ? proc.pid : undefined, () => {
+        try {
+          proc.kill('SIGTERM');
+        } catch (error) {
+          console.error('[OpenAICompatibleAdapter] Failed to kill command:', error);
+        }
+      });
+      this.commands.delete(threadId);
+    }
+  }
+
+  getCapabilities(): CLICapabilities {
+    return {
+      supportsThreads: true,
+      supportsModes: ['smart'],
+      maxConcurrentAgents: 2, // Local servers typically handle few parallel generations
+      supportsPermissions: true,
+    };
+  }
+
+  /**
+   * POST a streaming chat completion and yield content deltas and assembled tool calls.
+   * Falls back to a plain JSON body when the server ignores `stream: true`.
+   */
+  private async *streamCompletion(
+    baseUrl: string,
+    params: { model: string; messages: ChatMessage[]; toolNames: ToolName[] },
+    signal: AbortSignal
+  ): AsyncIterable<
+    | { kind: 'content'; text: string }
+    | { kind: 'tools'; calls: ToolCall[] }
+    | { kind: 'usage'; usage: unknown }
+  > {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: params.model,
+        messages: params.messages,
+        tools: params.toolNames.map((name) => TOOL_DEFINITIONS[name]),
+        tool_choice: 'auto',
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(this.config?.temperature !== undefined
+          ? { temperature: Number(this.config.temperature) }
+          : {}),
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const text = await response.text().catch(() => '');
+      throw new Error(
+        `Local model request failed (${response.status} ${response.statusText})${text ? `: ${text.slice(0, 500)}` : ''}`
+      );
+    }
+
+    if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+      const json = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string | null; tool_calls?: ToolCall[] } }>;
+        usage?: unknown;
+      };
+      if (json.usage) yield { kind: 'usage', usage: json.usage };
+      const message = json.choices?.[0]?.message;
+      if (message?.content) yield { kind: 'content', text: message.content };
+      if (message?.tool_calls?.length) yield { kind: 'tools', calls: message.tool_calls };
+      return;
+    }
+
+    // Tool call deltas arrive in fragments keyed by index
+    const partialCalls = new Map<number, ToolCall>();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const { events, rest } = parseSSEBuffer(buffer);
+      buffer = rest;
+
+      for (const data of events) {
+        if (data === '[DONE]') continue;
+        let parsed: {
+          choices?: Array<{
+            delta?: {
+              content?: string | null;
+              tool_calls?: Array<{
+                index?: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+              }>;
+            };
+          }>;
+          usage?: unknown;
+        };
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        // With include_usage the last chunk carries the turn's usage and no choices
+        if (parsed.usage) yield { kind: 'usage', usage: parsed.usage };
+
+        const delta = parsed.choices?.[0]?.delta;
+        if (!delta) continue;
+        if (delta.content) yield { kind: 'content', text: delta.content };
+
+        for (const fragment of delta.tool_calls ?? []) {
+          const index = fragment.index ?? 0;
+          const existing = partialCalls.get(index) ?? {
+            id: fragment.id || `call_${index}`,
+            type: 'function' as const,
+            function: { name: '', arguments: '' },
+          };
+          if (fragment.id) existing.id = fragment.id;
+          if (fragment.function?.name) existing.function.name += fragment.function.name;
+          if (fragment.function?.arguments) {
+            existing.function.arguments += fragment.function.arguments;
+          }
+          partialCalls.set(index, existing);
+        }
+      }
+    }
+
+    if (partialCalls.size > 0) {
+      yield {
+        kind: 'tools',
+        calls: [...partialCalls.entries()].sort(([a], [b]) => a - b).map(([, call]) => call),
+      };
+    }
+  }
+
+  /**
+   * Execute one tool call inside the worktree. Errors are returned to the model as text.
+   */
+  private async runTool(
+    name: string,
+    args: Record<string, unknown>,
+    cwd: string,
+    allowed: ToolName[],
+    threadId: string,
+    permissions?: PermissionRule[]
+  ): Promise<{ output: string; isError: boolean }> {
+    if (!allowed.includes(name as ToolName)) {
+      return { output: `Error: tool "${name}" is not available in this phase`, isError: true };
+    }
+
+    const denied = (kind: 'path' | 'command', value: string) => {
+      const decision = checkPermission(permissions, kind, value);
+      return decision.allowed
+        ? null
+        : {
+            output: `Error: permission denied - ${describeDenial(kind, value, decision)}`,
+            isError: true,
+          };
+    };
+
+    try {
+      switch (name as ToolName) {
+        case 'read_file': {
+          const filePath = await resolveWorkspacePath(cwd, String(args.path ?? ''));
+          return { output: truncate(await fs.readFile(filePath, 'utf-8')), isError: false };
+        }
+        case 'write_file': {
+          const filePath = await resolveWorkspacePath(cwd, String(args.path ?? ''));
+          const refusal = denied('path', path.relative(cwd, filePath));
+          if (refusal) return refusal;
+          const content = typeof args.content === 'string' ? args.content : '';
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, content, 'utf-8');
+          return {
+            output: `Wrote ${Buffer.byteLength(content)} bytes to ${path.relative(cwd, filePath)}`,
+            isError: false,
+          };
+        }
+        case 'list_dir': {
+          const dirPath = await resolveWorkspacePath(cwd, String(args.path ?? '.'));
+          const entries = await fs.readdir(dirPath, { withFileTypes: true });
+          const lines = entries
+            .filter((e) => e.name !== '.git')
+            .slice(0, MAX_LIST_ENTRIES)
+            .map((e) => (e.isDirectory() ? `${e.name}/` : e.name))
+            .sort();
+          return { output: lines.join('\n') || '(empty)', isError: false };
+        }
+        case 'run_command': {
+          const command = String(args.command ?? '');
+          return denied('command', command) ?? (await this.runCommand(command, cwd, threadId));
+        }
+      }
+    } catch (error) {
+      return {
+        output: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true,
+      };
+    }
+  }
+
+  private runCommand(
+    command: string,
+    cwd: string,
+    threadId: string
+  ): Promise<{ output: string; isError: boolean }> {
+    if (!command.trim()) {
+      return Promise.resolve({ output: 'Error: command is required', isError: true });
+    }
+
+    const timeoutMs = Number(this.config?.commandTimeoutMs) || DEFAULT_COMMAND_TIMEOUT_MS;
+
+    return new Promise((resolve) => {
+      // Own process group, so a timeout or stop also ends what the shell started (npm test, a && b)
+      const child = spawn(command, {
+        cwd,
+        shell: true,
+        detached: process.platform !== 'win32',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      this.commands.set(threadId, child);
+      let output = '';
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        stopCommand(process.platform !== 'win32' ? child.pid : undefined, () =>
+          child.kill('SIGTERM')
+        );
+      }, timeoutMs);
+
+      child.stdout?.on('data', (chunk) => (output += chunk.toString()));
+      child.stderr?.on('data', (chunk) => (output += chunk.toString()));
+      child.on('error', (err) => {
+        clearTimeout(timer);
+        this.commands.delete(threadId);
+        resolve({ output: `Error: ${err.message}`, isError: true });
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        this.commands.delete(threadId);
+        const suffix = timedOut ? `\n[timed out after ${timeoutMs}ms]` : `\n[exit code ${code}]`;
+        resolve({ output: truncate(output) + suffix, isError: timedOut || code !== 0 });
+      });
+    });
+  }
+
+  /**
+   * Write the thread's conversation outside the worktree (best-effort)
+   */
+  private async saveHistory(threadId: string, messages: ChatMessage[]): Promise<void> {
+    const filePath = path.join(os.tmpdir(), 'code-automata-openai', `${threadId}.json`);
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(messages), 'utf-8');
+      this.historyFiles.set(threadId, filePath);
+    } catch (error) {
+      console.warn('[OpenAICompatibleAdapter] Failed to save conversation:', error);
+    }
+  }
+
+  private buildSystemPrompt(cwd: string, toolNames: ToolName[]): string {
+    return [
+      'You are a coding agent working inside a git worktree.',
+      `Working directory: ${cwd}`,
+      `Available tools: ${toolNames.join(', ')}. All paths are relative to the working directory.`,
+      toolNames.includes('write_file')
+        ? 'Make the requested changes with the tools, verify them, then reply with a short summary.'
+        : 'This is a read-only phase: inspect the code as needed and do not attempt to modify files.',
+    ].join('\n');
+  }
+
+  /**
+   * Validate subtasks JSON once. The start-development route runs its own fix-agent
+   * loop, so a failed validation is reported and the raw output is still returned.
+   */
+  private async *validateSubtasks(
+    output: string,
+    threadId: string,
+    usage: UsageReport | undefined
+  ): AsyncIterable<StreamMessage> {
+    const { extractAndValidateJSON, validateSubtasks } =
+      await import('../validation/subtask-validator');
+
+    const { data: parsedData, error: parseError } = extractAndValidateJSON(output);
+    const validation = parseError ? null : validateSubtasks(parsedData);
+
+    yield {
+      type: 'validation',
+      timestamp: Date.now(),
+      data: {
+        attempt: 1,
+        success: !!validation?.valid,
+        error: parseError ?? undefined,
+        subtaskCount: parsedData?.subtasks?.length || 0,
+        errors: validation?.errors,
+        warnings: validation?.warnings,
+      },
+      threadId,
+    };
+
+    yield {
+      type: 'result',
+      timestamp: Date.now(),
+      data: {
+        success: true,
+        message: validation?.valid ? 'Subtasks validation passed' : 'Local model completed',
+        output: output.trim(),
+        subtasks: validation?.valid ? (parsedData?.subtasks ?? []) : undefined,
+      },
+      threadId,
+      usage,
+    };
+  }
+
+  private generateThreadId(): string {
+    return `local-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
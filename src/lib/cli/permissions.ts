@@ -0,0 +1,130 @@
+/**
+ * Permission rule matching for adapters
+ *
+ * Deny rules win. When a kind has allow rules, a value must match one of them.
+ * Adapters use these helpers to translate rules to native settings (or enforce them in their
+ * own tool loop); the agent manager uses them to detect violations after the fact.
+ */
+
+import { PermissionKind, PermissionRule } from './base';
+
+export interface PermissionDecision {
+  allowed: boolean;
+  /** The deny rule that matched, or undefined when the value is outside an allow list */
+  rule?: PermissionRule;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function patternToRegExp(pattern: string, kind: PermissionKind): RegExp {
+  if (kind === 'path') {
+    // `**` spans directories (`**/` also matches none), `*` stays within one segment
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern.startsWith('**/', i)) {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (pattern.startsWith('**', i)) {
+        source += '.*';
+        i += 1;
+      } else if (pattern[i] === '*') {
+        source += '[^/]*';
+      } else {
+        source += escapeRegExp(pattern[i]);
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+  const source = pattern.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${source}$`, kind === 'tool' ? 'i' : '');
+}
+
+export function getRuleKind(rule: PermissionRule): PermissionKind {
+  return rule.kind ?? 'tool';
+}
+
+export function matchesPermissionPattern(
+  pattern: string,
+  value: string,
+  kind: PermissionKind
+): boolean {
+  const normalized = kind === 'path' ? value.replace(/\\/g, '/').replace(/^\.\//, '') : value;
+  return patternToRegExp(pattern.trim(), kind).test(normalized.trim());
+}
+
+export function rulesOfKind(
+  rules: PermissionRule[] | undefined,
+  kind: PermissionKind
+): PermissionRule[] {
+  return (rules ?? []).filter((rule) => getRuleKind(rule) === kind);
+}
+
+/**
+ * Decide whether a tool name, command or path is permitted.
+ * Compound shell commands are checked segment by segment (`a && b`, `a | b`, `a; b`).
+ */
+export function checkPermission(
+  rules: PermissionRule[] | undefined,
+  kind: PermissionKind,
+  value: string
+): PermissionDecision {
+  if (kind === 'command') {
+    const segments = value
+      .split(/&&|\|\||;|\|/)
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+    if (segments.length > 1) {
+      for (const segment of segments) {
+        const decision = checkSingle(rules, kind, segment);
+        if (!decision.allowed) return decision;
+      }
+      return { allowed: true };
+    }
+  }
+  return checkSingle(rules, kind, value);
+}
+
+function checkSingle(
+  rules: PermissionRule[] | undefined,
+  kind: PermissionKind,
+  value: string
+): PermissionDecision {
+  const relevant = rulesOfKind(rules, kind);
+  const denied = relevant.find(
+    (rule) => !rule.allowed && matchesPermissionPattern(rule.action, value, kind)
+  );
+  if (denied) return { allowed: false, rule: denied };
+
+  const allowList = relevant.filter((rule) => rule.allowed);
+  if (
+    allowList.length > 0 &&
+    !allowList.some((rule) => matchesPermissionPattern(rule.action, value, kind))
+  ) {
+    return { allowed: false };
+  }
+  return { allowed: true };
+}
+
+/**
+ * True when every path is denied (no file changes allowed)
+ */
+export function isReadOnly(rules: PermissionRule[] | undefined): boolean {
+  return rulesOfKind(rules, 'path').some(
+    (rule) => !rule.allowed && (rule.action === '**' || rule.action === '*')
+  );
+}
+
+/**
+ * Human-readable reason for a denied decision
+ */
+export function describeDenial(
+  kind: PermissionKind,
+  value: string,
+  decision: PermissionDecision
+): string {
+  return decision.rule
+    ? `${kind} "${value}" is denied by rule "${decision.rule.action}"`
+    : `${kind} "${value}" is not in the allow list`;
+}
@@ -0,0 +1,261 @@
+/**
+ * CLI adapter plugins
+ *
+ * Loads adapter modules at runtime and registers them with CLIFactory, so new agents can be
+ * added without touching the factory. Plugins are looked up in:
+ * - `~/.code-automata/plugins/` (user; override with CODE_AUTOMATA_PLUGINS_DIR)
+ * - `<project>/.code-automata/plugins/` (project; wins over user plugins with the same name)
+ *
+ * A plugin is a `.js` / `.mjs` / `.cjs` file (or a directory with an `index.*` file) whose
+ * default export — or `createAdapter` export — is either a class implementing CLIAdapter or a
+ * factory function returning one. Each instance is checked against the CLIAdapter contract
+ * before registration; invalid plugins are reported and skipped.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { CLIAdapter } from './base';
+import { CLIFactory } from './factory';
+import { loadCommandAdapters } from './command-loader';
+
+const PLUGIN_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const ADAPTER_METHODS: Array<keyof CLIAdapter> = [
+  'getConfigSchema',
+  'initialize',
+  'execute',
+  'createThread',
+  'resumeThread',
+  'stopThread',
+  'getCapabilities',
+];
+
+export type PluginScope = 'user' | 'project';
+
+export interface LoadedPlugin {
+  name: string;
+  displayName: string;
+  scope: PluginScope;
+  modulePath: string;
+}
+
+export interface PluginLoadError {
+  modulePath: string;
+  errors: string[];
+}
+
+// Names registered by the last load of each project, so removed plugins are unregistered
+// without touching the plugins of other open projects
+const registeredNames = new Map<string, Set<string>>();
+
+export function getPluginDirs(projectDir: string): Array<{ scope: PluginScope; dir: string }> {
+  return [
+    {
+      scope: 'user',
+      dir:
+        process.env.CODE_AUTOMATA_PLUGINS_DIR ||
+        path.join(os.homedir(), '.code-automata', 'plugins'),
+    },
+    { scope: 'project', dir: path.join(projectDir, '.code-automata', 'plugins') },
+  ];
+}
+
+/**
+ * Check an adapter instance against the CLIAdapter contract. Returns a list of problems.
+ */
+export function validateCLIAdapter(candidate: unknown): string[] {
+  if (!candidate || typeof candidate !== 'object') {
+    return ['Adapter must be an object'];
+  }
+  const adapter = candidate as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof adapter.name !== 'string' || !NAME_PATTERN.test(adapter.name)) {
+    errors.push('"name" must be a lowercase identifier (a-z, 0-9, "-" or "_")');
+  }
+  if (typeof adapter.displayName !== 'string' || !adapter.displayName.trim()) {
+    errors.push('"displayName" must be a non-empty string');
+  }
+  for (const method of ADAPTER_METHODS) {
+    if (typeof adapter[method] !== 'function') {
+      errors.push(`"${method}" must be a function`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  try {
+    const schema = (adapter as unknown as CLIAdapter).getConfigSchema();
+    if (!schema || !Array.isArray(schema.fields)) {
+      errors.push('getConfigSchema() must return { fields: [...] }');
+    } else {
+      schema.fields.forEach((field, i) => {
+        if (!field || typeof field.name !== 'string' || typeof field.label !== 'string') {
+          errors.push(`getConfigSchema().fields[${i}] needs string "name" and "label"`);
+        }
+      });
+    }
+  } catch (err) {
+    errors.push(`getConfigSchema() threw: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  try {
+    const caps = (adapter as unknown as CLIAdapter).getCapabilities();
+    if (
+      !caps ||
+      typeof caps.supportsThreads !== 'boolean' ||
+      !Array.isArray(caps.supportsModes) ||
+      typeof caps.maxConcurrentAgents !== 'number' ||
+      typeof caps.supportsPermissions !== 'boolean'
+    ) {
+      errors.push(
+        'getCapabilities() must return { supportsThreads, supportsModes, maxConcurrentAgents, supportsPermissions }'
+      );
+    }
+  } catch (err) {
+    errors.push(`getCapabilities() threw: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Turn a module export into an adapter factory (class → `new`, function → call)
+ */
+function toFactory(exported: unknown): (() => CLIAdapter) | null {
+  if (typeof exported !== 'function') return null;
+  const fn = exported as { prototype?: Record<string, unknown> };
+  if (fn.prototype && typeof fn.prototype.execute === 'function') {
+    const AdapterClass = exported as new () => CLIAdapter;
+    return () => new AdapterClass();
+  }
+  return exported as () => CLIAdapter;
+}
+
+async function listPluginModules(dir: string): Promise<string[]> {
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const modules: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isFile() && PLUGIN_EXTENSIONS.includes(path.extname(entry.name))) {
+      modules.push(fullPath);
+    } else if (entry.isDirectory()) {
+      for (const ext of PLUGIN_EXTENSIONS) {
+        const indexPath = path.join(fullPath, `index${ext}`);
+        if (
+          await fs
+            .stat(indexPath)
+            .then((s) => s.isFile())
+            .catch(() => false)
+        ) {
+          modules.push(indexPath);
+          break;
+        }
+      }
+    }
+  }
+  return modules;
+}
+
+async function importPlugin(modulePath: string): Promise<() => CLIAdapter> {
+  // mtime query busts the module cache so edited plugins are picked up without a restart
+  const { mtimeMs } = await fs.stat(modulePath);
+  const url = `${pathToFileURL(modulePath).href}?v=${Math.floor(mtimeMs)}`;
+  const mod = (await import(/* webpackIgnore: true */ url)) as Record<string, unknown>;
+
+  const factory =
+    toFactory(mod.default) ??
+    toFactory(mod.createAdapter) ??
+    toFactory((mod.default as Record<string, unknown> | undefined)?.default);
+  if (!factory) {
+    throw new Error('Module must export a CLIAdapter class or factory as default or createAdapter');
+  }
+  return factory;
+}
+
+/**
+ * Load adapter plugins for a project and (re-)register them with CLIFactory.
+ */
+export async function loadAdapterPlugins(
+  projectDir: string
+): Promise<{ plugins: LoadedPlugin[]; errors: PluginLoadError[] }> {
+  const found = new Map<string, LoadedPlugin & { create: () => CLIAdapter }>();
+  const errors: PluginLoadError[] = [];
+
+  for (const { scope, dir } of getPluginDirs(projectDir)) {
+    for (const modulePath of await listPluginModules(dir)) {
+      try {
+        const create = await importPlugin(modulePath);
+        const instance = create();
+        const problems = validateCLIAdapter(instance);
+        if (problems.length === 0) {
+          const existing = CLIFactory.getProvider(instance.name);
+          if (existing && existing.source !== 'plugin') {
+            problems.push(`Provider name "${instance.name}" is already in use`);
+          }
+        }
+        if (problems.length > 0) {
+          errors.push({ modulePath, errors: problems });
+          continue;
+        }
+        // Later scopes (project) override earlier ones (user)
+        found.set(instance.name, {
+          name: instance.name,
+          displayName: instance.displayName,
+          scope,
+          modulePath,
+          create,
+        });
+      } catch (err) {
+        errors.push({
+          modulePath,
+          errors: [err instanceof Error ? err.message : String(err)],
+        });
+      }
+    }
+  }
+
+  const previousNames = registeredNames.get(projectDir) ?? new Set<string>();
+  registeredNames.set(projectDir, new Set(found.keys()));
+  for (const name of previousNames) {
+    const stillRegistered = [...registeredNames.values()].some((names) => names.has(name));
+    if (!stillRegistered) CLIFactory.unregisterProvider(name);
+  }
+
+  for (const plugin of found.values()) {
+    CLIFactory.registerProvider(plugin.name, {
+      source: 'plugin',
+      create: plugin.create,
+      modulePath: plugin.modulePath,
+    });
+  }
+
+  for (const error of errors) {
+    console.warn(`[plugins] Skipping ${error.modulePath}:`, error.errors);
+  }
+
+  return {
+    plugins: [...found.values()].map(({ create: _create, ...plugin }) => plugin),
+    errors,
+  };
+}
+
+/**
+ * Register every runtime adapter for a project (adapter plugins and command-template adapters).
+ * Call before resolving providers or listing adapters.
+ */
+export async function loadRuntimeAdapters(projectDir: string): Promise<{
+  plugins: LoadedPlugin[];
+  errors: PluginLoadError[];
+}> {
+  const result = await loadAdapterPlugins(projectDir);
+  await loadCommandAdapters(projectDir);
+  return result;
+}
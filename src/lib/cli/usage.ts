@@ -0,0 +1,63 @@
+/**
+ * Usage helpers for adapters
+ *
+ * Maps provider-native token usage (Anthropic-style `input_tokens`, OpenAI-style
+ * `prompt_tokens`, ...) to `UsageReport` and sums reports within a run.
+ */
+
+import { UsageReport } from './base';
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Normalize a raw usage object. Returns undefined when it carries no token counts.
+ */
+export function normalizeUsage(raw: unknown, model?: string): UsageReport | undefined {
+  if (!raw || typeof raw !== 'object') return model ? { model } : undefined;
+  const usage = raw as Record<string, unknown>;
+
+  const inputTokens =
+    toNumber(usage.inputTokens) ?? toNumber(usage.input_tokens) ?? toNumber(usage.prompt_tokens);
+  const cacheTokens =
+    (toNumber(usage.cache_read_input_tokens) ?? 0) +
+    (toNumber(usage.cache_creation_input_tokens) ?? 0);
+  const outputTokens =
+    toNumber(usage.outputTokens) ??
+    toNumber(usage.output_tokens) ??
+    toNumber(usage.completion_tokens);
+  const costUsd =
+    toNumber(usage.costUsd) ?? toNumber(usage.cost_usd) ?? toNumber(usage.total_cost_usd);
+
+  if (inputTokens === undefined && outputTokens === undefined && costUsd === undefined) {
+    return model ? { model } : undefined;
+  }
+
+  return {
+    inputTokens:
+      inputTokens !== undefined || cacheTokens > 0 ? (inputTokens ?? 0) + cacheTokens : undefined,
+    outputTokens,
+    costUsd,
+    ...(model ? { model } : {}),
+  };
+}
+
+/**
+ * Sum two reports (the later model wins)
+ */
+export function mergeUsage(
+  a: UsageReport | undefined,
+  b: UsageReport | undefined
+): UsageReport | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  const sum = (x?: number, y?: number) =>
+    x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0);
+  return {
+    inputTokens: sum(a.inputTokens, b.inputTokens),
+    outputTokens: sum(a.outputTokens, b.outputTokens),
+    costUsd: sum(a.costUsd, b.costUsd),
+    model: b.model ?? a.model,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { commitCheckpoint, isCheckpointContained, resetToCheckpoint } from '../checkpoints';
+
+describe('subtask checkpoints', () => {
+  let repo: string;
+
+  beforeAll(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+    execFileSync('git', ['init', '-q'], { cwd: repo });
+    await fs.writeFile(path.join(repo, 'README.md'), 'base\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('commits each checkpoint and resets back to an earlier one', async () => {
+    const base = await commitCheckpoint(repo, 'checkpoint: before dev subtasks');
+
+    await fs.writeFile(path.join(repo, 'one.ts'), 'export const one = 1;\n');
+    const first = await commitCheckpoint(repo, 'checkpoint: s1');
+    expect(first).not.toBe(base);
+    // Nothing changed: the current HEAD is the checkpoint
+    expect(await commitCheckpoint(repo, 'checkpoint: noop')).toBe(first);
+
+    await fs.writeFile(path.join(repo, 'two.ts'), 'export const two = 2;\n');
+    const second = await commitCheckpoint(repo, 'checkpoint: s2');
+    await fs.writeFile(path.join(repo, 'scratch.ts'), 'uncommitted\n');
+
+    await resetToCheckpoint(repo, first);
+
+    await expect(fs.readFile(path.join(repo, 'one.ts'), 'utf-8')).resolves.toContain('one');
+    await expect(fs.access(path.join(repo, 'two.ts'))).rejects.toThrow();
+    await expect(fs.access(path.join(repo, 'scratch.ts'))).rejects.toThrow();
+    expect(await isCheckpointContained(repo, base, first)).toBe(true);
+    expect(await isCheckpointContained(repo, second, first)).toBe(false);
+  });
+
+  it('commits only the files of the completing subtask while a sibling is running', async () => {
+    await fs.mkdir(path.join(repo, 'src', 'api'), { recursive: true });
+    await fs.mkdir(path.join(repo, 'src', 'ui'), { recursive: true });
+    // s1 (files: src/api) is done; s2 (files: src/ui/**/*.tsx) is still writing
+    await fs.writeFile(path.join(repo, 'src', 'api', 'route.ts'), 'export const route = 1;\n');
+    await fs.writeFile(path.join(repo, 'src', 'ui', 'form.tsx'), 'partial\n');
+
+    // s2's agent staged its partial file; s1's checkpoint must still leave it out
+    execFileSync('git', ['add', 'src/ui/form.tsx'], { cwd: repo });
+
+    const first = await commitCheckpoint(repo, 'checkpoint: s1', ['src/api', 'src/missing.ts']);
+    const committed = (rev: string) =>
+      execFileSync('git', ['show', '--name-only', '--format=', rev], {
+        cwd: repo,
+        encoding: 'utf-8',
+      })
+        .split('\n')
+        .filter(Boolean);
+    expect(committed(first)).toEqual(['src/api/route.ts']);
+
+    const second = await commitCheckpoint(repo, 'checkpoint: s2', ['src/ui/**/*.tsx']);
+    expect(committed(second)).toEqual(['src/ui/form.tsx']);
+    expect(await commitCheckpoint(repo, 'checkpoint: noop', ['src/api'])).toBe(second);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getBranchDiff, parseUnifiedDiff } from '../diff';
+
+const git = (cwd: string, args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@localhost', ...args], {
+    cwd,
+    encoding: 'utf-8',
+  });
+
+describe('parseUnifiedDiff', () => {
+  it('parses hunks with line numbers', () => {
+    const [file] = parseUnifiedDiff(
+      [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,3 +1,3 @@ export function a() {',
+        ' const x = 1;',
+        '-const y = 2;',
+        '+const y = 3;',
+        ' return x + y;',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n')
+    );
+
+    expect(file).toMatchObject({
+      path: 'src/a.ts',
+      status: 'modified',
+      additions: 1,
+      deletions: 1,
+    });
+    expect(file.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 3 });
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'context', content: 'const x = 1;', oldLine: 1, newLine: 1 },
+      { type: 'delete', content: 'const y = 2;', oldLine: 2 },
+      { type: 'add', content: 'const y = 3;', newLine: 2 },
+      { type: 'context', content: 'return x + y;', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('detects added, deleted, renamed and binary files', () => {
+    const files = parseUnifiedDiff(
+      [
+        'diff --git a/new.ts b/new.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.ts',
+        '@@ -0,0 +1 @@',
+        '+export {};',
+        'diff --git a/old.ts b/old.ts',
+        'deleted file mode 100644',
+        '--- a/old.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-gone',
+        'diff --git a/docs/a b.md b/docs/c d.md',
+        'similarity index 90%',
+        'rename from docs/a b.md',
+        'rename to docs/c d.md',
+        'diff --git a/logo.png b/logo.png',
+        'new file mode 100644',
+        'Binary files /dev/null and b/logo.png differ',
+      ].join('\n')
+    );
+
+    expect(files.map((f) => [f.path, f.status, f.binary])).toEqual([
+      ['new.ts', 'added', false],
+      ['old.ts', 'deleted', false],
+      ['docs/c d.md', 'renamed', false],
+      ['logo.png', 'added', true],
+    ]);
+    expect(files[2]).toMatchObject({ oldPath: 'docs/a b.md', similarity: 90 });
+  });
+});
+
+describe('getBranchDiff', () => {
+  let repo: string;
+
+  beforeAll(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'branch-diff-'));
+    git(repo, ['init', '-q', '-b', 'main']);
+    await fs.writeFile(path.join(repo, 'keep.txt'), 'one\ntwo\nthree\n');
+    await fs.writeFile(path.join(repo, 'move.txt'), 'a\nb\nc\nd\ne\n');
+    git(repo, ['add', '-A']);
+    git(repo, ['commit', '-q', '-m', 'base']);
+    git(repo, ['checkout', '-q', '-b', 'code-automata/task-1']);
+  });
+
+  afterAll(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('diffs committed and uncommitted changes against the merge-base', async () => {
+    git(repo, ['mv', 'move.txt', 'moved.txt']);
+    git(repo, ['commit', '-q', '-m', 'rename']);
+    await fs.writeFile(path.join(repo, 'keep.txt'), 'one\n2\nthree\n');
+
+    const diff = getBranchDiff(repo, 'main');
+
+    expect(diff.baseBranch).toBe('main');
+    expect(diff.files.map((f) => [f.path, f.status])).toEqual([
+      ['keep.txt', 'modified'],
+      ['moved.txt', 'renamed'],
+    ]);
+    expect(diff.additions).toBe(1);
+    expect(diff.deletions).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { detectProvider, parseRemoteUrl } from '../hosting';
+import {
+  addMergeRequestLabels,
+  createGitLabTokenApi,
+  createMergeRequest,
+  findOpenMergeRequest,
+} from '../gitlab';
+
+describe('remote detection', () => {
+  it('parses https, ssh and scp-like remotes', () => {
+    expect(parseRemoteUrl('https://github.com/acme/app.git')).toEqual({
+      host: 'github.com',
+      projectPath: 'acme/app',
+    });
+    expect(parseRemoteUrl('git@git.example.com:group/sub/app.git')).toEqual({
+      host: 'git.example.com',
+      projectPath: 'group/sub/app',
+    });
+    expect(parseRemoteUrl('ssh://git@gitlab.example.com:2222/group/app.git\n')).toEqual({
+      host: 'gitlab.example.com',
+      projectPath: 'group/app',
+    });
+    expect(parseRemoteUrl('/srv/repos/app.git')).toBeNull();
+  });
+
+  it('detects the provider from the host unless configured', () => {
+    expect(detectProvider('github.com', { labels: [] })).toBe('github');
+    expect(detectProvider('gitlab.example.com', { labels: [] })).toBe('gitlab');
+    expect(detectProvider('git.example.com', { labels: [] })).toBe('github');
+    expect(detectProvider('git.example.com', { provider: 'gitlab', labels: [] })).toBe('gitlab');
+  });
+});
+
+describe('GitLab merge requests against a stub API', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  const requests: Array<{ method: string; url: string; token?: string; body?: unknown }> = [];
+  const mergeRequests: Array<{ iid: number; web_url: string; state: string; branch: string }> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => (body += c));
+      req.on('end', () => {
+        const parsed = body ? JSON.parse(body) : undefined;
+        requests.push({
+          method: req.method!,
+          url: req.url!,
+          token: req.headers['private-token'] as string | undefined,
+          body: parsed,
+        });
+        const url = new URL(req.url!, 'http://stub');
+        res.setHeader('Content-Type', 'application/json');
+        if (
+          url.pathname !== '/api/v4/projects/group%2Fapp/merge_requests' &&
+          req.method !== 'PUT'
+        ) {
+          res.writeHead(404).end('{"message":"404 Not Found"}');
+        } else if (req.method === 'GET') {
+          const branch = url.searchParams.get('source_branch');
+          res.end(JSON.stringify(mergeRequests.filter((mr) => mr.branch === branch)));
+        } else if (req.method === 'POST') {
+          const mr = {
+            iid: mergeRequests.length + 1,
+            web_url: `https://gitlab.example.com/group/app/-/merge_requests/${mergeRequests.length + 1}`,
+            state: 'opened',
+            branch: parsed.source_branch,
+          };
+          mergeRequests.push(mr);
+          res.writeHead(201).end(JSON.stringify(mr));
+        } else {
+          res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v4`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('creates an MR with labels, then finds it again for the branch', async () => {
+    const api = createGitLabTokenApi(apiUrl, 'glpat-test');
+
+    expect(await findOpenMergeRequest(api, 'group/app', 'code-automata/task-1')).toBeNull();
+    const created = await createMergeRequest(api, 'group/app', {
+      sourceBranch: 'code-automata/task-1',
+      targetBranch: 'main',
+      title: 'Add login',
+      description: 'Closes #12',
+      labels: ['code-automata', 'auth'],
+    });
+    expect(created.web_url).toContain('/merge_requests/1');
+
+    const existing = await findOpenMergeRequest(api, 'group/app', 'code-automata/task-1');
+    expect(existing?.iid).toBe(1);
+    await addMergeRequestLabels(api, 'group/app', 1, ['reviewed']);
+
+    expect(requests.every((r) => r.token === 'glpat-test')).toBe(true);
+    expect(requests[1].body).toEqual({
+      source_branch: 'code-automata/task-1',
+      target_branch: 'main',
+      title: 'Add login',
+      description: 'Closes #12',
+      labels: 'code-automata,auth',
+    });
+    expect(requests[2].url).toContain('state=opened');
+    expect(requests[3]).toMatchObject({
+      method: 'PUT',
+      url: '/api/v4/projects/group%2Fapp/merge_requests/1',
+      body: { add_labels: 'reviewed' },
+    });
+  });
+
+  it('reports API errors with the status', async () => {
+    const api = createGitLabTokenApi(apiUrl, 'glpat-test');
+    await expect(findOpenMergeRequest(api, 'other/app', 'x')).rejects.toThrow(/404/);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildIssueSummary,
+  createGitHubIssueTracker,
+  createGitLabIssueTracker,
+  issueToTaskFields,
+} from '../issues';
+import type { GitHubApi } from '../github';
+import type { GitLabApi } from '../gitlab';
+import type { Task } from '@/lib/tasks/schema';
+
+type Call = { method: string; endpoint: string; params?: Record<string, string> };
+
+/** In-memory API: answers by endpoint and records every call */
+function fakeApi(responses: Record<string, unknown>, calls: Call[]) {
+  return {
+    async request<T>(method: string, endpoint: string, params?: Record<string, string>) {
+      calls.push({ method, endpoint, params });
+      return (responses[endpoint] ?? null) as T;
+    },
+  };
+}
+
+const githubIssue = (number: number, extra: Record<string, unknown> = {}) => ({
+  number,
+  title: `Issue ${number}`,
+  body: 'Steps to reproduce',
+  labels: [{ name: 'bug' }],
+  milestone: { title: 'v2' },
+  assignees: [{ login: 'sam' }],
+  user: { login: 'alex' },
+  html_url: `https://github.com/acme/app/issues/${number}`,
+  created_at: '2026-03-01T10:00:00Z',
+  comments: 1,
+  ...extra,
+});
+
+describe('GitHub issue tracker', () => {
+  it('lists issues without pull requests and filters the milestone by title', async () => {
+    const calls: Call[] = [];
+    const api: GitHubApi = fakeApi(
+      {
+        'repos/acme/app/issues': [
+          githubIssue(1),
+          githubIssue(2, { pull_request: {} }),
+          githubIssue(3, { milestone: null }),
+        ],
+      },
+      calls
+    );
+    const issues = await createGitHubIssueTracker(api, 'acme/app').listIssues({
+      labels: ['bug', 'ui'],
+      milestone: 'v2',
+      assignee: 'sam',
+    });
+
+    expect(issues.map((i) => i.number)).toEqual([1]);
+    expect(issues[0]).toMatchObject({ labels: ['bug'], assignees: ['sam'], milestone: 'v2' });
+    expect(calls[0].params).toEqual({
+      state: 'open',
+      per_page: '100',
+      labels: 'bug,ui',
+      assignee: 'sam',
+    });
+  });
+
+  it('closes the issue and reads the merged state of a PR', async () => {
+    const calls: Call[] = [];
+    const api: GitHubApi = fakeApi({ 'repos/acme/app/pulls/7': { merged: true } }, calls);
+    const tracker = createGitHubIssueTracker(api, 'acme/app');
+
+    expect(await tracker.isMergeRequestMerged('https://github.com/acme/app/pull/7')).toBe(true);
+    await tracker.closeIssue(3);
+    expect(calls[1]).toEqual({
+      method: 'PATCH',
+      endpoint: 'repos/acme/app/issues/3',
+      params: { state: 'closed' },
+    });
+  });
+});
+
+describe('GitLab issue tracker', () => {
+  it('skips system notes and closes with state_event', async () => {
+    const calls: Call[] = [];
+    const api: GitLabApi = fakeApi(
+      {
+        'projects/group%2Fapp/issues/4/notes': [
+          {
+            author: { username: 'kim' },
+            body: 'Also on Safari',
+            created_at: '2026-03-02',
+            system: false,
+          },
+          {
+            author: { username: 'kim' },
+            body: 'added ~bug label',
+            created_at: '2026-03-02',
+            system: true,
+          },
+        ],
+        'projects/group%2Fapp/merge_requests/9': { state: 'opened' },
+      },
+      calls
+    );
+    const tracker = createGitLabIssueTracker(api, 'group/app');
+
+    expect(await tracker.listComments(4)).toEqual([
+      { author: 'kim', body: 'Also on Safari', createdAt: '2026-03-02' },
+    ]);
+    expect(
+      await tracker.isMergeRequestMerged('https://gitlab.com/group/app/-/merge_requests/9')
+    ).toBe(false);
+    await tracker.closeIssue(4);
+    expect(calls[2]).toEqual({
+      method: 'PUT',
+      endpoint: 'projects/group%2Fapp/issues/4',
+      params: { state_event: 'close' },
+    });
+  });
+});
+
+describe('issue import and close', () => {
+  it('builds task fields from an issue and its comments', () => {
+    const fields = issueToTaskFields(
+      {
+        number: 12,
+        title: 'Login fails',
+        body: 'Steps to reproduce',
+        labels: ['bug', 'auth'],
+        assignees: [],
+        url: 'https://gitlab.com/group/app/-/issues/12',
+        createdAt: '2026-03-01T10:00:00Z',
+        commentCount: 1,
+      },
+      [{ author: 'kim', body: 'Also on Safari', createdAt: '2026-03-02T08:00:00Z' }],
+      'gitlab'
+    );
+
+    expect(fields).toMatchObject({
+      title: 'Login fails',
+      metadata: { tags: ['bug', 'auth'] },
+      gitlabIssue: 12,
+    });
+    expect(fields.githubIssue).toBeUndefined();
+    expect(fields.description).toBe(
+      'Steps to reproduce\n\n---\nImported from https://gitlab.com/group/app/-/issues/12\n\n' +
+        '### Comments\n\n**@kim** (2026-03-02):\nAlso on Safari'
+    );
+  });
+
+  it('summarizes completed dev subtasks and QA for the issue', () => {
+    const task = {
+      id: 'task-1',
+      mergeRequestUrl: 'https://github.com/acme/app/pull/7',
+      subtasks: [
+        { id: 's1', label: 'Fix session cookie', type: 'dev', status: 'completed' },
+        { id: 's2', label: 'Skipped idea', type: 'dev', status: 'pending' },
+        { id: 'q1', label: 'Check login', type: 'qa', status: 'completed' },
+      ],
+    } as unknown as Task;
+
+    expect(buildIssueSummary(task)).toBe(
+      'Resolved by https://github.com/acme/app/pull/7 (Code-Automata task `task-1`).\n\n' +
+        '**Completed:**\n- Fix session cookie\n\n**QA:** 1/1 checks completed'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { buildLocalMergeMessage, mergeTaskBranch, previewLocalMerge } from '../local-merge';
+import type { Task } from '@/lib/tasks/schema';
+
+const BRANCH = 'code-automata/task-1';
+
+describe('local merge', () => {
+  let repo: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repo, encoding: 'utf-8', stdio: 'pipe' }).trim();
+
+  const commitFile = async (file: string, content: string, message: string) => {
+    await fs.writeFile(path.join(repo, file), content);
+    git('add', '-A');
+    git('commit', '-q', '-m', message);
+  };
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'local-merge-'));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@localhost');
+    await commitFile('README.md', 'base\n', 'init');
+    git('branch', BRANCH);
+    git('checkout', '-q', BRANCH);
+    await commitFile('feature.ts', 'export const feature = 1;\n', 'feature');
+    git('checkout', '-q', 'main');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('fast-forwards when main has not moved', async () => {
+    const preview = await previewLocalMerge(repo, 'main', BRANCH);
+    expect(preview).toMatchObject({
+      commitsAhead: 1,
+      canFastForward: true,
+      conflicts: [],
+      dirty: false,
+      onMainBranch: true,
+    });
+
+    const result = await mergeTaskBranch(repo, 'main', BRANCH, 'fast-forward', 'unused');
+    expect(result).toEqual({ ok: true, commit: git('rev-parse', BRANCH) });
+    expect(await mergeTaskBranch(repo, 'main', BRANCH, 'squash', 'msg')).toMatchObject({
+      ok: false,
+      reason: 'up_to_date',
+    });
+  });
+
+  it('squashes into one commit with the given message after main moved on', async () => {
+    await commitFile('other.ts', 'export const other = 2;\n', 'other work');
+
+    expect(await mergeTaskBranch(repo, 'main', BRANCH, 'fast-forward', 'unused')).toMatchObject({
+      ok: false,
+      reason: 'not_fast_forward',
+    });
+    const result = await mergeTaskBranch(repo, 'main', BRANCH, 'squash', 'Add feature\n\nTask: 1');
+
+    expect(result.ok).toBe(true);
+    expect(git('log', '-1', '--format=%B')).toBe('Add feature\n\nTask: 1');
+    expect(git('rev-list', '--count', 'HEAD')).toBe('3');
+    await expect(fs.readFile(path.join(repo, 'feature.ts'), 'utf-8')).resolves.toContain('feature');
+  });
+
+  it('reports conflicts and leaves main untouched', async () => {
+    await commitFile('feature.ts', 'export const feature = 2;\n', 'conflicting work');
+    const head = git('rev-parse', 'HEAD');
+
+    expect((await previewLocalMerge(repo, 'main', BRANCH)).conflicts).toEqual(['feature.ts']);
+    const result = await mergeTaskBranch(repo, 'main', BRANCH, 'merge', 'Merge');
+
+    expect(result).toMatchObject({ ok: false, reason: 'conflicts', conflicts: ['feature.ts'] });
+    expect(git('rev-parse', 'HEAD')).toBe(head);
+    expect(git('status', '--porcelain')).toBe('');
+  });
+
+  it('refuses to merge into a dirty checkout', async () => {
+    await fs.writeFile(path.join(repo, 'README.md'), 'edited\n');
+
+    expect(await mergeTaskBranch(repo, 'main', BRANCH, 'merge', 'Merge')).toMatchObject({
+      ok: false,
+      reason: 'dirty',
+    });
+  });
+});
+
+describe('buildLocalMergeMessage', () => {
+  it('composes the message from the task', () => {
+    const task = {
+      id: 'task-1',
+      title: 'Session refresh',
+      description: 'Keep users logged in',
+      subtasks: [
+        { id: 's1', label: 'Add refresh hook', type: 'dev', status: 'completed' },
+        { id: 's2', label: 'Skipped idea', type: 'dev', status: 'pending' },
+        { id: 'q1', label: 'Check login', type: 'qa', status: 'completed' },
+      ],
+    } as unknown as Task;
+
+    expect(buildLocalMergeMessage(task, 'squash', BRANCH)).toBe(
+      'Session refresh\n\nKeep users logged in\n\nCompleted:\n- Add refresh hook\n\nTask: task-1'
+    );
+    expect(buildLocalMergeMessage(task, 'merge', BRANCH).split('\n')[0]).toBe(
+      `Merge ${BRANCH}: Session refresh`
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { getGitHubPullRequestStatus, getGitLabMergeRequestStatus } from '../merge-request-status';
+import type { GitHubApi } from '../github';
+import type { GitLabApi } from '../gitlab';
+import { needsMergeRequestSync, type Task } from '@/lib/tasks/schema';
+
+/** In-memory API: answers by endpoint */
+function fakeApi(responses: Record<string, unknown>) {
+  return {
+    async request<T>(_method: string, endpoint: string) {
+      return (responses[endpoint] ?? null) as T;
+    },
+  };
+}
+
+describe('getGitHubPullRequestStatus', () => {
+  const pull = (extra: Record<string, unknown> = {}) => ({
+    state: 'open',
+    merged: false,
+    head: { sha: 'abc' },
+    requested_reviewers: [],
+    ...extra,
+  });
+
+  it('uses the latest review per reviewer and the worst check result', async () => {
+    const api: GitHubApi = fakeApi({
+      'repos/acme/app/pulls/7': pull(),
+      'repos/acme/app/pulls/7/reviews': [
+        { user: { login: 'kim' }, state: 'CHANGES_REQUESTED' },
+        { user: { login: 'kim' }, state: 'COMMENTED' },
+        { user: { login: 'kim' }, state: 'APPROVED' },
+      ],
+      'repos/acme/app/commits/abc/check-runs': {
+        check_runs: [
+          { status: 'completed', conclusion: 'success' },
+          { status: 'in_progress', conclusion: null },
+        ],
+      },
+      'repos/acme/app/commits/abc/status': { state: 'pending', total_count: 0 },
+    });
+
+    expect(await getGitHubPullRequestStatus(api, 'acme/app', 7)).toMatchObject({
+      state: 'open',
+      reviewDecision: 'approved',
+      checks: 'pending',
+    });
+  });
+
+  it('reports merged PRs and failing commit statuses', async () => {
+    const api: GitHubApi = fakeApi({
+      'repos/acme/app/pulls/7': pull({ state: 'closed', merged: true }),
+      'repos/acme/app/pulls/7/reviews': [],
+      'repos/acme/app/commits/abc/check-runs': {
+        check_runs: [{ status: 'completed', conclusion: 'success' }],
+      },
+      'repos/acme/app/commits/abc/status': { state: 'failure', total_count: 1 },
+    });
+
+    const status = await getGitHubPullRequestStatus(api, 'acme/app', 7);
+    expect(status).toMatchObject({ state: 'merged', checks: 'failing' });
+    expect(status.reviewDecision).toBeUndefined();
+  });
+});
+
+describe('getGitLabMergeRequestStatus', () => {
+  it('maps MR state, approvals and the head pipeline', async () => {
+    const api: GitLabApi = fakeApi({
+      'projects/group%2Fapp/merge_requests/9': {
+        state: 'opened',
+        detailed_merge_status: 'not_approved',
+        head_pipeline: { status: 'failed' },
+      },
+      'projects/group%2Fapp/merge_requests/9/approvals': { approved: false, approved_by: [] },
+    });
+
+    expect(await getGitLabMergeRequestStatus(api, 'group/app', 9)).toMatchObject({
+      state: 'open',
+      reviewDecision: 'review_required',
+      checks: 'failing',
+    });
+  });
+});
+
+describe('needsMergeRequestSync', () => {
+  const task = (extra: Partial<Task>) =>
+    ({
+      mergeRequestUrl: 'https://github.com/acme/app/pull/7',
+      phase: 'human_review',
+      ...extra,
+    }) as Task;
+  const status = (state: 'open' | 'merged' | 'closed') => ({ state, syncedAt: 0 });
+
+  it('syncs open or unsynced PRs and merged ones not yet done', () => {
+    expect(needsMergeRequestSync(task({}))).toBe(true);
+    expect(needsMergeRequestSync(task({ mergeRequestStatus: status('open') }))).toBe(true);
+    expect(needsMergeRequestSync(task({ mergeRequestStatus: status('merged') }))).toBe(true);
+    expect(
+      needsMergeRequestSync(task({ mergeRequestStatus: status('merged'), phase: 'done' }))
+    ).toBe(false);
+    expect(needsMergeRequestSync(task({ mergeRequestStatus: status('closed') }))).toBe(false);
+    expect(needsMergeRequestSync(task({ mergeRequestUrl: undefined }))).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { buildPullRequestSections, extractPlanSection } from '../pr-body';
+import { getPullRequestBody } from '@/lib/prompts/loader';
+import type { Task } from '@/lib/tasks/schema';
+
+const PLAN = `# Implementation Plan
+
+## Overview
+Add session refresh to the login flow.
+
+## Technical Approach
+### Tokens
+Rotate on every request.
+
+## Testing Strategy
+- Unit tests for the refresh hook
+- Manual check in Safari
+
+## Potential Issues
+None.`;
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Session refresh',
+    description: 'Keep users logged in',
+    phase: 'human_review',
+    status: 'completed',
+    planContent: PLAN,
+    subtasks: [
+      { id: 's1', content: '', label: 'Add refresh hook', status: 'completed', type: 'dev' },
+      { id: 's2', content: '', label: 'Wire up login', status: 'pending', type: 'dev' },
+      {
+        id: 'q1',
+        content: '',
+        label: 'Run unit tests',
+        status: 'completed',
+        type: 'qa',
+        verdict: { verdict: 'pass', findings: [], failingCommands: [] },
+      },
+    ],
+    verification: {
+      stage: 'after_qa',
+      startedAt: 0,
+      completedAt: 1,
+      passed: true,
+      results: [
+        {
+          name: 'test',
+          command: 'npm test',
+          exitCode: 0,
+          expectedExitCode: 0,
+          timedOut: false,
+          durationMs: 4200,
+          passed: true,
+          outputTail: '',
+        },
+      ],
+    },
+    createdAt: 0,
+    updatedAt: 0,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('extractPlanSection', () => {
+  it('returns a section up to the next heading of the same level', () => {
+    expect(extractPlanSection(PLAN, 'Overview')).toBe('Add session refresh to the login flow.');
+    expect(extractPlanSection(PLAN, 'Technical Approach')).toBe(
+      '### Tokens\nRotate on every request.'
+    );
+    expect(extractPlanSection(PLAN, 'Success Criteria')).toBe('');
+  });
+});
+
+describe('buildPullRequestSections', () => {
+  it('renders plan, checklist, verification, manual QA links, diffstat and issue', () => {
+    const sections = buildPullRequestSections(makeTask(), {
+      diffstat:
+        ' src/auth.ts | 12 ++++++++----\n 1 file changed, 8 insertions(+), 4 deletions(-)\n',
+      manualQaDocs: [{ name: 'q2.md', url: 'https://github.com/acme/app/blob/b/q2.md' }],
+      issue: 42,
+    });
+
+    expect(sections.overview).toBe('## Overview\n\nAdd session refresh to the login flow.');
+    expect(sections.testing_strategy).toContain('- Manual check in Safari');
+    expect(sections.subtasks).toBe(
+      '## Subtasks\n\n**Development**\n\n- [x] Add refresh hook\n- [ ] Wire up login\n\n' +
+        '**QA**\n\n- [x] Run unit tests (pass)'
+    );
+    expect(sections.verification).toContain('| `npm test` | ✅ passed | 4.2s |');
+    expect(sections.manual_qa).toBe(
+      '## Manual QA\n\n- [q2.md](https://github.com/acme/app/blob/b/q2.md)'
+    );
+    expect(sections.diffstat).toContain(
+      '<summary>1 file changed, 8 insertions(+), 4 deletions(-)</summary>'
+    );
+    expect(sections.issue).toBe('Closes #42');
+  });
+
+  it('leaves sections empty without data and falls back to the description', () => {
+    const sections = buildPullRequestSections(
+      makeTask({ planContent: undefined, subtasks: [], verification: undefined }),
+      { diffstat: '', manualQaDocs: [] }
+    );
+
+    expect(sections.overview).toBe('## Overview\n\nKeep users logged in');
+    expect(sections.testing_strategy).toBe('');
+    expect(sections.subtasks).toBe('');
+    expect(sections.verification).toBe('');
+    expect(sections.diffstat).toBe('');
+    expect(sections.issue).toBe('');
+  });
+});
+
+describe('getPullRequestBody', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pr-body-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('collapses empty sections of the default template', async () => {
+    const sections = buildPullRequestSections(makeTask({ verification: undefined }), {
+      diffstat: '',
+      manualQaDocs: [],
+    });
+    const body = await getPullRequestBody(sections, projectDir);
+
+    expect(body).not.toMatch(/\n{3,}/);
+    expect(body.startsWith('## Overview')).toBe(true);
+    expect(body.endsWith('Task `task-1` · Generated by Code-Automata')).toBe(true);
+  });
+
+  it('uses the custom template from prompts.json', async () => {
+    await fs.mkdir(path.join(projectDir, '.code-automata'));
+    await fs.writeFile(
+      path.join(projectDir, '.code-automata', 'prompts.json'),
+      JSON.stringify({ pullRequestBody: { custom: true, template: '{{task.title}}\n\n{{issue}}' } })
+    );
+
+    expect(await getPullRequestBody({ 'task.title': 'Fix', issue: 'Closes #3' }, projectDir)).toBe(
+      'Fix\n\nCloses #3'
+    );
+  });
+
+  it('inserts values with $ patterns literally', async () => {
+    const sections = buildPullRequestSections(
+      makeTask({ planContent: '## Overview\nPrice is $5; keep `$&` and `$1` as written.' }),
+      { diffstat: '', manualQaDocs: [] }
+    );
+    const body = await getPullRequestBody(sections, projectDir);
+
+    expect(body).toContain('Price is $5; keep `$&` and `$1` as written.');
+  });
+});
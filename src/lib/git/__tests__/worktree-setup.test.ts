@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { commitCheckpoint, resetToCheckpoint } from '../checkpoints';
+import { loadSetupPaths, loadWorktreeSetupConfig, runWorktreeSetup } from '../worktree-setup';
+
+const git = (cwd: string, args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@localhost', ...args], {
+    cwd,
+    encoding: 'utf-8',
+  });
+
+describe('worktree bootstrap hooks', () => {
+  let repo: string;
+  let worktree: string;
+
+  const writeConfig = (config: object) =>
+    fs.writeFile(
+      path.join(repo, '.code-automata', 'worktree-setup.json'),
+      JSON.stringify(config),
+      'utf-8'
+    );
+
+  beforeAll(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'worktree-setup-'));
+    git(repo, ['init', '-q']);
+    await fs.writeFile(path.join(repo, '.gitignore'), '.code-automata/\n');
+    await fs.writeFile(path.join(repo, 'README.md'), 'base\n');
+    git(repo, ['add', '-A']);
+    git(repo, ['commit', '-q', '-m', 'base']);
+    await fs.mkdir(path.join(repo, '.code-automata'), { recursive: true });
+    await fs.writeFile(path.join(repo, '.env'), 'SECRET=1\n');
+    await fs.mkdir(path.join(repo, 'models'));
+    await fs.writeFile(path.join(repo, 'models', 'weights.bin'), 'w');
+
+    worktree = path.join(repo, '.code-automata', 'worktrees', 'task-1');
+    git(repo, ['worktree', 'add', '-q', '-b', 'code-automata/task-1', worktree]);
+  });
+
+  afterAll(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('returns null without a config', async () => {
+    expect(await loadWorktreeSetupConfig(path.join(repo, 'missing'))).toBeNull();
+  });
+
+  it('copies, links and runs scripts, keeping the files out of git', async () => {
+    await writeConfig({
+      copy: ['.env', '.env.missing'],
+      symlink: ['models'],
+      install: 'none',
+      scripts: ["node -e \"require('fs').writeFileSync('generated.txt', 'ok')\""],
+    });
+    const logsPath = path.join(repo, '.code-automata', 'tasks', 'task-1', 'logs.txt');
+
+    const result = await runWorktreeSetup(repo, repo, worktree, logsPath);
+
+    expect(result?.status).toBe('succeeded');
+    expect(result?.steps.map((s) => s.name)).toEqual(['copy .env', 'symlink models', 'script 1']);
+    await expect(fs.readFile(path.join(worktree, '.env'), 'utf-8')).resolves.toBe('SECRET=1\n');
+    expect((await fs.lstat(path.join(worktree, 'models'))).isSymbolicLink()).toBe(true);
+    await expect(fs.readFile(path.join(worktree, 'generated.txt'), 'utf-8')).resolves.toBe('ok');
+    await expect(fs.readFile(logsPath, 'utf-8')).resolves.toContain('[Worktree Setup Succeeded]');
+
+    // Checkpoints leave the copied and linked paths out, without touching shared ignore rules
+    const exclude = await loadSetupPaths(repo);
+    expect(exclude).toEqual(['.env', '.env.missing', 'models']);
+    const base = git(worktree, ['rev-parse', 'HEAD']).trim();
+    const checkpoint = await commitCheckpoint(worktree, 'checkpoint: s1', undefined, exclude);
+    expect(git(worktree, ['show', '--name-only', '--format=', checkpoint]).trim()).toBe(
+      'generated.txt'
+    );
+    expect(git(repo, ['status', '--porcelain']).trim()).toBe('?? .env\n?? models/');
+    await resetToCheckpoint(worktree, base, exclude);
+    await expect(fs.access(path.join(worktree, 'generated.txt'))).rejects.toThrow();
+    await expect(fs.access(path.join(worktree, '.env'))).resolves.toBeUndefined();
+    expect((await fs.lstat(path.join(worktree, 'models'))).isSymbolicLink()).toBe(true);
+  });
+
+  it('stops at the first failing command and rejects paths outside the checkout', async () => {
+    await writeConfig({
+      copy: ['../outside'],
+      install: 'none',
+      scripts: ['exit 3', 'echo never'],
+    });
+    const logsPath = path.join(repo, '.code-automata', 'tasks', 'task-1', 'logs.txt');
+
+    const result = await runWorktreeSetup(repo, repo, worktree, logsPath);
+
+    expect(result?.status).toBe('failed');
+    expect(result?.steps.map((s) => [s.name, s.ok])).toEqual([['copy ../outside', false]]);
+
+    await writeConfig({ install: 'none', scripts: ['exit 3', 'echo never'] });
+    const second = await runWorktreeSetup(repo, repo, worktree, logsPath);
+    expect(second?.steps).toHaveLength(1);
+    expect(second?.steps[0]).toMatchObject({ name: 'script 1', ok: false });
+    expect(second?.steps[0].error).toContain('exit code 3');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Subtask checkpoints
+ *
+ * After each completed dev subtask the task's worktree is committed on its branch and the
+ * commit SHA is stored on the subtask (`subtask.checkpoint`); the commit the branch was at
+ * before the first dev subtask is `task.checkpointBase`. Rolling back resets the worktree
+ * to one of these commits so the later subtasks can be re-run from there.
+ *
+ * Only tasks with their own worktree get checkpoints: committing in the main project
+ * directory would write onto the user's branch. Files put there by the worktree setup hooks
+ * (`loadSetupPaths`) are passed as `exclude` and never committed or cleaned.
+ */
+
+import { execFileSync } from 'child_process';
+
+const FALLBACK_IDENTITY = [
+  '-c',
+  'user.name=Code-Automata',
+  '-c',
+  'user.email=code-automata@localhost',
+];
+
+function git(worktreePath: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd: worktreePath,
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+  }).trim();
+}
+
+function hasCommitIdentity(worktreePath: string): boolean {
+  try {
+    return git(worktreePath, ['config', 'user.email']).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export async function getHeadCommit(worktreePath: string): Promise<string> {
+  return git(worktreePath, ['rev-parse', 'HEAD']);
+}
+
+function hasChanges(worktreePath: string, pathspecs: string[]): boolean {
+  try {
+    return git(worktreePath, ['status', '--porcelain', '--', ...pathspecs]).length > 0;
+  } catch {
+    return false; // e.g. a path outside the worktree
+  }
+}
+
+function toPathspec(file: string): string {
+  return /[*?[]/.test(file) ? `:(glob)${file}` : file;
+}
+
+/**
+ * Pathspecs leaving `paths` (relative to the worktree root) out of a git command
+ */
+export function toExcludePathspecs(paths: string[]): string[] {
+  return paths.map((file) => `:(exclude)${file}`);
+}
+
+/**
+ * Commit the worktree and return the new HEAD. With `files` (a subtask's file scope, globs
+ * allowed) only changes under them are committed (`commit --only`), so the checkpoint
+ * doesn't pick up partial edits, staged or not, of subtasks still running in parallel.
+ * When nothing changed, no commit is made and the current HEAD is the checkpoint. Paths in
+ * `exclude` are left out either way.
+ */
+export async function commitCheckpoint(
+  worktreePath: string,
+  message: string,
+  files?: string[],
+  exclude: string[] = []
+): Promise<string> {
+  const excludes = toExcludePathspecs(exclude);
+  // Pathspecs without changes would make `git add` fail
+  const pathspecs = (files ?? [])
+    .map(toPathspec)
+    .filter((pathspec) => hasChanges(worktreePath, [pathspec, ...excludes]));
+  const changed = files?.length
+    ? pathspecs.length > 0
+    : hasChanges(worktreePath, ['.', ...excludes]);
+  if (changed) {
+    git(worktreePath, ['add', '-A', '--', ...(files?.length ? pathspecs : ['.']), ...excludes]);
+    // Checkpoints are automation commits: skip hooks, and commit even without a configured identity
+    const identity = hasCommitIdentity(worktreePath) ? [] : FALLBACK_IDENTITY;
+    const only = pathspecs.length > 0 ? ['--only', '--', ...pathspecs, ...excludes] : [];
+    git(worktreePath, [...identity, 'commit', '--no-verify', '-m', message, ...only]);
+  }
+  return getHeadCommit(worktreePath);
+}
+
+/**
+ * Reset the worktree to a checkpoint, dropping later commits, uncommitted changes and
+ * untracked files (ignored files such as node_modules and paths in `exclude` are kept)
+ */
+export async function resetToCheckpoint(
+  worktreePath: string,
+  commit: string,
+  exclude: string[] = []
+): Promise<void> {
+  git(worktreePath, ['cat-file', '-e', `${commit}^{commit}`]);
+  git(worktreePath, ['reset', '--hard', commit]);
+  git(worktreePath, ['clean', '-fd', ...exclude.flatMap((file) => ['-e', `/${file}`])]);
+}
+
+/**
+ * Whether `commit` is `target` or one of its ancestors (i.e. survives a reset to `target`)
+ */
+export async function isCheckpointContained(
+  worktreePath: string,
+  commit: string,
+  target: string
+): Promise<boolean> {
+  try {
+    git(worktreePath, ['merge-base', '--is-ancestor', commit, target]);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Branch diff for review
+ *
+ * Diff of a task's worktree against the point where its branch left the main branch
+ * (merge-base), parsed into files and hunks for the in-app diff viewer. Uncommitted changes
+ * to tracked files are included, so the diff also shows work done since the last checkpoint.
+ */
+
+import { execFileSync } from 'child_process';
+
+export type DiffFileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'delete';
+  content: string;
+  oldLine?: number; // Not set on added lines
+  newLine?: number; // Not set on deleted lines
+}
+
+export interface DiffHunk {
+  header: string; // e.g. "@@ -10,6 +10,8 @@ function foo() {"
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  path: string; // New path (old path for deleted files)
+  oldPath?: string; // Set on renames
+  status: DiffFileStatus;
+  binary: boolean;
+  similarity?: number; // Rename similarity in percent
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+  truncated?: boolean; // Too large to show: hunks are dropped, counts are kept
+}
+
+export interface BranchDiff {
+  baseBranch: string;
+  baseCommit: string; // merge-base of the base branch and the task branch
+  headCommit: string;
+  files: DiffFile[];
+  additions: number;
+  deletions: number;
+}
+
+/** Files with more diff lines than this are sent without hunks */
+export const MAX_DIFF_LINES_PER_FILE = 5000;
+
+const MAX_DIFF_BUFFER = 64 * 1024 * 1024;
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+    maxBuffer: MAX_DIFF_BUFFER,
+  });
+}
+
+/** Strip the a/ b/ prefix and git's C-style quoting from a path in a diff header */
+function parsePath(raw: string): string | null {
+  let value = raw.trim();
+  if (value === '/dev/null') return null;
+  if (value.startsWith('"') && value.endsWith('"')) {
+    value = value
+      .slice(1, -1)
+      .replace(/\\(["\\])/g, '$1')
+      .replace(/\\t/g, '\t')
+      .replace(/\\n/g, '\n');
+  }
+  return value.replace(/^[ab]\//, '');
+}
+
+/** Paths from "diff --git a/x b/x", for files without ---/+++ lines (binary, mode-only) */
+function parseGitHeaderPaths(header: string): { oldPath: string; newPath: string } | null {
+  const rest = header.slice('diff --git '.length);
+  const quoted = rest.match(/^("(?:[^"\\]|\\.)*"|\S+) ("(?:[^"\\]|\\.)*"|\S+)$/);
+  if (quoted) {
+    return { oldPath: parsePath(quoted[1])!, newPath: parsePath(quoted[2])! };
+  }
+  // Unquoted paths with spaces: both sides are the same path unless it's a rename (which has
+  // "rename from/to" lines), so split in the middle
+  const middle = rest.indexOf(' b/', Math.floor((rest.length - 3) / 2) - 1);
+  if (!rest.startsWith('a/') || middle === -1) return null;
+  return { oldPath: rest.slice(2, middle), newPath: rest.slice(middle + 3) };
+}
+
+/**
+ * Parse `git diff` output (unified format, default a/ b/ prefixes)
+ */
+export function parseUnifiedDiff(raw: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: (DiffFile & { headerOldPath?: string | null }) | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let lineCount = 0;
+
+  const finishFile = () => {
+    if (!file) return;
+    const { headerOldPath, ...rest } = file;
+    if (rest.status === 'renamed' && rest.oldPath === rest.path) {
+      rest.status = 'modified';
+      delete rest.oldPath;
+    }
+    if (rest.status === 'deleted' && headerOldPath) rest.path = headerOldPath;
+    files.push(rest);
+    file = null;
+    hunk = null;
+  };
+
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      finishFile();
+      const paths = parseGitHeaderPaths(line);
+      file = {
+        path: paths?.newPath ?? '',
+        headerOldPath: paths?.oldPath,
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      lineCount = 0;
+      continue;
+    }
+    if (!file) continue;
+    const current: DiffFile & { headerOldPath?: string | null } = file;
+
+    if (hunk === null) {
+      // Extended header lines
+      if (line.startsWith('new file mode')) current.status = 'added';
+      else if (line.startsWith('deleted file mode')) current.status = 'deleted';
+      else if (line.startsWith('rename from ')) {
+        current.status = 'renamed';
+        current.oldPath = parsePath(line.slice('rename from '.length)) ?? undefined;
+      } else if (line.startsWith('rename to ')) {
+        current.path = parsePath(line.slice('rename to '.length)) ?? current.path;
+      } else if (line.startsWith('similarity index ')) {
+        current.similarity = parseInt(line.slice('similarity index '.length), 10);
+      } else if (line.startsWith('--- ')) {
+        current.headerOldPath = parsePath(line.slice(4));
+      } else if (line.startsWith('+++ ')) {
+        const newPath = parsePath(line.slice(4));
+        if (newPath) current.path = newPath;
+      } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        current.binary = true;
+      }
+    }
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkHeader) {
+      hunk = {
+        header: line,
+        oldStart: Number(hunkHeader[1]),
+        oldLines: hunkHeader[2] === undefined ? 1 : Number(hunkHeader[2]),
+        newStart: Number(hunkHeader[3]),
+        newLines: hunkHeader[4] === undefined ? 1 : Number(hunkHeader[4]),
+        lines: [],
+      };
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      current.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) continue;
+
+    const h: DiffHunk = hunk;
+    const marker = line[0];
+    if (marker === '+') {
+      current.additions++;
+      h.lines.push({ type: 'add', content: line.slice(1), newLine: newLine++ });
+    } else if (marker === '-') {
+      current.deletions++;
+      h.lines.push({ type: 'delete', content: line.slice(1), oldLine: oldLine++ });
+    } else if (marker === ' ') {
+      h.lines.push({
+        type: 'context',
+        content: line.slice(1),
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+    } else {
+      // "\ No newline at end of file" or the trailing empty line
+      continue;
+    }
+    if (++lineCount > MAX_DIFF_LINES_PER_FILE) current.truncated = true;
+  }
+  finishFile();
+
+  for (const f of files) {
+    if (f.truncated) f.hunks = [];
+  }
+  return files;
+}
+
+/**
+ * Diff a task's worktree against the merge-base with the base branch
+ */
+export function getBranchDiff(worktreePath: string, baseBranch: string): BranchDiff {
+  const headCommit = git(worktreePath, ['rev-parse', 'HEAD']).trim();
+  const baseCommit = git(worktreePath, ['merge-base', baseBranch, 'HEAD']).trim();
+  const raw = git(worktreePath, [
+    '-c',
+    'core.quotePath=false',
+    'diff',
+    '--no-color',
+    '--no-ext-diff',
+    '--find-renames',
+    '--src-prefix=a/',
+    '--dst-prefix=b/',
+    baseCommit,
+  ]);
+
+  const files = parseUnifiedDiff(raw);
+  return {
+    baseBranch,
+    baseCommit,
+    headCommit,
+    files,
+    additions: files.reduce((sum, f) => sum + f.additions, 0),
+    deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+  };
+}
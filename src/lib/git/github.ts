@@ -0,0 +1,149 @@
+/**
+ * GitHub pull requests and REST API
+ *
+ * Pull requests are created with the `gh` CLI (and its login) from the task's worktree, so
+ * GitHub Enterprise hosts work the same way as github.com. Other API calls (issues, PR state)
+ * use a token from GITHUB_TOKEN/GH_TOKEN when set, otherwise `gh api`. The API URL comes from
+ * `.code-automata/hosting.json` (`githubApiUrl`) or defaults to api.github.com
+ * (https://{host}/api/v3 for GitHub Enterprise).
+ */
+
+import { runCommand, type RemoteRepository } from './hosting';
+
+function extractFirstUrl(text: string): string | null {
+  const m = text.match(/https?:\/\/[^\s]+/);
+  return m ? m[0] : null;
+}
+
+/**
+ * Fail early when `gh` is missing or not logged in
+ */
+export async function ensureGitHubCli(cwd: string): Promise<void> {
+  await runCommand('gh', ['--version'], cwd).catch(() => {
+    throw new Error('GitHub CLI (`gh`) not found. Install it to create a PR/MR.');
+  });
+  await runCommand('gh', ['auth', 'status'], cwd).catch(() => {
+    throw new Error('`gh` is not authenticated. Run `gh auth login` and retry.');
+  });
+}
+
+/**
+ * URL of the open PR for a head branch, if any
+ */
+export async function findOpenPullRequest(cwd: string, branch: string): Promise<string | null> {
+  const { stdout } = await runCommand(
+    'gh',
+    ['pr', 'list', '--head', branch, '--json', 'url', '--limit', '1'],
+    cwd
+  );
+  try {
+    const parsed = JSON.parse(stdout) as Array<{ url?: string }>;
+    return parsed?.[0]?.url ?? null;
+  } catch {
+    return null; // ignore parse errors and proceed to create
+  }
+}
+
+export async function createPullRequest(
+  cwd: string,
+  input: { title: string; body: string; base: string; head: string }
+): Promise<string> {
+  const { stdout } = await runCommand(
+    'gh',
+    [
+      'pr',
+      'create',
+      '--title',
+      input.title,
+      '--body',
+      input.body,
+      '--base',
+      input.base,
+      '--head',
+      input.head,
+    ],
+    cwd
+  );
+
+  const url = extractFirstUrl(stdout);
+  if (!url) {
+    throw new Error(`Failed to parse PR URL from gh output:\n${stdout}`);
+  }
+  return url;
+}
+
+export interface GitHubApi {
+  request<T>(
+    method: 'GET' | 'POST' | 'PATCH',
+    endpoint: string,
+    params?: Record<string, string>
+  ): Promise<T>;
+}
+
+/**
+ * API client using a token (Authorization: Bearer)
+ */
+export function createGitHubTokenApi(apiUrl: string, token: string): GitHubApi {
+  return {
+    async request<T>(method: string, endpoint: string, params?: Record<string, string>) {
+      const url = new URL(`${apiUrl.replace(/\/+$/, '')}/${endpoint}`);
+      if (method === 'GET' && params) {
+        for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+      }
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: 'application/vnd.github+json',
+          'Content-Type': 'application/json',
+        },
+        body: method === 'GET' || !params ? undefined : JSON.stringify(params),
+      });
+      const text = await response.text();
+      if (!response.ok) {
+        throw new Error(`GitHub API ${method} ${endpoint} failed (${response.status}): ${text}`);
+      }
+      return (text ? JSON.parse(text) : null) as T;
+    },
+  };
+}
+
+/**
+ * API client going through `gh api` (uses the CLI's stored login for the host)
+ */
+export function createGhApi(host: string, cwd: string): GitHubApi {
+  return {
+    async request<T>(method: string, endpoint: string, params?: Record<string, string>) {
+      const query = method === 'GET' && params ? `?${new URLSearchParams(params).toString()}` : '';
+      const fields =
+        method === 'GET' || !params
+          ? []
+          : Object.entries(params).flatMap(([key, value]) => ['--raw-field', `${key}=${value}`]);
+      const { stdout } = await runCommand(
+        'gh',
+        ['api', '--hostname', host, '--method', method, `${endpoint}${query}`, ...fields],
+        cwd
+      );
+      return (stdout.trim() ? JSON.parse(stdout) : null) as T;
+    },
+  };
+}
+
+/**
+ * Pick how to reach GitHub: token when GITHUB_TOKEN (or GH_TOKEN) is set, else `gh`
+ */
+export async function resolveGitHubApi(
+  repo: RemoteRepository,
+  cwd: string,
+  apiUrl?: string
+): Promise<GitHubApi> {
+  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+  if (token) {
+    const defaultUrl =
+      repo.host === 'github.com' ? 'https://api.github.com' : `https://${repo.host}/api/v3`;
+    return createGitHubTokenApi(apiUrl ?? defaultUrl, token);
+  }
+
+  await ensureGitHubCli(cwd);
+  return createGhApi(repo.host, cwd);
+}
@@ -0,0 +1,156 @@
+/**
+ * GitLab merge requests
+ *
+ * Talks to the GitLab REST API (v4) of gitlab.com or a self-hosted instance. Requests are
+ * sent with a personal access token from GITLAB_TOKEN when it is set; otherwise through
+ * `glab api`, which uses the `glab auth login` session for the host. The API URL comes from
+ * `.code-automata/hosting.json` (`gitlabApiUrl`) or defaults to https://{host}/api/v4, so
+ * tests and air-gapped setups can point it at a local stub; `glab` is given its host, as it
+ * builds the API path itself.
+ */
+
+import { runCommand, type RemoteRepository } from './hosting';
+
+export interface GitLabApi {
+  request<T>(
+    method: 'GET' | 'POST' | 'PUT',
+    endpoint: string,
+    params?: Record<string, string>
+  ): Promise<T>;
+}
+
+export interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state: string; // "opened" | "closed" | "merged" | "locked"
+}
+
+export interface CreateMergeRequestInput {
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  description: string;
+  labels: string[];
+}
+
+/**
+ * API client using a personal access token (PRIVATE-TOKEN header)
+ */
+export function createGitLabTokenApi(apiUrl: string, token: string): GitLabApi {
+  return {
+    async request<T>(method: string, endpoint: string, params?: Record<string, string>) {
+      const url = new URL(`${apiUrl.replace(/\/+$/, '')}/${endpoint}`);
+      if (method === 'GET' && params) {
+        for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+      }
+      const response = await fetch(url, {
+        method,
+        headers: { 'PRIVATE-TOKEN': token, 'Content-Type': 'application/json' },
+        body: method === 'GET' || !params ? undefined : JSON.stringify(params),
+      });
+      const text = await response.text();
+      if (!response.ok) {
+        throw new Error(`GitLab API ${method} ${endpoint} failed (${response.status}): ${text}`);
+      }
+      return (text ? JSON.parse(text) : null) as T;
+    },
+  };
+}
+
+/**
+ * API client going through `glab api` (uses the CLI's stored login for the host)
+ */
+export function createGlabApi(host: string, cwd: string): GitLabApi {
+  return {
+    async request<T>(method: string, endpoint: string, params?: Record<string, string>) {
+      const query = method === 'GET' && params ? `?${new URLSearchParams(params).toString()}` : '';
+      const fields =
+        method === 'GET' || !params
+          ? []
+          : Object.entries(params).flatMap(([key, value]) => ['--raw-field', `${key}=${value}`]);
+      const { stdout } = await runCommand(
+        'glab',
+        ['api', '--hostname', host, '--method', method, `${endpoint}${query}`, ...fields],
+        cwd
+      );
+      return (stdout.trim() ? JSON.parse(stdout) : null) as T;
+    },
+  };
+}
+
+/**
+ * Pick how to reach GitLab: token when GITLAB_TOKEN is set, else an authenticated `glab`
+ */
+export async function resolveGitLabApi(
+  repo: RemoteRepository,
+  cwd: string,
+  apiUrl?: string
+): Promise<GitLabApi> {
+  const token = process.env.GITLAB_TOKEN;
+  if (token) {
+    return createGitLabTokenApi(apiUrl ?? `https://${repo.host}/api/v4`, token);
+  }
+
+  const host = apiUrl ? new URL(apiUrl).host : repo.host;
+  await runCommand('glab', ['auth', 'status', '--hostname', host], cwd).catch(() => {
+    throw new Error(
+      `No GitLab credentials for ${host}. Set GITLAB_TOKEN to a personal access token (api scope) or run \`glab auth login --hostname ${host}\`.`
+    );
+  });
+  return createGlabApi(host, cwd);
+}
+
+function projectEndpoint(projectPath: string): string {
+  return `projects/${encodeURIComponent(projectPath)}`;
+}
+
+/**
+ * The open merge request for a source branch, if any
+ */
+export async function findOpenMergeRequest(
+  api: GitLabApi,
+  projectPath: string,
+  sourceBranch: string
+): Promise<GitLabMergeRequest | null> {
+  const existing = await api.request<GitLabMergeRequest[]>(
+    'GET',
+    `${projectEndpoint(projectPath)}/merge_requests`,
+    { source_branch: sourceBranch, state: 'opened' }
+  );
+  return existing?.[0] ?? null;
+}
+
+export async function createMergeRequest(
+  api: GitLabApi,
+  projectPath: string,
+  input: CreateMergeRequestInput
+): Promise<GitLabMergeRequest> {
+  const params: Record<string, string> = {
+    source_branch: input.sourceBranch,
+    target_branch: input.targetBranch,
+    title: input.title,
+    description: input.description,
+  };
+  // GitLab creates labels that don't exist yet
+  if (input.labels.length > 0) params.labels = input.labels.join(',');
+  return api.request<GitLabMergeRequest>(
+    'POST',
+    `${projectEndpoint(projectPath)}/merge_requests`,
+    params
+  );
+}
+
+/**
+ * Add labels to an existing merge request (keeps its other labels)
+ */
+export async function addMergeRequestLabels(
+  api: GitLabApi,
+  projectPath: string,
+  iid: number,
+  labels: string[]
+): Promise<void> {
+  if (labels.length === 0) return;
+  await api.request('PUT', `${projectEndpoint(projectPath)}/merge_requests/${iid}`, {
+    add_labels: labels.join(','),
+  });
+}
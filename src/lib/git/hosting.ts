@@ -0,0 +1,167 @@
+/**
+ * Git hosting detection
+ *
+ * Works out where the project's `origin` remote lives so merge requests go to the right
+ * service: GitHub through the `gh` CLI, GitLab (gitlab.com or self-hosted) through its REST
+ * API (see ./gitlab.ts). github.com and hosts with "gitlab" in their name are recognized from
+ * the remote URL; other hosts are treated as GitHub (Enterprise) unless
+ * `.code-automata/hosting.json` says otherwise:
+ *
+ * {
+ *   "provider": "gitlab",                             // "github" | "gitlab"
+ *   "gitlabApiUrl": "https://git.example.com/api/v4", // Default: https://{host}/api/v4
+ *   "githubApiUrl": "https://ghe.example.com/api/v3", // Default: api.github.com
+ *   "labels": ["code-automata"]                       // Added to every GitLab MR
+ * }
+ *
+ * Tokens are never read from the config: GitLab uses GITLAB_TOKEN (or the `glab` CLI login),
+ * GitHub uses GITHUB_TOKEN/GH_TOKEN (or the `gh` CLI login).
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import type { HostingProvider } from '@/lib/tasks/schema';
+
+export interface HostingConfig {
+  provider?: HostingProvider;
+  gitlabApiUrl?: string;
+  githubApiUrl?: string;
+  labels: string[];
+}
+
+export interface RemoteRepository {
+  provider: HostingProvider;
+  host: string; // e.g. "github.com", "git.example.com"
+  projectPath: string; // "owner/repo" or "group/subgroup/project"
+}
+
+/**
+ * Run a command without a shell; rejects with its stderr (or stdout) as the message
+ */
+export function runCommand(
+  cmd: string,
+  args: string[],
+  cwd: string
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    execFile(cmd, args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const e = new Error(
+          `${cmd} ${args.join(' ')} failed: ${String((stderr || stdout || '').trim()) || error.message}`
+        );
+        (e as Error & { cause?: unknown }).cause = error;
+        reject(e);
+        return;
+      }
+      resolve({ stdout: String(stdout || ''), stderr: String(stderr || '') });
+    });
+  });
+}
+
+function parseApiUrl(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().replace(/\/+$/, '') : undefined;
+}
+
+/**
+ * Load the project's hosting settings (defaults when not configured)
+ */
+export async function loadHostingConfig(projectDir: string): Promise<HostingConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(projectDir, '.code-automata', 'hosting.json'), 'utf-8');
+  } catch {
+    return { labels: [] };
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    return {
+      provider:
+        parsed.provider === 'github' || parsed.provider === 'gitlab' ? parsed.provider : undefined,
+      gitlabApiUrl: parseApiUrl(parsed.gitlabApiUrl),
+      githubApiUrl: parseApiUrl(parsed.githubApiUrl),
+      labels: Array.isArray(parsed.labels)
+        ? parsed.labels.filter((l): l is string => typeof l === 'string' && l.trim() !== '')
+        : [],
+    };
+  } catch (error) {
+    console.warn('[hosting] Ignoring invalid hosting.json:', error);
+    return { labels: [] };
+  }
+}
+
+/**
+ * Host and project path of a remote URL (https, ssh:// and scp-like git@host:path forms)
+ */
+export function parseRemoteUrl(url: string): { host: string; projectPath: string } | null {
+  const trimmed = url.trim();
+  let host: string;
+  let pathname: string;
+
+  const scpLike = trimmed.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/)(.+)$/);
+  if (scpLike) {
+    host = scpLike[1];
+    pathname = scpLike[2];
+  } else {
+    try {
+      const parsed = new URL(trimmed);
+      host = parsed.hostname;
+      pathname = parsed.pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  const projectPath = pathname
+    .replace(/^\/+/, '')
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '');
+  if (!host || !projectPath.includes('/')) return null;
+  return { host: host.toLowerCase(), projectPath };
+}
+
+/**
+ * Provider of a remote host, unless the project config names one
+ */
+export function detectProvider(host: string, config: HostingConfig): HostingProvider {
+  if (config.provider) return config.provider;
+  if (host === 'github.com' || host.endsWith('.github.com')) return 'github';
+  if (host.includes('gitlab')) return 'gitlab';
+  return 'github';
+}
+
+/**
+ * The `origin` remote of a checkout, with its hosting provider
+ */
+export async function detectRemoteRepository(
+  projectDir: string,
+  cwd: string
+): Promise<RemoteRepository> {
+  const { stdout } = await runCommand('git', ['remote', 'get-url', 'origin'], cwd).catch(() => {
+    throw new Error('No `origin` remote configured. Add one to create a merge request.');
+  });
+  const remote = parseRemoteUrl(stdout);
+  if (!remote) {
+    throw new Error(`Cannot parse the origin remote URL: ${stdout.trim()}`);
+  }
+  const config = await loadHostingConfig(projectDir);
+  return { ...remote, provider: detectProvider(remote.host, config) };
+}
+
+/**
+ * Web URL of a file on a branch (e.g. to link docs from a PR/MR description)
+ */
+export function getFileUrl(repo: RemoteRepository, branch: string, filePath: string): string {
+  const blob = repo.provider === 'gitlab' ? '-/blob' : 'blob';
+  return `https://${repo.host}/${repo.projectPath}/${blob}/${branch}/${filePath}`;
+}
+
+/**
+ * PR number / MR iid of a GitHub pull request or GitLab merge request URL
+ */
+export function getMergeRequestNumber(url: string): number {
+  const match = url.match(/\/(?:pull|merge_requests)\/(\d+)/);
+  if (!match) throw new Error(`Cannot find the PR/MR number in ${url}`);
+  return Number(match[1]);
+}
@@ -0,0 +1,274 @@
+/**
+ * Issue tracker (GitHub issues / GitLab issues)
+ *
+ * Lists the issues of the project's `origin` repository, turns them into tasks, and closes
+ * them once the task's PR/MR has merged. Both providers go through their REST API clients
+ * (./github.ts, ./gitlab.ts), so the same code works with tokens, the `gh`/`glab` CLIs, or a
+ * local stub API.
+ */
+
+import type { HostingProvider, Task } from '@/lib/tasks/schema';
+import { detectRemoteRepository, getMergeRequestNumber, loadHostingConfig } from './hosting';
+import { resolveGitHubApi, type GitHubApi } from './github';
+import { resolveGitLabApi, type GitLabApi } from './gitlab';
+
+export interface Issue {
+  number: number; // GitHub issue number / GitLab issue iid
+  title: string;
+  body: string;
+  labels: string[];
+  milestone?: string;
+  assignees: string[];
+  author?: string;
+  url: string;
+  createdAt: string;
+  commentCount: number;
+}
+
+export interface IssueComment {
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface IssueFilter {
+  labels?: string[]; // Issues must have all of them
+  milestone?: string; // Milestone title
+  assignee?: string; // Username
+}
+
+export interface IssueTracker {
+  provider: HostingProvider;
+  listIssues(filter: IssueFilter): Promise<Issue[]>; // Open issues, newest first (max 100)
+  getIssue(number: number): Promise<Issue>;
+  listComments(number: number): Promise<IssueComment[]>;
+  addComment(number: number, body: string): Promise<void>;
+  closeIssue(number: number): Promise<void>;
+  isMergeRequestMerged(url: string): Promise<boolean>;
+}
+
+interface GitHubIssueResponse {
+  number: number;
+  title: string;
+  body: string | null;
+  labels: Array<{ name: string } | string>;
+  milestone: { title: string } | null;
+  assignees: Array<{ login: string }> | null;
+  user: { login: string } | null;
+  html_url: string;
+  created_at: string;
+  comments: number;
+  pull_request?: unknown; // The issues API also returns pull requests
+}
+
+interface GitLabIssueResponse {
+  iid: number;
+  title: string;
+  description: string | null;
+  labels: string[];
+  milestone: { title: string } | null;
+  assignees: Array<{ username: string }> | null;
+  author: { username: string } | null;
+  web_url: string;
+  created_at: string;
+  user_notes_count: number;
+}
+
+function fromGitHubIssue(raw: GitHubIssueResponse): Issue {
+  return {
+    number: raw.number,
+    title: raw.title,
+    body: raw.body ?? '',
+    labels: raw.labels.map((l) => (typeof l === 'string' ? l : l.name)),
+    milestone: raw.milestone?.title,
+    assignees: (raw.assignees ?? []).map((a) => a.login),
+    author: raw.user?.login,
+    url: raw.html_url,
+    createdAt: raw.created_at,
+    commentCount: raw.comments,
+  };
+}
+
+function fromGitLabIssue(raw: GitLabIssueResponse): Issue {
+  return {
+    number: raw.iid,
+    title: raw.title,
+    body: raw.description ?? '',
+    labels: raw.labels,
+    milestone: raw.milestone?.title,
+    assignees: (raw.assignees ?? []).map((a) => a.username),
+    author: raw.author?.username,
+    url: raw.web_url,
+    createdAt: raw.created_at,
+    commentCount: raw.user_notes_count,
+  };
+}
+
+export function createGitHubIssueTracker(api: GitHubApi, projectPath: string): IssueTracker {
+  const repo = `repos/${projectPath}`;
+  return {
+    provider: 'github',
+    async listIssues(filter) {
+      const params: Record<string, string> = { state: 'open', per_page: '100' };
+      if (filter.labels?.length) params.labels = filter.labels.join(',');
+      if (filter.assignee) params.assignee = filter.assignee;
+      const raw = await api.request<GitHubIssueResponse[]>('GET', `${repo}/issues`, params);
+      // The API filters milestones by number only, so match the title here
+      return raw
+        .filter((i) => !i.pull_request)
+        .map(fromGitHubIssue)
+        .filter((i) => !filter.milestone || i.milestone === filter.milestone);
+    },
+    async getIssue(number) {
+      return fromGitHubIssue(await api.request('GET', `${repo}/issues/${number}`));
+    },
+    async listComments(number) {
+      const raw = await api.request<
+        Array<{ user: { login: string } | null; body: string; created_at: string }>
+      >('GET', `${repo}/issues/${number}/comments`, { per_page: '100' });
+      return raw.map((c) => ({
+        author: c.user?.login ?? 'unknown',
+        body: c.body,
+        createdAt: c.created_at,
+      }));
+    },
+    async addComment(number, body) {
+      await api.request('POST', `${repo}/issues/${number}/comments`, { body });
+    },
+    async closeIssue(number) {
+      await api.request('PATCH', `${repo}/issues/${number}`, { state: 'closed' });
+    },
+    async isMergeRequestMerged(url) {
+      const pr = getMergeRequestNumber(url);
+      const raw = await api.request<{ merged: boolean }>('GET', `${repo}/pulls/${pr}`);
+      return raw.merged;
+    },
+  };
+}
+
+export function createGitLabIssueTracker(api: GitLabApi, projectPath: string): IssueTracker {
+  const project = `projects/${encodeURIComponent(projectPath)}`;
+  return {
+    provider: 'gitlab',
+    async listIssues(filter) {
+      const params: Record<string, string> = { state: 'opened', per_page: '100' };
+      if (filter.labels?.length) params.labels = filter.labels.join(',');
+      if (filter.milestone) params.milestone = filter.milestone;
+      if (filter.assignee) params.assignee_username = filter.assignee;
+      const raw = await api.request<GitLabIssueResponse[]>('GET', `${project}/issues`, params);
+      return raw.map(fromGitLabIssue);
+    },
+    async getIssue(number) {
+      return fromGitLabIssue(await api.request('GET', `${project}/issues/${number}`));
+    },
+    async listComments(number) {
+      const raw = await api.request<
+        Array<{
+          author: { username: string } | null;
+          body: string;
+          created_at: string;
+          system: boolean;
+        }>
+      >('GET', `${project}/issues/${number}/notes`, { sort: 'asc', per_page: '100' });
+      // System notes are GitLab's own activity entries ("added label ~bug")
+      return raw
+        .filter((n) => !n.system)
+        .map((n) => ({
+          author: n.author?.username ?? 'unknown',
+          body: n.body,
+          createdAt: n.created_at,
+        }));
+    },
+    async addComment(number, body) {
+      await api.request('POST', `${project}/issues/${number}/notes`, { body });
+    },
+    async closeIssue(number) {
+      await api.request('PUT', `${project}/issues/${number}`, { state_event: 'close' });
+    },
+    async isMergeRequestMerged(url) {
+      const iid = getMergeRequestNumber(url);
+      const raw = await api.request<{ state: string }>('GET', `${project}/merge_requests/${iid}`);
+      return raw.state === 'merged';
+    },
+  };
+}
+
+/**
+ * Issue tracker of the project's `origin` remote, with the configured credentials
+ */
+export async function resolveIssueTracker(projectDir: string): Promise<IssueTracker> {
+  const repo = await detectRemoteRepository(projectDir, projectDir);
+  const config = await loadHostingConfig(projectDir);
+  if (repo.provider === 'gitlab') {
+    const api = await resolveGitLabApi(repo, projectDir, config.gitlabApiUrl);
+    return createGitLabIssueTracker(api, repo.projectPath);
+  }
+  const api = await resolveGitHubApi(repo, projectDir, config.githubApiUrl);
+  return createGitHubIssueTracker(api, repo.projectPath);
+}
+
+/**
+ * Issue number a task is linked to on the given provider
+ */
+export function getLinkedIssue(task: Task, provider: HostingProvider): number | undefined {
+  return provider === 'gitlab' ? task.gitlabIssue : task.githubIssue;
+}
+
+/**
+ * Task fields for an imported issue: body and comments become the description,
+ * labels become tags
+ */
+export function issueToTaskFields(
+  issue: Issue,
+  comments: IssueComment[],
+  provider: HostingProvider
+): Pick<Task, 'title' | 'description' | 'metadata' | 'githubIssue' | 'gitlabIssue'> {
+  const parts = [issue.body.trim(), `---\nImported from ${issue.url}`];
+  if (comments.length > 0) {
+    parts.push(
+      '### Comments',
+      ...comments.map((c) => `**@${c.author}** (${c.createdAt.slice(0, 10)}):\n${c.body.trim()}`)
+    );
+  }
+  return {
+    title: issue.title,
+    description: parts.filter(Boolean).join('\n\n'),
+    metadata: { tags: issue.labels },
+    ...(provider === 'gitlab' ? { gitlabIssue: issue.number } : { githubIssue: issue.number }),
+  };
+}
+
+/**
+ * Comment posted on the issue when it is closed
+ */
+export function buildIssueSummary(task: Task): string {
+  const dev = task.subtasks.filter((s) => s.type === 'dev' && s.status === 'completed');
+  const qa = task.subtasks.filter((s) => s.type === 'qa');
+  const lines = [`Resolved by ${task.mergeRequestUrl} (Code-Automata task \`${task.id}\`).`];
+  if (dev.length > 0) {
+    lines.push('', '**Completed:**', ...dev.map((s) => `- ${s.label}`));
+  }
+  if (qa.length > 0) {
+    const passed = qa.filter((s) => s.status === 'completed').length;
+    lines.push('', `**QA:** ${passed}/${qa.length} checks completed`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Post the task summary to its linked issue and close it, once the task's PR/MR has merged.
+ * Returns false when there is nothing to do (no issue or PR/MR, already closed, not merged).
+ */
+export async function closeIssueOnMerge(projectDir: string, task: Task): Promise<boolean> {
+  if (task.issueClosedAt || !task.mergeRequestUrl) return false;
+  if (task.githubIssue === undefined && task.gitlabIssue === undefined) return false;
+
+  const tracker = await resolveIssueTracker(projectDir);
+  const issue = getLinkedIssue(task, tracker.provider);
+  if (issue === undefined) return false;
+  if (!(await tracker.isMergeRequestMerged(task.mergeRequestUrl))) return false;
+
+  await tracker.addComment(issue, buildIssueSummary(task));
+  await tracker.closeIssue(issue);
+  return true;
+}
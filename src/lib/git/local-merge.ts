@@ -0,0 +1,191 @@
+/**
+ * Local merge
+ *
+ * Merges a task branch into the main branch of the local repository, for projects without a
+ * remote or when no PR/MR is wanted. Three strategies: fast-forward (no new commit), squash
+ * (one commit with a message composed from the task) and merge commit. The main checkout must
+ * be clean and on the main branch; a merge that conflicts is rolled back and its conflicting
+ * files are reported.
+ */
+
+import { execFile } from 'child_process';
+import type { LocalMergeStrategy, Task } from '@/lib/tasks/schema';
+import { runCommand } from './hosting';
+
+export const LOCAL_MERGE_STRATEGIES: LocalMergeStrategy[] = ['fast-forward', 'squash', 'merge'];
+
+export interface LocalMergePreview {
+  mainBranch: string;
+  commitsAhead: number; // Commits on the task branch that are not on the main branch
+  canFastForward: boolean;
+  conflicts: string[]; // Files that would conflict (squash/merge commit)
+  dirty: boolean; // The main checkout has uncommitted changes
+  onMainBranch: boolean; // The main checkout has the main branch checked out
+}
+
+export type LocalMergeResult =
+  | { ok: true; commit: string }
+  | {
+      ok: false;
+      reason: 'dirty' | 'wrong_branch' | 'up_to_date' | 'not_fast_forward' | 'conflicts';
+      message: string;
+      conflicts?: string[];
+    };
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  return (await runCommand('git', args, cwd)).stdout.trim();
+}
+
+/** Run git and resolve with its exit code instead of rejecting */
+function gitWithExitCode(cwd: string, args: string[]): Promise<{ code: number; stdout: string }> {
+  return new Promise((resolve) => {
+    execFile('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 }, (error, stdout) => {
+      const code = error ? (typeof error.code === 'number' ? error.code : -1) : 0;
+      resolve({ code, stdout: String(stdout || '') });
+    });
+  });
+}
+
+async function succeeds(cwd: string, args: string[]): Promise<boolean> {
+  return runCommand('git', args, cwd).then(
+    () => true,
+    () => false
+  );
+}
+
+async function listConflicts(mainRepo: string): Promise<string[]> {
+  const out = await git(mainRepo, ['diff', '--name-only', '--diff-filter=U']).catch(() => '');
+  return out.split('\n').filter(Boolean);
+}
+
+/**
+ * Commit message for the merge: the task title, its description and the completed dev subtasks
+ */
+export function buildLocalMergeMessage(
+  task: Task,
+  strategy: LocalMergeStrategy,
+  branch: string
+): string {
+  const title = task.title || task.id;
+  const subject = strategy === 'merge' ? `Merge ${branch}: ${title}` : title;
+  const completed = task.subtasks.filter((s) => s.type === 'dev' && s.status === 'completed');
+
+  const parts = [subject];
+  if (task.description?.trim()) parts.push(task.description.trim());
+  if (completed.length > 0) {
+    parts.push(['Completed:', ...completed.map((s) => `- ${s.label}`)].join('\n'));
+  }
+  parts.push(`Task: ${task.id}`);
+  return parts.join('\n\n');
+}
+
+/**
+ * What merging the branch would do, without touching the checkout. Conflicts are detected
+ * with `git merge-tree --write-tree` (git 2.38+); older versions report none and the merge
+ * itself detects them.
+ */
+export async function previewLocalMerge(
+  mainRepo: string,
+  mainBranch: string,
+  branch: string
+): Promise<LocalMergePreview> {
+  const [status, head, ahead] = await Promise.all([
+    git(mainRepo, ['status', '--porcelain', '--untracked-files=no']),
+    git(mainRepo, ['symbolic-ref', '--short', 'HEAD']).catch(() => ''),
+    git(mainRepo, ['rev-list', '--count', `${mainBranch}..${branch}`]),
+  ]);
+
+  // Exit code 1: conflicts; the output is the tree followed by the conflicting files
+  const mergeTree = await gitWithExitCode(mainRepo, [
+    'merge-tree',
+    '--write-tree',
+    '--name-only',
+    '--no-messages',
+    mainBranch,
+    branch,
+  ]);
+  const conflicts =
+    mergeTree.code === 1 ? mergeTree.stdout.split('\n').slice(1).filter(Boolean) : [];
+
+  return {
+    mainBranch,
+    commitsAhead: Number(ahead) || 0,
+    canFastForward: await succeeds(mainRepo, ['merge-base', '--is-ancestor', mainBranch, branch]),
+    conflicts,
+    dirty: status.length > 0,
+    onMainBranch: head === mainBranch,
+  };
+}
+
+/**
+ * Merge `branch` into `mainBranch` in the main checkout. Untracked files are ignored by the
+ * clean check; git itself refuses a merge that would overwrite them.
+ */
+export async function mergeTaskBranch(
+  mainRepo: string,
+  mainBranch: string,
+  branch: string,
+  strategy: LocalMergeStrategy,
+  message: string
+): Promise<LocalMergeResult> {
+  const preview = await previewLocalMerge(mainRepo, mainBranch, branch);
+  if (!preview.onMainBranch) {
+    return {
+      ok: false,
+      reason: 'wrong_branch',
+      message: `The project checkout is not on ${mainBranch}. Check out ${mainBranch} first.`,
+    };
+  }
+  if (preview.dirty) {
+    return {
+      ok: false,
+      reason: 'dirty',
+      message: `The project checkout has uncommitted changes. Commit or stash them before merging.`,
+    };
+  }
+  if (preview.commitsAhead === 0) {
+    return { ok: false, reason: 'up_to_date', message: `${branch} is already merged.` };
+  }
+
+  if (strategy === 'fast-forward') {
+    if (!preview.canFastForward) {
+      return {
+        ok: false,
+        reason: 'not_fast_forward',
+        message: `${mainBranch} has moved on since ${branch} was created. Use squash or a merge commit.`,
+      };
+    }
+    await git(mainRepo, ['merge', '--ff-only', branch]);
+    return { ok: true, commit: await git(mainRepo, ['rev-parse', 'HEAD']) };
+  }
+
+  // The changes went through QA and verification already; skip the project's commit hooks
+  const args =
+    strategy === 'squash'
+      ? ['merge', '--squash', branch]
+      : ['merge', '--no-ff', '--no-verify', '-m', message, branch];
+  try {
+    await git(mainRepo, args);
+  } catch (error) {
+    const conflicts = await listConflicts(mainRepo);
+    // Roll back to the state before the merge (`merge --abort` needs MERGE_HEAD, squash has none)
+    await git(mainRepo, ['reset', '--merge']).catch(() => undefined);
+    if (conflicts.length === 0) throw error;
+    return {
+      ok: false,
+      reason: 'conflicts',
+      message: `Merging ${branch} into ${mainBranch} conflicts in ${conflicts.length} file(s).`,
+      conflicts,
+    };
+  }
+
+  if (strategy === 'squash') {
+    await git(mainRepo, ['commit', '--no-verify', '-m', message]).catch(async (error) => {
+      await git(mainRepo, ['reset', '--merge']).catch(() => undefined);
+      throw new Error(
+        `Failed to commit the squashed changes. Ensure git user.name/user.email are configured.\n${(error as Error).message}`
+      );
+    });
+  }
+  return { ok: true, commit: await git(mainRepo, ['rev-parse', 'HEAD']) };
+}
@@ -0,0 +1,213 @@
+/**
+ * PR/MR status sync
+ *
+ * Reads the state (open/merged/closed), review decision and CI status of the tasks' PRs/MRs
+ * from the code host (REST API through a token or the `gh`/`glab` CLI, like ./issues.ts) and
+ * stores it on the task (`mergeRequestStatus`). A task whose PR/MR merged is moved to `done`.
+ */
+
+import { needsMergeRequestSync, type MergeRequestStatus } from '@/lib/tasks/schema';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { closeLinkedIssue, runDoneHooks } from '@/lib/tasks/done-hooks';
+import { detectRemoteRepository, getMergeRequestNumber, loadHostingConfig } from './hosting';
+import { resolveGitHubApi, type GitHubApi } from './github';
+import { resolveGitLabApi, type GitLabApi } from './gitlab';
+
+type Checks = MergeRequestStatus['checks'];
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'cancelled', 'action_required'];
+const GITLAB_PENDING_PIPELINE = [
+  'created',
+  'waiting_for_resource',
+  'preparing',
+  'pending',
+  'running',
+  'scheduled',
+  'manual',
+];
+
+/** Worst of several check results: failing > pending > passing */
+function combineChecks(results: Checks[]): Checks {
+  if (results.includes('failing')) return 'failing';
+  if (results.includes('pending')) return 'pending';
+  return results.includes('passing') ? 'passing' : undefined;
+}
+
+export async function getGitHubPullRequestStatus(
+  api: GitHubApi,
+  projectPath: string,
+  number: number
+): Promise<MergeRequestStatus> {
+  const repo = `repos/${projectPath}`;
+  const pr = await api.request<{
+    state: 'open' | 'closed';
+    merged: boolean;
+    head: { sha: string };
+    requested_reviewers?: unknown[];
+  }>('GET', `${repo}/pulls/${number}`);
+
+  const [reviews, checkRuns, combined] = await Promise.all([
+    api.request<Array<{ user: { login: string } | null; state: string }>>(
+      'GET',
+      `${repo}/pulls/${number}/reviews`,
+      { per_page: '100' }
+    ),
+    api.request<{ check_runs: Array<{ status: string; conclusion: string | null }> }>(
+      'GET',
+      `${repo}/commits/${pr.head.sha}/check-runs`,
+      { per_page: '100' }
+    ),
+    api.request<{ state: string; total_count: number }>(
+      'GET',
+      `${repo}/commits/${pr.head.sha}/status`
+    ),
+  ]);
+
+  // Latest approving/blocking review per reviewer (comments don't change the decision)
+  const latest = new Map<string, string>();
+  for (const review of reviews) {
+    if (['APPROVED', 'CHANGES_REQUESTED', 'DISMISSED'].includes(review.state)) {
+      latest.set(review.user?.login ?? '', review.state);
+    }
+  }
+  const decisions = [...latest.values()];
+  const reviewDecision = decisions.includes('CHANGES_REQUESTED')
+    ? 'changes_requested'
+    : decisions.includes('APPROVED')
+      ? 'approved'
+      : pr.requested_reviewers?.length
+        ? 'review_required'
+        : undefined;
+
+  const checks = combineChecks([
+    ...checkRuns.check_runs.map((run): Checks => {
+      if (run.status !== 'completed') return 'pending';
+      return FAILED_CONCLUSIONS.includes(run.conclusion ?? '') ? 'failing' : 'passing';
+    }),
+    // Commit statuses (older CI integrations); "pending" with no statuses means none are set
+    combined.total_count === 0
+      ? undefined
+      : combined.state === 'success'
+        ? 'passing'
+        : combined.state === 'pending'
+          ? 'pending'
+          : 'failing',
+  ]);
+
+  return {
+    state: pr.merged ? 'merged' : pr.state,
+    reviewDecision,
+    checks,
+    syncedAt: Date.now(),
+  };
+}
+
+export async function getGitLabMergeRequestStatus(
+  api: GitLabApi,
+  projectPath: string,
+  iid: number
+): Promise<MergeRequestStatus> {
+  const endpoint = `projects/${encodeURIComponent(projectPath)}/merge_requests/${iid}`;
+  const [mr, approvals] = await Promise.all([
+    api.request<{
+      state: string; // opened | closed | locked | merged
+      detailed_merge_status?: string;
+      head_pipeline?: { status: string } | null;
+    }>('GET', endpoint),
+    api.request<{ approved: boolean; approved_by?: unknown[] }>('GET', `${endpoint}/approvals`),
+  ]);
+
+  const reviewDecision =
+    mr.detailed_merge_status === 'requested_changes'
+      ? 'changes_requested'
+      : approvals.approved && (approvals.approved_by?.length ?? 0) > 0
+        ? 'approved'
+        : mr.detailed_merge_status === 'not_approved'
+          ? 'review_required'
+          : undefined;
+
+  const pipeline = mr.head_pipeline?.status;
+  const checks: Checks =
+    pipeline === 'success'
+      ? 'passing'
+      : pipeline === 'failed' || pipeline === 'canceled'
+        ? 'failing'
+        : pipeline && GITLAB_PENDING_PIPELINE.includes(pipeline)
+          ? 'pending'
+          : undefined;
+
+  return {
+    state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+    reviewDecision,
+    checks,
+    syncedAt: Date.now(),
+  };
+}
+
+export interface MergeRequestSyncResult {
+  taskId: string;
+  status?: MergeRequestStatus;
+  movedToDone?: boolean;
+  error?: string;
+}
+
+/**
+ * Sync the PR/MR status of the given tasks (default: every task that needs it) and move
+ * merged ones to `done`. Errors are reported per task.
+ */
+export async function syncMergeRequestStatuses(
+  projectDir: string,
+  taskIds?: string[]
+): Promise<MergeRequestSyncResult[]> {
+  const taskPersistence = getTaskPersistence(projectDir);
+  const tasks = (await taskPersistence.listTasks()).filter((task) =>
+    taskIds ? taskIds.includes(task.id) && !!task.mergeRequestUrl : needsMergeRequestSync(task)
+  );
+  if (tasks.length === 0) return [];
+
+  const repo = await detectRemoteRepository(projectDir, projectDir);
+  const config = await loadHostingConfig(projectDir);
+  const github = tasks.some((t) => (t.mergeRequestProvider ?? repo.provider) === 'github')
+    ? await resolveGitHubApi(repo, projectDir, config.githubApiUrl)
+    : null;
+  const gitlab = tasks.some((t) => (t.mergeRequestProvider ?? repo.provider) === 'gitlab')
+    ? await resolveGitLabApi(repo, projectDir, config.gitlabApiUrl)
+    : null;
+
+  const results: MergeRequestSyncResult[] = [];
+  for (const task of tasks) {
+    try {
+      const number = getMergeRequestNumber(task.mergeRequestUrl!);
+      const status =
+        gitlab && (task.mergeRequestProvider ?? repo.provider) === 'gitlab'
+          ? await getGitLabMergeRequestStatus(gitlab, repo.projectPath, number)
+          : await getGitHubPullRequestStatus(github!, repo.projectPath, number);
+
+      let movedToDone = false;
+      const updated = await taskPersistence.updateTask(task.id, (current) => {
+        current.mergeRequestStatus = status;
+        if (status.state === 'merged' && current.phase !== 'done') {
+          current.phase = 'done';
+          current.status = 'completed';
+          movedToDone = true;
+        }
+        current.updatedAt = Date.now();
+      });
+
+      if (movedToDone && updated) {
+        console.log(`[Task ${task.id}] PR/MR merged, moved to done`);
+        runDoneHooks(updated, projectDir);
+      } else if (status.state === 'merged' && updated && !updated.issueClosedAt) {
+        // Moved to done by hand before the PR/MR merged: only the issue is left to close
+        closeLinkedIssue(updated, projectDir);
+      }
+      results.push({ taskId: task.id, status, movedToDone });
+    } catch (error) {
+      results.push({
+        taskId: task.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,178 @@
+/**
+ * PR/MR description
+ *
+ * Gives reviewers on the code host the context of the task: the plan's overview and testing
+ * strategy, the dev and QA subtask checklist, the verification results, links to the manual
+ * QA docs in `manual-qa-required/`, and the diffstat. The sections fill the
+ * `pullRequestBody` template of `.code-automata/prompts.json` (see lib/prompts/loader.ts).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { Subtask, Task } from '@/lib/tasks/schema';
+import { getPullRequestBody } from '@/lib/prompts/loader';
+import { MANUAL_QA_FOLDER } from '@/lib/agents/qa-subtask-prompt';
+import { getFileUrl, runCommand, type RemoteRepository } from './hosting';
+import { getLinkedIssue } from './issues';
+
+const MAX_DIFFSTAT_LINES = 60;
+
+export interface PullRequestContext {
+  diffstat: string; // `git diff --stat` against the base branch
+  manualQaDocs: Array<{ name: string; url: string }>;
+  issue?: number;
+}
+
+/**
+ * A `## Heading` section of a Markdown plan (up to the next heading of the same or higher level)
+ */
+export function extractPlanSection(plan: string, heading: string): string {
+  const lines = plan.split('\n');
+  const start = lines.findIndex((line) =>
+    new RegExp(`^#{1,6}\\s*(\\d+\\.\\s*)?${heading}\\s*$`, 'i').test(line.trim())
+  );
+  if (start === -1) return '';
+
+  const level = lines[start].trim().match(/^#+/)![0].length;
+  const body: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const next = line.trim().match(/^(#+)\s/);
+    if (next && next[1].length <= level) break;
+    body.push(line);
+  }
+  return body.join('\n').trim();
+}
+
+function checklist(subtasks: Subtask[]): string {
+  return subtasks
+    .map((s) => {
+      const verdict = s.verdict ? ` (${s.verdict.verdict})` : '';
+      return `- [${s.status === 'completed' ? 'x' : ' '}] ${s.label}${verdict}`;
+    })
+    .join('\n');
+}
+
+function section(heading: string, content: string): string {
+  return content.trim() ? `## ${heading}\n\n${content.trim()}` : '';
+}
+
+/**
+ * Template placeholder values for a task; sections without data are empty strings
+ */
+export function buildPullRequestSections(
+  task: Task,
+  context: PullRequestContext
+): Record<string, string> {
+  const plan = task.planContent ?? '';
+  const dev = task.subtasks.filter((s) => s.type === 'dev');
+  const qa = task.subtasks.filter((s) => s.type === 'qa');
+
+  const subtasks = [
+    dev.length > 0 ? `**Development**\n\n${checklist(dev)}` : '',
+    qa.length > 0 ? `**QA**\n\n${checklist(qa)}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const verification = task.verification
+    ? [
+        '| Command | Result | Duration |',
+        '| --- | --- | --- |',
+        ...task.verification.results.map((r) => {
+          const result = r.passed
+            ? '✅ passed'
+            : r.timedOut
+              ? '❌ timed out'
+              : `❌ exit ${r.exitCode ?? 'n/a'}`;
+          return `| \`${r.command}\` | ${result} | ${(r.durationMs / 1000).toFixed(1)}s |`;
+        }),
+      ].join('\n')
+    : '';
+
+  const diffLines = context.diffstat.trimEnd().split('\n').filter(Boolean);
+  const summaryLine = diffLines[diffLines.length - 1] ?? '';
+  const diffstat =
+    diffLines.length > 0
+      ? [
+          '<details>',
+          `<summary>${summaryLine.trim()}</summary>`,
+          '',
+          '```',
+          ...(diffLines.length > MAX_DIFFSTAT_LINES
+            ? [...diffLines.slice(0, MAX_DIFFSTAT_LINES - 1), ' ...', summaryLine]
+            : diffLines),
+          '```',
+          '',
+          '</details>',
+        ].join('\n')
+      : '';
+
+  // GitHub closes the issue on merge; GitLab does the same for "Closes #N" in the description
+  const issue = context.issue ? `Closes #${context.issue}` : '';
+
+  return {
+    'task.id': task.id,
+    'task.title': task.title ?? '',
+    'task.description': task.description ?? '',
+    planContent: plan,
+    overview: section('Overview', extractPlanSection(plan, 'Overview') || task.description || ''),
+    testing_strategy: section('Testing Strategy', extractPlanSection(plan, 'Testing Strategy')),
+    subtasks: section('Subtasks', subtasks),
+    verification: section(
+      task.verification?.passed === false ? 'Verification (failing)' : 'Verification',
+      verification
+    ),
+    manual_qa: section(
+      'Manual QA',
+      context.manualQaDocs.map((d) => `- [${d.name}](${d.url})`).join('\n')
+    ),
+    diffstat: section('Changes', diffstat),
+    issue,
+  };
+}
+
+/**
+ * Diffstat and manual QA docs of a pushed task branch
+ */
+export async function collectPullRequestContext(
+  task: Task,
+  repo: RemoteRepository,
+  baseBranch: string
+): Promise<PullRequestContext> {
+  const worktreePath = task.worktreePath!;
+  const { stdout: diffstat } = await runCommand(
+    'git',
+    ['diff', '--stat=100', `${baseBranch}...HEAD`],
+    worktreePath
+  ).catch(() => ({ stdout: '' }));
+
+  const docs = await fs
+    .readdir(path.join(worktreePath, MANUAL_QA_FOLDER))
+    .catch(() => [] as string[]);
+  const manualQaDocs = docs
+    .filter((name) => name.endsWith('.md'))
+    .sort()
+    .map((name) => ({
+      name,
+      url: getFileUrl(repo, task.branchName!, `${MANUAL_QA_FOLDER}/${name}`),
+    }));
+
+  return {
+    diffstat,
+    manualQaDocs,
+    issue: getLinkedIssue(task, repo.provider),
+  };
+}
+
+/**
+ * Full PR/MR description for a task whose branch has been pushed
+ */
+export async function buildPullRequestBody(
+  task: Task,
+  repo: RemoteRepository,
+  baseBranch: string,
+  projectDir: string
+): Promise<string> {
+  const context = await collectPullRequestContext(task, repo, baseBranch);
+  return getPullRequestBody(buildPullRequestSections(task, context), projectDir);
+}
@@ -0,0 +1,312 @@
+/**
+ * Worktree bootstrap hooks (local dev)
+ *
+ * A fresh worktree only has tracked files: no `.env`, no `node_modules`. Post-create hooks
+ * from `.code-automata/worktree-setup.json` make it runnable for agents and verification
+ * commands:
+ *
+ * {
+ *   "copy": [".env", ".env.local"],    // Copied from the main checkout (missing ones skipped)
+ *   "symlink": [".cache/models"],      // Symlinked to the main checkout instead
+ *   "install": "auto",                 // "auto" | "hardlink" | "none" | a custom command
+ *   "scripts": ["npx prisma generate"],
+ *   "timeoutSeconds": 900              // Per command
+ * }
+ *
+ * "auto" runs the install command of the lockfile found in the worktree; "hardlink" hardlinks
+ * `node_modules` from the main checkout (falls back to "auto" when it has none). Setup runs in
+ * the background after `WorktreeManager.createWorktree`; output goes to
+ * `.code-automata/tasks/{task-id}/worktree-setup-logs.txt` and the result to
+ * `task.worktreeSetup`. Dev subtasks wait for it and don't start when it failed.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { WorktreeSetupResult, WorktreeSetupStep } from '@/lib/tasks/schema';
+import { getTaskPersistence } from '@/lib/tasks/persistence';
+import { runVerificationCommand } from '@/lib/agents/verification';
+
+export interface WorktreeSetupConfig {
+  copy: string[];
+  symlink: string[];
+  install: string; // "auto" | "hardlink" | "none" | command
+  scripts: string[];
+  timeoutSeconds: number;
+}
+
+export const DEFAULT_SETUP_TIMEOUT_SECONDS = 900;
+
+const LOCKFILE_INSTALL_COMMANDS: Array<[string, string]> = [
+  ['pnpm-lock.yaml', 'pnpm install --frozen-lockfile'],
+  ['yarn.lock', 'yarn install --frozen-lockfile'],
+  ['package-lock.json', 'npm ci'],
+  ['bun.lockb', 'bun install --frozen-lockfile'],
+];
+
+/** Setups started by this server process, so runs can wait for them */
+const runningSetups = new Map<string, Promise<WorktreeSetupResult | undefined>>();
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+}
+
+export function getWorktreeSetupLogsPath(projectDir: string, taskId: string): string {
+  return path.join(projectDir, '.code-automata', 'tasks', taskId, 'worktree-setup-logs.txt');
+}
+
+/**
+ * Load the project's setup hooks; null when not configured
+ */
+export async function loadWorktreeSetupConfig(
+  projectDir: string
+): Promise<WorktreeSetupConfig | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(
+      path.join(projectDir, '.code-automata', 'worktree-setup.json'),
+      'utf-8'
+    );
+  } catch {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const timeout = Number(parsed.timeoutSeconds);
+    return {
+      copy: toStringList(parsed.copy),
+      symlink: toStringList(parsed.symlink),
+      install:
+        typeof parsed.install === 'string' && parsed.install.trim() ? parsed.install : 'none',
+      scripts: toStringList(parsed.scripts),
+      timeoutSeconds:
+        Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_SETUP_TIMEOUT_SECONDS,
+    };
+  } catch (error) {
+    console.warn('[worktree-setup] Ignoring invalid worktree-setup.json:', error);
+    return null;
+  }
+}
+
+/**
+ * Paths the hooks copy or link into a worktree (plus `node_modules` when hardlinked). They are
+ * not task changes, so commits made for the task leave them out; the ignore rules shared with
+ * the main checkout are not touched.
+ */
+export async function loadSetupPaths(projectDir: string): Promise<string[]> {
+  const config = await loadWorktreeSetupConfig(projectDir);
+  if (!config) return [];
+  const paths = [...config.copy, ...config.symlink];
+  if (config.install === 'hardlink') paths.push('node_modules');
+  return paths
+    .filter((file) => !path.isAbsolute(file))
+    .map((file) => path.posix.normalize(file.replace(/\\/g, '/')).replace(/\/+$/, ''))
+    .filter((file) => file !== '.' && file !== '..' && !file.startsWith('../'));
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recreate `source` at `target` with hardlinked files (copies when linking fails, e.g. across
+ * devices). Returns the number of files.
+ */
+async function hardlinkTree(source: string, target: string): Promise<number> {
+  const stat = await fs.lstat(source);
+  if (stat.isSymbolicLink()) {
+    await fs.symlink(await fs.readlink(source), target);
+    return 0;
+  }
+  if (stat.isDirectory()) {
+    await fs.mkdir(target, { recursive: true });
+    let count = 0;
+    for (const entry of await fs.readdir(source)) {
+      count += await hardlinkTree(path.join(source, entry), path.join(target, entry));
+    }
+    return count;
+  }
+  await fs.link(source, target).catch(() => fs.copyFile(source, target));
+  return 1;
+}
+
+async function detectInstallCommand(worktreePath: string): Promise<string | null> {
+  if (!(await exists(path.join(worktreePath, 'package.json')))) return null;
+  for (const [lockfile, command] of LOCKFILE_INSTALL_COMMANDS) {
+    if (await exists(path.join(worktreePath, lockfile))) return command;
+  }
+  return 'npm install';
+}
+
+/**
+ * Run the configured hooks in a worktree. Steps run in order (copy, symlink, install,
+ * scripts); the first failing command stops the remaining ones. Returns undefined when the
+ * project has no hooks.
+ */
+export async function runWorktreeSetup(
+  projectDir: string,
+  mainRepo: string,
+  worktreePath: string,
+  logsPath: string
+): Promise<WorktreeSetupResult | undefined> {
+  const config = await loadWorktreeSetupConfig(projectDir);
+  if (!config) return undefined;
+
+  const startedAt = Date.now();
+  const steps: WorktreeSetupStep[] = [];
+  await fs.mkdir(path.dirname(logsPath), { recursive: true });
+  await fs.writeFile(
+    logsPath,
+    `Worktree setup: ${worktreePath}\nStarted at: ${new Date(startedAt).toISOString()}\n${'='.repeat(80)}\n`,
+    'utf-8'
+  );
+  const log = (line: string) => fs.appendFile(logsPath, `${line}\n`, 'utf-8');
+
+  const linkFiles = async (files: string[], mode: 'copy' | 'symlink') => {
+    for (const file of files) {
+      const name = `${mode} ${file}`;
+      const source = path.resolve(mainRepo, file);
+      const target = path.resolve(worktreePath, file);
+      if (path.relative(worktreePath, target).startsWith('..') || path.isAbsolute(file)) {
+        await log(`[${name}] FAILED: path must be inside the checkout`);
+        steps.push({ name, ok: false, error: 'Path must be inside the checkout' });
+        continue;
+      }
+      if (!(await exists(source))) {
+        await log(`[${name}] not found in the main checkout - skipped`);
+        continue;
+      }
+      try {
+        await fs.rm(target, { recursive: true, force: true });
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        if (mode === 'copy') await fs.cp(source, target, { recursive: true });
+        else await fs.symlink(source, target);
+        await log(`[${name}] done`);
+        steps.push({ name, ok: true });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await log(`[${name}] FAILED: ${message}`);
+        steps.push({ name, ok: false, error: message });
+      }
+    }
+  };
+
+  const runCommand = async (name: string, command: string): Promise<boolean> => {
+    await log(`\n[${name}] $ ${command}`);
+    const { result, output } = await runVerificationCommand(
+      { name, command, timeoutSeconds: config.timeoutSeconds, expectedExitCode: 0 },
+      worktreePath
+    );
+    const status = result.timedOut
+      ? `timed out after ${config.timeoutSeconds}s`
+      : `exit code ${result.exitCode}`;
+    await log(`${output}\n[${name}] ${result.passed ? 'done' : 'FAILED'} - ${status}`);
+    steps.push(
+      result.passed
+        ? { name, ok: true }
+        : { name, ok: false, error: `${status}: ${result.outputTail.split('\n').pop() ?? ''}` }
+    );
+    return result.passed;
+  };
+
+  await linkFiles(config.copy, 'copy');
+  await linkFiles(config.symlink, 'symlink');
+
+  let ok = steps.every((s) => s.ok);
+  if (ok && config.install !== 'none') {
+    let install = config.install;
+    if (install === 'hardlink') {
+      const source = path.join(mainRepo, 'node_modules');
+      if (await exists(source)) {
+        try {
+          const target = path.join(worktreePath, 'node_modules');
+          await fs.rm(target, { recursive: true, force: true });
+          const count = await hardlinkTree(source, target);
+          await log(`[install] hardlinked ${count} files from ${source}`);
+          steps.push({ name: 'install (hardlink)', ok: true });
+          install = 'none';
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          await log(`[install] hardlink failed (${message}) - running the install command`);
+          install = 'auto';
+        }
+      } else {
+        await log('[install] main checkout has no node_modules - running the install command');
+        install = 'auto';
+      }
+    }
+    if (install === 'auto') {
+      install = (await detectInstallCommand(worktreePath)) ?? 'none';
+      if (install === 'none') await log('[install] no package.json - skipped');
+    }
+    if (install !== 'none') ok = await runCommand('install', install);
+  }
+
+  for (const [i, script] of config.scripts.entries()) {
+    if (!ok) break;
+    ok = await runCommand(`script ${i + 1}`, script);
+  }
+
+  const result: WorktreeSetupResult = {
+    status: ok && steps.every((s) => s.ok) ? 'succeeded' : 'failed',
+    startedAt,
+    completedAt: Date.now(),
+    steps,
+  };
+  await log(
+    `\n${'='.repeat(80)}\n[Worktree Setup ${result.status === 'succeeded' ? 'Succeeded' : 'Failed'}]`
+  );
+  return result;
+}
+
+/**
+ * Run the hooks for a task's worktree in the background and store the result on the task
+ */
+export function startWorktreeSetup(
+  projectDir: string,
+  mainRepo: string,
+  taskId: string,
+  worktreePath: string
+): Promise<WorktreeSetupResult | undefined> {
+  const key = `${projectDir}:${taskId}`;
+  const previous = runningSetups.get(key);
+  if (previous) return previous;
+
+  const run = runWorktreeSetup(
+    projectDir,
+    mainRepo,
+    worktreePath,
+    getWorktreeSetupLogsPath(projectDir, taskId)
+  )
+    .then(async (result) => {
+      if (result) {
+        await getTaskPersistence(projectDir).updateTask(taskId, (task) => {
+          task.worktreeSetup = result;
+        });
+        if (result.status === 'failed') {
+          console.warn(`[Task ${taskId}] Worktree setup failed, see worktree-setup-logs.txt`);
+        }
+      }
+      return result;
+    })
+    .catch((error) => {
+      console.error(`[Task ${taskId}] Worktree setup error:`, error);
+      return undefined;
+    })
+    .finally(() => runningSetups.delete(key));
+  runningSetups.set(key, run);
+  return run;
+}
+
+/**
+ * Wait for a setup started by this process (if any) to finish
+ */
+export async function waitForWorktreeSetup(projectDir: string, taskId: string): Promise<void> {
+  await runningSetups.get(`${projectDir}:${taskId}`);
+}
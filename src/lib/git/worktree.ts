@@ -14,6 +14,7 @@
 import { execSync } from 'child_process';
 import path from 'path';
 import fs from 'fs';
+import { startWorktreeSetup } from './worktree-setup';
 
 /**
  * Recursively compute directory size in bytes. Skips symlinks and ignores errors (e.g. permission).
@@ -116,15 +117,20 @@ export class WorktreeManager {
     try {
       const mainRepo = await this.getMainRepoPath();
 
-      // Try to get the default branch
-      const result = execSync('git symbolic-ref refs/remotes/origin/HEAD', {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe'],
-        cwd: mainRepo,
-      })
-        .trim()
-        .split('/')
-        .pop();
+      // Try to get the default branch (projects without a remote fall through to local branches)
+      let result: string | undefined;
+      try {
+        result = execSync('git symbolic-ref refs/remotes/origin/HEAD', {
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'pipe'],
+          cwd: mainRepo,
+        })
+          .trim()
+          .split('/')
+          .pop();
+      } catch {
+        result = undefined;
+      }
 
       if (result) {
         this.mainBranch = result;
@@ -177,11 +183,12 @@ export class WorktreeManager {
    * Create a new worktree for a task
    * - Creates branch: code-automata/{task-id}
    * - Creates worktree at: .code-automata/worktrees/{task-id}/
-   * - Branch auto-commits changes after each subtask
+   * - Branch gets a checkpoint commit after each dev subtask (see ./checkpoints.ts)
+   * - Starts the project's bootstrap hooks in the background (see ./worktree-setup.ts)
    *
    * @returns WorktreeInfo with paths and branch info
    */
-  async createWorktree(taskId: string): Promise<WorktreeInfo> {
+  async createWorktree(taskId: string, baseBranch?: string): Promise<WorktreeInfo> {
     try {
       const mainRepo = await this.getMainRepoPath();
       const mainBranch = await this.getMainBranch();
@@ -203,8 +210,10 @@ export class WorktreeManager {
       }
 
       // Create worktree with new branch
-      // Branch will be created from the main branch
-      execSync(`git worktree add "${worktreePath}" -b "${branchName}"`, {
+      // Branch will be created from baseBranch when given (e.g. a prerequisite task's branch),
+      // otherwise from the current HEAD of the main repo
+      const startPoint = baseBranch ? ` "${baseBranch}"` : '';
+      execSync(`git worktree add "${worktreePath}" -b "${branchName}"${startPoint}`, {
         cwd: mainRepo,
         stdio: 'pipe',
       });
@@ -217,6 +226,9 @@ export class WorktreeManager {
       console.log(`✓ Worktree created: ${worktreePath}`);
       console.log(`✓ Branch: ${branchName}`);
 
+      // Post-create hooks (.env files, dependency install, setup scripts)
+      void startWorktreeSetup(this.projectDir, mainRepo, taskId, path.resolve(worktreePath));
+
       return {
         path: path.resolve(worktreePath),
         branchName,
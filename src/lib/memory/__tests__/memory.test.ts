@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Task } from '@/lib/tasks/schema';
+import { buildPromptWithContext } from '@/lib/cli/context';
+import {
+  createMemoryEntry,
+  deleteMemoryEntry,
+  listMemoryEntries,
+  validateMemoryInput,
+} from '../store';
+import { retrieveMemoryContext } from '../retrieval';
+import { harvestSubtaskFailure, resolveSubtaskGotchas } from '../harvest';
+
+const task: Task = {
+  id: 'task-1',
+  title: 'Add login rate limiting',
+  description: 'Throttle attempts in src/lib/auth/login.ts',
+  phase: 'in_progress',
+  status: 'in_progress',
+  subtasks: [
+    {
+      id: 'subtask-1',
+      label: 'Throttle login attempts',
+      content: 'Limit failed logins per IP in src/lib/auth/login.ts',
+      status: 'pending',
+      type: 'dev',
+    },
+  ],
+  createdAt: 1,
+  updatedAt: 1,
+  metadata: {},
+};
+
+describe('project memory', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('validates required fields', () => {
+    expect(validateMemoryInput({ kind: 'note', title: '' })).toEqual([
+      '"kind" must be one of: pattern, gotcha',
+      '"title" must be a non-empty string',
+      '"content" must be a non-empty string',
+    ]);
+    expect(validateMemoryInput({ pinned: true }, true)).toEqual([]);
+  });
+
+  it('retrieves entries by file and tag overlap, plus pinned ones', async () => {
+    const byFile = await createMemoryEntry(
+      {
+        kind: 'pattern',
+        title: 'Auth',
+        content: 'Use the session helper',
+        files: ['src/lib/auth'],
+      },
+      projectDir
+    );
+    await createMemoryEntry(
+      { kind: 'pattern', title: 'Billing', content: 'Amounts are in cents', tags: ['billing'] },
+      projectDir
+    );
+    await createMemoryEntry(
+      { kind: 'pattern', title: 'Style', content: 'Prefer named exports', pinned: true },
+      projectDir
+    );
+
+    const context = await retrieveMemoryContext(task, projectDir);
+    expect(context?.patterns?.map((p) => p.category)).toEqual(['Style', 'Auth']);
+    expect(buildPromptWithContext('Do it', context)).toContain('Use the session helper');
+
+    expect(await deleteMemoryEntry(byFile.id, projectDir)).toBe(true);
+    expect(await deleteMemoryEntry(byFile.id, projectDir)).toBe(false);
+  });
+
+  it('harvests a gotcha from a failed subtask and resolves it on retry', async () => {
+    const subtask = task.subtasks[0];
+    const error = JSON.stringify({ error: 'Tests failed: login.test.ts' });
+    await harvestSubtaskFailure(task, subtask, error, projectDir);
+    const repeat = await harvestSubtaskFailure(task, subtask, error, projectDir);
+    expect(repeat).toMatchObject({
+      title: 'Agent failed on "Throttle login attempts": Tests failed: login.test.ts',
+      resolved: false,
+      occurrences: 2,
+    });
+    expect(await harvestSubtaskFailure(task, subtask, 'Budget exceeded: …', projectDir)).toBeNull();
+
+    const context = await retrieveMemoryContext(task, projectDir, { subtaskId: subtask.id });
+    expect(context?.gotchas?.[0].issue).toBe(repeat!.title);
+
+    await resolveSubtaskGotchas(
+      task.id,
+      subtask.id,
+      'Done.\n\nMocked the clock in tests.',
+      projectDir
+    );
+    const resolved = (await listMemoryEntries(projectDir)).find((e) => e.id === repeat!.id);
+    expect(resolved).toMatchObject({
+      resolved: true,
+      content: 'Resolved on retry: Mocked the clock in tests.',
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Gotcha harvesting (local dev)
+ *
+ * Turns agent failures into memory entries so later runs see them as known issues:
+ * - a failed subtask records an unresolved gotcha, resolved when a retry of the subtask succeeds
+ * - a fix-agent retry (plan/subtask output that failed to parse) records the format gotcha
+ * Repeats of the same issue bump `occurrences` instead of adding entries.
+ */
+
+import type { Subtask, Task } from '@/lib/tasks/schema';
+import { extractFilePaths } from './retrieval';
+import {
+  createMemoryEntry,
+  listMemoryEntries,
+  MemoryEntry,
+  MemoryEntryInput,
+  updateMemoryEntry,
+} from './store';
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'from',
+  'into',
+  'that',
+  'this',
+  'add',
+  'update',
+  'create',
+  'implement',
+]);
+
+function truncate(text: string, max: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > max ? `${clean.slice(0, max - 1)}…` : clean;
+}
+
+/**
+ * Readable error text: manager errors may be the JSON of the adapter's error message
+ */
+function summarizeError(error: string | undefined): string {
+  if (!error) return 'Unknown error';
+  try {
+    const parsed = JSON.parse(error) as Record<string, unknown>;
+    const message = parsed.error ?? parsed.message;
+    if (typeof message === 'string' && message.trim()) return truncate(message, 160);
+  } catch {
+    // Plain text
+  }
+  return truncate(error.split('\n').find((line) => line.trim()) ?? error, 160);
+}
+
+function keywords(text: string, limit = 5): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9_-]+/)
+    .filter((word) => word.length > 3 && !STOP_WORDS.has(word));
+  return [...new Set(words)].slice(0, limit);
+}
+
+async function upsertGotcha(input: MemoryEntryInput, projectDir: string): Promise<MemoryEntry> {
+  const entries = await listMemoryEntries(projectDir);
+  const existing = entries.find(
+    (entry) =>
+      entry.kind === 'gotcha' && entry.source === input.source && entry.title === input.title
+  );
+  if (!existing) return createMemoryEntry({ ...input, occurrences: 1 }, projectDir);
+
+  const updated = await updateMemoryEntry(
+    existing.id,
+    {
+      tags: [...existing.tags, ...(input.tags ?? [])],
+      files: [...existing.files, ...(input.files ?? [])],
+      context: input.context ?? existing.context,
+      resolved: input.resolved ?? existing.resolved,
+      occurrences: (existing.occurrences ?? 1) + 1,
+    },
+    projectDir
+  );
+  return updated ?? existing;
+}
+
+export async function harvestSubtaskFailure(
+  task: Task,
+  subtask: Subtask,
+  error: string | undefined,
+  projectDir: string
+): Promise<MemoryEntry | null> {
+  // Budget halts are a spending decision, not something the next agent can learn from
+  if (error?.startsWith('Budget exceeded')) return null;
+
+  const summary = summarizeError(error);
+  return upsertGotcha(
+    {
+      kind: 'gotcha',
+      source: 'subtask_failure',
+      title: `Agent failed on "${subtask.label}": ${summary}`,
+      content:
+        'Unresolved: an earlier attempt failed with this error. Check for it before reporting similar work as done.',
+      context: `Task "${task.title}": ${truncate(subtask.content, 300)}`,
+      tags: keywords(subtask.label),
+      files: extractFilePaths(`${subtask.content}\n${error ?? ''}`),
+      taskId: task.id,
+      subtaskId: subtask.id,
+      resolved: false,
+    },
+    projectDir
+  );
+}
+
+/**
+ * A retry of the subtask succeeded: record the outcome as the solution of its open gotchas
+ */
+export async function resolveSubtaskGotchas(
+  taskId: string,
+  subtaskId: string,
+  output: string,
+  projectDir: string
+): Promise<void> {
+  const entries = await listMemoryEntries(projectDir);
+  const open = entries.filter(
+    (entry) =>
+      entry.source === 'subtask_failure' &&
+      entry.taskId === taskId &&
+      entry.subtaskId === subtaskId &&
+      !entry.resolved
+  );
+  const paragraphs = output.split(/\n\s*\n/).filter((p) => p.trim());
+  const summary = truncate(paragraphs[paragraphs.length - 1] ?? '', 400);
+  for (const entry of open) {
+    await updateMemoryEntry(
+      entry.id,
+      {
+        resolved: true,
+        content: summary
+          ? `Resolved on retry: ${summary}`
+          : 'Resolved on retry (no summary was reported).',
+      },
+      projectDir
+    );
+  }
+}
+
+export async function harvestFixRetry(
+  task: Task,
+  stage: 'plan generation' | 'subtask generation',
+  error: string,
+  projectDir: string
+): Promise<MemoryEntry> {
+  return upsertGotcha(
+    {
+      kind: 'gotcha',
+      source: 'fix_retry',
+      title: `${stage[0].toUpperCase()}${stage.slice(1)} output failed JSON parsing/validation`,
+      content:
+        'Return the raw JSON object as the final message: no markdown fences, no text around it, quotes inside strings escaped. Writing the JSON to a file does not count.',
+      context: `Last error (task "${task.title}"): ${truncate(error, 300)}`,
+      // Retrieved for every planning-phase run
+      tags: ['planning'],
+      files: [],
+      taskId: task.id,
+      resolved: true,
+    },
+    projectDir
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Memory retrieval (local dev)
+ *
+ * Picks the memory entries relevant to an agent run and converts them to `ContextData`.
+ * Relevance is tag overlap with the task/subtask text plus file overlap with the paths the
+ * task mentions or has already changed in its worktree. Pinned entries are always included.
+ */
+
+import path from 'path';
+import type { ContextData } from '@/lib/cli/base';
+import type { Task } from '@/lib/tasks/schema';
+import { snapshotWorktree } from '@/lib/agents/permission-audit';
+import { readAgentRuns } from '@/lib/agents/usage';
+import { listMemoryEntries, MemoryEntry } from './store';
+
+const MAX_ENTRIES = 8;
+const MAX_HISTORY = 5;
+
+export interface MemoryQuery {
+  text: string;
+  files: string[];
+  taskId?: string;
+}
+
+const FILE_PATH_PATTERN = /(?:[\w.-]+\/)*[\w.-]+\.[a-z0-9]{1,8}\b/gi;
+
+/**
+ * Worktree-relative file paths mentioned in free text (e.g. "update src/lib/foo.ts")
+ */
+export function extractFilePaths(text: string): string[] {
+  const matches = text.match(FILE_PATH_PATTERN) ?? [];
+  return [...new Set(matches.filter((m) => m.includes('/') || /\.[a-z]{2,4}$/i.test(m)))];
+}
+
+export function buildMemoryQuery(
+  task: Task,
+  subtaskId?: string,
+  changedFiles: string[] = []
+): MemoryQuery {
+  const subtask = subtaskId ? task.subtasks.find((s) => s.id === subtaskId) : undefined;
+  // The phase lets entries tagged e.g. "planning" apply to every run in that phase
+  const text = [task.phase, task.title, task.description, subtask?.label, subtask?.content]
+    .filter(Boolean)
+    .join('\n');
+  return {
+    text,
+    files: [...new Set([...extractFilePaths(text), ...changedFiles])],
+    taskId: task.id,
+  };
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+}
+
+function fileScore(entryFile: string, queryFile: string): number {
+  const a = normalizePath(entryFile);
+  const b = normalizePath(queryFile);
+  if (a === b || b.startsWith(`${a}/`)) return 3; // Same file, or a file inside the entry's dir
+  const dir = path.posix.dirname(a);
+  if (dir !== '.' && dir === path.posix.dirname(b)) return 1; // Sibling files
+  return 0;
+}
+
+/**
+ * Relevance of an entry to a query; 0 means unrelated
+ */
+export function scoreMemoryEntry(entry: MemoryEntry, query: MemoryQuery): number {
+  const text = query.text.toLowerCase();
+  const words = new Set(text.split(/[^a-z0-9_.-]+/).filter(Boolean));
+
+  let score = 0;
+  for (const tag of entry.tags) {
+    if (tag.includes(' ') ? text.includes(tag) : words.has(tag)) score += 2;
+  }
+  for (const entryFile of entry.files) {
+    score += Math.max(0, ...query.files.map((queryFile) => fileScore(entryFile, queryFile)));
+  }
+  if (score > 0 && query.taskId && entry.taskId === query.taskId) score += 1;
+  return score;
+}
+
+/**
+ * Pinned entries first, then the most relevant (ties go to the most recently updated)
+ */
+export function selectMemoryEntries(
+  entries: MemoryEntry[],
+  query: MemoryQuery,
+  limit = MAX_ENTRIES
+): MemoryEntry[] {
+  const pinned = entries.filter((entry) => entry.pinned);
+  const scored = entries
+    .filter((entry) => !entry.pinned)
+    .map((entry) => ({ entry, score: scoreMemoryEntry(entry, query) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.entry.updatedAt - a.entry.updatedAt)
+    .map(({ entry }) => entry);
+  return [...pinned, ...scored].slice(0, Math.max(limit, pinned.length));
+}
+
+export function toContextData(entries: MemoryEntry[]): ContextData {
+  return {
+    patterns: entries
+      .filter((entry) => entry.kind === 'pattern')
+      .map((entry) => ({
+        category: entry.title,
+        description: entry.content,
+        example: entry.example,
+        addedAt: entry.createdAt,
+      })),
+    gotchas: entries
+      .filter((entry) => entry.kind === 'gotcha')
+      .map((entry) => ({
+        issue: entry.title,
+        solution: entry.content,
+        context: entry.context,
+        addedAt: entry.createdAt,
+      })),
+  };
+}
+
+/**
+ * Memory context for an agent run on the task (and subtask, when given).
+ * Returns undefined when there is nothing to inject.
+ */
+export async function retrieveMemoryContext(
+  task: Task,
+  projectDir: string,
+  options: { subtaskId?: string; workingDir?: string } = {}
+): Promise<ContextData | undefined> {
+  const [entries, runs, snapshot] = await Promise.all([
+    listMemoryEntries(projectDir),
+    readAgentRuns(projectDir, { taskId: task.id }).catch(() => []),
+    options.workingDir ? snapshotWorktree(options.workingDir) : Promise.resolve(null),
+  ]);
+
+  const query = buildMemoryQuery(task, options.subtaskId, [...(snapshot?.files.keys() ?? [])]);
+  const context = toContextData(selectMemoryEntries(entries, query));
+  context.history = runs.slice(-MAX_HISTORY).map((run) => ({
+    taskId: run.taskId,
+    phase: run.phase,
+    success: run.status === 'completed',
+    duration: run.durationMs,
+    timestamp: run.completedAt,
+  }));
+
+  const isEmpty = !context.patterns?.length && !context.gotchas?.length && !context.history?.length;
+  return isEmpty ? undefined : context;
+}
@@ -0,0 +1,201 @@
+/**
+ * Project memory store (local dev)
+ *
+ * Patterns and gotchas learned while working on a project, one JSON file per entry under
+ * `.code-automata/memory/`. Entries are curated on the Memory page and retrieved into agent
+ * prompts as `ContextData` (see retrieval.ts).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export type MemoryKind = 'pattern' | 'gotcha';
+
+export type MemorySource = 'manual' | 'subtask_failure' | 'fix_retry';
+
+export interface MemoryEntry {
+  id: string;
+  kind: MemoryKind;
+  title: string; // Pattern category or gotcha issue
+  content: string; // Pattern description or gotcha solution
+  example?: string; // Pattern example
+  context?: string; // Gotcha context (where/when it happens)
+  tags: string[];
+  files: string[]; // Worktree-relative paths or directories the entry applies to
+  pinned?: boolean; // Always retrieved, regardless of relevance
+  source: MemorySource;
+  taskId?: string;
+  subtaskId?: string;
+  resolved?: boolean; // Harvested gotchas start unresolved until a retry succeeds
+  occurrences?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type MemoryEntryInput = Partial<Omit<MemoryEntry, 'id' | 'createdAt' | 'updatedAt'>> &
+  Pick<MemoryEntry, 'kind' | 'title' | 'content'>;
+
+export const MEMORY_KINDS: MemoryKind[] = ['pattern', 'gotcha'];
+
+function getMemoryDir(projectDir: string): string {
+  return path.join(projectDir, '.code-automata', 'memory');
+}
+
+function isValidId(id: string): boolean {
+  return /^[\w-]+$/.test(id);
+}
+
+function getEntryPath(projectDir: string, id: string): string {
+  return path.join(getMemoryDir(projectDir), `${id}.json`);
+}
+
+function normalizeList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const items = value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return [...new Set(items)];
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate user-supplied fields (all required fields unless `partial`). Returns error messages.
+ */
+export function validateMemoryInput(input: unknown, partial = false): string[] {
+  if (!input || typeof input !== 'object') return ['Body must be an object'];
+  const fields = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (
+    (fields.kind !== undefined || !partial) &&
+    !MEMORY_KINDS.includes(fields.kind as MemoryKind)
+  ) {
+    errors.push(`"kind" must be one of: ${MEMORY_KINDS.join(', ')}`);
+  }
+  for (const key of ['title', 'content']) {
+    if ((fields[key] !== undefined || !partial) && !optionalText(fields[key])) {
+      errors.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  for (const key of ['tags', 'files']) {
+    if (fields[key] !== undefined && !Array.isArray(fields[key])) {
+      errors.push(`"${key}" must be an array of strings`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Normalize the editable fields present in the input (assumes validateMemoryInput passed)
+ */
+function normalizeFields(input: Record<string, unknown>): Partial<MemoryEntry> {
+  const fields: Partial<MemoryEntry> = {};
+  if (input.kind !== undefined) fields.kind = input.kind as MemoryKind;
+  if (input.title !== undefined) fields.title = optionalText(input.title);
+  if (input.content !== undefined) fields.content = optionalText(input.content);
+  if (input.example !== undefined) fields.example = optionalText(input.example);
+  if (input.context !== undefined) fields.context = optionalText(input.context);
+  if (input.tags !== undefined) fields.tags = normalizeList(input.tags).map((t) => t.toLowerCase());
+  if (input.files !== undefined) fields.files = normalizeList(input.files);
+  if (input.pinned !== undefined) fields.pinned = Boolean(input.pinned);
+  if (input.resolved !== undefined) fields.resolved = Boolean(input.resolved);
+  return fields;
+}
+
+export async function listMemoryEntries(projectDir: string): Promise<MemoryEntry[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getMemoryDir(projectDir));
+  } catch {
+    return [];
+  }
+
+  const entries = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => loadMemoryEntry(file.replace(/\.json$/, ''), projectDir).catch(() => null))
+  );
+  return entries
+    .filter((entry): entry is MemoryEntry => entry !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadMemoryEntry(id: string, projectDir: string): Promise<MemoryEntry | null> {
+  if (!isValidId(id)) return null;
+  try {
+    const raw = await fs.readFile(getEntryPath(projectDir, id), 'utf-8');
+    return JSON.parse(raw) as MemoryEntry;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function saveMemoryEntry(entry: MemoryEntry, projectDir: string): Promise<void> {
+  await fs.mkdir(getMemoryDir(projectDir), { recursive: true });
+  await fs.writeFile(getEntryPath(projectDir, entry.id), JSON.stringify(entry, null, 2));
+}
+
+export async function createMemoryEntry(
+  input: MemoryEntryInput | Record<string, unknown>,
+  projectDir: string
+): Promise<MemoryEntry> {
+  const fields = normalizeFields(input as Record<string, unknown>);
+  const source = (input as MemoryEntryInput).source;
+  const now = Date.now();
+  const entry: MemoryEntry = {
+    tags: [],
+    files: [],
+    ...fields,
+    id: `mem-${now}-${Math.random().toString(36).slice(2, 7)}`,
+    kind: fields.kind!,
+    title: fields.title!,
+    content: fields.content!,
+    source: source === 'subtask_failure' || source === 'fix_retry' ? source : 'manual',
+    taskId: optionalText((input as MemoryEntryInput).taskId),
+    subtaskId: optionalText((input as MemoryEntryInput).subtaskId),
+    occurrences: (input as MemoryEntryInput).occurrences,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveMemoryEntry(entry, projectDir);
+  return entry;
+}
+
+/**
+ * Apply a partial update. Returns null when the entry does not exist.
+ */
+export async function updateMemoryEntry(
+  id: string,
+  updates: Partial<MemoryEntry> | Record<string, unknown>,
+  projectDir: string
+): Promise<MemoryEntry | null> {
+  const existing = await loadMemoryEntry(id, projectDir);
+  if (!existing) return null;
+
+  const fields = normalizeFields(updates as Record<string, unknown>);
+  const occurrences = (updates as Partial<MemoryEntry>).occurrences;
+  const updated: MemoryEntry = {
+    ...existing,
+    ...fields,
+    ...(typeof occurrences === 'number' ? { occurrences } : {}),
+    updatedAt: Date.now(),
+  };
+  await saveMemoryEntry(updated, projectDir);
+  return updated;
+}
+
+export async function deleteMemoryEntry(id: string, projectDir: string): Promise<boolean> {
+  if (!isValidId(id)) return false;
+  try {
+    await fs.unlink(getEntryPath(projectDir, id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Process Helpers
+ *
+ * Shared by the verification runner and the CLI adapters that run shell commands.
+ */
+
+/**
+ * Stop a shell command spawned with `detached` (own process group) and everything it started;
+ * `fallback` runs when there is no group to signal (Windows) or signalling fails
+ */
+export function stopCommand(pid: number | undefined, fallback: () => void) {
+  try {
+    // The command runs in its own process group: stop the shell and everything it started
+    if (pid) process.kill(-pid, 'SIGTERM');
+    else fallback();
+  } catch {
+    fallback();
+  }
+}
@@ -68,7 +68,7 @@ export const SUBTASK_GENERATION_DEFAULT_TEMPLATE = `You are an AI development as
 
 # SUBTASK GENERATION
 
-Your goal is to break down this plan into 5-15 concrete, actionable subtasks that can be executed sequentially.
+Your goal is to break down this plan into 5-15 concrete, actionable subtasks. Dev subtasks that don't depend on each other and touch different files are executed in parallel by separate agents.
 
 For each subtask, provide:
 - **id**: Unique identifier (e.g., "subtask-1", "subtask-2")
@@ -76,16 +76,19 @@ For each subtask, provide:
 - **label**: Short label (3-5 words) for UI display (e.g., "Create API endpoint", "Add validation logic")
 - **activeForm**: Present continuous form for progress display (e.g., "Creating API endpoint", "Adding validation logic")
 - **type**: Either "dev" or "qa"
+- **dependsOn**: (dev only) IDs of the dev subtasks that must be completed before this one starts; [] when it can start right away
+- **files**: (dev only) Files or directories this subtask will create or modify (e.g. ["src/app/api/example/route.ts", "src/lib/example/"])
 
 **Guidelines:**
 1. Break down complex steps into smaller, manageable subtasks
 2. Each subtask should be completable independently
-3. Order subtasks logically (dependencies first)
-4. Be specific about files, functions, and changes needed
-5. Cap at 15 subtasks maximum
-6. Include at least 2 QA subtasks ("type": "qa") that ONLY verify/test (e.g. run build/tests, validate docs/links/diagrams)
-7. Put verification steps (build/test/lint/validate/verify) under QA, not dev
-8. For QA subtasks that require manual human verification (e.g. UI testing, visual review), include "manual" in the label or content (e.g. "Manual QA: verify login flow")`;
+3. Order subtasks logically (dependencies first) and declare the real dependencies in "dependsOn" - keep it minimal so independent work can run in parallel
+4. List every file a dev subtask touches in "files"; subtasks sharing files never run at the same time
+5. Be specific about files, functions, and changes needed
+6. Cap at 15 subtasks maximum
+7. Include at least 2 QA subtasks ("type": "qa") that ONLY verify/test (e.g. run build/tests, validate docs/links/diagrams)
+8. Put verification steps (build/test/lint/validate/verify) under QA, not dev
+9. For QA subtasks that require manual human verification (e.g. UI testing, visual review), include "manual" in the label or content (e.g. "Manual QA: verify login flow")`;
 
 export const SUBTASK_GENERATION_SUFFIX = `
 
@@ -97,7 +100,9 @@ Return your subtasks in the following JSON format:
       "content": "Create the API route file at src/app/api/example/route.ts with POST endpoint handler",
       "label": "Create API endpoint",
       "activeForm": "Creating API endpoint",
-      "type": "dev"
+      "type": "dev",
+      "dependsOn": [],
+      "files": ["src/app/api/example/route.ts"]
     },
     {
       "id": "subtask-qa-1",
@@ -113,5 +118,26 @@ CRITICAL - Your response MUST contain the raw JSON as plain text in your message
 - The system ONLY captures your text/chat output. We cannot read files you create.
 - You MUST output the JSON directly in your final message - writing to a file does NOT work.
 - No markdown code fences, no explanatory text before or after.
-- Your last message must be the raw JSON object, e.g. {"subtasks":[{"id":"subtask-1","content":"...","label":"...","activeForm":"...","type":"dev"}]}
+- Your last message must be the raw JSON object, e.g. {"subtasks":[{"id":"subtask-1","content":"...","label":"...","activeForm":"...","type":"dev","dependsOn":[],"files":["..."]}]}
 ${OUTPUT_NO_FILES_IN_WORKTREE}`;
+
+/**
+ * Pull request / merge request description. Each section placeholder expands to a Markdown
+ * section with its own heading, or to nothing when the task has no data for it.
+ */
+export const PULL_REQUEST_BODY_DEFAULT_TEMPLATE = `{{overview}}
+
+{{testing_strategy}}
+
+{{subtasks}}
+
+{{verification}}
+
+{{manual_qa}}
+
+{{diffstat}}
+
+{{issue}}
+
+---
+Task \`{{task.id}}\` · Generated by Code-Automata`;
@@ -1,5 +1,5 @@
 /**
- * Prompt loader for customizable Plan and Subtask generation.
+ * Prompt loader for customizable Plan and Subtask generation and the PR/MR description.
  * Reads from .code-automata/prompts.json; falls back to built-in defaults.
  */
 
@@ -9,6 +9,7 @@ import {
   PLAN_GENERATION_DEFAULT_TEMPLATE,
   PLAN_GENERATION_SUFFIX,
   PLAN_USER_ANSWERS_INTRO,
+  PULL_REQUEST_BODY_DEFAULT_TEMPLATE,
   SUBTASK_GENERATION_DEFAULT_TEMPLATE,
   SUBTASK_GENERATION_SUFFIX,
 } from './defaults';
@@ -24,6 +25,10 @@ export interface ProjectPrompts {
     custom: boolean;
     template: string;
   };
+  pullRequestBody?: {
+    custom: boolean;
+    template: string;
+  };
 }
 
 export interface PlanGenerationAnswers {
@@ -91,7 +96,8 @@ function replacePlaceholders(template: string, replacements: Record<string, stri
   let result = template;
   for (const [key, value] of Object.entries(replacements)) {
     const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    result = result.replace(new RegExp(`\\{\\{${escaped}\\}\\}`, 'g'), value ?? '');
+    // Function replacer: values such as plans may contain `$&` or `$1`, which a string would expand
+    result = result.replace(new RegExp(`\\{\\{${escaped}\\}\\}`, 'g'), () => value ?? '');
   }
   return result;
 }
@@ -174,3 +180,23 @@ export async function getSubtaskGenerationPrompt(
   const filled = replacePlaceholders(template, replacements);
   return filled + SUBTASK_GENERATION_SUFFIX;
 }
+
+/**
+ * Get the PR/MR description: the custom or default template with its placeholders filled.
+ * Blank lines left by empty sections are collapsed.
+ */
+export async function getPullRequestBody(
+  replacements: Record<string, string>,
+  projectDir: string
+): Promise<string> {
+  const prompts = await loadPrompts(projectDir);
+  const entry = prompts?.pullRequestBody;
+  const template =
+    entry?.custom && entry?.template && entry.template.trim()
+      ? entry.template.trim()
+      : PULL_REQUEST_BODY_DEFAULT_TEMPLATE;
+
+  return replacePlaceholders(template, replacements)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
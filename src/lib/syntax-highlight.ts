@@ -0,0 +1,178 @@
+/**
+ * Lightweight syntax highlighting for the diff viewer
+ *
+ * Diff lines are highlighted one at a time without parser state, so this only recognizes
+ * what can be seen on a single line: keywords, strings, numbers and line comments (plus
+ * lines that look like the inside of a block comment). Good enough for reviewing hunks.
+ */
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'number' | 'comment';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface LanguageSpec {
+  lineComments: string[];
+  blockComments: boolean; // /* ... */ and " * " continuation lines
+  keywords: string; // Space-separated
+}
+
+const C_LIKE_KEYWORDS =
+  'break case catch class const continue default do else enum export extends false finally ' +
+  'for if import interface new null private protected public return static switch this ' +
+  'throw true try void while';
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: {
+    lineComments: ['//'],
+    blockComments: true,
+    keywords:
+      `${C_LIKE_KEYWORDS} as async await declare delete from function implements in ` +
+      'instanceof keyof let of readonly type typeof undefined var yield',
+  },
+  python: {
+    lineComments: ['#'],
+    blockComments: false,
+    keywords:
+      'and as assert async await break class continue def del elif else except False finally ' +
+      'for from global if import in is lambda None nonlocal not or pass raise return True try ' +
+      'while with yield',
+  },
+  go: {
+    lineComments: ['//'],
+    blockComments: true,
+    keywords:
+      'break case chan const continue default defer else false for func go if import ' +
+      'interface map nil package range return select struct switch true type var',
+  },
+  rust: {
+    lineComments: ['//'],
+    blockComments: true,
+    keywords:
+      'as async await break const continue crate else enum false fn for if impl in let loop ' +
+      'match mod move mut pub ref return self Self static struct trait true type unsafe use ' +
+      'where while',
+  },
+  c: {
+    lineComments: ['//'],
+    blockComments: true,
+    keywords:
+      `${C_LIKE_KEYWORDS} abstract boolean char double final float fun implements int long ` +
+      'namespace override package struct using val var',
+  },
+  ruby: {
+    lineComments: ['#'],
+    blockComments: false,
+    keywords:
+      'begin class def do else elsif end ensure false if module nil raise require rescue ' +
+      'return self then true unless when while yield',
+  },
+  shell: {
+    lineComments: ['#'],
+    blockComments: false,
+    keywords: 'case do done elif else esac export fi for function if in local return then while',
+  },
+  yaml: { lineComments: ['#'], blockComments: false, keywords: 'true false null' },
+  json: { lineComments: [], blockComments: false, keywords: 'true false null' },
+  css: { lineComments: [], blockComments: true, keywords: 'important' },
+  sql: {
+    lineComments: ['--'],
+    blockComments: true,
+    keywords:
+      'select from where insert into update delete create table alter drop join left inner ' +
+      'on and or not null as order group by limit values set index primary key',
+  },
+};
+
+/** Extensions per language (space-separated) */
+const EXTENSIONS: Record<string, string> = {
+  javascript: 'ts tsx js jsx mjs cjs mts cts vue svelte',
+  python: 'py',
+  go: 'go',
+  rust: 'rs',
+  ruby: 'rb',
+  c: 'c h cc cpp hpp cs java kt kts swift php scala dart',
+  shell: 'sh bash zsh',
+  yaml: 'yml yaml toml',
+  json: 'json',
+  css: 'css scss less',
+  sql: 'sql',
+};
+
+const LANGUAGE_BY_EXTENSION = new Map(
+  Object.entries(EXTENSIONS).flatMap(([language, extensions]) =>
+    extensions.split(' ').map((ext) => [ext, language] as const)
+  )
+);
+
+/**
+ * Language of a file from its extension (null when unknown: shown as plain text)
+ */
+export function languageForPath(filePath: string): string | null {
+  const name = filePath.split('/').pop() ?? '';
+  if (name === 'Dockerfile' || name === 'Makefile') return 'shell';
+  const ext = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return LANGUAGE_BY_EXTENSION.get(ext) ?? null;
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getPattern(language: string, spec: LanguageSpec): RegExp {
+  const cached = patternCache.get(language);
+  if (cached) return cached;
+  const comments = [
+    ...spec.lineComments.map((c) => `${escapeRegExp(c)}.*$`),
+    ...(spec.blockComments ? ['\\/\\*.*?(?:\\*\\/|$)'] : []),
+  ];
+  const parts = [
+    `(${comments.length > 0 ? comments.join('|') : '(?!)'})`,
+    '("(?:[^"\\\\]|\\\\.)*"?|\'(?:[^\'\\\\]|\\\\.)*\'?|`(?:[^`\\\\]|\\\\.)*`?)',
+    '(\\b0x[\\da-fA-F]+\\b|\\b\\d[\\d_]*(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b)',
+    `\\b(${spec.keywords.split(' ').join('|')})\\b`,
+  ];
+  const pattern = new RegExp(parts.join('|'), language === 'sql' ? 'gi' : 'g');
+  patternCache.set(language, pattern);
+  return pattern;
+}
+
+/**
+ * Split a line into highlighted tokens
+ */
+export function tokenizeLine(line: string, language: string | null): Token[] {
+  const spec = language ? LANGUAGES[language] : undefined;
+  if (!spec || !language || line.length === 0) return [{ kind: 'plain', text: line }];
+
+  const trimmed = line.trimStart();
+  if (spec.blockComments && (trimmed.startsWith('* ') || trimmed === '*' || trimmed === '*/')) {
+    return [{ kind: 'comment', text: line }];
+  }
+
+  const tokens: Token[] = [];
+  const pattern = getPattern(language, spec);
+  pattern.lastIndex = 0;
+  let last = 0;
+  for (let match = pattern.exec(line); match; match = pattern.exec(line)) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > last) tokens.push({ kind: 'plain', text: line.slice(last, match.index) });
+    const kind: TokenKind = match[1]
+      ? 'comment'
+      : match[2]
+        ? 'string'
+        : match[3]
+          ? 'number'
+          : 'keyword';
+    tokens.push({ kind, text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < line.length) tokens.push({ kind: 'plain', text: line.slice(last) });
+  return tokens;
+}
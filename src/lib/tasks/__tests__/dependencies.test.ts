@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { Task } from '../schema';
+import {
+  findDependencyCycle,
+  findReadyDependents,
+  getDependencyBaseBranch,
+  getUnmetDependencies,
+  validateDependencies,
+} from '../dependencies';
+
+function task(id: string, overrides: Partial<Task> = {}, dependencies?: string[]): Task {
+  return {
+    id,
+    title: id.toUpperCase(),
+    description: '',
+    phase: 'planning',
+    status: 'pending',
+    subtasks: [],
+    cliTool: 'mock',
+    requiresHumanReview: false,
+    planApproved: false,
+    locked: false,
+    planningStatus: 'not_started',
+    branchName: `code-automata/${id}`,
+    createdAt: 0,
+    updatedAt: 0,
+    metadata: dependencies ? { dependencies } : {},
+    ...overrides,
+  } as Task;
+}
+
+describe('task dependencies', () => {
+  it('rejects self, unknown and cyclic dependencies', () => {
+    const tasks = [task('a', {}, ['b']), task('b', {}, ['c']), task('c')];
+
+    expect(validateDependencies('c', ['c'], tasks)).toEqual(['A task cannot depend on itself']);
+    expect(validateDependencies('c', ['zzz'], tasks)).toEqual(['Unknown prerequisite task: zzz']);
+    expect(findDependencyCycle('c', ['a'], tasks)).toEqual(['c', 'a', 'b', 'c']);
+    expect(validateDependencies('c', ['a'], tasks)[0]).toBe(
+      'Dependency cycle: "C" → "A" → "B" → "C"'
+    );
+    expect(validateDependencies('a', ['b', 'c'], tasks)).toEqual([]);
+    expect(validateDependencies('a', 'b', tasks)).toEqual([
+      '"dependencies" must be an array of task IDs',
+    ]);
+  });
+
+  it('reports prerequisites that are not done, ignoring deleted ones', () => {
+    const tasks = [task('a', { phase: 'done' }), task('b', { phase: 'human_review' })];
+    const dependent = task('c', {}, ['a', 'b', 'deleted']);
+
+    expect(getUnmetDependencies(dependent, tasks).map((t) => t.id)).toEqual(['b']);
+  });
+
+  it('finds dependents unblocked by a finished task', () => {
+    const tasks = [
+      task('a', { phase: 'done', updatedAt: 2 }),
+      task('b', { phase: 'in_progress' }),
+      task('ready', {}, ['a']),
+      task('still-waiting', {}, ['a', 'b']),
+      task('started', { planningStatus: 'generating_plan' }, ['a']),
+    ];
+
+    expect(findReadyDependents('a', tasks).map((t) => t.id)).toEqual(['ready']);
+  });
+
+  it('bases the worktree on the most recently finished prerequisite', () => {
+    const tasks = [
+      task('a', { phase: 'done', updatedAt: 1 }),
+      task('b', { phase: 'done', updatedAt: 5 }),
+    ];
+
+    expect(getDependencyBaseBranch(task('c', {}, ['a', 'b']), tasks)).toBe('code-automata/b');
+    expect(getDependencyBaseBranch(task('d'), tasks)).toBeUndefined();
+  });
+});
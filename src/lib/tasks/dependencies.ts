@@ -0,0 +1,117 @@
+/**
+ * Task dependency graph
+ *
+ * `task.metadata.dependencies` lists prerequisite task IDs. A task with prerequisites that
+ * are not in the `done` phase cannot start; once the last one is done, the dependent is
+ * started automatically (see src/lib/agents/dependents.ts). Pure helpers, safe to use in
+ * the browser (the task modals run cycle detection client-side too).
+ */
+
+import type { Task } from './schema';
+
+type TaskRef = Pick<Task, 'id' | 'title' | 'phase' | 'metadata'>;
+
+function dependenciesOf(task: Pick<Task, 'metadata'> | undefined): string[] {
+  return task?.metadata?.dependencies ?? [];
+}
+
+/**
+ * Find a cycle introduced by giving `taskId` these dependencies.
+ * Returns the cycle as task IDs (first === last), or null.
+ */
+export function findDependencyCycle(
+  taskId: string,
+  dependencies: string[],
+  tasks: TaskRef[]
+): string[] | null {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const edges = (id: string) => (id === taskId ? dependencies : dependenciesOf(byId.get(id)));
+
+  const visiting: string[] = [];
+  const done = new Set<string>();
+  const visit = (id: string): string[] | null => {
+    const index = visiting.indexOf(id);
+    if (index !== -1) return [...visiting.slice(index), id];
+    if (done.has(id)) return null;
+    visiting.push(id);
+    for (const next of edges(id)) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    done.add(id);
+    return null;
+  };
+  return visit(taskId);
+}
+
+/**
+ * Validate a task's dependency list. Returns error messages (empty when valid).
+ */
+export function validateDependencies(
+  taskId: string,
+  dependencies: unknown,
+  tasks: TaskRef[]
+): string[] {
+  if (!Array.isArray(dependencies) || dependencies.some((id) => typeof id !== 'string')) {
+    return ['"dependencies" must be an array of task IDs'];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set(tasks.map((task) => task.id));
+  for (const id of dependencies as string[]) {
+    if (id === taskId) errors.push('A task cannot depend on itself');
+    else if (!ids.has(id)) errors.push(`Unknown prerequisite task: ${id}`);
+  }
+  if (errors.length > 0) return errors;
+
+  const cycle = findDependencyCycle(taskId, dependencies as string[], tasks);
+  if (cycle) {
+    const titles = new Map(tasks.map((task) => [task.id, task.title]));
+    errors.push(`Dependency cycle: ${cycle.map((id) => `"${titles.get(id) ?? id}"`).join(' → ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Prerequisites that are not done yet. Deleted prerequisites no longer block.
+ */
+export function getUnmetDependencies<T extends TaskRef>(task: TaskRef, tasks: T[]): T[] {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  return dependenciesOf(task)
+    .map((id) => byId.get(id))
+    .filter((dep): dep is T => dep !== undefined && dep.phase !== 'done');
+}
+
+export function formatUnmetDependencies(unmet: TaskRef[]): string {
+  return `Waiting for prerequisite${unmet.length === 1 ? '' : 's'}: ${unmet
+    .map((task) => `"${task.title}"`)
+    .join(', ')}`;
+}
+
+/**
+ * Dependents of `taskId` that have not started yet and have no other unmet prerequisites
+ */
+export function findReadyDependents(taskId: string, tasks: Task[]): Task[] {
+  return tasks.filter(
+    (task) =>
+      dependenciesOf(task).includes(taskId) &&
+      task.phase === 'planning' &&
+      task.status === 'pending' &&
+      !task.assignedAgent &&
+      (task.planningStatus ?? 'not_started') === 'not_started' &&
+      getUnmetDependencies(task, tasks).length === 0
+  );
+}
+
+/**
+ * Branch to base a dependent's worktree on: the most recently finished prerequisite's
+ */
+export function getDependencyBaseBranch(task: TaskRef, tasks: Task[]): string | undefined {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const prerequisites = dependenciesOf(task)
+    .map((id) => byId.get(id))
+    .filter((dep): dep is Task => dep !== undefined && !!dep.branchName)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  return prerequisites[0]?.branchName;
+}
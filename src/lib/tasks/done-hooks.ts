@@ -0,0 +1,35 @@
+/**
+ * Task completion hooks
+ *
+ * Side effects of a task reaching `done`, whether it was moved there by hand or its PR/MR
+ * merged: dependents waiting on it are started, and its linked issue is closed once the PR/MR
+ * has merged. Both run in the background; failures are logged.
+ */
+
+import { startReadyDependents } from '@/lib/agents/dependents';
+import { closeIssueOnMerge } from '@/lib/git/issues';
+import { getTaskPersistence } from './persistence';
+import type { Task } from './schema';
+
+export function runDoneHooks(task: Task, projectDir: string): void {
+  startReadyDependents(task, projectDir).catch((error) =>
+    console.error(`[Task ${task.id}] Failed to start dependents:`, error)
+  );
+  closeLinkedIssue(task, projectDir);
+}
+
+/**
+ * Close the task's linked issue once its PR/MR has merged. Also used on its own when the PR/MR
+ * merges after the task was already moved to done by hand.
+ */
+export function closeLinkedIssue(task: Task, projectDir: string): void {
+  closeIssueOnMerge(projectDir, task)
+    .then(async (closed) => {
+      if (!closed) return;
+      await getTaskPersistence(projectDir).updateTask(task.id, (current) => {
+        current.issueClosedAt = Date.now();
+      });
+      console.log(`[Task ${task.id}] Closed linked issue after merge`);
+    })
+    .catch((error) => console.error(`[Task ${task.id}] Failed to close linked issue:`, error));
+}
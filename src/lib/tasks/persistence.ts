@@ -8,6 +8,9 @@ import fs from 'fs/promises';
 import path from 'path';
 import { Task, WORKFLOW_PHASES } from './schema';
 
+/** Pending read-modify-write per task file, shared by every TaskPersistence instance */
+const taskUpdateChains = new Map<string, Promise<unknown>>();
+
 export class TaskPersistence {
   private readonly projectDir: string;
   private readonly tasksDir: string;
@@ -36,7 +39,8 @@ export class TaskPersistence {
   async saveTask(task: Task): Promise<void> {
     await this.ensureDir();
     const filePath = path.join(this.tasksDir, `${task.id}.json`);
-    await fs.writeFile(filePath, JSON.stringify(task, null, 2));
+    // queuePosition is live scheduler state, not part of the task
+    await fs.writeFile(filePath, JSON.stringify({ ...task, queuePosition: undefined }, null, 2));
 
     // Also update implementation_plan.json for Code-Automata compatibility
     await this.updateImplementationPlan();
@@ -58,6 +62,34 @@ export class TaskPersistence {
     }
   }
 
+  /**
+   * Load, modify and save a task with no other updateTask call on it in between.
+   * Use this wherever writers can overlap (parallel subtask agents completing together).
+   * Returns the saved task, or null when it doesn't exist.
+   */
+  async updateTask(
+    taskId: string,
+    mutate: (task: Task) => void | Promise<void>
+  ): Promise<Task | null> {
+    const key = path.join(this.tasksDir, `${taskId}.json`);
+    const previous = taskUpdateChains.get(key) ?? Promise.resolve();
+    const next = previous
+      .catch(() => {})
+      .then(async () => {
+        const task = await this.loadTask(taskId);
+        if (!task) return null;
+        await mutate(task);
+        await this.saveTask(task);
+        return task;
+      });
+    taskUpdateChains.set(key, next);
+    try {
+      return await next;
+    } finally {
+      if (taskUpdateChains.get(key) === next) taskUpdateChains.delete(key);
+    }
+  }
+
   /**
    * List all tasks
    */
@@ -16,6 +16,8 @@ export type WorkflowPhase = (typeof WORKFLOW_PHASES)[number];
 
 export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'blocked' | 'planning';
 
+export type HostingProvider = 'github' | 'gitlab';
+
 export type PlanningStatus =
   | 'not_started'
   | 'generating_questions'
@@ -68,13 +70,26 @@ export interface Task {
 
   // Execution
   assignedAgent?: string; // Thread ID if agent is working on this
+  interruption?: TaskInterruption; // Set when the agent was lost (e.g. server crash/restart)
+  queuePosition?: number; // Not persisted: set by /api/tasks/list while a run waits for a scheduler slot
+  blockedReason?: string; // Why the task was blocked automatically (e.g. budget exceeded)
   worktreePath?: string;
   branchName?: string; // code-automata/{task-name}
+  worktreeSetup?: WorktreeSetupResult; // Result of the worktree bootstrap hooks
+  checkpointBase?: string; // Worktree commit before the first dev subtask (rollback target)
+  qaFixRounds?: QAFixRound[]; // Automatic fix rounds after failed QA, oldest first
+  verification?: VerificationRun; // Latest run of the project's verification commands
+  reviewComments?: ReviewComment[]; // Line comments from "Request changes" in human review
+  usage?: TaskUsage; // Token/cost/time totals of all agent runs on this task
 
   // Integrations
-  githubIssue?: number;
-  gitlabIssue?: number;
+  githubIssue?: number; // Issue the task was imported from (GitHub repos)
+  gitlabIssue?: number; // Issue iid the task was imported from (GitLab projects)
+  issueClosedAt?: number; // When the linked issue was closed after the PR/MR merged
   mergeRequestUrl?: string; // GitHub PR / GitLab MR URL (if created)
+  mergeRequestProvider?: HostingProvider; // Where mergeRequestUrl lives
+  mergeRequestStatus?: MergeRequestStatus; // Last synced state of the PR/MR
+  localMerge?: LocalMerge; // Set when the branch was merged into main locally (no PR/MR)
 
   // Timestamps
   createdAt: number;
@@ -89,12 +104,124 @@ export interface Subtask {
   status: TaskStatus;
   type: 'dev' | 'qa'; // Development or QA verification subtask
   activeForm?: string; // e.g., "Running tests" when in_progress
+  dependsOn?: string[]; // Dev subtasks that must complete first; omitted = the previous dev subtask
+  files?: string[]; // Files/directories it expects to touch; omitted = may touch anything
+  checkpoint?: string; // Worktree commit made when the (dev) subtask completed
+  verdict?: QAVerdict; // Result reported by the QA agent (qa subtasks)
+  fixRound?: number; // Set on dev subtasks generated by a QA fix round
+  reviewRound?: number; // Set on dev subtasks generated from human review comments
+  completedAt?: number;
+  usage?: UsageTotals; // Agent runs spent on this subtask (including retries)
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number; // Agent wall time
+  toolCalls: number;
+  runs: number;
+}
+
+export interface TaskUsage {
+  total: UsageTotals;
+  byPhase: Partial<Record<WorkflowPhase, UsageTotals>>;
+}
+
+export interface QAVerdict {
+  verdict: 'pass' | 'fail';
+  findings: string[]; // What is wrong (fail) or what was checked (pass)
+  failingCommands: string[]; // Commands that failed, e.g. "npm test -- auth"
+}
+
+export interface QAFixRound {
+  round: number; // 1-based
+  startedAt: number;
   completedAt?: number;
+  failed: Array<{ subtaskId: string; label: string } & Omit<QAVerdict, 'verdict'>>;
+  verification?: VerificationResult[]; // Failed verification commands that started the round
+  fixSubtaskIds: string[]; // Dev subtasks generated for this round
+  outcome: 'fixing' | 'passed' | 'failed'; // failed = QA still failed after the fixes
+}
+
+export interface VerificationResult {
+  name: string;
+  command: string;
+  exitCode: number | null; // null when the command could not be started
+  expectedExitCode: number;
+  timedOut: boolean;
+  durationMs: number;
+  passed: boolean;
+  outputTail: string; // Last lines of output (full output is in the review logs)
+}
+
+export interface VerificationRun {
+  stage: 'after_dev' | 'after_qa';
+  startedAt: number;
+  completedAt: number;
+  passed: boolean;
+  results: VerificationResult[];
+}
+
+/**
+ * State of a task's PR/MR on the code host, synced by /api/git/sync-mr
+ */
+export interface MergeRequestStatus {
+  state: 'open' | 'merged' | 'closed';
+  reviewDecision?: 'approved' | 'changes_requested' | 'review_required';
+  checks?: 'passing' | 'failing' | 'pending'; // CI checks / pipeline of the head commit
+  syncedAt: number;
+}
+
+export type LocalMergeStrategy = 'fast-forward' | 'squash' | 'merge';
+
+/**
+ * A task branch merged into the main branch of the local repository, by /api/git/merge
+ */
+export interface LocalMerge {
+  strategy: LocalMergeStrategy;
+  into: string; // Main branch
+  commit: string; // Main branch HEAD after the merge
+  mergedAt: number;
+}
+
+export interface ReviewComment {
+  id: string;
+  round: number; // "Request changes" round (1-based)
+  path: string; // File in the task branch (old path for comments on deleted files)
+  line: number;
+  side: 'old' | 'new'; // Line number in the base version (deleted line) or in the branch
+  lineContent?: string; // The commented line, as shown in the diff
+  body: string;
+  createdAt: number;
+  subtaskId: string; // Dev subtask that addresses the comment
+}
+
+export interface WorktreeSetupStep {
+  name: string; // e.g. "copy .env", "install", "script 1"
+  ok: boolean;
+  error?: string;
+}
+
+export interface WorktreeSetupResult {
+  status: 'succeeded' | 'failed';
+  startedAt: number;
+  completedAt: number;
+  steps: WorktreeSetupStep[];
+}
+
+export interface TaskInterruption {
+  reason: string;
+  interruptedAt: number;
+  phase: WorkflowPhase;
+  threadId?: string; // Thread that was running when the agent was lost
+  subtaskId?: string; // First unfinished subtask of the phase (where to continue from)
 }
 
 export interface TaskMetadata {
   estimatedComplexity?: 'low' | 'medium' | 'high';
-  dependencies?: string[]; // Other task IDs
+  dependencies?: string[]; // Prerequisite task IDs; the task starts once all are done
+  baseOnDependency?: boolean; // Branch the worktree from the last finished prerequisite
   tags?: string[];
   isTestData?: boolean; // Flag to mark test data for e2e cleanup
 }
@@ -148,3 +275,13 @@ export function getPreviousPhase(currentPhase: WorkflowPhase): WorkflowPhase | n
   }
   return WORKFLOW_PHASES[currentIndex - 1];
 }
+
+/**
+ * Helper to check whether a task's PR/MR status can still change: open (or never synced),
+ * or merged while the task has not reached done yet
+ */
+export function needsMergeRequestSync(task: Task): boolean {
+  if (!task.mergeRequestUrl) return false;
+  const state = task.mergeRequestStatus?.state;
+  return !state || state === 'open' || (state === 'merged' && task.phase !== 'done');
+}
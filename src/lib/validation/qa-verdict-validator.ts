@@ -0,0 +1,92 @@
+/**
+ * QA Verdict Validator
+ *
+ * QA agents end their output with a JSON verdict:
+ * { "verdict": "pass" | "fail", "findings": [...], "failingCommands": [...] }
+ * This extracts the verdict from the agent output and validates it, with feedback in the
+ * same format as the subtask validator.
+ */
+
+import type { QAVerdict } from '@/lib/tasks/schema';
+import { extractAndValidateJSON, type ValidationResult } from './subtask-validator';
+
+/**
+ * Validate a parsed QA verdict
+ */
+export function validateQAVerdict(data: unknown): ValidationResult {
+  const errors: ValidationResult['errors'] = [];
+  const warnings: string[] = [];
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    errors.push({ field: 'root', issue: 'Expected a JSON object with a "verdict" field' });
+    return { valid: false, errors, warnings };
+  }
+  const d = data as Record<string, unknown>;
+
+  if (d.verdict !== 'pass' && d.verdict !== 'fail') {
+    errors.push({
+      field: 'verdict',
+      issue: `Invalid "verdict" value ${JSON.stringify(d.verdict)}. Must be "pass" or "fail".`,
+    });
+  }
+
+  for (const field of ['findings', 'failingCommands'] as const) {
+    const value = d[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+      errors.push({
+        field,
+        issue: `Invalid "${field}" (must be an array of non-empty strings)`,
+      });
+    }
+  }
+
+  if (d.verdict === 'fail' && !(Array.isArray(d.findings) && d.findings.length > 0)) {
+    errors.push({
+      field: 'findings',
+      issue: 'A "fail" verdict needs at least one finding describing what is wrong',
+    });
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Find the verdict in QA agent output: the last JSON object that has a "verdict" field
+ * (agents often print other JSON, e.g. test reports, before it)
+ */
+export function extractQAVerdict(output: string): {
+  verdict: QAVerdict | null;
+  result: ValidationResult;
+} {
+  let index = output.lastIndexOf('"verdict"');
+  while (index !== -1) {
+    const start = output.lastIndexOf('{', index);
+    if (start === -1) break;
+    const { data } = extractAndValidateJSON(output.slice(start));
+    if (data && typeof data === 'object' && 'verdict' in data) {
+      const result = validateQAVerdict(data);
+      const parsed = data as Partial<QAVerdict>;
+      return {
+        verdict: result.valid
+          ? {
+              verdict: parsed.verdict!,
+              findings: parsed.findings ?? [],
+              failingCommands: parsed.failingCommands ?? [],
+            }
+          : null,
+        result,
+      };
+    }
+    index = output.lastIndexOf('"verdict"', index - 1);
+  }
+
+  return {
+    verdict: null,
+    result: {
+      valid: false,
+      errors: [{ field: 'root', issue: 'No JSON object with a "verdict" field found in output' }],
+      warnings: [],
+    },
+  };
+}
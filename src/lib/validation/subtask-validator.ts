@@ -128,6 +128,49 @@ export function validateSubtasks(data: unknown): ValidationResult {
       });
     }
 
+    // Optional: dependsOn (IDs of subtasks that must complete first)
+    if (subtask.dependsOn !== undefined) {
+      if (
+        !Array.isArray(subtask.dependsOn) ||
+        subtask.dependsOn.some((id: unknown) => typeof id !== 'string')
+      ) {
+        errors.push({
+          field: `subtasks[${i}].dependsOn`,
+          issue: 'Invalid "dependsOn" (must be an array of subtask IDs)',
+          subtaskId,
+        });
+      } else {
+        for (const id of subtask.dependsOn as string[]) {
+          if (id === subtask.id) {
+            errors.push({
+              field: `subtasks[${i}].dependsOn`,
+              issue: 'A subtask cannot depend on itself',
+              subtaskId,
+            });
+          } else if (!d.subtasks.some((s: { id?: unknown } | null) => s?.id === id)) {
+            errors.push({
+              field: `subtasks[${i}].dependsOn`,
+              issue: `Unknown subtask ID "${id}" in "dependsOn"`,
+              subtaskId,
+            });
+          }
+        }
+      }
+    }
+
+    // Optional: files (paths the subtask expects to touch)
+    if (
+      subtask.files !== undefined &&
+      (!Array.isArray(subtask.files) ||
+        subtask.files.some((f: unknown) => typeof f !== 'string' || !f.trim()))
+    ) {
+      errors.push({
+        field: `subtasks[${i}].files`,
+        issue: 'Invalid "files" (must be an array of non-empty file paths)',
+        subtaskId,
+      });
+    }
+
     // Check for duplicate IDs
     if (
       subtask.id &&
@@ -157,6 +200,16 @@ export function validateSubtasks(data: unknown): ValidationResult {
     }
   }
 
+  if (errors.length === 0) {
+    const cycle = findDependsOnCycle(d.subtasks);
+    if (cycle) {
+      errors.push({
+        field: 'subtasks',
+        issue: `"dependsOn" forms a cycle: ${cycle.join(' → ')}`,
+      });
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -164,6 +217,35 @@ export function validateSubtasks(data: unknown): ValidationResult {
   };
 }
 
+/**
+ * Find a cycle in the subtasks' `dependsOn` edges; returns the IDs (first === last) or null
+ */
+function findDependsOnCycle(subtasks: { id: string; dependsOn?: string[] }[]): string[] | null {
+  const edges = new Map(subtasks.map((s) => [s.id, s.dependsOn ?? []]));
+  const visiting: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    const index = visiting.indexOf(id);
+    if (index !== -1) return [...visiting.slice(index), id];
+    if (done.has(id)) return null;
+    visiting.push(id);
+    for (const next of edges.get(id) ?? []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    done.add(id);
+    return null;
+  };
+
+  for (const subtask of subtasks) {
+    const cycle = visit(subtask.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
 /**
  * Generate human-readable feedback for validation errors
  * This is sent back to the agent to fix the format
@@ -205,6 +287,8 @@ export function generateValidationFeedback(result: ValidationResult): string {
               label: 'Short label',
               activeForm: 'Optional: present continuous form',
               type: 'Optional: "dev" or "qa"',
+              dependsOn: ['Optional: IDs of subtasks that must complete first'],
+              files: ['Optional: files/directories this subtask will touch'],
             },
           ],
         },